@@ -1,5 +1,5 @@
-import React, { useState, useEffect } from 'react';
-import { AppView, Rubric, Assignee, Assessment, UserRole } from './types';
+import React, { useState, useEffect, useRef } from 'react';
+import { AppView, Rubric, Assignee, Assessment, AuditSource, GradeEntry, GradeScale, IntegrityNote, PromptTemplate, UserRole, WorkspaceData } from './types';
 import { RubricEditor } from './components/RubricEditor';
 import { SubjectAssignment } from './components/SubjectAssignment';
 import { StudentManager } from './components/StudentManager';
@@ -8,6 +8,21 @@ import { ExportView } from './components/ExportView';
 import { StudentPeerEval } from './components/StudentPeerEval';
 import { Login } from './components/Login';
 import { Icon } from './components/Icon';
+import { SyncPanel } from './components/SyncPanel';
+import { AiSettingsPanel } from './components/AiSettingsPanel';
+import { PromptTemplateEditor } from './components/PromptTemplateEditor';
+import { AiUsagePanel } from './components/AiUsagePanel';
+import { ModerationView } from './components/ModerationView';
+import { createBackup, parseBackup, formatBackupIssues, CURRENT_BACKUP_VERSION } from './services/backupService';
+import { createWorkspaceStore, diffWorkspace, hasChanges, getStorageUsage, isNearQuota, isQuotaError } from './services/workspaceStorage';
+import { syncWorkspace, rebaseWorkspace, loadSyncState, resolveSyncConflict } from './services/syncService';
+import { SyncConflict } from './services/workspaceMerge';
+import { EMPTY_HISTORY, HistoryState, createHistoryEntry, recordHistory, undoHistory, redoHistory } from './services/historyService';
+import { AuditActor, diffAssessment, withAuditTrail, mergeAuditLogs } from './services/auditService';
+import { getCourseKey, resolveGradeScale } from './services/gradeScales';
+import { setAiSessionToken, setAiUsageUser, setWorkspacePromptTemplates } from './services/geminiService';
+import { AiBudgetStatus, getBudgetStatus, saveAiQuota, subscribeToAiUsage } from './services/aiUsage';
+import { resolvePrompt } from './services/promptTemplates';
 
 const INITIAL_RUBRIC: Rubric = {
   id: 'default',
@@ -21,10 +36,16 @@ const INITIAL_RUBRIC: Rubric = {
   type: 'individual'
 };
 
+const workspaceStore = createWorkspaceStore();
+
+// Entries without their rationales, to tell score changes apart from rationale edits
+const scoresOf = (entries: GradeEntry[] = []) => JSON.stringify(entries.map(({ rationale, rationaleSource, ...score }) => score));
+
 function App() {
   const [userRole, setUserRole] = useState<UserRole | null>(null);
   const [userName, setUserName] = useState<string>('');
   const [userId, setUserId] = useState<string>(''); // Added for data isolation
+  const [sessionToken, setSessionToken] = useState<string>(''); // Verified-email session for server sync
 
   const [currentView, setCurrentView] = useState<AppView>(AppView.DASHBOARD);
   
@@ -33,54 +54,116 @@ function App() {
   const [currentRubricId, setCurrentRubricId] = useState<string>(INITIAL_RUBRIC.id);
   const [assignees, setAssignees] = useState<Assignee[]>([]);
   const [assessments, setAssessments] = useState<Record<string, Assessment>>({});
+  const [gradeScales, setGradeScales] = useState<GradeScale[]>([]);
+  const [promptTemplates, setPromptTemplates] = useState<PromptTemplate[]>([]);
 
   const rubric = rubrics.find(r => r.id === currentRubricId) || INITIAL_RUBRIC;
+
+  // Latest workspace, readable from async callbacks that outlive the render they started in
+  const workspaceRef = useRef<WorkspaceData>({ rubrics, assignees, assessments, gradeScales, promptTemplates, currentRubricId });
+  workspaceRef.current = { rubrics, assignees, assessments, gradeScales, promptTemplates, currentRubricId };
+
+  // Server Sync State
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [syncError, setSyncError] = useState<string | null>(null);
+  const [lastSyncedAt, setLastSyncedAt] = useState<number | null>(null);
+  const [syncConflicts, setSyncConflicts] = useState<SyncConflict[]>([]);
+
+  // Undo/Redo History (per session, cleared on login/logout)
+  const [history, setHistory] = useState<HistoryState>(EMPTY_HISTORY);
   
-  // Persist data whenever it changes, if a user is logged in
+  // Persistence: only what changed since the last save is written, once the user's data has loaded
+  const [loadedUserId, setLoadedUserId] = useState<string>('');
+  const [storageWarning, setStorageWarning] = useState<string | null>(null);
+  const [aiBudget, setAiBudget] = useState<AiBudgetStatus | null>(null);
+  const persistedRef = useRef<WorkspaceData | null>(null);
+  const saveQueueRef = useRef<Promise<void>>(Promise.resolve());
+  // Who is signed in right now, so a load that finishes after a sign-out or switch is dropped
+  const signedInRef = useRef<string>('');
+
+  // AI calls pick up the workspace default prompts without every caller passing them
+  useEffect(() => {
+    setWorkspacePromptTemplates(promptTemplates);
+  }, [promptTemplates]);
+
+  // Budget warnings follow every metered AI call
   useEffect(() => {
-    if (userId) {
-        const storageKey = `smartgrade_data_${userId}`;
-        const dataToSave = {
-            rubrics,
-            assignees,
-            assessments,
-            currentRubricId
-        };
-        localStorage.setItem(storageKey, JSON.stringify(dataToSave));
+    if (!userId) {
+      setAiBudget(null);
+      return;
     }
-  }, [rubrics, assignees, assessments, currentRubricId, userId]);
+    const refresh = () => setAiBudget(getBudgetStatus(userId));
+    refresh();
+    return subscribeToAiUsage(refresh);
+  }, [userId]);
 
-  const handleLogin = (role: UserRole, label: string, email: string) => {
+  useEffect(() => {
+    if (!userId || loadedUserId !== userId) return;
+
+    const next: WorkspaceData = { rubrics, assignees, assessments, gradeScales, promptTemplates, currentRubricId };
+    const previous = persistedRef.current;
+    const changes = diffWorkspace(previous, next);
+    if (!hasChanges(changes)) return;
+    persistedRef.current = next;
+
+    saveQueueRef.current = saveQueueRef.current
+      .then(() => workspaceStore.save(userId, changes))
+      .then(async () => {
+          const usage = await getStorageUsage();
+          setStorageWarning(isNearQuota(usage)
+              ? 'Browser storage is almost full. Export a backup and remove old assignments or submissions to keep saving.'
+              : null);
+      })
+      .catch((e) => {
+          console.error("Failed to save user data", e);
+          // Roll back so the next change re-sends everything that did not make it to disk
+          persistedRef.current = previous;
+          setStorageWarning(isQuotaError(e)
+              ? 'Browser storage is full. Your latest changes are NOT saved. Export a backup now and free up space.'
+              : 'Your latest changes could not be saved on this device. Export a backup to avoid losing work.');
+      });
+  }, [rubrics, assignees, assessments, gradeScales, promptTemplates, currentRubricId, userId, loadedUserId]);
+
+  const applyWorkspace = (data: WorkspaceData | null) => {
+      const loadedRubrics = data && data.rubrics.length > 0 ? data.rubrics : [INITIAL_RUBRIC];
+      setRubrics(loadedRubrics);
+      setAssignees(data?.assignees || []);
+      setAssessments(data?.assessments || {});
+      setGradeScales(data?.gradeScales || []);
+      setPromptTemplates(data?.promptTemplates || []);
+      setCurrentRubricId(loadedRubrics.some(r => r.id === data?.currentRubricId) ? data!.currentRubricId : loadedRubrics[0].id);
+      // Only an untouched load is known to be on disk already; defaults still need a first write
+      persistedRef.current = data && data.rubrics.length > 0 ? data : null;
+  };
+
+  const handleLogin = (role: UserRole, label: string, email: string, token?: string) => {
       setUserRole(role);
       setUserName(label); // Display Name (Role Label)
       setUserId(email);   // Storage Key
-
-      // Attempt to load data for this specific user
-      const storageKey = `smartgrade_data_${email}`;
-      const savedData = localStorage.getItem(storageKey);
-
-      if (savedData) {
-          try {
-              const parsed = JSON.parse(savedData);
-              setRubrics(parsed.rubrics || [INITIAL_RUBRIC]);
-              setAssignees(parsed.assignees || []);
-              setAssessments(parsed.assessments || {});
-              setCurrentRubricId(parsed.currentRubricId || (parsed.rubrics ? parsed.rubrics[0].id : INITIAL_RUBRIC.id));
-          } catch (e) {
+      signedInRef.current = email;
+      setSessionToken(token || '');
+      setAiSessionToken(token || '');
+      setAiUsageUser(email);
+      setLoadedUserId('');
+      setSyncError(null);
+      const syncState = loadSyncState(email);
+      setSyncConflicts(syncState.conflicts);
+      setLastSyncedAt(syncState.lastSyncedAt);
+      setHistory(EMPTY_HISTORY);
+
+      // Attempt to load data for this specific user (migrates the old localStorage blob on first load)
+      workspaceStore.load(email)
+          .then((data) => {
+              if (signedInRef.current === email) applyWorkspace(data);
+          })
+          .catch((e) => {
               console.error("Failed to load user data", e);
               // Fallback to defaults if corrupt
-              setRubrics([INITIAL_RUBRIC]);
-              setAssignees([]);
-              setAssessments({});
-              setCurrentRubricId(INITIAL_RUBRIC.id);
-          }
-      } else {
-          // New User or No Data found: Start Fresh
-          setRubrics([INITIAL_RUBRIC]);
-          setAssignees([]);
-          setAssessments({});
-          setCurrentRubricId(INITIAL_RUBRIC.id);
-      }
+              if (signedInRef.current === email) applyWorkspace(null);
+          })
+          .finally(() => {
+              if (signedInRef.current === email) setLoadedUserId(email);
+          });
 
       // Determine default view based on role
       if (role === 'ASSESSOR') {
@@ -94,15 +177,125 @@ function App() {
       setUserRole(null);
       setUserName('');
       setUserId('');
+      signedInRef.current = '';
+      setSessionToken('');
+      setAiSessionToken('');
+      setAiUsageUser('');
+      setSyncConflicts([]);
+      setHistory(EMPTY_HISTORY);
+      setLoadedUserId('');
+      setStorageWarning(null);
+      persistedRef.current = null;
       setCurrentView(AppView.DASHBOARD);
       // Clear sensitive state from memory on logout
       setRubrics([INITIAL_RUBRIC]);
       setAssignees([]);
       setAssessments({});
+      setGradeScales([]);
+      setPromptTemplates([]);
+  };
+
+  // --- Undoable Edits ---
+
+  const setWorkspace = (next: WorkspaceData) => {
+      workspaceRef.current = next; // Lets several edits in the same tick build on each other
+      setRubrics(next.rubrics);
+      setAssignees(next.assignees);
+      setAssessments(next.assessments);
+      setGradeScales(next.gradeScales);
+      setPromptTemplates(next.promptTemplates);
+      setCurrentRubricId(next.currentRubricId);
+  };
+
+  // Applies an edit and records it in the undo history. Edits sharing a mergeKey (typing) coalesce.
+  const commitChange = (label: string, update: (current: WorkspaceData) => WorkspaceData, mergeKey?: string) => {
+      const before = workspaceRef.current;
+      const after = update(before);
+      const entry = createHistoryEntry(label, before, after, mergeKey);
+      if (!entry) return;
+      setHistory(prev => recordHistory(prev, entry));
+      setWorkspace(after);
   };
 
+  // Who is acting, for the assessment audit trail
+  const auditActor: AuditActor = { name: userName, role: userRole || 'ASSESSOR' };
+
+  // Undo restores older copies of assessments; their audit logs must still grow, never shrink
+  const auditRestored = (current: WorkspaceData, restored: WorkspaceData, note: string): WorkspaceData => {
+      const assessments = { ...restored.assessments };
+      Object.values(restored.assessments).forEach(a => {
+          const previous = current.assessments[a.id];
+          if (previous && previous !== a) assessments[a.id] = withAuditTrail(previous, a, auditActor, 'HUMAN', note);
+      });
+      return { ...restored, assessments };
+  };
+
+  // Finalized grades may only be reopened by a teacher, including by undoing the finalize step
+  const unlocksAny = (current: WorkspaceData, restored: WorkspaceData) =>
+      Object.values(restored.assessments).some(a => !a.locked && current.assessments[a.id]?.locked);
+
+  const handleUndo = () => {
+      const result = undoHistory(history, workspaceRef.current);
+      if (!result) return;
+      if (userRole !== 'TEACHER' && unlocksAny(workspaceRef.current, result.workspace)) {
+          alert("Only teachers can unlock finalized grades.");
+          return;
+      }
+      const label = history.past[history.past.length - 1].label;
+      setHistory(result.history);
+      setWorkspace(auditRestored(workspaceRef.current, result.workspace, `Undo: ${label}`));
+  };
+
+  const handleRedo = () => {
+      const result = redoHistory(history, workspaceRef.current);
+      if (!result) return;
+      if (userRole !== 'TEACHER' && unlocksAny(workspaceRef.current, result.workspace)) {
+          alert("Only teachers can unlock finalized grades.");
+          return;
+      }
+      const label = history.future[0].label;
+      setHistory(result.history);
+      setWorkspace(auditRestored(workspaceRef.current, result.workspace, `Redo: ${label}`));
+  };
+
+  // Keyboard shortcuts: Ctrl/Cmd+Z, Ctrl/Cmd+Shift+Z and Ctrl+Y. Text fields keep their native undo.
+  const shortcutRef = useRef({ undo: handleUndo, redo: handleRedo });
+  shortcutRef.current = { undo: handleUndo, redo: handleRedo };
+  const shortcutsEnabled = !!userRole && currentView !== AppView.PEER_KIOSK;
+
+  useEffect(() => {
+      if (!shortcutsEnabled) return;
+      const onKeyDown = (e: KeyboardEvent) => {
+          if (!(e.ctrlKey || e.metaKey)) return;
+          const target = e.target as HTMLElement | null;
+          if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+
+          const key = e.key.toLowerCase();
+          if (key === 'z' && !e.shiftKey) {
+              e.preventDefault();
+              shortcutRef.current.undo();
+          } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+              e.preventDefault();
+              shortcutRef.current.redo();
+          }
+      };
+      window.addEventListener('keydown', onKeyDown);
+      return () => window.removeEventListener('keydown', onKeyDown);
+  }, [shortcutsEnabled]);
+
   const handleUpdateRubric = (updated: Rubric) => {
-      setRubrics(prev => prev.map(r => r.id === updated.id ? updated : r));
+      commitChange('Edit rubric', ws => ({
+          ...ws,
+          rubrics: ws.rubrics.map(r => r.id === updated.id ? updated : r)
+      }), `rubric:${updated.id}`);
+  };
+
+  // The feedback language is a course setting, kept on every assignment of the course
+  const handleSetCourseLanguage = (courseKey: string, language: string) => {
+      commitChange('Set feedback language', ws => ({
+          ...ws,
+          rubrics: ws.rubrics.map(r => getCourseKey(r) === courseKey ? { ...r, feedbackLanguage: language || undefined } : r)
+      }));
   };
 
   const handleCreateRubric = () => {
@@ -113,10 +306,14 @@ function App() {
           subject: rubric.subject, // Inherit subject code
           plos: rubric.plos, // Inherit PLOs/CLOs potentially useful
           clos: rubric.clos,
+          feedbackLanguage: rubric.feedbackLanguage,
           type: 'individual'
       };
-      setRubrics([...rubrics, newRubric]);
-      setCurrentRubricId(newRubric.id);
+      commitChange('Add assignment', ws => ({
+          ...ws,
+          rubrics: [...ws.rubrics, newRubric],
+          currentRubricId: newRubric.id
+      }));
   };
 
   const handleDeleteRubric = (id: string) => {
@@ -125,11 +322,14 @@ function App() {
           return;
       }
       if (confirm("Are you sure? This will delete the assignment rubric and all associated grades.")) {
-          const newRubrics = rubrics.filter(r => r.id !== id);
-          setRubrics(newRubrics);
-          if (currentRubricId === id) {
-              setCurrentRubricId(newRubrics[0].id);
-          }
+          commitChange('Delete assignment', ws => {
+              const newRubrics = ws.rubrics.filter(r => r.id !== id);
+              return {
+                  ...ws,
+                  rubrics: newRubrics,
+                  currentRubricId: ws.currentRubricId === id ? newRubrics[0].id : ws.currentRubricId
+              };
+          });
       }
   };
 
@@ -145,26 +345,183 @@ function App() {
           return;
       }
       
-      if (confirm(`Are you sure you want to delete "${subjectKey}" and all ${rubricsInSubject.length} assignments inside it? This action cannot be undone.`)) {
+      if (confirm(`Are you sure you want to delete "${subjectKey}" and all ${rubricsInSubject.length} assignments inside it? You can restore it with Undo.`)) {
           const idsToDelete = new Set(rubricsInSubject.map(r => r.id));
-          const newRubrics = rubrics.filter(r => !idsToDelete.has(r.id));
-          setRubrics(newRubrics);
-          
-          // Determine new current ID if the current one was deleted
-          if (idsToDelete.has(currentRubricId)) {
-             // pick first available
-             if (newRubrics.length > 0) {
-                 setCurrentRubricId(newRubrics[0].id);
-             }
-          }
+          commitChange(`Delete ${subjectKey}`, ws => {
+              const newRubrics = ws.rubrics.filter(r => !idsToDelete.has(r.id));
+              return {
+                  ...ws,
+                  rubrics: newRubrics,
+                  // Determine new current ID if the current one was deleted
+                  currentRubricId: idsToDelete.has(ws.currentRubricId) && newRubrics.length > 0 ? newRubrics[0].id : ws.currentRubricId
+              };
+          });
+      }
+  };
+
+  const handleSetAssignees = (list: Assignee[]) => {
+      commitChange('Edit student list', ws => ({ ...ws, assignees: list }));
+  };
+
+  const handleSetGradeScales = (list: GradeScale[]) => {
+      commitChange('Edit grade scales', ws => ({ ...ws, gradeScales: list }), 'gradeScales');
+  };
+
+  const handleSetPromptTemplates = (list: PromptTemplate[]) => {
+      commitChange('Edit prompt templates', ws => ({ ...ws, promptTemplates: list }));
+  };
+
+  const describeAssessmentChange = (previous: Assessment | undefined, next: Assessment): { label: string; mergeKey?: string } => {
+      if (!previous) return { label: 'Start grading' };
+      if (scoresOf(previous.entries) !== scoresOf(next.entries)) return { label: 'Change score' };
+      if (JSON.stringify(previous.entries) !== JSON.stringify(next.entries)) return { label: 'Edit rationale', mergeKey: `rationale:${next.id}` };
+      if (previous.feedback !== next.feedback) return { label: 'Edit feedback', mergeKey: `feedback:${next.id}` };
+      if (previous.submissionText !== next.submissionText) return { label: 'Edit submission', mergeKey: `submission:${next.id}` };
+      if (previous.submittedAt !== next.submittedAt) return { label: 'Set submission time' };
+      if (previous.peerEvaluations !== next.peerEvaluations) return { label: 'Peer evaluation' };
+      if (previous.markings !== next.markings) {
+          const assessorIds = Object.keys({ ...previous.markings, ...next.markings });
+          const rationaleOnly = assessorIds.every(id => scoresOf(previous.markings?.[id]?.entries) === scoresOf(next.markings?.[id]?.entries));
+          return rationaleOnly ? { label: 'Edit rationale', mergeKey: `rationale:${next.id}` } : { label: 'Change independent mark' };
       }
+      if (previous.aiReview && !next.aiReview) return { label: 'Confirm AI grades' };
+      return { label: 'Update assessment' };
   };
 
-  const handleUpdateAssessment = (id: string, assessment: Assessment) => {
-    setAssessments(prev => ({
-      ...prev,
-      [id]: assessment
-    }));
+  const handleUpdateAssessment = (id: string, assessment: Assessment, source: AuditSource = 'HUMAN') => {
+    // Locked records only change through handleSetLocked; this also stops AI and peer-eval writes
+    if (workspaceRef.current.assessments[id]?.locked) return;
+    const { label, mergeKey } = describeAssessmentChange(workspaceRef.current.assessments[id], assessment);
+    commitChange(label, ws => ({
+      ...ws,
+      assessments: { ...ws.assessments, [id]: withAuditTrail(ws.assessments[id], assessment, auditActor, source) }
+    }), mergeKey);
+  };
+
+  // Saves several assessments as one undo step (moderation, imports). Locked records are skipped.
+  const handleUpdateAssessments = (label: string, updates: Assessment[], source: AuditSource = 'HUMAN') => {
+      commitChange(label, ws => {
+          const assessments = { ...ws.assessments };
+          updates.forEach(a => {
+              if (assessments[a.id]?.locked) return;
+              assessments[a.id] = withAuditTrail(assessments[a.id], a, auditActor, source);
+          });
+          return { ...ws, assessments };
+      });
+  };
+
+  // Marks or unmarks a calibration exemplar. Allowed on finalized records: only the flag changes.
+  const handleSetExemplar = (id: string, marked: boolean) => {
+      if (userRole !== 'TEACHER') {
+          alert("Only teachers can choose calibration exemplars.");
+          return;
+      }
+      const now = Date.now();
+      commitChange(marked ? 'Mark calibration exemplar' : 'Remove calibration exemplar', ws => {
+          const current = ws.assessments[id];
+          if (!current || !!current.exemplar === marked) return ws;
+          return {
+              ...ws,
+              assessments: {
+                  ...ws.assessments,
+                  [id]: withAuditTrail(current, {
+                      ...current,
+                      exemplar: marked ? { markedAt: now, markedBy: userName } : undefined,
+                      lastUpdated: now
+                  }, auditActor, 'HUMAN')
+              }
+          };
+      });
+  };
+
+  // Records, replaces or (with an empty note) removes an academic-integrity note. Allowed on
+  // finalized records: grades do not change.
+  const handleSetIntegrityNote = (id: string, note: Omit<IntegrityNote, 'recordedAt' | 'recordedBy'> | null) => {
+      if (userRole !== 'TEACHER') {
+          alert("Only teachers can record academic-integrity notes.");
+          return;
+      }
+      const now = Date.now();
+      const text = note?.note.trim();
+      commitChange(text ? 'Record integrity note' : 'Remove integrity note', ws => {
+          const current = ws.assessments[id];
+          if (!current || (current.integrityNote?.note || '') === (text || '')) return ws;
+          return {
+              ...ws,
+              assessments: {
+                  ...ws.assessments,
+                  [id]: withAuditTrail(current, {
+                      ...current,
+                      integrityNote: text ? { ...note, note: text, recordedAt: now, recordedBy: userName } : undefined,
+                      lastUpdated: now
+                  }, auditActor, 'HUMAN')
+              }
+          };
+      });
+  };
+
+  // Finalizes (locks) or reopens assessments. Ungraded students have no record and stay open.
+  const handleSetLocked = (ids: string[], locked: boolean, reason?: string) => {
+      if (!locked && userRole !== 'TEACHER') {
+          alert("Only teachers can unlock finalized grades.");
+          return;
+      }
+      if (!locked && !reason?.trim()) {
+          alert("A reason is required to unlock grades.");
+          return;
+      }
+      const now = Date.now();
+      commitChange(locked ? 'Finalize grades' : 'Unlock grades', ws => {
+          const assessments = { ...ws.assessments };
+          ids.forEach(id => {
+              const current = assessments[id];
+              if (!current || current.locked === locked) return;
+              assessments[id] = withAuditTrail(current, {
+                  ...current,
+                  locked,
+                  lockedAt: locked ? now : undefined,
+                  lockedBy: locked ? userName : undefined,
+                  lastUpdated: now
+              }, auditActor, 'HUMAN', locked ? undefined : `Reason: ${reason!.trim()}`);
+          });
+          return { ...ws, assessments };
+      });
+  };
+
+  // --- Server Sync ---
+
+  const handleSync = async () => {
+      if (!sessionToken || isSyncing) return;
+      const sent = workspaceRef.current;
+      setIsSyncing(true);
+      setSyncError(null);
+      try {
+          const outcome = await syncWorkspace(userId, sessionToken, sent);
+          // Sync results are not undoable: undo entries patch individual records, so they stay valid on top
+          setWorkspace(rebaseWorkspace(outcome.workspace, sent, workspaceRef.current));
+          setSyncConflicts(outcome.conflicts);
+          setLastSyncedAt(outcome.state.lastSyncedAt);
+      } catch (e: any) {
+          console.error("Sync failed", e);
+          setSyncError(e.message || 'Sync failed.');
+      } finally {
+          setIsSyncing(false);
+      }
+  };
+
+  const handleResolveConflict = (conflict: SyncConflict, keep: 'local' | 'remote') => {
+      // Keeping the local copy needs no change here: once the choice is recorded, the next sync uploads it
+      if (keep === 'remote') {
+          commitChange('Resolve sync conflict', ws => {
+              const assessments = { ...ws.assessments };
+              if (conflict.remote) {
+                  assessments[conflict.id] = { ...conflict.remote, auditLog: mergeAuditLogs(assessments[conflict.id]?.auditLog, conflict.remote.auditLog) };
+              }
+              else delete assessments[conflict.id];
+              return { ...ws, assessments };
+          });
+      }
+      setSyncConflicts(resolveSyncConflict(userId, conflict).conflicts);
   };
 
   const handleRubricClick = () => {
@@ -178,17 +535,7 @@ function App() {
   // --- Data Export/Import Logic ---
 
   const handleExportData = () => {
-    const data = {
-        rubrics,
-        assignees,
-        assessments,
-        currentRubricId,
-        metadata: {
-            version: '1.0',
-            exportedBy: userName,
-            exportedAt: new Date().toISOString()
-        }
-    };
+    const data = createBackup({ rubrics, assignees, assessments, gradeScales, promptTemplates, currentRubricId }, userName, userId);
     const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
@@ -199,6 +546,38 @@ function App() {
     document.body.removeChild(link);
   };
 
+  // A restore replaces the workspace, except finalized grades: those only change when a teacher gives
+  // a reason, as for unlocking, and the reason goes into their audit trail. Finalized records the
+  // backup lacks are kept either way.
+  const handleRestoreBackup = (data: WorkspaceData) => {
+      const current = workspaceRef.current;
+      const overridden = Object.values(current.assessments).filter(a => {
+          const restored = data.assessments[a.id];
+          return a.locked && !!restored && diffAssessment(a, restored, auditActor, 'HUMAN').length > 0;
+      });
+      let reason = '';
+      if (overridden.length > 0) {
+          const count = `${overridden.length} finalized record${overridden.length === 1 ? '' : 's'}`;
+          if (userRole === 'TEACHER') {
+              reason = (prompt(`${count} differ from this backup. Enter a reason to replace them with the backup's copies, or leave it empty to keep the finalized grades:`) || '').trim();
+          } else {
+              alert(`${count} differ from this backup and will be kept. Only teachers can replace finalized grades.`);
+          }
+      }
+      commitChange('Restore backup', ws => {
+          const restored = auditRestored(ws, data, 'Restore backup');
+          const assessments = { ...restored.assessments };
+          Object.values(ws.assessments).filter(a => a.locked).forEach(a => {
+              const theirs = data.assessments[a.id];
+              assessments[a.id] = reason && theirs
+                  ? withAuditTrail(a, theirs, auditActor, 'HUMAN', `Restore backup over finalized grades. Reason: ${reason}`)
+                  : a;
+          });
+          return { ...restored, assessments };
+      });
+      alert(reason || overridden.length === 0 ? "Data restored successfully." : "Data restored. Finalized grades were kept.");
+  };
+
   const handleImportData = (e: React.ChangeEvent<HTMLInputElement>) => {
       const file = e.target.files?.[0];
       if (!file) return;
@@ -207,19 +586,16 @@ function App() {
       reader.onload = (event) => {
           try {
               const json = JSON.parse(event.target?.result as string);
-              
-              // Basic Validation
-              if (!json.rubrics || !Array.isArray(json.rubrics)) {
-                  alert("Invalid backup file format. Missing rubrics data.");
+              const { data, issues, fromVersion, metadata } = parseBackup(json);
+
+              if (!data) {
+                  alert(`This backup cannot be restored:\n\n${formatBackupIssues(issues)}`);
                   return;
               }
 
-              if (confirm(`Restore data from ${json.metadata?.exportedAt ? new Date(json.metadata.exportedAt).toLocaleString() : 'unknown date'}? This will overwrite your current ${assignees.length} students and ${rubrics.length} assignments.`)) {
-                  setRubrics(json.rubrics);
-                  setAssignees(json.assignees || []);
-                  setAssessments(json.assessments || {});
-                  if (json.currentRubricId) setCurrentRubricId(json.currentRubricId);
-                  alert("Data restored successfully.");
+              const upgradeNote = fromVersion < CURRENT_BACKUP_VERSION ? `\n\n(Backup format v${fromVersion} will be upgraded to v${CURRENT_BACKUP_VERSION}.)` : '';
+              if (confirm(`Restore data from ${metadata.exportedAt ? new Date(metadata.exportedAt).toLocaleString() : 'unknown date'}? This will overwrite your current ${assignees.length} students and ${rubrics.length} assignments.${upgradeNote}`)) {
+                  handleRestoreBackup(data);
               }
           } catch (err) {
               console.error(err);
@@ -260,6 +636,14 @@ function App() {
       return <Login onLogin={handleLogin} />;
   }
 
+  if (loadedUserId !== userId) {
+      return (
+        <div className="min-h-screen bg-slate-100 flex items-center justify-center text-slate-500 animate-pulse">
+            Loading your workspace...
+        </div>
+      );
+  }
+
   // Separate view handling for Full Screen Student Mode
   if (currentView === AppView.PEER_KIOSK) {
     return (
@@ -299,9 +683,31 @@ function App() {
           <NavButton view={AppView.ASSIGNEES} label="Student List" icon={<Icon.Users />} />
 
           <NavButton view={AppView.GRADING} label="Grade" icon={<Icon.Check />} />
+          {userRole === 'TEACHER' && rubric.doubleMarking && (
+             <NavButton view={AppView.MODERATION} label="Moderation" icon={<Icon.Users />} />
+          )}
           <NavButton view={AppView.EXPORT} label="Results" icon={<Icon.Download />} />
         </div>
 
+        <div className="flex gap-2 mt-4 px-2">
+            <button
+                onClick={handleUndo}
+                disabled={history.past.length === 0}
+                title={history.past.length ? `Undo: ${history.past[history.past.length - 1].label} (Ctrl+Z)` : 'Nothing to undo'}
+                className="flex-1 flex items-center justify-center gap-1 px-3 py-2 rounded-lg border border-slate-200 text-xs font-medium text-slate-600 hover:bg-slate-50 disabled:opacity-40 transition-colors"
+            >
+                <Icon.ArrowUturnLeft className="w-4 h-4" /> Undo
+            </button>
+            <button
+                onClick={handleRedo}
+                disabled={history.future.length === 0}
+                title={history.future.length ? `Redo: ${history.future[0].label} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+                className="flex-1 flex items-center justify-center gap-1 px-3 py-2 rounded-lg border border-slate-200 text-xs font-medium text-slate-600 hover:bg-slate-50 disabled:opacity-40 transition-colors"
+            >
+                <Icon.ArrowUturnRight className="w-4 h-4" /> Redo
+            </button>
+        </div>
+
         <div className="mt-auto pt-8 px-4 border-t border-slate-100">
              <div className="flex items-center gap-3 mb-4">
                  <div className="w-8 h-8 rounded-full bg-slate-200 flex items-center justify-center text-slate-600 font-bold">
@@ -324,6 +730,18 @@ function App() {
       {/* Main Content Area */}
       <main className="flex-1 p-4 md:p-8 overflow-y-auto h-screen">
         <div className="max-w-6xl mx-auto">
+            {storageWarning && (
+                <div className="mb-6 bg-red-50 text-red-800 text-sm p-3 rounded-lg border border-red-200 flex items-start justify-between gap-4">
+                    <span><strong>Storage:</strong> {storageWarning}</span>
+                    <button onClick={handleExportData} className="shrink-0 text-xs font-bold underline">Backup now</button>
+                </div>
+            )}
+            {aiBudget && aiBudget.level !== 'ok' && (
+                <div className={`mb-6 text-sm p-3 rounded-lg border ${aiBudget.blocked ? 'bg-red-50 text-red-800 border-red-200' : 'bg-amber-50 text-amber-800 border-amber-200'}`}>
+                    <strong>AI budget:</strong> {aiBudget.message} See AI Usage on the dashboard.
+                </div>
+            )}
+
             {currentView === AppView.DASHBOARD && (
                 <div className="animate-fade-in space-y-6">
                     <div className="bg-gradient-to-r from-blue-600 to-purple-600 rounded-2xl p-8 text-white shadow-xl">
@@ -412,9 +830,46 @@ function App() {
                             </label>
                         </div>
                         <div className="mt-4 bg-yellow-50 text-yellow-800 text-xs p-3 rounded-lg border border-yellow-200 inline-block max-w-2xl">
-                            <strong>Note:</strong> Since this app runs in your browser, your data is saved locally on this device. 
-                            Use the buttons above to transfer your data when moving between devices or publishing to a new domain.
+                            <strong>Note:</strong> Your data is saved locally on this device. 
+                            Use Sync below to keep devices up to date, or the backup buttons above when publishing to a new domain.
                         </div>
+
+                        <h3 className="text-lg font-bold text-slate-800 mt-8 mb-4 flex items-center gap-2">
+                            <Icon.CloudArrowUp /> Sync Between Devices
+                        </h3>
+                        <SyncPanel
+                            enabled={!!sessionToken}
+                            isSyncing={isSyncing}
+                            error={syncError}
+                            lastSyncedAt={lastSyncedAt}
+                            conflicts={syncConflicts}
+                            rubrics={rubrics}
+                            assignees={assignees}
+                            onSync={handleSync}
+                            onResolve={handleResolveConflict}
+                        />
+
+                        <h3 className="text-lg font-bold text-slate-800 mt-8 mb-4 flex items-center gap-2">
+                            <Icon.Sparkles /> AI Provider
+                        </h3>
+                        <AiSettingsPanel />
+
+                        <h3 className="text-lg font-bold text-slate-800 mt-8 mb-4 flex items-center gap-2">
+                            <Icon.DocumentText /> Prompt Templates
+                        </h3>
+                        <p className="text-sm text-slate-500 mb-4">Defaults for every assignment. An assignment can override them on the Subject page.</p>
+                        <PromptTemplateEditor
+                            templates={promptTemplates}
+                            onChange={handleSetPromptTemplates}
+                            inherited={(kind) => resolvePrompt(kind, undefined, [])}
+                            inheritedLabel="built-in prompt"
+                            sampleRubric={rubric}
+                        />
+
+                        <h3 className="text-lg font-bold text-slate-800 mt-8 mb-4 flex items-center gap-2">
+                            <Icon.ChartBar /> AI Usage
+                        </h3>
+                        <AiUsagePanel userId={userId} onSaveQuota={userRole === 'TEACHER' ? saveAiQuota : undefined} />
                     </div>
                 </div>
             )}
@@ -428,6 +883,10 @@ function App() {
                     onCreateRubric={handleCreateRubric}
                     onDeleteRubric={handleDeleteRubric}
                     onDeleteSubject={handleDeleteSubject}
+                    gradeScales={gradeScales}
+                    onUpdateGradeScales={handleSetGradeScales}
+                    promptTemplates={promptTemplates}
+                    onSetCourseLanguage={handleSetCourseLanguage}
                     onNext={() => setCurrentView(AppView.RUBRIC_EDITOR)}
                 />
             )}
@@ -443,7 +902,7 @@ function App() {
             {currentView === AppView.ASSIGNEES && (
                 <StudentManager 
                     assignees={assignees} 
-                    setAssignees={setAssignees} 
+                    setAssignees={handleSetAssignees} 
                     assignmentType={rubric.type || 'individual'}
                     readOnly={userRole === 'ASSESSOR'}
                 />
@@ -455,11 +914,39 @@ function App() {
                     assignees={assignees} 
                     assessments={assessments} 
                     onSaveAssessment={handleUpdateAssessment} 
+                    onSaveAssessments={handleUpdateAssessments}
+                    onSetLocked={handleSetLocked}
+                    canUnlock={userRole === 'TEACHER'}
+                    assessor={{ id: userId, name: userName }}
+                    onUpdateRubric={userRole === 'TEACHER' ? handleUpdateRubric : undefined}
+                    gradeScale={resolveGradeScale(rubric, gradeScales)}
+                    onSetExemplar={userRole === 'TEACHER' ? handleSetExemplar : undefined}
+                    rubrics={rubrics}
+                    onSetIntegrityNote={userRole === 'TEACHER' ? handleSetIntegrityNote : undefined}
+                />
+            )}
+
+            {currentView === AppView.MODERATION && userRole === 'TEACHER' && (
+                <ModerationView
+                    rubric={rubric}
+                    assignees={assignees}
+                    assessments={assessments}
+                    moderatorId={userId}
+                    moderatorName={userName}
+                    onSaveAssessments={handleUpdateAssessments}
                 />
             )}
 
             {currentView === AppView.EXPORT && (
-                <ExportView assignees={assignees} assessments={assessments} rubric={rubric} rubrics={rubrics} />
+                <ExportView
+                    assignees={assignees}
+                    assessments={assessments}
+                    rubric={rubric}
+                    rubrics={rubrics}
+                    gradeScales={gradeScales}
+                    onSetLocked={handleSetLocked}
+                    canUnlock={userRole === 'TEACHER'}
+                />
             )}
         </div>
       </main>
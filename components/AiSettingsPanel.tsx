@@ -0,0 +1,158 @@
+import React, { useEffect, useState } from 'react';
+import { AI_PROVIDER_LABELS, AiProviderId, AiSettings, DEFAULT_MODELS, loadAiSettings, saveAiSettings } from '../services/aiProvider';
+import { testAiProvider } from '../services/geminiService';
+import { getLastAiQuota } from '../services/aiProxyProvider';
+import { AiCacheStats, clearAiCache, getAiCacheStats } from '../services/aiCache';
+import { Icon } from './Icon';
+
+const PROVIDER_HINTS: Record<AiProviderId, string> = {
+  gemini: 'Requests go through the SmartGrade server, which holds the API key. Needs a verified email and counts against your daily AI limit.',
+  openai: 'Any OpenAI-compatible chat endpoint. For Ollama use http://localhost:11434/v1. PDFs cannot be read; upload images or text.',
+  mock: 'No network or API key needed. Produces sample rubrics and repeatable grades from keyword coverage, for testing only.'
+};
+
+// Device-level choice of AI provider; it is not synced with the workspace
+export const AiSettingsPanel: React.FC = () => {
+  const [settings, setSettings] = useState<AiSettings>(loadAiSettings);
+  const [isTesting, setIsTesting] = useState(false);
+  const [testResult, setTestResult] = useState<{ ok: boolean; message: string } | null>(null);
+  const [cacheStats, setCacheStats] = useState<AiCacheStats | null>(null);
+  const quota = testResult ? getLastAiQuota() : null;
+
+  const refreshCacheStats = () => {
+      getAiCacheStats().then(setCacheStats).catch(() => setCacheStats(null));
+  };
+
+  useEffect(refreshCacheStats, []);
+
+  const update = (changes: Partial<AiSettings>) => {
+      const next = { ...settings, ...changes };
+      setSettings(next);
+      saveAiSettings(next);
+      setTestResult(null);
+  };
+
+  const handleTest = async () => {
+      setIsTesting(true);
+      setTestResult(null);
+      try {
+          const reply = await testAiProvider(settings);
+          setTestResult({ ok: true, message: reply });
+      } catch (e: any) {
+          setTestResult({ ok: false, message: e.message || 'The provider did not respond.' });
+      } finally {
+          setIsTesting(false);
+      }
+  };
+
+  const handleClearCache = async () => {
+      if (!confirm("Remove all stored AI results on this device? The next grading or file import calls the provider again.")) return;
+      try {
+          await clearAiCache();
+      } catch (e) {
+          console.error(e);
+          alert("Failed to clear the cache.");
+      }
+      refreshCacheStats();
+  };
+
+  return (
+    <div className="bg-white p-5 rounded-xl border border-slate-200 shadow-sm space-y-4 max-w-2xl">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+                <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Provider</label>
+                <select
+                    value={settings.provider}
+                    onChange={(e) => update({ provider: e.target.value as AiProviderId, model: undefined })}
+                    className="w-full p-2 text-sm border border-slate-300 rounded-lg bg-white focus:ring-2 focus:ring-blue-500 outline-none"
+                >
+                    {(Object.keys(AI_PROVIDER_LABELS) as AiProviderId[]).map(id => (
+                        <option key={id} value={id}>{AI_PROVIDER_LABELS[id]}</option>
+                    ))}
+                </select>
+            </div>
+            {settings.provider !== 'mock' && (
+                <div>
+                    <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Model</label>
+                    <input
+                        value={settings.model || ''}
+                        onChange={(e) => update({ model: e.target.value || undefined })}
+                        className="w-full p-2 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                        placeholder={DEFAULT_MODELS[settings.provider]}
+                    />
+                </div>
+            )}
+            {settings.provider === 'openai' && (
+                <>
+                    <div>
+                        <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Endpoint URL</label>
+                        <input
+                            value={settings.baseUrl || ''}
+                            onChange={(e) => update({ baseUrl: e.target.value || undefined })}
+                            className="w-full p-2 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                            placeholder="http://localhost:11434/v1"
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-xs font-bold text-slate-500 uppercase mb-1">API Key (optional)</label>
+                        <input
+                            type="password"
+                            value={settings.apiKey || ''}
+                            onChange={(e) => update({ apiKey: e.target.value || undefined })}
+                            className="w-full p-2 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                            placeholder="Stored on this device only"
+                        />
+                    </div>
+                </>
+            )}
+        </div>
+
+        <p className="text-xs text-slate-500">{PROVIDER_HINTS[settings.provider]}</p>
+        {settings.provider === 'gemini' && quota && (
+            <p className="text-xs text-slate-500">
+                {quota.used} of {quota.limit} AI calls used today (resets {new Date(quota.resetsAt).toLocaleString()}).
+            </p>
+        )}
+
+        <div className="flex items-start gap-4">
+            <button
+                onClick={handleTest}
+                disabled={isTesting}
+                className="shrink-0 flex items-center gap-2 px-4 py-2 bg-white border border-slate-300 rounded-lg text-slate-700 hover:bg-slate-50 disabled:opacity-50 font-bold text-xs transition-colors"
+            >
+                <Icon.Sparkles /> {isTesting ? 'Testing...' : 'Test Provider'}
+            </button>
+            {testResult && (
+                <p className={`text-xs p-2 rounded-lg border line-clamp-3 ${testResult.ok ? 'bg-green-50 text-green-800 border-green-200' : 'bg-red-50 text-red-800 border-red-200'}`}>
+                    {testResult.ok ? 'Working: ' : 'Failed: '}{testResult.message}
+                </p>
+            )}
+        </div>
+
+        <div className="pt-4 border-t border-slate-100 flex flex-wrap items-center justify-between gap-4">
+            <div>
+                <label className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={settings.cacheResults !== false}
+                        onChange={(e) => update({ cacheResults: e.target.checked ? undefined : false })}
+                        className="rounded border-slate-300"
+                    />
+                    Reuse results for identical requests
+                </label>
+                <p className="text-xs text-slate-500 mt-1">
+                    Auto-grading and file reading are stored on this device, keyed by model, prompt, rubric and content.
+                    {cacheStats && ` ${cacheStats.entries} result${cacheStats.entries === 1 ? '' : 's'} stored (${Math.ceil(cacheStats.bytes / 1024)} KB).`}
+                </p>
+            </div>
+            <button
+                onClick={handleClearCache}
+                disabled={!cacheStats || cacheStats.entries === 0}
+                className="shrink-0 px-4 py-2 bg-white border border-slate-300 rounded-lg text-slate-700 hover:bg-slate-50 disabled:opacity-50 font-bold text-xs transition-colors"
+            >
+                Clear Cache
+            </button>
+        </div>
+    </div>
+  );
+};
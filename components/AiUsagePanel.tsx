@@ -0,0 +1,263 @@
+import React, { useEffect, useState } from 'react';
+import { AiTask } from '../services/aiProvider';
+import {
+  AiCallOutcome, AiQuotaSettings, AiUsageTotals, getBudgetStatus, getMonthKey, groupUsage, loadAiQuota, loadAiUsage,
+  clearAiUsage, subscribeToAiUsage, sumUsage
+} from '../services/aiUsage';
+
+interface AiUsagePanelProps {
+  userId: string;
+  onSaveQuota?: (quota: AiQuotaSettings) => void; // Teachers only; others see the budget read-only
+}
+
+const TASK_LABELS: Record<AiTask, string> = {
+  generateRubric: 'Rubric generation',
+  extractRubric: 'Rubric import',
+  extractText: 'File reading',
+  generateFeedback: 'Feedback',
+  translateFeedback: 'Translation',
+  reviewRubric: 'Rubric review',
+  gradeSubmission: 'Auto-grading'
+};
+
+const OUTCOME_STYLES: Record<AiCallOutcome, string> = {
+  success: 'text-green-600',
+  error: 'text-red-600',
+  cached: 'text-slate-400',
+  blocked: 'text-amber-600'
+};
+
+const WARN_OPTIONS = [0.5, 0.75, 0.8, 0.9];
+
+const formatMonth = (month: string) => {
+  const [year, m] = month.split('-').map(Number);
+  return new Date(year, m - 1, 1).toLocaleDateString(undefined, { month: 'long', year: 'numeric' });
+};
+
+const courseLabel = (course: string) => course || 'Not tied to an assignment';
+
+const formatNumber = (n: number) => Math.round(n).toLocaleString();
+
+const UsageRow: React.FC<{ label: string; totals: AiUsageTotals }> = ({ label, totals }) => (
+  <tr className="border-t border-slate-100">
+      <td className="py-2 pr-4 font-medium text-slate-700">{label}</td>
+      <td className="py-2 pr-4 text-right">{formatNumber(totals.requests)}</td>
+      <td className="py-2 pr-4 text-right">{formatNumber(totals.inputTokens)}</td>
+      <td className="py-2 pr-4 text-right">{formatNumber(totals.outputTokens)}</td>
+      <td className="py-2 pr-4 text-right">{totals.requests ? `${(totals.averageLatencyMs / 1000).toFixed(1)}s` : '-'}</td>
+      <td className="py-2 pr-4 text-right">{totals.cached}</td>
+      <td className="py-2 text-right">{totals.errors + totals.blocked}</td>
+  </tr>
+);
+
+const UsageTable: React.FC<{ title: string; rows: { key: string; label: string; totals: AiUsageTotals }[] }> = ({ title, rows }) => (
+  <div>
+      <h4 className="text-xs font-bold text-slate-500 uppercase mb-2">{title}</h4>
+      {rows.length === 0 ? (
+          <p className="text-sm text-slate-400">No AI calls yet.</p>
+      ) : (
+          <div className="overflow-x-auto">
+              <table className="w-full text-sm text-slate-600">
+                  <thead>
+                      <tr className="text-xs text-slate-400 text-right">
+                          <th className="pb-2 pr-4 text-left font-medium"></th>
+                          <th className="pb-2 pr-4 font-medium">Requests</th>
+                          <th className="pb-2 pr-4 font-medium">Tokens in</th>
+                          <th className="pb-2 pr-4 font-medium">Tokens out</th>
+                          <th className="pb-2 pr-4 font-medium">Avg. time</th>
+                          <th className="pb-2 pr-4 font-medium">Cached</th>
+                          <th className="pb-2 font-medium">Failed / blocked</th>
+                      </tr>
+                  </thead>
+                  <tbody>
+                      {rows.map(row => <UsageRow key={row.key} label={row.label} totals={row.totals} />)}
+                  </tbody>
+              </table>
+          </div>
+      )}
+  </div>
+);
+
+// The signed-in user's AI usage on this device, by course and by month, and the device's monthly budget
+export const AiUsagePanel: React.FC<AiUsagePanelProps> = ({ userId, onSaveQuota }) => {
+  const [log, setLog] = useState(() => loadAiUsage(userId));
+  const [quota, setQuota] = useState<AiQuotaSettings>(() => loadAiQuota());
+  const [month, setMonth] = useState(() => getMonthKey(Date.now()));
+
+  useEffect(() => {
+      const refresh = () => {
+          setLog(loadAiUsage(userId));
+          setQuota(loadAiQuota());
+      };
+      refresh();
+      return subscribeToAiUsage(refresh);
+  }, [userId]);
+
+  const months = Array.from(new Set([getMonthKey(Date.now()), ...log.buckets.map(b => b.month)])).sort().reverse();
+  const monthBuckets = log.buckets.filter(b => b.month === month);
+  const totals = sumUsage(monthBuckets);
+  const budget = getBudgetStatus(userId);
+
+  const updateQuota = (changes: Partial<AiQuotaSettings>) => {
+      if (!onSaveQuota) return;
+      const next = { ...quota, ...changes };
+      setQuota(next);
+      onSaveQuota(next);
+  };
+
+  const parseLimit = (value: string) => {
+      const n = parseInt(value, 10);
+      return isNaN(n) || n <= 0 ? undefined : n;
+  };
+
+  const handleClear = () => {
+      if (!confirm("Delete the AI usage history recorded on this device? Budgets are kept.")) return;
+      clearAiUsage(userId);
+  };
+
+  return (
+    <div className="bg-white p-5 rounded-xl border border-slate-200 shadow-sm space-y-6">
+        <p className="text-xs text-slate-500 bg-slate-50 border border-slate-100 rounded-lg p-3">
+            Usage is tracked per device. Calls made in other browsers or on other devices are not included, so these totals and the budget below undercount anyone who uses several.
+        </p>
+        <div className="flex flex-wrap items-center justify-between gap-4">
+            <select
+                value={month}
+                onChange={(e) => setMonth(e.target.value)}
+                className="p-2 text-sm border border-slate-300 rounded-lg bg-white focus:ring-2 focus:ring-blue-500 outline-none"
+            >
+                {months.map(m => <option key={m} value={m}>{formatMonth(m)}</option>)}
+            </select>
+            {/* Clearing the history also resets what the budget has counted, so it goes with setting the budget */}
+            {onSaveQuota && (
+                <button
+                    onClick={handleClear}
+                    disabled={log.buckets.length === 0}
+                    className="px-4 py-2 bg-white border border-slate-300 rounded-lg text-slate-700 hover:bg-slate-50 disabled:opacity-50 font-bold text-xs transition-colors"
+                >
+                    Clear Usage History
+                </button>
+            )}
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="p-3 bg-slate-50 rounded-lg">
+                <div className="text-xs text-slate-500">Requests</div>
+                <div className="text-xl font-bold text-slate-800">{formatNumber(totals.requests)}</div>
+            </div>
+            <div className="p-3 bg-slate-50 rounded-lg">
+                <div className="text-xs text-slate-500">Tokens (in / out)</div>
+                <div className="text-xl font-bold text-slate-800">{formatNumber(totals.inputTokens)} / {formatNumber(totals.outputTokens)}</div>
+            </div>
+            <div className="p-3 bg-slate-50 rounded-lg">
+                <div className="text-xs text-slate-500">Average response time</div>
+                <div className="text-xl font-bold text-slate-800">{totals.requests ? `${(totals.averageLatencyMs / 1000).toFixed(1)}s` : '-'}</div>
+            </div>
+            <div className="p-3 bg-slate-50 rounded-lg">
+                <div className="text-xs text-slate-500">Cached / failed / blocked</div>
+                <div className="text-xl font-bold text-slate-800">{totals.cached} / {totals.errors} / {totals.blocked}</div>
+            </div>
+        </div>
+        {totals.estimatedCalls > 0 && (
+            <p className="text-xs text-slate-500">
+                Token counts for {totals.estimatedCalls} call{totals.estimatedCalls === 1 ? '' : 's'} are estimated from text length because the provider did not report them.
+            </p>
+        )}
+
+        <UsageTable
+            title={`By course, ${formatMonth(month)}`}
+            rows={groupUsage(monthBuckets, 'course').map(g => ({ key: g.key, label: courseLabel(g.key), totals: g.totals }))}
+        />
+        <UsageTable
+            title="By month"
+            rows={groupUsage(log.buckets, 'month').sort((a, b) => b.key.localeCompare(a.key)).map(g => ({ key: g.key, label: formatMonth(g.key), totals: g.totals }))}
+        />
+
+        <div className="pt-4 border-t border-slate-100">
+            <h4 className="text-xs font-bold text-slate-500 uppercase mb-2">Monthly Budget</h4>
+            <p className="text-xs text-slate-500 mb-3">
+                {onSaveQuota
+                    ? 'Applies to each user who signs in on this device.'
+                    : 'Set by a teacher for each user who signs in on this device.'}
+            </p>
+            <div className="grid grid-cols-1 sm:grid-cols-4 gap-4">
+                <div>
+                    <label className="block text-xs text-slate-500 mb-1">Requests</label>
+                    <input
+                        type="number"
+                        min={1}
+                        value={quota.monthlyRequests ?? ''}
+                        disabled={!onSaveQuota}
+                        onChange={(e) => updateQuota({ monthlyRequests: parseLimit(e.target.value) })}
+                        className="w-full p-2 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none disabled:bg-slate-50"
+                        placeholder="No limit"
+                    />
+                </div>
+                <div>
+                    <label className="block text-xs text-slate-500 mb-1">Tokens</label>
+                    <input
+                        type="number"
+                        min={1}
+                        value={quota.monthlyTokens ?? ''}
+                        disabled={!onSaveQuota}
+                        onChange={(e) => updateQuota({ monthlyTokens: parseLimit(e.target.value) })}
+                        className="w-full p-2 text-sm border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none disabled:bg-slate-50"
+                        placeholder="No limit"
+                    />
+                </div>
+                <div>
+                    <label className="block text-xs text-slate-500 mb-1">Warn from</label>
+                    <select
+                        value={quota.warnAt}
+                        disabled={!onSaveQuota}
+                        onChange={(e) => updateQuota({ warnAt: parseFloat(e.target.value) })}
+                        className="w-full p-2 text-sm border border-slate-300 rounded-lg bg-white focus:ring-2 focus:ring-blue-500 outline-none disabled:bg-slate-50"
+                    >
+                        {WARN_OPTIONS.map(w => <option key={w} value={w}>{w * 100}% used</option>)}
+                    </select>
+                </div>
+                <div>
+                    <label className="block text-xs text-slate-500 mb-1">When reached</label>
+                    <select
+                        value={quota.onLimit}
+                        disabled={!onSaveQuota}
+                        onChange={(e) => updateQuota({ onLimit: e.target.value as AiQuotaSettings['onLimit'] })}
+                        className="w-full p-2 text-sm border border-slate-300 rounded-lg bg-white focus:ring-2 focus:ring-blue-500 outline-none disabled:bg-slate-50"
+                    >
+                        <option value="warn">Warn only</option>
+                        <option value="block">Block AI calls</option>
+                    </select>
+                </div>
+            </div>
+            <p className={`text-xs mt-2 ${budget.level === 'exceeded' ? 'text-red-600' : budget.level === 'warning' ? 'text-amber-700' : 'text-slate-500'}`}>
+                {budget.message || 'Within budget this month.'} Cached results do not count. The Gemini server also applies its own daily limit.
+            </p>
+        </div>
+
+        {log.recent.length > 0 && (
+            <div>
+                <h4 className="text-xs font-bold text-slate-500 uppercase mb-2">Recent Calls</h4>
+                <ul className="divide-y divide-slate-100 text-xs border border-slate-100 rounded-lg max-h-60 overflow-y-auto">
+                    {log.recent.map((call, i) => (
+                        <li key={`${call.at}-${i}`} className="p-2 flex justify-between gap-4">
+                            <div className="min-w-0">
+                                <span className="font-medium text-slate-700">{TASK_LABELS[call.task]}</span>
+                                <span className="text-slate-400"> · {courseLabel(call.course)} · {call.model} · {new Date(call.at).toLocaleString()}</span>
+                                {call.error && <div className="text-red-500 truncate">{call.error}</div>}
+                            </div>
+                            <div className="shrink-0 text-right">
+                                <span className={`font-bold uppercase ${OUTCOME_STYLES[call.outcome]}`}>{call.outcome}</span>
+                                {(call.outcome === 'success' || call.outcome === 'error') && (
+                                    <div className="text-slate-400">
+                                        {formatNumber(call.inputTokens + call.outputTokens)}{call.estimated ? '~' : ''} tokens · {(call.latencyMs / 1000).toFixed(1)}s
+                                    </div>
+                                )}
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+            </div>
+        )}
+    </div>
+  );
+};
@@ -255,6 +255,27 @@ function App() {
     }));
   };
 
+  const handleUpdateAssessments = (_label: string, updates: Assessment[]) => {
+    setAssessments(prev => {
+      const next = { ...prev };
+      updates.forEach(a => {
+        if (!next[a.id]?.locked) next[a.id] = a;
+      });
+      return next;
+    });
+  };
+
+  const handleSetLocked = (ids: string[], locked: boolean) => {
+    if (!locked && userRole !== 'TEACHER') return;
+    setAssessments(prev => {
+      const next = { ...prev };
+      ids.forEach(id => {
+        if (next[id]) next[id] = { ...next[id], locked, lastUpdated: Date.now() };
+      });
+      return next;
+    });
+  };
+
   const handleRubricClick = () => {
       if (!rubric.title.trim() || rubric.title === 'Untitled Assignment' || !rubric.subject) {
           setCurrentView(AppView.SUBJECT_ASSIGNMENT);
@@ -547,6 +568,10 @@ function App() {
                     onCreateRubric={handleCreateRubric}
                     onDeleteRubric={handleDeleteRubric}
                     onDeleteSubject={handleDeleteSubject}
+                    gradeScales={[]}
+                    onUpdateGradeScales={() => {}}
+                    promptTemplates={[]}
+                    onSetCourseLanguage={() => {}}
                     onNext={() => setCurrentView(AppView.RUBRIC_EDITOR)}
                 />
             )}
@@ -574,11 +599,16 @@ function App() {
                     assignees={assignees} 
                     assessments={assessments} 
                     onSaveAssessment={handleUpdateAssessment} 
+                    onSaveAssessments={handleUpdateAssessments}
+                    onSetLocked={handleSetLocked}
+                    canUnlock={userRole === 'TEACHER'}
+                    assessor={{ id: userId, name: userName }}
+                    rubrics={rubrics}
                 />
             )}
 
             {currentView === AppView.EXPORT && (
-                <ExportView assignees={assignees} assessments={assessments} rubric={rubric} rubrics={rubrics} />
+                <ExportView assignees={assignees} assessments={assessments} rubric={rubric} rubrics={rubrics} gradeScales={[]} onSetLocked={handleSetLocked} canUnlock={userRole === 'TEACHER'} />
             )}
         </div>
       </main>
@@ -0,0 +1,233 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Assessment, Assignee, GradeEntry, Rubric } from '../types';
+import { autoGradeWithAI, GradedSubmission } from '../services/geminiService';
+import { applyAiRatings, getBorderlineReason } from '../services/autoGrade';
+import { BatchItemState, runBatch } from '../services/batchRunner';
+import { selectExemplars } from '../services/calibration';
+import { Icon } from './Icon';
+
+export interface BatchGradeOutcome {
+  assessmentId: string;
+  result: GradedSubmission;
+}
+
+interface BatchGradePanelProps {
+  rubric: Rubric;
+  assignees: Assignee[];
+  assessments: Record<string, Assessment>;
+  entriesFor: (assessment: Assessment) => GradeEntry[]; // The marks a result is applied to, e.g. the assessor's own when double marking
+  onApply: (outcomes: BatchGradeOutcome[]) => void; // Called once, with every successful result
+  onClose: () => void;
+}
+
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 2000;
+
+const STATUS_STYLES: Record<BatchItemState<GradedSubmission>['status'], string> = {
+  pending: 'text-slate-400',
+  running: 'text-blue-600',
+  retrying: 'text-amber-600',
+  success: 'text-green-600',
+  failed: 'text-red-600',
+  cancelled: 'text-slate-400'
+};
+
+export const BatchGradePanel: React.FC<BatchGradePanelProps> = ({ rubric, assignees, assessments, entriesFor, onApply, onClose }) => {
+  const [concurrency, setConcurrency] = useState(3);
+  const [forceRefresh, setForceRefresh] = useState(false);
+  const [phase, setPhase] = useState<'setup' | 'running' | 'done'>('setup');
+  const [states, setStates] = useState<BatchItemState<GradedSubmission>[]>([]);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [batch, setBatch] = useState<{ assignee: Assignee; assessment: Assessment }[]>([]); // Items of the started run
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Who would be graded, following the roster until the run starts
+  const { eligible, locked, exemplars, missing } = useMemo(() => {
+      const eligible: { assignee: Assignee; assessment: Assessment }[] = [];
+      const locked: Assignee[] = [];
+      const exemplars: Assignee[] = [];
+      const missing: Assignee[] = [];
+      assignees.forEach(assignee => {
+          const assessment = assessments[`${rubric.id}_${assignee.id}`];
+          if (!assessment?.submissionText?.trim()) missing.push(assignee);
+          else if (assessment.locked) locked.push(assignee);
+          // Regrading an exemplar would replace the teacher's grades it exists to show
+          else if (assessment.exemplar) exemplars.push(assignee);
+          else eligible.push({ assignee, assessment });
+      });
+      return { eligible, locked, exemplars, missing };
+  }, [rubric.id, assignees, assessments]);
+
+  const handleStart = async () => {
+      const controller = new AbortController();
+      abortRef.current = controller;
+      // Grading saves nothing until the end, but other edits may change the roster meanwhile
+      const items = eligible;
+      setBatch(items);
+      setPhase('running');
+      setStates(items.map(() => ({ status: 'pending', attempts: 0 })));
+
+      const results = await runBatch(
+          items,
+          ({ assignee, assessment }) => autoGradeWithAI(rubric, assessment.submissionText!, assignee.name, {
+              forceRefresh,
+              exemplars: selectExemplars(rubric, Object.values(assessments), assessment.id)
+          }),
+          {
+              concurrency,
+              maxAttempts: MAX_ATTEMPTS,
+              baseDelayMs: RETRY_DELAY_MS,
+              signal: controller.signal,
+              onProgress: (index, state) => setStates(prev => prev.map((s, i) => i === index ? state : s))
+          }
+      );
+
+      setStates(results);
+      const outcomes = results.flatMap((r, i) => r.status === 'success' && r.result ? [{ assessmentId: items[i].assessment.id, result: r.result }] : []);
+      if (outcomes.length > 0) onApply(outcomes);
+      abortRef.current = null;
+      setIsCancelling(false);
+      setPhase('done');
+  };
+
+  const handleCancel = () => {
+      setIsCancelling(true);
+      abortRef.current?.abort();
+  };
+
+  const finished = states.filter(s => s.status === 'success' || s.status === 'failed' || s.status === 'cancelled').length;
+  const succeeded = states.filter(s => s.status === 'success').length;
+  const failed = states.filter(s => s.status === 'failed').length;
+  const cancelled = states.filter(s => s.status === 'cancelled').length;
+  const reused = states.filter(s => s.status === 'success' && s.result?.cachedAt).length;
+  // Same checks the Grader uses to flag saved results
+  const reviewReasons = states.map((s, i) => {
+      if (s.status !== 'success' || !s.result) return [];
+      const { assessment } = batch[i];
+      const applied = applyAiRatings(rubric, entriesFor(assessment), s.result, assessment.submissionText);
+      const borderline = getBorderlineReason(rubric, assessment, applied.entries);
+      return borderline ? [...applied.reviewReasons, borderline] : applied.reviewReasons;
+  });
+  const needsReview = reviewReasons.filter(r => r.length > 0).length;
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 backdrop-blur-sm z-50 flex items-center justify-center p-4 animate-fade-in">
+        <div className="bg-white rounded-xl shadow-2xl w-full max-w-2xl flex flex-col max-h-[85vh]">
+            <div className="p-6 border-b border-slate-100 flex justify-between items-center bg-slate-50 rounded-t-xl">
+                <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+                    <Icon.Sparkles /> Auto-Grade All
+                </h2>
+                {phase !== 'running' && (
+                    <button onClick={onClose} className="text-slate-400 hover:text-slate-600"><Icon.XMark /></button>
+                )}
+            </div>
+
+            <div className="p-6 overflow-y-auto space-y-4">
+                {phase === 'setup' && (
+                    <>
+                        <p className="text-sm text-slate-600">
+                            <span className="font-bold text-slate-800">{eligible.length}</span> submission{eligible.length === 1 ? '' : 's'} for "{rubric.title}" will be graded with AI.
+                            {' '}Existing scores for the criteria the AI rates are replaced, and the whole run can be undone in one step.
+                        </p>
+                        {(locked.length > 0 || exemplars.length > 0 || missing.length > 0) && (
+                            <ul className="text-xs text-slate-500 list-disc pl-5 space-y-1">
+                                {locked.length > 0 && <li>{locked.length} finalized record{locked.length === 1 ? '' : 's'} skipped: {locked.map(a => a.name).join(', ')}</li>}
+                                {exemplars.length > 0 && <li>{exemplars.length} calibration exemplar{exemplars.length === 1 ? '' : 's'} skipped: {exemplars.map(a => a.name).join(', ')}</li>}
+                                {missing.length > 0 && <li>{missing.length} without submission text skipped: {missing.map(a => a.name).join(', ')}</li>}
+                            </ul>
+                        )}
+                        <div className="flex items-center gap-2 text-sm text-slate-600">
+                            <span>Grade</span>
+                            <select
+                                value={concurrency}
+                                onChange={(e) => setConcurrency(parseInt(e.target.value))}
+                                className="p-1.5 border border-slate-300 rounded-lg bg-white"
+                            >
+                                {[1, 2, 3, 4, 5].map(n => <option key={n} value={n}>{n}</option>)}
+                            </select>
+                            <span>at a time. Failed calls are retried up to {MAX_ATTEMPTS - 1} times.</span>
+                        </div>
+                        <label className="flex items-center gap-2 text-sm text-slate-600 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={forceRefresh}
+                                onChange={(e) => setForceRefresh(e.target.checked)}
+                                className="rounded border-slate-300"
+                            />
+                            Ignore cached results and grade every submission again
+                        </label>
+                    </>
+                )}
+
+                {phase !== 'setup' && (
+                    <>
+                        <div>
+                            <div className="flex justify-between text-xs text-slate-500 mb-1">
+                                <span>{finished} of {batch.length} done</span>
+                                <span>{succeeded} graded · {failed} failed{cancelled ? ` · ${cancelled} cancelled` : ''}</span>
+                            </div>
+                            <div className="w-full bg-slate-100 rounded-full h-2 overflow-hidden">
+                                <div className="bg-purple-600 h-2 transition-all" style={{ width: `${batch.length ? (finished / batch.length) * 100 : 0}%` }}></div>
+                            </div>
+                        </div>
+
+                        {phase === 'done' && (
+                            <div className={`text-sm p-3 rounded-lg border ${failed || needsReview ? 'bg-amber-50 border-amber-200 text-amber-800' : 'bg-green-50 border-green-200 text-green-800'}`}>
+                                <strong>Finished.</strong> {succeeded} graded and saved{reused ? ` (${reused} reused from the cache)` : ''}{needsReview ? `, ${needsReview} flagged for review (use "Needs review only" in the roster)` : ''}
+                                {failed ? `, ${failed} failed` : ''}{cancelled ? `, ${cancelled} cancelled` : ''}.
+                            </div>
+                        )}
+
+                        <ul className="divide-y divide-slate-100 text-sm border border-slate-100 rounded-lg">
+                            {batch.map(({ assignee }, i) => {
+                                const state = states[i];
+                                if (!state) return null;
+                                return (
+                                    <li key={assignee.id} className="p-2 flex justify-between gap-4">
+                                        <div className="min-w-0">
+                                            <div className="font-medium text-slate-800 truncate">{assignee.name}</div>
+                                            {state.error && state.status !== 'success' && <div className="text-xs text-red-500 truncate">{state.error}</div>}
+                                            {reviewReasons[i].length > 0 && (
+                                                <div className="text-xs text-amber-700">Review: {reviewReasons[i].join('; ')}</div>
+                                            )}
+                                        </div>
+                                        <span className={`shrink-0 text-xs font-bold uppercase ${STATUS_STYLES[state.status]}`}>
+                                            {state.status}{state.attempts > 1 ? ` (try ${state.attempts})` : ''}{state.result?.cachedAt ? ' (cached)' : ''}
+                                        </span>
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                    </>
+                )}
+            </div>
+
+            <div className="p-4 border-t border-slate-100 flex justify-end gap-2">
+                {phase === 'setup' && (
+                    <button
+                        onClick={handleStart}
+                        disabled={eligible.length === 0 || rubric.criteria.length === 0}
+                        className="bg-purple-600 text-white px-4 py-2 rounded-md hover:bg-purple-700 disabled:opacity-50 flex items-center gap-2 font-medium"
+                    >
+                        <Icon.Sparkles /> Start Grading
+                    </button>
+                )}
+                {phase === 'running' && (
+                    <button
+                        onClick={handleCancel}
+                        disabled={isCancelling}
+                        className="bg-white border border-slate-300 text-slate-700 px-4 py-2 rounded-md hover:bg-slate-50 disabled:opacity-50 font-medium"
+                    >
+                        {isCancelling ? 'Cancelling...' : 'Cancel'}
+                    </button>
+                )}
+                {phase === 'done' && (
+                    <button onClick={onClose} className="bg-slate-800 text-white px-4 py-2 rounded-md hover:bg-slate-700 font-medium">
+                        Close
+                    </button>
+                )}
+            </div>
+        </div>
+    </div>
+  );
+};
@@ -0,0 +1,252 @@
+import React, { useRef, useState } from 'react';
+import { Assessment, Assignee, Rubric } from '../types';
+import { GradingExemplar } from '../services/aiProvider';
+import { autoGradeWithAI } from '../services/geminiService';
+import { applyAiRatings } from '../services/autoGrade';
+import { runBatch } from '../services/batchRunner';
+import {
+  CalibrationSample, MAX_AGREEMENT_SAMPLES, MAX_EXEMPLARS, criterionAgreement, getExemplarPool, getExemplarProblem,
+  getRubricPercent, pickSpread, selectExemplars, summarizeAgreement
+} from '../services/calibration';
+import { Icon } from './Icon';
+
+interface CalibrationPanelProps {
+  rubric: Rubric;
+  assignees: Assignee[];
+  assessments: Record<string, Assessment>;
+  onSetExemplar?: (id: string, marked: boolean) => void; // Teachers only
+  onClose: () => void;
+}
+
+const CONCURRENCY = 2;
+const MAX_ATTEMPTS = 2;
+const RETRY_DELAY_MS = 2000;
+
+const percent = (share: number) => `${Math.round(share * 100)}%`;
+
+// Exemplars for the current rubric, and a check of how closely AI grading matches the teacher
+// with and without them
+export const CalibrationPanel: React.FC<CalibrationPanelProps> = ({ rubric, assignees, assessments, onSetExemplar, onClose }) => {
+  const [phase, setPhase] = useState<'idle' | 'running' | 'done'>('idle');
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [samples, setSamples] = useState<CalibrationSample[]>([]);
+  const [failed, setFailed] = useState(0);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const all = Object.values(assessments);
+  const marked = all.filter(a => a.rubricId === rubric.id && a.exemplar);
+  const pool = getExemplarPool(rubric, all);
+  const nameOf = (assessment: Assessment) => assignees.find(a => a.id === assessment.assigneeId)?.name || assessment.assigneeId;
+
+  const handleRun = async () => {
+      // Each exemplar is graded twice: alone, and with the others as anchors (never itself)
+      const targets = pickSpread(pool, MAX_AGREEMENT_SAMPLES);
+      const items = targets.flatMap((assessment): { assessment: Assessment; exemplars: GradingExemplar[] }[] => [
+          { assessment, exemplars: [] },
+          { assessment, exemplars: selectExemplars(rubric, all, assessment.id) }
+      ]);
+      const controller = new AbortController();
+      abortRef.current = controller;
+      setPhase('running');
+      setProgress({ done: 0, total: items.length });
+
+      let done = 0;
+      const results = await runBatch(
+          items,
+          ({ assessment, exemplars }) => autoGradeWithAI(rubric, assessment.submissionText!, nameOf(assessment), { exemplars }),
+          {
+              concurrency: CONCURRENCY,
+              maxAttempts: MAX_ATTEMPTS,
+              baseDelayMs: RETRY_DELAY_MS,
+              signal: controller.signal,
+              onProgress: (_, state) => {
+                  if (state.status === 'success' || state.status === 'failed' || state.status === 'cancelled') {
+                      setProgress({ done: ++done, total: items.length });
+                  }
+              }
+          }
+      );
+
+      const next: CalibrationSample[] = [];
+      targets.forEach((assessment, i) => {
+          const before = results[i * 2].result;
+          const after = results[i * 2 + 1].result;
+          if (!before || !after) return;
+          next.push({
+              assessmentId: assessment.id,
+              teacher: assessment.entries,
+              before: applyAiRatings(rubric, [], before, assessment.submissionText).entries,
+              after: applyAiRatings(rubric, [], after, assessment.submissionText).entries
+          });
+      });
+      setSamples(next);
+      setFailed(targets.length - next.length);
+      abortRef.current = null;
+      setPhase('done');
+  };
+
+  const before = summarizeAgreement(rubric, samples, 'before');
+  const after = summarizeAgreement(rubric, samples, 'after');
+  const byCriterion = criterionAgreement(rubric, samples);
+  const change = (a: number, b: number, higherIsBetter = true) => {
+      const better = higherIsBetter ? b > a : b < a;
+      return a === b ? 'text-slate-600' : better ? 'text-green-600' : 'text-red-600';
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 backdrop-blur-sm z-50 flex items-center justify-center p-4 animate-fade-in">
+        <div className="bg-white rounded-xl shadow-2xl w-full max-w-3xl flex flex-col max-h-[85vh]">
+            <div className="p-6 border-b border-slate-100 flex justify-between items-center bg-slate-50 rounded-t-xl">
+                <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+                    <Icon.Bookmark /> Calibration
+                </h2>
+                {phase !== 'running' && (
+                    <button onClick={onClose} className="text-slate-400 hover:text-slate-600"><Icon.XMark /></button>
+                )}
+            </div>
+
+            <div className="p-6 overflow-y-auto space-y-6">
+                <div>
+                    <p className="text-sm text-slate-600">
+                        Teacher-graded exemplars anchor AI grading for "{rubric.title}". Up to {MAX_EXEMPLARS} are sent with each request,
+                        spread from the weakest to the strongest. {onSetExemplar ? 'Mark more from the grading view with "Use as Exemplar".' : 'Teachers choose them from the grading view.'}
+                    </p>
+                    {marked.length === 0 ? (
+                        <p className="text-sm text-slate-400 mt-3">No exemplars yet.</p>
+                    ) : (
+                        <ul className="mt-3 divide-y divide-slate-100 border border-slate-100 rounded-lg text-sm">
+                            {marked.map(a => {
+                                const problem = getExemplarProblem(rubric, a);
+                                return (
+                                    <li key={a.id} className="p-2 flex items-center justify-between gap-4">
+                                        <div className="min-w-0">
+                                            <span className="font-medium text-slate-800">{nameOf(a)}</span>
+                                            <span className="text-slate-400"> · {getRubricPercent(rubric, a.entries).toFixed(0)}%</span>
+                                            {problem && <div className="text-xs text-amber-700">Not used: {problem}</div>}
+                                        </div>
+                                        {onSetExemplar && (
+                                            <button
+                                                onClick={() => onSetExemplar(a.id, false)}
+                                                disabled={phase === 'running'}
+                                                className="shrink-0 text-xs text-red-600 hover:text-red-700 font-bold disabled:opacity-50"
+                                            >
+                                                Remove
+                                            </button>
+                                        )}
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                    )}
+                </div>
+
+                <div className="pt-4 border-t border-slate-100">
+                    <h3 className="font-bold text-slate-800">Agreement Check</h3>
+                    <p className="text-sm text-slate-600 mt-1">
+                        Grades up to {MAX_AGREEMENT_SAMPLES} exemplars twice, without exemplars and with the others, and compares the AI's levels to yours.
+                        This makes up to {Math.min(pool.length, MAX_AGREEMENT_SAMPLES) * 2} AI requests; repeated runs reuse cached results.
+                    </p>
+
+                    {phase === 'running' && (
+                        <div className="mt-3">
+                            <div className="flex justify-between text-xs text-slate-500 mb-1">
+                                <span>{progress.done} of {progress.total} gradings done</span>
+                            </div>
+                            <div className="w-full bg-slate-100 rounded-full h-2 overflow-hidden">
+                                <div className="bg-purple-600 h-2 transition-all" style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }}></div>
+                            </div>
+                        </div>
+                    )}
+
+                    {phase === 'done' && samples.length === 0 && (
+                        <p className="mt-3 text-sm text-red-600">No exemplar could be graded both ways. Check the AI provider and try again.</p>
+                    )}
+
+                    {phase === 'done' && samples.length > 0 && (
+                        <div className="mt-4 space-y-4">
+                            {failed > 0 && <p className="text-xs text-amber-700">{failed} exemplar{failed === 1 ? '' : 's'} left out because an AI request failed.</p>}
+                            <table className="w-full text-sm text-slate-600">
+                                <thead>
+                                    <tr className="text-xs text-slate-400 text-right">
+                                        <th className="pb-2 text-left font-medium">{samples.length} exemplar{samples.length === 1 ? '' : 's'}, {before.ratings} ratings</th>
+                                        <th className="pb-2 font-medium">Without exemplars</th>
+                                        <th className="pb-2 font-medium">With exemplars</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    <tr className="border-t border-slate-100">
+                                        <td className="py-2 font-medium text-slate-700">Same level as teacher</td>
+                                        <td className="py-2 text-right">{percent(before.exact)}</td>
+                                        <td className={`py-2 text-right font-bold ${change(before.exact, after.exact)}`}>{percent(after.exact)}</td>
+                                    </tr>
+                                    <tr className="border-t border-slate-100">
+                                        <td className="py-2 font-medium text-slate-700">Within one level</td>
+                                        <td className="py-2 text-right">{percent(before.adjacent)}</td>
+                                        <td className={`py-2 text-right font-bold ${change(before.adjacent, after.adjacent)}`}>{percent(after.adjacent)}</td>
+                                    </tr>
+                                    <tr className="border-t border-slate-100">
+                                        <td className="py-2 font-medium text-slate-700">Average score difference</td>
+                                        <td className="py-2 text-right">{before.scoreGap.toFixed(1)} pts</td>
+                                        <td className={`py-2 text-right font-bold ${change(before.scoreGap, after.scoreGap, false)}`}>{after.scoreGap.toFixed(1)} pts</td>
+                                    </tr>
+                                    {byCriterion.map(({ criterion, before: b, after: a }) => (
+                                        <tr key={criterion.id} className="border-t border-slate-100 text-xs">
+                                            <td className="py-1.5 pl-3 text-slate-500">{criterion.title}: same level</td>
+                                            <td className="py-1.5 text-right">{percent(b)}</td>
+                                            <td className={`py-1.5 text-right ${change(b, a)}`}>{percent(a)}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+
+                            <table className="w-full text-xs text-slate-600">
+                                <thead>
+                                    <tr className="text-slate-400 text-right">
+                                        <th className="pb-2 text-left font-medium">Exemplar</th>
+                                        <th className="pb-2 font-medium">Teacher</th>
+                                        <th className="pb-2 font-medium">AI without</th>
+                                        <th className="pb-2 font-medium">AI with</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {samples.map(sample => {
+                                        const assessment = assessments[sample.assessmentId];
+                                        return (
+                                            <tr key={sample.assessmentId} className="border-t border-slate-100 text-right">
+                                                <td className="py-1.5 text-left text-slate-700">{assessment ? nameOf(assessment) : sample.assessmentId}</td>
+                                                <td className="py-1.5">{getRubricPercent(rubric, sample.teacher).toFixed(0)}%</td>
+                                                <td className="py-1.5">{getRubricPercent(rubric, sample.before).toFixed(0)}%</td>
+                                                <td className="py-1.5">{getRubricPercent(rubric, sample.after).toFixed(0)}%</td>
+                                            </tr>
+                                        );
+                                    })}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+                </div>
+            </div>
+
+            <div className="p-4 border-t border-slate-100 flex justify-end gap-2">
+                {phase === 'running' ? (
+                    <button
+                        onClick={() => abortRef.current?.abort()}
+                        className="bg-white border border-slate-300 text-slate-700 px-4 py-2 rounded-md hover:bg-slate-50 font-medium"
+                    >
+                        Cancel
+                    </button>
+                ) : (
+                    <button
+                        onClick={handleRun}
+                        disabled={pool.length < 2}
+                        title={pool.length < 2 ? 'Needs at least two usable exemplars' : undefined}
+                        className="bg-purple-600 text-white px-4 py-2 rounded-md hover:bg-purple-700 disabled:opacity-50 flex items-center gap-2 font-medium"
+                    >
+                        <Icon.Sparkles /> {phase === 'done' ? 'Run Again' : 'Run Agreement Check'}
+                    </button>
+                )}
+            </div>
+        </div>
+    </div>
+  );
+};
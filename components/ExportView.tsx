@@ -1,5 +1,9 @@
-import React from 'react';
-import { Assessment, Assignee, Rubric } from '../types';
+import React, { useState } from 'react';
+import { Assessment, Assignee, GradeScale, Rubric } from '../types';
+import { computeScore, toCourseScore, getPeerEvalWeight } from '../services/gradingEngine';
+import { AUDIT_SOURCE_LABELS } from '../services/auditService';
+import { getLetterGrade, resolveGradeScale } from '../services/gradeScales';
+import { getTranslatedCriterion } from '../services/translation';
 import { Icon } from './Icon';
 
 interface ExportViewProps {
@@ -7,14 +11,27 @@ interface ExportViewProps {
   assessments: Record<string, Assessment>;
   rubric: Rubric;
   rubrics: Rubric[];
+  gradeScales: GradeScale[];
+  onSetLocked: (ids: string[], locked: boolean, reason?: string) => void;
+  canUnlock: boolean;
 }
 
-export const ExportView: React.FC<ExportViewProps> = ({ assignees, assessments, rubric, rubrics }) => {
+export const ExportView: React.FC<ExportViewProps> = ({ assignees, assessments, rubric, rubrics, gradeScales, onSetLocked, canUnlock }) => {
   const isGroupProject = rubric.type === 'group';
+  const gradeScale = resolveGradeScale(rubric, gradeScales);
+  const [includeRationales, setIncludeRationales] = useState(false);
+  const [includeCriterionFeedback, setIncludeCriterionFeedback] = useState(false);
+
+  // Graded records of this assignment, for the finalize controls
+  const rubricAssessments = assignees
+    .map(a => assessments[`${rubric.id}_${a.id}`])
+    .filter((a): a is Assessment => !!a);
+  const lockedCount = rubricAssessments.filter(a => a.locked).length;
+  const hasTranslations = rubricAssessments.some(a => a.feedbackTranslation);
   
   // Weight Configurations for Current View
   const totalWeightage = rubric.assignmentWeight ?? 100;
-  const peerWeightPct = rubric.peerEvalWeight || 0;
+  const peerWeightPct = getPeerEvalWeight(rubric);
   
   // Calculate max score contribution for each component based on Total Weightage
   const teacherMaxScore = (totalWeightage * (100 - peerWeightPct)) / 100;
@@ -46,49 +63,23 @@ export const ExportView: React.FC<ExportViewProps> = ({ assignees, assessments,
       return undefined;
   };
 
+  // Finds the exact member string of a student inside a group (peer evals are keyed by it)
+  const findMemberString = (group: Assignee | undefined, studentId: string) =>
+      group?.members?.find(m => parseMember(m).id === studentId);
+
   const calculateWeightedScore = (r: Rubric, assessment?: Assessment, studentId?: string) => {
       if (!assessment) return 0;
 
-      const rTotalWeight = r.assignmentWeight ?? 100;
-      const rPeerWeightPct = r.peerEvalWeight || 0;
-      const rTeacherMax = (rTotalWeight * (100 - rPeerWeightPct)) / 100;
-      const rPeerMax = (rTotalWeight * rPeerWeightPct) / 100;
-
-      // Teacher Part
-      const rubricMaxRawScore = r.criteria.reduce((acc, c) => acc + (Math.max(0, ...(c.levels?.map(l => l.score) || [0])) * (c.weight ?? 1)), 0);
-      const teacherRawScore = assessment.entries.reduce((acc, e) => {
-         const c = r.criteria.find(crit => crit.id === e.criterionId);
-         return acc + (e.score * (c?.weight ?? 1));
-      }, 0);
-      const teacherPct = rubricMaxRawScore > 0 ? (teacherRawScore / rubricMaxRawScore) : 0;
-      const teacherScoreVal = teacherPct * rTeacherMax;
-
-      // Peer Part
-      let peerScoreVal = 0;
-      if (rPeerWeightPct > 0) {
-        let peerAvgRaw = 0;
-        // If it's a group assignment, we need the specific student's peer eval score
-        if (r.type === 'group' && studentId) {
-             // Find student string in group members matches
-             // The peer evaluations are stored in the assessment object
-             // Need to match studentId to member name string stored in assessment peer evals
-             // This is tricky because peer evals store "Name" or "ID, Name" depending on setup
-             // We'll search for any subject that contains the ID
-             const studentEvals = assessment.peerEvaluations?.filter(pe => pe.subject.includes(studentId)) || [];
-             if (studentEvals.length > 0) {
-                 peerAvgRaw = studentEvals.reduce((s,e) => s + e.score, 0) / studentEvals.length;
-             } else {
-                 // If no evals found for student, 0
-                 peerAvgRaw = 0;
-             }
-        } else {
-            // Fallback for non-group or if logic fails (default to 100 if no peer weight)
-             peerAvgRaw = 100;
-        }
-        peerScoreVal = (peerAvgRaw / 100) * rPeerMax;
-      }
+      const group = studentId ? assignees.find(a => a.id === assessment.assigneeId && a.type === 'group') : undefined;
+      const member = studentId ? findMemberString(group, studentId) : undefined;
+      return toCourseScore(r, computeScore(r, assessment, member).totalScore);
+  };
 
-      return teacherScoreVal + peerScoreVal;
+  // Letter grade of one student on one assignment; null when ungraded or the assignment has no scale
+  const getStudentLetter = (r: Rubric, assessment: Assessment | undefined, studentId: string) => {
+      if (!assessment) return null;
+      const group = assignees.find(a => a.id === assessment.assigneeId && a.type === 'group');
+      return getLetterGrade(resolveGradeScale(r, gradeScales), computeScore(r, assessment, findMemberString(group, studentId)).totalScore);
   };
 
   const getAllUniqueStudents = () => {
@@ -110,29 +101,51 @@ export const ExportView: React.FC<ExportViewProps> = ({ assignees, assessments,
 
   const downloadAllCSV = () => {
     const students = getAllUniqueStudents();
+    const gradedRubrics = rubrics.filter(r => resolveGradeScale(r, gradeScales));
     
     // Header
     const headers = [
         'Student ID', 
         'Student Name', 
         ...rubrics.map(r => `${r.title} (${r.assignmentWeight}%)`), 
-        'Total Course Score'
+        'Total Course Score',
+        ...gradedRubrics.map(r => `${r.title} Grade`),
+        ...(gradedRubrics.length > 0 ? ['Weighted GPA'] : []),
+        'Late Penalties'
     ];
 
     const rows = students.map(student => {
         let totalCourseScore = 0;
+        const latePenalties: string[] = [];
         const assignmentScores = rubrics.map(r => {
             const assessment = getAssessmentForStudent(r, student.id);
             const score = calculateWeightedScore(r, assessment, student.id);
             totalCourseScore += score;
+            const { daysLate, latePenalty } = computeScore(r, assessment);
+            if (daysLate > 0) latePenalties.push(`${r.title}: ${daysLate}d late, -${latePenalty.toFixed(1)}%`);
             return score.toFixed(2); // String format for CSV
         });
 
+        // GPA points averaged over the graded assignments, weighted like the course score
+        let gpaPoints = 0;
+        let gpaWeight = 0;
+        const letters = gradedRubrics.map(r => {
+            const letter = getStudentLetter(r, getAssessmentForStudent(r, student.id), student.id);
+            if (!letter) return '';
+            const weight = r.assignmentWeight ?? 100;
+            gpaPoints += letter.gpa * weight;
+            gpaWeight += weight;
+            return `"${letter.letter.replace(/"/g, '""')}"`;
+        });
+
         return [
             student.id,
             `"${student.name}"`,
             ...assignmentScores,
-            totalCourseScore.toFixed(2)
+            totalCourseScore.toFixed(2),
+            ...letters,
+            ...(gradedRubrics.length > 0 ? [gpaWeight > 0 ? (gpaPoints / gpaWeight).toFixed(2) : ''] : []),
+            `"${latePenalties.join('; ').replace(/"/g, '""')}"`
         ].join(',');
     });
 
@@ -148,7 +161,23 @@ export const ExportView: React.FC<ExportViewProps> = ({ assignees, assessments,
 
   const downloadCurrentCSV = () => {
     // Base Headers
-    const criteriaHeaders = rubric.criteria.map(c => c.title);
+    const criteriaHeaders = [
+        ...rubric.criteria.map(c => c.title),
+        ...(includeRationales ? rubric.criteria.map(c => `${c.title} Rationale`) : []),
+        ...(includeCriterionFeedback ? rubric.criteria.flatMap(c => [
+            `${c.title} Feedback`,
+            `${c.title} Next Step`,
+            ...(hasTranslations ? [`${c.title} Feedback (Translated)`, `${c.title} Next Step (Translated)`] : [])
+        ]) : [])
+    ];
+    // Translations sit next to the original feedback, never in place of it
+    const translationHeaders = hasTranslations ? ['Feedback Language', 'Translated Feedback'] : [];
+    const letterHeaders = gradeScale ? ['Letter Grade', 'GPA'] : [];
+    const letterCells = (totalScore: number, graded: boolean) => {
+        if (!gradeScale) return [];
+        const letter = graded ? getLetterGrade(gradeScale, totalScore) : null;
+        return letter ? [`"${letter.letter.replace(/"/g, '""')}"`, letter.gpa.toFixed(2)] : ['', ''];
+    };
     
     let headers: string[] = [];
     if (isGroupProject) {
@@ -159,18 +188,28 @@ export const ExportView: React.FC<ExportViewProps> = ({ assignees, assessments,
             ...criteriaHeaders,
             `Teacher Score (${teacherMaxScore.toFixed(1)}%)`,
             `Peer Score (${peerMaxScore.toFixed(1)}%)`,
+            'Submitted',
+            'Days Late',
+            `Late Penalty (${totalWeightage}%)`,
             `Final Grade (${totalWeightage}%)`,
+            ...letterHeaders,
             'Status',
-            'Feedback'
+            'Feedback',
+            ...translationHeaders
         ];
     } else {
         headers = [
             'Student ID', 
             'Student Name',
             ...criteriaHeaders,
+            'Submitted',
+            'Days Late',
+            `Late Penalty (${totalWeightage}%)`,
             `Final Grade (${totalWeightage}%)`,
+            ...letterHeaders,
             'Status',
-            'Feedback'
+            'Feedback',
+            ...translationHeaders
         ];
     }
     
@@ -186,64 +225,77 @@ export const ExportView: React.FC<ExportViewProps> = ({ assignees, assessments,
         const entry = assessment?.entries.find(e => e.criterionId === c.id);
         return entry ? entry.score : 0;
       });
+      const criteriaRationales = includeRationales
+        ? rubric.criteria.map(c => `"${(assessment?.entries.find(e => e.criterionId === c.id)?.rationale || '').replace(/"/g, '""')}"`)
+        : [];
+      const criteriaFeedback = includeCriterionFeedback
+        ? rubric.criteria.flatMap(c => {
+            const entry = assessment?.entries.find(e => e.criterionId === c.id);
+            const translated = getTranslatedCriterion(assessment, c.id);
+            return [entry?.feedback, entry?.nextStep, ...(hasTranslations ? [translated?.feedback, translated?.nextStep] : [])]
+                .map(text => `"${(text || '').replace(/"/g, '""')}"`);
+          })
+        : [];
       
       const feedback = `"${(assessment?.feedback || '').replace(/"/g, '""')}"`;
+      const translationCells = hasTranslations
+        ? [assessment?.feedbackTranslation?.language || '', `"${(assessment?.feedbackTranslation?.feedback || '').replace(/"/g, '""')}"`]
+        : [];
+      const submitted = assessment?.submittedAt ? new Date(assessment.submittedAt).toISOString() : '';
       
-      // Calculate raw percentage from Teacher Rubric (0-1)
-      const rubricMaxRawScore = rubric.criteria.reduce((acc, c) => acc + (Math.max(0, ...(c.levels?.map(l => l.score) || [0])) * (c.weight ?? 1)), 0);
-      const teacherRawScore = assessment ? assessment.entries.reduce((acc, e) => {
-         const c = rubric.criteria.find(crit => crit.id === e.criterionId);
-         return acc + (e.score * (c?.weight ?? 1));
-      }, 0) : 0;
-      const teacherPct = rubricMaxRawScore > 0 ? (teacherRawScore / rubricMaxRawScore) : 0;
-
       if (isGroupProject && a.type === 'group' && a.members && a.members.length > 0) {
           // Group Mode: One row per member
           a.members.forEach(memberStr => {
              const { id, name } = parseMember(memberStr);
              
-             const peerEvals = assessment?.peerEvaluations?.filter(pe => pe.subject === memberStr) || [];
-             // Average Peer Score (0-100)
-             const peerAvgRaw = peerEvals.length > 0 ? peerEvals.reduce((s,e) => s + e.score, 0) / peerEvals.length : (peerWeightPct > 0 ? 0 : 100);
+             const score = computeScore(rubric, assessment, memberStr);
              
              // Scale scores to Weightage
-             const teacherScoreVal = teacherPct * teacherMaxScore;
-             const peerScoreVal = (peerAvgRaw / 100) * peerMaxScore;
-             const finalVal = teacherScoreVal + peerScoreVal;
-             
-             // Pass/Fail based on percentage equivalent
-             const finalPct = (finalVal / totalWeightage) * 100;
-             const status = finalPct >= (rubric.passingPercentage ?? 50) ? 'Pass' : 'Fail';
+             const teacherScoreVal = toCourseScore(rubric, score.teacherComponent);
+             const peerScoreVal = toCourseScore(rubric, score.peerComponent);
+             const finalVal = toCourseScore(rubric, score.totalScore);
+             const status = score.passed ? 'Pass' : 'Fail';
 
              const row = [
                 `"${a.name}"`,
                 id,
                 `"${name}"`,
                 ...criteriaScores,
+                ...criteriaRationales,
+                ...criteriaFeedback,
                 teacherScoreVal.toFixed(2),
                 peerScoreVal.toFixed(2),
+                submitted,
+                score.daysLate,
+                toCourseScore(rubric, score.latePenalty).toFixed(2),
                 finalVal.toFixed(2),
+                ...letterCells(score.totalScore, !!assessment),
                 status,
-                feedback
+                feedback,
+                ...translationCells
              ];
              rows.push(row.join(','));
           });
       } else if (!isGroupProject && a.type === 'individual') {
           // Individual Mode
-          const teacherScoreVal = teacherPct * teacherMaxScore;
-          // For individual, teacher score is the final grade
-          const finalVal = teacherScoreVal;
-          
-          const finalPct = (finalVal / totalWeightage) * 100;
-          const status = finalPct >= (rubric.passingPercentage ?? 50) ? 'Pass' : 'Fail';
+          const score = computeScore(rubric, assessment);
+          const finalVal = toCourseScore(rubric, score.totalScore);
+          const status = score.passed ? 'Pass' : 'Fail';
 
           const row = [
               a.id,
               `"${a.name}"`,
               ...criteriaScores,
+              ...criteriaRationales,
+              ...criteriaFeedback,
+              submitted,
+              score.daysLate,
+              toCourseScore(rubric, score.latePenalty).toFixed(2),
               finalVal.toFixed(2),
+              ...letterCells(score.totalScore, !!assessment),
               status,
-              feedback
+              feedback,
+              ...translationCells
           ];
           rows.push(row.join(','));
       }
@@ -259,6 +311,71 @@ export const ExportView: React.FC<ExportViewProps> = ({ assignees, assessments,
     document.body.removeChild(link);
   };
 
+  const downloadAuditCSV = () => {
+    const quote = (value: unknown) => `"${String(value ?? '').replace(/"/g, '""')}"`;
+    const headers = ['Timestamp', 'ID', 'Name', 'Action', 'Criterion', 'From', 'To', 'Changed By', 'Role', 'Source', 'Note'];
+
+    const rows: string[] = [];
+    assignees.forEach(a => {
+      const assessment = assessments[`${rubric.id}_${a.id}`];
+      (assessment?.auditLog || []).forEach(event => {
+        const criterion = rubric.criteria.find(c => c.id === event.criterionId);
+        rows.push([
+          new Date(event.at).toISOString(),
+          a.id,
+          quote(a.name),
+          event.action,
+          quote(criterion?.title || (event.criterionId ? 'Removed criterion' : '')),
+          quote(event.from),
+          quote(event.to),
+          quote(event.actor),
+          event.actorRole,
+          AUDIT_SOURCE_LABELS[event.source],
+          quote(event.note)
+        ].join(','));
+      });
+    });
+
+    const csvContent = "data:text/csv;charset=utf-8," + [headers.join(','), ...rows].join('\n');
+    const encodedUri = encodeURI(csvContent);
+    const link = document.createElement("a");
+    link.setAttribute("href", encodedUri);
+    link.setAttribute("download", `audit_log_${rubric.title.replace(/\s+/g, '_')}.csv`);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  const finalizeAssignment = () => {
+    const open = rubricAssessments.filter(a => !a.locked);
+    const ungraded = assignees.length - rubricAssessments.length;
+    const message = `Finalize ${open.length} graded record${open.length === 1 ? '' : 's'} for "${rubric.title}"? They can no longer be edited, auto-graded or peer-reviewed until a teacher unlocks them.`
+      + (ungraded > 0 ? `\n\n${ungraded} ungraded student${ungraded === 1 ? '' : 's'} will stay open.` : '');
+    if (confirm(message)) onSetLocked(open.map(a => a.id), true);
+  };
+
+  const unlockAssignment = () => {
+    const reason = prompt(`Why are the grades for "${rubric.title}" being reopened? The reason is kept in each change history.`);
+    if (reason === null) return;
+    onSetLocked(rubricAssessments.filter(a => a.locked).map(a => a.id), false, reason);
+  };
+
+  const LockBadge = ({ assessment }: { assessment?: Assessment }) => assessment?.locked ? (
+    <span title={`Finalized${assessment.lockedBy ? ` by ${assessment.lockedBy}` : ''}`} className="inline-flex ml-1 align-middle text-slate-400">
+      <Icon.LockClosed className="w-4 h-4" />
+    </span>
+  ) : null;
+
+  const LetterCell = ({ letter }: { letter: ReturnType<typeof getLetterGrade> }) => (
+    <td className="p-4 text-center">
+      {letter ? (
+        <span className="font-bold text-slate-800">{letter.letter} <span className="text-xs font-normal text-slate-500">({letter.gpa.toFixed(2)})</span></span>
+      ) : (
+        <span className="text-slate-300">-</span>
+      )}
+    </td>
+  );
+
   return (
     <div className="bg-white rounded-lg shadow-sm border border-slate-200 overflow-hidden animate-fade-in">
       <div className="p-6 border-b border-slate-200 flex flex-col sm:flex-row justify-between items-start sm:items-center bg-slate-50 gap-4">
@@ -267,8 +384,49 @@ export const ExportView: React.FC<ExportViewProps> = ({ assignees, assessments,
            <p className="text-sm text-slate-500">
                {rubric.title} <span className="px-2 py-0.5 rounded-full bg-slate-200 text-slate-600 text-xs font-bold uppercase">{isGroupProject ? 'Group' : 'Individual'}</span>
            </p>
+           <p className="text-xs text-slate-500 mt-1">{lockedCount} of {rubricAssessments.length} graded records finalized</p>
         </div>
-        <div className="flex gap-2">
+        <div className="flex flex-wrap gap-2 items-center">
+            <label className="flex items-center gap-2 text-xs text-slate-600 mr-2" title="Adds a rationale column per criterion to the Current Assignment export">
+                <input
+                    type="checkbox"
+                    checked={includeRationales}
+                    onChange={(e) => setIncludeRationales(e.target.checked)}
+                    className="rounded border-slate-300"
+                />
+                Include criterion rationales
+            </label>
+            <label className="flex items-center gap-2 text-xs text-slate-600 mr-2" title="Adds feedback and next step columns per criterion to the Current Assignment export">
+                <input
+                    type="checkbox"
+                    checked={includeCriterionFeedback}
+                    onChange={(e) => setIncludeCriterionFeedback(e.target.checked)}
+                    className="rounded border-slate-300"
+                />
+                Include criterion feedback
+            </label>
+            {lockedCount < rubricAssessments.length && (
+                <button 
+                    onClick={finalizeAssignment}
+                    className="bg-slate-800 text-white px-4 py-2 rounded-md hover:bg-slate-700 flex items-center gap-2 font-medium transition-colors text-sm"
+                >
+                    <Icon.LockClosed className="w-4 h-4" /> Finalize Assignment
+                </button>
+            )}
+            {canUnlock && lockedCount > 0 && (
+                <button 
+                    onClick={unlockAssignment}
+                    className="bg-white border border-slate-300 text-slate-700 px-4 py-2 rounded-md hover:bg-slate-50 flex items-center gap-2 font-medium transition-colors text-sm"
+                >
+                    <Icon.LockOpen className="w-4 h-4" /> Unlock All
+                </button>
+            )}
+            <button 
+                onClick={downloadAuditCSV}
+                className="bg-white border border-slate-300 text-slate-700 px-4 py-2 rounded-md hover:bg-slate-50 flex items-center gap-2 font-medium transition-colors text-sm"
+            >
+                <Icon.Download /> Audit Log
+            </button>
             <button 
                 onClick={downloadCurrentCSV}
                 className="bg-white border border-slate-300 text-slate-700 px-4 py-2 rounded-md hover:bg-slate-50 flex items-center gap-2 font-medium transition-colors text-sm"
@@ -295,6 +453,7 @@ export const ExportView: React.FC<ExportViewProps> = ({ assignees, assessments,
                     <th className="p-4 text-right">Teacher Score ({teacherMaxScore.toFixed(1)}%)</th>
                     <th className="p-4 text-right">Peer Score ({peerMaxScore.toFixed(1)}%)</th>
                     <th className="p-4 text-right">Final Grade ({totalWeightage}%)</th>
+                    {gradeScale && <th className="p-4 text-center" title={gradeScale.name}>Grade</th>}
                     <th className="p-4 text-center">Status</th>
                 </tr>
             ) : (
@@ -302,6 +461,7 @@ export const ExportView: React.FC<ExportViewProps> = ({ assignees, assessments,
                     <th className="p-4">Student ID</th>
                     <th className="p-4">Student Name</th>
                     <th className="p-4 text-right">Final Grade ({totalWeightage}%)</th>
+                    {gradeScale && <th className="p-4 text-center" title={gradeScale.name}>Grade</th>}
                     <th className="p-4 text-center">Status</th>
                 </tr>
             )}
@@ -309,7 +469,7 @@ export const ExportView: React.FC<ExportViewProps> = ({ assignees, assessments,
           <tbody className="divide-y divide-slate-100">
             {assignees.length === 0 && (
                 <tr>
-                    <td colSpan={isGroupProject ? 7 : 4} className="p-8 text-center text-slate-400">
+                    <td colSpan={(isGroupProject ? 7 : 4) + (gradeScale ? 1 : 0)} className="p-8 text-center text-slate-400">
                         No results to display.
                     </td>
                 </tr>
@@ -319,36 +479,26 @@ export const ExportView: React.FC<ExportViewProps> = ({ assignees, assessments,
               const compositeKey = `${rubric.id}_${a.id}`;
               const assessment = assessments[compositeKey];
               
-              // Calculate Teacher Pct (0-1)
-              const rubricMaxRawScore = rubric.criteria.reduce((acc, c) => acc + (Math.max(0, ...(c.levels?.map(l => l.score) || [0])) * (c.weight ?? 1)), 0);
-              const teacherRawScore = assessment ? assessment.entries.reduce((acc, e) => {
-                  const c = rubric.criteria.find(crit => crit.id === e.criterionId);
-                  return acc + (e.score * (c?.weight ?? 1));
-              }, 0) : 0;
-              const teacherPct = rubricMaxRawScore > 0 ? (teacherRawScore / rubricMaxRawScore) : 0;
-
               // RENDER GROUP ROWS
               if (isGroupProject && a.type === 'group') {
                  if (!a.members || a.members.length === 0) {
                      return (
                          <tr key={a.id} className="bg-orange-50/20">
                              <td className="p-4 font-medium text-slate-800">{a.name}</td>
-                             <td className="p-4 text-orange-400 italic" colSpan={6}>No members assigned</td>
+                             <td className="p-4 text-orange-400 italic" colSpan={gradeScale ? 7 : 6}>No members assigned</td>
                          </tr>
                      );
                  }
 
                  return a.members.map(memberStr => {
                     const { id, name } = parseMember(memberStr);
-                    const peerEvals = assessment?.peerEvaluations?.filter(pe => pe.subject === memberStr) || [];
-                    const peerAvgRaw = peerEvals.length > 0 ? peerEvals.reduce((s,e) => s + e.score, 0) / peerEvals.length : 0;
-                    
-                    const teacherScoreVal = teacherPct * teacherMaxScore;
-                    const peerScoreVal = (peerAvgRaw / 100) * peerMaxScore;
-                    const finalVal = teacherScoreVal + peerScoreVal;
+                    const score = computeScore(rubric, assessment, memberStr);
                     
-                    const finalPct = (finalVal / totalWeightage) * 100;
-                    const isPass = finalPct >= (rubric.passingPercentage ?? 50);
+                    const teacherScoreVal = toCourseScore(rubric, score.teacherComponent);
+                    const peerScoreVal = toCourseScore(rubric, score.peerComponent);
+                    const finalVal = toCourseScore(rubric, score.totalScore);
+                    const isPass = score.passed;
+                    const letter = assessment ? getLetterGrade(gradeScale, score.totalScore) : null;
 
                     return (
                         <tr key={`${a.id}-${memberStr}`} className="hover:bg-slate-50 border-b last:border-0 border-slate-50">
@@ -358,10 +508,12 @@ export const ExportView: React.FC<ExportViewProps> = ({ assignees, assessments,
                             <td className="p-4 text-right font-mono text-blue-600">{teacherScoreVal.toFixed(1)}</td>
                             <td className="p-4 text-right font-mono text-purple-600">{peerScoreVal.toFixed(1)}</td>
                             <td className="p-4 text-right font-bold text-slate-800">{finalVal.toFixed(1)}</td>
+                            {gradeScale && <LetterCell letter={letter} />}
                             <td className="p-4 text-center">
                                 <span className={`px-2 py-1 rounded text-xs font-bold ${isPass ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'}`}>
                                     {isPass ? 'PASS' : 'FAIL'}
                                 </span>
+                                <LockBadge assessment={assessment} />
                             </td>
                         </tr>
                     );
@@ -370,9 +522,10 @@ export const ExportView: React.FC<ExportViewProps> = ({ assignees, assessments,
 
               // RENDER INDIVIDUAL ROWS
               if (!isGroupProject && a.type === 'individual') {
-                const finalVal = teacherPct * teacherMaxScore;
-                const finalPct = (finalVal / totalWeightage) * 100;
-                const isPass = finalPct >= (rubric.passingPercentage ?? 50);
+                const score = computeScore(rubric, assessment);
+                const finalVal = toCourseScore(rubric, score.totalScore);
+                const isPass = score.passed;
+                const letter = assessment ? getLetterGrade(gradeScale, score.totalScore) : null;
 
                 return (
                     <tr key={a.id} className="hover:bg-slate-50">
@@ -381,6 +534,7 @@ export const ExportView: React.FC<ExportViewProps> = ({ assignees, assessments,
                     <td className="p-4 text-right font-bold text-slate-800">
                         {finalVal.toFixed(1)}
                     </td>
+                    {gradeScale && <LetterCell letter={letter} />}
                     <td className="p-4 text-center">
                         {assessment ? (
                             <span className={`px-2 py-1 rounded text-xs font-bold ${isPass ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'}`}>
@@ -389,6 +543,7 @@ export const ExportView: React.FC<ExportViewProps> = ({ assignees, assessments,
                         ) : (
                             <span className="text-slate-300">-</span>
                         )}
+                        <LockBadge assessment={assessment} />
                     </td>
                     </tr>
                 );
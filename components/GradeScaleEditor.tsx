@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import { GradeBoundary, GradeScale } from '../types';
+import { Icon } from './Icon';
+import { PRESET_GRADE_SCALES, sortBoundaries, validateGradeScale } from '../services/gradeScales';
+
+interface GradeScaleEditorProps {
+  scales: GradeScale[];
+  onChange: (scales: GradeScale[]) => void;
+  onClose: () => void;
+}
+
+export const GradeScaleEditor: React.FC<GradeScaleEditorProps> = ({ scales, onChange, onClose }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(scales[0]?.id ?? null);
+  const selected = scales.find(s => s.id === selectedId) || null;
+  const problems = selected ? validateGradeScale(selected) : [];
+
+  const updateScale = (updated: GradeScale) => {
+      onChange(scales.map(s => s.id === updated.id ? updated : s));
+  };
+
+  const updateBoundary = (index: number, changes: Partial<GradeBoundary>) => {
+      if (!selected) return;
+      updateScale({ ...selected, boundaries: selected.boundaries.map((b, i) => i === index ? { ...b, ...changes } : b) });
+  };
+
+  const handleAddScale = (presetIndex: number) => {
+      const preset = PRESET_GRADE_SCALES[presetIndex];
+      const scale: GradeScale = {
+          id: crypto.randomUUID(),
+          name: preset ? preset.name : 'New Scale',
+          boundaries: preset ? preset.boundaries.map(b => ({ ...b })) : [{ letter: 'F', minPercent: 0, gpa: 0 }]
+      };
+      onChange([...scales, scale]);
+      setSelectedId(scale.id);
+  };
+
+  const handleDeleteScale = (scale: GradeScale) => {
+      const courses = scale.courses?.length ? ` It is the default for ${scale.courses.join(', ')}.` : '';
+      if (!confirm(`Delete the grade scale "${scale.name}"?${courses} Assignments using it will show no letter grade.`)) return;
+      const remaining = scales.filter(s => s.id !== scale.id);
+      onChange(remaining);
+      setSelectedId(remaining[0]?.id ?? null);
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden animate-fade-in">
+        <div className="flex items-center justify-between p-4 bg-slate-50 border-b border-slate-200">
+            <div>
+                <h3 className="font-bold text-slate-800">Grade Scales</h3>
+                <p className="text-xs text-slate-500">Shared by every course. A score earns the highest grade whose minimum it reaches.</p>
+            </div>
+            <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-700 rounded-lg hover:bg-slate-100" title="Close">
+                <Icon.XMark />
+            </button>
+        </div>
+
+        <div className="flex flex-col md:flex-row">
+            <div className="md:w-56 border-b md:border-b-0 md:border-r border-slate-200 p-2 space-y-1">
+                {scales.map(s => (
+                    <button
+                        key={s.id}
+                        onClick={() => setSelectedId(s.id)}
+                        className={`w-full text-left px-3 py-2 rounded-lg text-sm truncate ${s.id === selectedId ? 'bg-blue-50 text-blue-700 font-bold' : 'text-slate-600 hover:bg-slate-50'}`}
+                    >
+                        {s.name || 'Untitled scale'}
+                    </button>
+                ))}
+                <select
+                    value=""
+                    onChange={(e) => e.target.value !== '' && handleAddScale(parseInt(e.target.value))}
+                    className="w-full mt-2 p-2 text-sm border border-dashed border-slate-300 rounded-lg text-slate-500 bg-white"
+                >
+                    <option value="">+ Add scale...</option>
+                    {PRESET_GRADE_SCALES.map((p, i) => <option key={p.name} value={i}>From preset: {p.name}</option>)}
+                    <option value={-1}>Blank scale</option>
+                </select>
+            </div>
+
+            <div className="flex-1 p-4">
+                {!selected ? (
+                    <p className="text-sm text-slate-400 text-center py-8">No grade scales yet. Add one from a preset to get started.</p>
+                ) : (
+                    <div className="space-y-4">
+                        <div className="flex items-center gap-2">
+                            <input
+                                value={selected.name}
+                                onChange={(e) => updateScale({ ...selected, name: e.target.value })}
+                                className="flex-1 p-2 font-bold border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                                placeholder="Scale name"
+                            />
+                            <button
+                                onClick={() => handleDeleteScale(selected)}
+                                className="p-2 text-slate-300 hover:text-red-500 hover:bg-red-50 rounded-lg"
+                                title="Delete Scale"
+                            >
+                                <Icon.Trash />
+                            </button>
+                        </div>
+
+                        <table className="w-full text-sm">
+                            <thead>
+                                <tr className="text-xs text-slate-400 uppercase text-left">
+                                    <th className="pb-2 font-bold">Letter</th>
+                                    <th className="pb-2 font-bold">Min Score (%)</th>
+                                    <th className="pb-2 font-bold">GPA Points</th>
+                                    <th></th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {selected.boundaries.map((b, i) => (
+                                    <tr key={i} className="border-t border-slate-100">
+                                        <td className="py-1 pr-2">
+                                            <input
+                                                value={b.letter}
+                                                onChange={(e) => updateBoundary(i, { letter: e.target.value })}
+                                                className="w-20 p-1.5 border border-slate-300 rounded focus:ring-2 focus:ring-blue-500 outline-none"
+                                            />
+                                        </td>
+                                        <td className="py-1 pr-2">
+                                            <input
+                                                type="number" min="0" max="100" step="0.5"
+                                                value={b.minPercent}
+                                                onChange={(e) => updateBoundary(i, { minPercent: parseFloat(e.target.value) || 0 })}
+                                                className="w-24 p-1.5 border border-slate-300 rounded focus:ring-2 focus:ring-blue-500 outline-none"
+                                            />
+                                        </td>
+                                        <td className="py-1 pr-2">
+                                            <input
+                                                type="number" min="0" step="0.1"
+                                                value={b.gpa}
+                                                onChange={(e) => updateBoundary(i, { gpa: parseFloat(e.target.value) || 0 })}
+                                                className="w-24 p-1.5 border border-slate-300 rounded focus:ring-2 focus:ring-blue-500 outline-none"
+                                            />
+                                        </td>
+                                        <td className="py-1 text-right">
+                                            <button
+                                                onClick={() => updateScale({ ...selected, boundaries: selected.boundaries.filter((_, j) => j !== i) })}
+                                                className="p-1.5 text-slate-300 hover:text-red-500"
+                                                title="Remove Grade"
+                                            >
+                                                <Icon.XMark />
+                                            </button>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+
+                        <div className="flex gap-2">
+                            <button
+                                onClick={() => updateScale({ ...selected, boundaries: [...selected.boundaries, { letter: '', minPercent: 0, gpa: 0 }] })}
+                                className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800 font-medium"
+                            >
+                                <Icon.Plus /> Add Grade
+                            </button>
+                            <button
+                                onClick={() => updateScale({ ...selected, boundaries: sortBoundaries(selected.boundaries) })}
+                                className="text-sm text-slate-500 hover:text-slate-700 font-medium ml-auto"
+                            >
+                                Sort by score
+                            </button>
+                        </div>
+
+                        {problems.length > 0 && (
+                            <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg text-xs text-amber-800 space-y-1">
+                                {problems.map(p => <p key={p}>{p}</p>)}
+                            </div>
+                        )}
+                    </div>
+                )}
+            </div>
+        </div>
+    </div>
+  );
+};
@@ -1,23 +1,63 @@
 import React, { useState, useMemo, useRef } from 'react';
-import { Assignee, Assessment, Rubric, PeerEvaluation } from '../types';
-import { generateFeedbackWithAI, autoGradeWithAI, extractSubmissionText } from '../services/geminiService';
+import { Assignee, Assessment, AuditSource, FeedbackStyle, FeedbackTranslation, GradeEntry, GradeScale, IntegrityNote, Rubric, PeerEvaluation } from '../types';
+import { generateFeedbackWithAI, autoGradeWithAI, extractSubmissionText, translateFeedbackWithAI, GradedSubmission } from '../services/geminiService';
+import { computeScore, getLateStatus, getPeerAverage, recalculateAssessment } from '../services/gradingEngine';
+import { toDateTimeInputValue, fromDateTimeInputValue } from '../services/dateInput';
+import { AUDIT_SOURCE_LABELS, describeAuditEvent } from '../services/auditService';
+import { getLetterGrade } from '../services/gradeScales';
+import { LOW_CONFIDENCE, applyAiRatings, formatConfidence, getBorderlineReason, markForReview } from '../services/autoGrade';
+import { resolveEvidence, segmentText } from '../services/evidence';
+import { PROMPT_SCOPE_LABELS } from '../services/promptTemplates';
+import { getExemplarProblem, selectExemplars } from '../services/calibration';
+import { FEEDBACK_STYLE_OPTIONS, applyAiFeedback, formatOverallFeedback, keepFeedback, resolveFeedbackStyle } from '../services/feedback';
+import { buildFeedbackTranslation, collectFeedbackTexts, getTranslatedCriterion, isTranslationStale, resolveFeedbackLanguage } from '../services/translation';
+import { AiOutputError } from '../services/aiValidation';
+import { BatchGradeOutcome, BatchGradePanel } from './BatchGradePanel';
+import { CalibrationPanel } from './CalibrationPanel';
+import { SimilarityPanel } from './SimilarityPanel';
 import { Icon } from './Icon';
 
+// Highlight colours for evidence, by criterion position in the rubric
+const EVIDENCE_COLORS = ['bg-yellow-200', 'bg-green-200', 'bg-sky-200', 'bg-pink-200', 'bg-orange-200', 'bg-teal-200', 'bg-violet-200', 'bg-lime-200'];
+
 interface GraderProps {
   rubric: Rubric;
   assignees: Assignee[];
   assessments: Record<string, Assessment>;
-  onSaveAssessment: (id: string, assessment: Assessment) => void;
+  onSaveAssessment: (id: string, assessment: Assessment, source?: AuditSource) => void;
+  onSaveAssessments: (label: string, updates: Assessment[], source?: AuditSource) => void; // One undo step for batch changes
+  onSetLocked: (ids: string[], locked: boolean, reason?: string) => void;
+  canUnlock: boolean; // Only teachers may reopen finalized grades
+  assessor: { id: string; name: string }; // Whose independent marks to edit on double-marked assignments
+  onUpdateRubric?: (rubric: Rubric) => void; // Teachers only: used to grant extensions and set the feedback style
+  gradeScale?: GradeScale; // Resolved for this rubric; no letter grade is shown without one
+  onSetExemplar?: (id: string, marked: boolean) => void; // Teachers only: calibration exemplars
+  rubrics: Rubric[]; // Every assignment, for the similarity check against other assignments' submissions
+  onSetIntegrityNote?: (id: string, note: Omit<IntegrityNote, 'recordedAt' | 'recordedBy'> | null) => void; // Teachers only
 }
 
-export const Grader: React.FC<GraderProps> = ({ rubric, assignees, assessments, onSaveAssessment }) => {
+export const Grader: React.FC<GraderProps> = ({ rubric, assignees, assessments, onSaveAssessment, onSaveAssessments, onSetLocked, canUnlock, assessor, onUpdateRubric, gradeScale, onSetExemplar, rubrics, onSetIntegrityNote }) => {
   const [selectedAssigneeId, setSelectedAssigneeId] = useState<string | null>(assignees.length > 0 ? assignees[0].id : null);
   const [loadingFeedback, setLoadingFeedback] = useState(false);
+  const [isTranslating, setIsTranslating] = useState(false);
   const [isAutoGrading, setIsAutoGrading] = useState(false);
+  // The last auto-grade that reused a cached result, so it can be redone against the provider
+  const [cachedGrade, setCachedGrade] = useState<{ assessmentId: string; cachedAt: number } | null>(null);
   const [isExtracting, setIsExtracting] = useState(false);
   const [showSubmission, setShowSubmission] = useState(false); // Default to collapsed
+  const [showHistory, setShowHistory] = useState(false);
+  const [showBatchGrade, setShowBatchGrade] = useState(false);
+  const [showCalibration, setShowCalibration] = useState(false);
+  const [showSimilarity, setShowSimilarity] = useState(false);
+  const [reviewOnly, setReviewOnly] = useState(false); // Roster filter: AI results awaiting confirmation
+  const [editingSubmission, setEditingSubmission] = useState(false); // Plain textarea instead of the highlighted evidence view
+  const [focusedCriterionId, setFocusedCriterionId] = useState<string | null>(null);
+  const evidenceRef = useRef<HTMLDivElement>(null);
   
   const submissionInputRef = useRef<HTMLInputElement>(null);
+  // A batch run outlives many renders; its results are merged into the latest records, not the ones it started from
+  const assessmentsRef = useRef(assessments);
+  assessmentsRef.current = assessments;
 
   const selectedAssignee = assignees.find(a => a.id === selectedAssigneeId);
 
@@ -27,16 +67,6 @@ export const Grader: React.FC<GraderProps> = ({ rubric, assignees, assessments,
 
     // Use composite key for lookup: rubricId_studentId
     const compositeKey = `${rubric.id}_${selectedAssigneeId}`;
-    
-    // Determine config
-    const peerEvalWeight = (rubric.type === 'group' ? rubric.peerEvalWeight : 0) || 0;
-    const teacherWeight = 100 - peerEvalWeight;
-
-    // 1. Calculate Rubric Max Raw Score (Sum of all criteria max possible weighted scores)
-    const rubricMaxRawScore = rubric.criteria.reduce((acc, c) => 
-      acc + (Math.max(0, ...(c.levels?.map(l => l.score) || [0])) * (c.weight ?? 1)), 0
-    );
-
     const stored = assessments[compositeKey];
     
     // Fallback if no stored assessment
@@ -54,67 +84,63 @@ export const Grader: React.FC<GraderProps> = ({ rubric, assignees, assessments,
       lastUpdated: Date.now()
     };
 
-    // 2. Filter entries for criteria that still exist in the rubric
-    const validEntries = baseAssessment.entries.filter(entry => 
-      rubric.criteria.some(c => c.id === entry.criterionId)
-    );
-
-    // 3. Calculate Teacher (Rubric) Raw Score
-    let teacherRawScore = 0;
-    const updatedEntries = validEntries.map(entry => {
-      const criterion = rubric.criteria.find(c => c.id === entry.criterionId);
-      const level = criterion?.levels.find(l => l.id === entry.levelId);
-      const weight = criterion?.weight ?? 1;
-      
-      const currentScore = entry.score !== undefined ? entry.score : (level ? level.score : 0);
-      teacherRawScore += (currentScore * weight);
-
-      return { ...entry, score: currentScore };
-    });
-
-    // 4. Calculate Peer Evaluation Score (Average %)
-    const peerEvals = baseAssessment.peerEvaluations || [];
-    let peerAvg = 100; 
-    
-    if (peerEvalWeight > 0) {
-        if (peerEvals.length > 0) {
-            const sumPeer = peerEvals.reduce((s, e) => s + e.score, 0);
-            peerAvg = sumPeer / peerEvals.length;
-        } else {
-            peerAvg = 0; // No reviews yet
-        }
-    }
+    return recalculateAssessment(rubric, baseAssessment);
+  }, [selectedAssigneeId, assessments, rubric]);
 
-    // 5. Final Composite Score
-    const teacherComponent = rubricMaxRawScore > 0 
-        ? (teacherRawScore / rubricMaxRawScore) * teacherWeight 
-        : 0;
-    
-    const peerComponent = (peerAvg / 100) * peerEvalWeight;
-    
-    const finalTotalScore = teacherComponent + peerComponent;
+  // Double-marked assignments show and edit the signed-in assessor's own marks; the final entries come from moderation
+  const isDoubleMarking = !!rubric.doubleMarking;
+  const entriesFor = (assessment: Assessment): GradeEntry[] =>
+    (isDoubleMarking ? assessment.markings?.[assessor.id]?.entries : assessment.entries) || [];
+  const visibleEntries = currentAssessment ? entriesFor(currentAssessment) : [];
 
+  const withEntries = (assessment: Assessment, entries: GradeEntry[]): Assessment => {
+    if (!isDoubleMarking) return recalculateAssessment(rubric, { ...assessment, entries, lastUpdated: Date.now() });
     return {
-      ...baseAssessment,
-      entries: updatedEntries,
-      peerEvaluations: peerEvals,
-      totalScore: finalTotalScore,
-      maxScore: 100 // Always normalized to 100
+      ...assessment,
+      markings: {
+        ...assessment.markings,
+        [assessor.id]: { assessorId: assessor.id, assessorName: assessor.name, entries, lastUpdated: Date.now() }
+      },
+      lastUpdated: Date.now()
     };
-  }, [selectedAssigneeId, assessments, rubric]);
+  };
 
-  const percentage = currentAssessment ? currentAssessment.totalScore : 0;
-  const isPassed = percentage >= (rubric.passingPercentage ?? 50);
+  // Applies an AI result on top of the given entries, flags it for review when it is unsure or borderline,
+  // and records which prompt version produced it
+  const withAiResult = (assessment: Assessment, entries: GradeEntry[], result: GradedSubmission): Assessment => {
+    const applied = applyAiRatings(rubric, entries, result, assessment.submissionText);
+    const borderline = getBorderlineReason(rubric, assessment, applied.entries);
+    const graded = withEntries({ ...assessment, feedback: result.feedback || assessment.feedback }, applied.entries);
+    const reviewed = markForReview(graded, borderline ? [...applied.reviewReasons, borderline] : applied.reviewReasons);
+    return { ...reviewed, promptRun: result.promptRun };
+  };
 
-  // Helper to get raw rubric score
-  const getRubricRawScore = () => {
-    if (!currentAssessment) return 0;
-    return currentAssessment.entries.reduce((acc, e) => {
-        const c = rubric.criteria.find(crit => crit.id === e.criterionId);
-        const w = c?.weight ?? 1;
-        return acc + (e.score * w);
+  const submissionText = currentAssessment?.submissionText || '';
+  const evidenceMarks = visibleEntries.flatMap(entry =>
+    resolveEvidence(submissionText, entry.evidence).map(span => ({ key: entry.criterionId, start: span.start, end: span.end })));
+  const evidenceColor = (criterionId: string) =>
+    EVIDENCE_COLORS[Math.max(0, rubric.criteria.findIndex(c => c.id === criterionId)) % EVIDENCE_COLORS.length];
+  const showEvidence = evidenceMarks.length > 0 && !editingSubmission;
+
+  const focusEvidence = (criterionId: string) => {
+    setShowSubmission(true);
+    setEditingSubmission(false);
+    setFocusedCriterionId(criterionId);
+    // Wait for the submission panel to render before scrolling
+    setTimeout(() => {
+      evidenceRef.current?.querySelector(`[data-criteria~="${criterionId}"]`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
     }, 0);
   };
+
+  const scoreBreakdown = currentAssessment ? computeScore(rubric, currentAssessment) : null;
+  const lateStatus = currentAssessment ? getLateStatus(rubric, currentAssessment) : null;
+  const exemplarProblem = currentAssessment ? getExemplarProblem(rubric, currentAssessment) : null;
+  const feedbackStyle = resolveFeedbackStyle(rubric);
+  const feedbackLanguage = resolveFeedbackLanguage(rubric, selectedAssignee);
+  const translation = currentAssessment?.feedbackTranslation;
+  const translationStale = currentAssessment ? isTranslationStale(currentAssessment, visibleEntries) : false;
+  const isPassed = scoreBreakdown ? scoreBreakdown.passed : false;
+  const letterGrade = scoreBreakdown ? getLetterGrade(gradeScale, scoreBreakdown.totalScore) : null;
   
   const handleScore = (criterionId: string, levelId: string) => {
     if (!selectedAssigneeId || !currentAssessment) return;
@@ -143,58 +169,87 @@ export const Grader: React.FC<GraderProps> = ({ rubric, assignees, assessments,
   const saveScore = (criterionId: string, levelId: string, score: number) => {
     if (!selectedAssigneeId || !currentAssessment) return;
 
-    const newEntries = currentAssessment.entries.filter(e => e.criterionId !== criterionId);
-    newEntries.push({ criterionId, levelId, score });
-    
-    // Re-calc logic (simplified version of useMemo)
-    const peerWeight = (rubric.type === 'group' ? rubric.peerEvalWeight : 0) || 0;
-    const teacherWeight = 100 - peerWeight;
+    const previous = visibleEntries.find(e => e.criterionId === criterionId);
+    const newEntries = visibleEntries.filter(e => e.criterionId !== criterionId);
+    // An AI rationale and confidence describe the AI's level, so they are dropped once someone picks a different one
+    const sameLevel = previous?.score === score;
+    const keepRationale = previous?.rationale && (previous.rationaleSource !== 'AI' || sameLevel);
+    newEntries.push({
+      criterionId,
+      levelId,
+      score,
+      ...(keepRationale ? { rationale: previous.rationale, rationaleSource: previous.rationaleSource } : {}),
+      ...(sameLevel && previous?.confidence !== undefined ? { confidence: previous.confidence } : {}),
+      ...(previous?.evidence ? { evidence: previous.evidence } : {}),
+      ...keepFeedback(previous, sameLevel)
+    });
     
-    const rubricMaxRawScore = rubric.criteria.reduce((acc, c) => 
-      acc + (Math.max(0, ...(c.levels?.map(l => l.score) || [0])) * (c.weight ?? 1)), 0
-    );
-
-    const teacherRawScore = newEntries.reduce((acc, e) => {
-        const c = rubric.criteria.find(crit => crit.id === e.criterionId);
-        const w = c?.weight ?? 1;
-        return acc + (e.score * w);
-    }, 0);
+    onSaveAssessment(currentAssessment.id, withEntries(currentAssessment, newEntries));
+  };
 
-    const peerEvals = currentAssessment.peerEvaluations || [];
-    let peerAvg = 0;
-    if (peerEvals.length > 0) {
-         peerAvg = peerEvals.reduce((s, e) => s + e.score, 0) / peerEvals.length;
-    } else if (peerWeight > 0) {
-        peerAvg = 0; // strict if missing
-    } else {
-        peerAvg = 100;
-    }
+  const handleRationaleChange = (criterionId: string, text: string) => {
+    if (!selectedAssigneeId || !currentAssessment || currentAssessment.locked) return;
+    const newEntries = visibleEntries.map(e => e.criterionId === criterionId
+      ? { ...e, rationale: text || undefined, rationaleSource: text ? 'HUMAN' as const : undefined }
+      : e);
+    onSaveAssessment(currentAssessment.id, withEntries(currentAssessment, newEntries));
+  };
 
-    const teacherComponent = rubricMaxRawScore > 0 ? (teacherRawScore / rubricMaxRawScore) * teacherWeight : 0;
-    const peerComponent = (peerAvg / 100) * peerWeight;
-    
+  const handleCriterionFeedbackChange = (criterionId: string, changes: Pick<GradeEntry, 'feedback' | 'nextStep'>) => {
+    if (!selectedAssigneeId || !currentAssessment || currentAssessment.locked) return;
+    const newEntries = visibleEntries.map(e => {
+      if (e.criterionId !== criterionId) return e;
+      const next = { ...e, ...changes };
+      const hasText = !!(next.feedback || next.nextStep);
+      return {
+        ...next,
+        feedback: next.feedback || undefined,
+        nextStep: next.nextStep || undefined,
+        feedbackSource: hasText ? 'HUMAN' as const : undefined
+      };
+    });
+    onSaveAssessment(currentAssessment.id, withEntries(currentAssessment, newEntries));
+  };
+
+  const handleFeedbackStyleChange = (changes: Partial<FeedbackStyle>) => {
+    if (!onUpdateRubric) return;
+    onUpdateRubric({ ...rubric, feedbackStyle: { ...feedbackStyle, ...changes } });
+  };
+
+  const handleFeedbackChange = (text: string, source: AuditSource = 'HUMAN') => {
+    if (!selectedAssigneeId || !currentAssessment || currentAssessment.locked) return;
     onSaveAssessment(currentAssessment.id, {
       ...currentAssessment,
-      entries: newEntries,
-      totalScore: teacherComponent + peerComponent,
+      feedback: text,
       lastUpdated: Date.now()
-    });
+    }, source);
   };
 
-  const handleFeedbackChange = (text: string) => {
-    if (!selectedAssigneeId || !currentAssessment) return;
+  const handleSubmissionChange = (text: string, source: AuditSource = 'HUMAN') => {
+    if (!selectedAssigneeId || !currentAssessment || currentAssessment.locked) return;
     onSaveAssessment(currentAssessment.id, {
       ...currentAssessment,
-      feedback: text
-    });
+      submissionText: text,
+      lastUpdated: Date.now()
+    }, source);
   };
 
-  const handleSubmissionChange = (text: string) => {
-    if (!selectedAssigneeId || !currentAssessment) return;
-    onSaveAssessment(currentAssessment.id, {
+  const handleSubmittedAtChange = (value: string) => {
+    if (!selectedAssigneeId || !currentAssessment || currentAssessment.locked) return;
+    onSaveAssessment(currentAssessment.id, recalculateAssessment(rubric, {
       ...currentAssessment,
-      submissionText: text
-    });
+      submittedAt: fromDateTimeInputValue(value),
+      lastUpdated: Date.now()
+    }));
+  };
+
+  const handleExtensionChange = (value: string) => {
+    if (!selectedAssigneeId || !onUpdateRubric) return;
+    const extensions = { ...rubric.extensions };
+    const time = fromDateTimeInputValue(value);
+    if (time === undefined) delete extensions[selectedAssigneeId];
+    else extensions[selectedAssigneeId] = new Date(time).toISOString();
+    onUpdateRubric({ ...rubric, extensions });
   };
 
   const handleSubmissionFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -218,8 +273,8 @@ export const Grader: React.FC<GraderProps> = ({ rubric, assignees, assessments,
                 reader.readAsDataURL(file);
             });
 
-            const text = await extractSubmissionText(base64Data, file.type);
-            handleSubmissionChange(text);
+            const text = await extractSubmissionText(base64Data, file.type, { rubric });
+            handleSubmissionChange(text, 'AI');
         } catch (error) {
             console.error(error);
             alert("Failed to read file.");
@@ -230,94 +285,219 @@ export const Grader: React.FC<GraderProps> = ({ rubric, assignees, assessments,
     }
   };
 
+  // Re-reads a record once an AI call returns, so edits made while it ran are kept. Null once finalized.
+  const latestAssessment = (captured: Assessment): Assessment | null => {
+    const stored = assessmentsRef.current[captured.id];
+    const latest = stored ? recalculateAssessment(rubric, stored) : captured;
+    return latest.locked ? null : latest;
+  };
+
   const generateAiFeedback = async () => {
     if (!selectedAssignee || !currentAssessment || !rubric) return;
     setLoadingFeedback(true);
-    const results = currentAssessment.entries.map(entry => {
+    const results = visibleEntries.map(entry => {
       const criterion = rubric.criteria.find(c => c.id === entry.criterionId);
       const level = criterion?.levels.find(l => l.id === entry.levelId);
       return {
         criterion: criterion?.title || 'Unknown',
         level: level?.label || 'Unknown',
-        description: level?.description || ''
+        description: level?.description || '',
+        ...(entry.rationale ? { rationale: entry.rationale } : {})
       };
     });
 
     try {
-      const feedback = await generateFeedbackWithAI(selectedAssignee.name, rubric.title, results);
-      handleFeedbackChange(feedback);
+      const result = await generateFeedbackWithAI(selectedAssignee.name, rubric.title, results, rubric);
+      const written = latestAssessment(currentAssessment);
+      if (!written) return;
+      const feedback = formatOverallFeedback(result);
+      let feedbackTranslation: FeedbackTranslation | undefined;
+      if (feedbackLanguage) {
+        try {
+          feedbackTranslation = await translateFeedback(feedback, applyAiFeedback(rubric, entriesFor(written), result));
+        } catch (e) {
+          alert(`The feedback was written, but could not be translated into ${feedbackLanguage}. Use Translate to try again.`);
+        }
+      }
+      const latest = latestAssessment(currentAssessment);
+      if (!latest) return;
+      onSaveAssessment(latest.id, {
+        ...withEntries(latest, applyAiFeedback(rubric, entriesFor(latest), result)),
+        feedback,
+        ...(feedbackTranslation ? { feedbackTranslation } : {})
+      }, 'AI');
     } catch (e) {
-      alert("Error generating feedback");
+      alert(e instanceof AiOutputError ? e.message : "Error generating feedback");
     } finally {
       setLoadingFeedback(false);
     }
   };
 
-  const handleAutoGrade = async () => {
+  const translateFeedback = async (feedback: string, entries: GradeEntry[]): Promise<FeedbackTranslation | undefined> => {
+    const texts = collectFeedbackTexts(feedback, entries);
+    if (texts.length === 0) return undefined;
+    const translated = await translateFeedbackWithAI(texts.map(t => t.text), feedbackLanguage, rubric);
+    return buildFeedbackTranslation(feedbackLanguage, texts, translated);
+  };
+
+  const handleTranslate = async () => {
+    if (!currentAssessment || currentAssessment.locked || !feedbackLanguage) return;
+    if (currentAssessment.feedbackTranslation?.edited && !confirm("Replace the edited translation with a new one?")) return;
+    setIsTranslating(true);
+    try {
+      const feedbackTranslation = await translateFeedback(currentAssessment.feedback, visibleEntries);
+      if (!feedbackTranslation) {
+        alert("There is no feedback to translate yet.");
+        return;
+      }
+      const latest = latestAssessment(currentAssessment);
+      if (!latest) return;
+      onSaveAssessment(latest.id, { ...latest, feedbackTranslation, lastUpdated: Date.now() }, 'AI');
+    } catch (e) {
+      console.error(e);
+      alert(e instanceof AiOutputError ? e.message : `Could not translate the feedback into ${feedbackLanguage}.`);
+    } finally {
+      setIsTranslating(false);
+    }
+  };
+
+  const handleTranslationChange = (changes: Partial<Pick<FeedbackTranslation, 'feedback' | 'criteria'>>) => {
+    if (!currentAssessment?.feedbackTranslation || currentAssessment.locked) return;
+    onSaveAssessment(currentAssessment.id, {
+      ...currentAssessment,
+      feedbackTranslation: { ...currentAssessment.feedbackTranslation, ...changes, edited: true },
+      lastUpdated: Date.now()
+    });
+  };
+
+  const handleTranslatedCriterionChange = (criterionId: string, field: 'feedback' | 'nextStep', text: string) => {
+    const criteria = currentAssessment?.feedbackTranslation?.criteria || [];
+    const existing = criteria.find(c => c.criterionId === criterionId);
+    handleTranslationChange({
+      criteria: existing
+        ? criteria.map(c => c.criterionId === criterionId ? { ...c, [field]: text } : c)
+        : [...criteria, { criterionId, [field]: text }]
+    });
+  };
+
+  const handleAutoGrade = async (forceRefresh = false) => {
     if (!selectedAssigneeId || !currentAssessment || !rubric.criteria.length || !currentAssessment.submissionText) return;
+    if (currentAssessment.locked) return;
     setIsAutoGrading(true);
     try {
-      const result = await autoGradeWithAI(rubric, currentAssessment.submissionText);
-      const newEntries = [...currentAssessment.entries];
-      
-      result.ratings.forEach(rating => {
-        const criterion = rubric.criteria.find(c => c.title.toLowerCase() === rating.criterionTitle.toLowerCase());
-        if (criterion) {
-          const level = criterion.levels.find(l => l.label.toLowerCase() === rating.levelLabel.toLowerCase());
-          if (level) {
-             const existingIdx = newEntries.findIndex(e => e.criterionId === criterion.id);
-             if (existingIdx >= 0) newEntries.splice(existingIdx, 1);
-             newEntries.push({ criterionId: criterion.id, levelId: level.id, score: level.score });
-          }
-        }
-      });
-
-      // Recalculate total with new entries (using logic from saveScore)
-      const peerWeight = (rubric.type === 'group' ? rubric.peerEvalWeight : 0) || 0;
-      const teacherWeight = 100 - peerWeight;
-      const rubricMaxRawScore = rubric.criteria.reduce((acc, c) => acc + (Math.max(0, ...(c.levels?.map(l => l.score) || [0])) * (c.weight ?? 1)), 0);
-      const teacherRawScore = newEntries.reduce((acc, e) => {
-        const c = rubric.criteria.find(crit => crit.id === e.criterionId);
-        return acc + (e.score * (c?.weight ?? 1));
-      }, 0);
-      
-      const peerEvals = currentAssessment.peerEvaluations || [];
-      const peerAvg = peerEvals.length > 0 ? (peerEvals.reduce((s, e) => s + e.score, 0) / peerEvals.length) : (peerWeight > 0 ? 0 : 100);
-      const teacherComponent = rubricMaxRawScore > 0 ? (teacherRawScore / rubricMaxRawScore) * teacherWeight : 0;
-      const peerComponent = (peerAvg / 100) * peerWeight;
-
-      onSaveAssessment(currentAssessment.id, {
-        ...currentAssessment,
-        entries: newEntries,
-        totalScore: teacherComponent + peerComponent,
-        feedback: result.feedback || currentAssessment.feedback,
-        lastUpdated: Date.now()
-      });
+      const exemplars = selectExemplars(rubric, Object.values(assessments), currentAssessment.id);
+      const result = await autoGradeWithAI(rubric, currentAssessment.submissionText, selectedAssignee?.name, { forceRefresh, exemplars });
+      const latest = latestAssessment(currentAssessment);
+      if (!latest) return;
+      onSaveAssessment(latest.id, withAiResult(latest, entriesFor(latest), result), 'AI');
+      setCachedGrade(result.cachedAt ? { assessmentId: currentAssessment.id, cachedAt: result.cachedAt } : null);
     } catch (e) {
       console.error(e);
-      alert("Failed to auto-grade.");
+      alert(e instanceof AiOutputError ? e.message : "Failed to auto-grade.");
     } finally {
       setIsAutoGrading(false);
     }
   };
 
+  const handleApplyBatch = (outcomes: BatchGradeOutcome[]) => {
+    const updates = outcomes.flatMap(({ assessmentId, result }) => {
+      const stored = assessmentsRef.current[assessmentId];
+      if (!stored || stored.locked) return [];
+      const base = recalculateAssessment(rubric, stored);
+      return [withAiResult(base, entriesFor(base), result)];
+    });
+    if (updates.length > 0) onSaveAssessments('Batch auto-grade', updates, 'AI');
+  };
+
+  const handleConfirmReview = () => {
+    if (!currentAssessment || currentAssessment.locked) return;
+    onSaveAssessment(currentAssessment.id, { ...currentAssessment, aiReview: undefined, lastUpdated: Date.now() });
+  };
+
+  const handleUnlock = () => {
+    if (!currentAssessment) return;
+    const reason = prompt("Why are these grades being reopened? The reason is kept in the change history.");
+    if (reason === null) return;
+    onSetLocked([currentAssessment.id], false, reason);
+  };
+
   if (assignees.length === 0) {
     return <div className="text-center p-12 text-slate-500">Add students or groups first.</div>;
   }
 
+  const flaggedCount = assignees.filter(a => assessments[`${rubric.id}_${a.id}`]?.aiReview).length;
+  const exemplarCount = assignees.filter(a => assessments[`${rubric.id}_${a.id}`]?.exemplar).length;
+  const rosterAssignees = reviewOnly ? assignees.filter(a => assessments[`${rubric.id}_${a.id}`]?.aiReview) : assignees;
+
   return (
     <div className="flex flex-col lg:flex-row h-[calc(100vh-140px)] gap-4 animate-fade-in">
+      {showBatchGrade && (
+        <BatchGradePanel
+          rubric={rubric}
+          assignees={assignees}
+          assessments={assessments}
+          entriesFor={entriesFor}
+          onApply={handleApplyBatch}
+          onClose={() => setShowBatchGrade(false)}
+        />
+      )}
+      {showCalibration && (
+        <CalibrationPanel
+          rubric={rubric}
+          assignees={assignees}
+          assessments={assessments}
+          onSetExemplar={onSetExemplar}
+          onClose={() => setShowCalibration(false)}
+        />
+      )}
+      {showSimilarity && (
+        <SimilarityPanel
+          rubric={rubric}
+          rubrics={rubrics}
+          assignees={assignees}
+          assessments={assessments}
+          onSetIntegrityNote={onSetIntegrityNote}
+          onClose={() => setShowSimilarity(false)}
+        />
+      )}
       {/* Sidebar List */}
       <div className="w-full lg:w-52 bg-white border border-slate-200 rounded-lg flex flex-col shadow-sm overflow-hidden shrink-0">
-        <div className="p-3 bg-slate-50 border-b border-slate-200">
+        <div className="p-3 bg-slate-50 border-b border-slate-200 space-y-2">
             <h3 className="font-bold text-slate-700 text-sm">Roster ({assignees.length})</h3>
+            <button
+                onClick={() => setShowBatchGrade(true)}
+                disabled={!rubric.criteria.length}
+                className="w-full flex items-center justify-center gap-1 px-2 py-1.5 bg-purple-600 text-white rounded-md hover:bg-purple-700 disabled:opacity-50 text-xs font-bold"
+            >
+                <Icon.Sparkles className="w-3 h-3" /> Auto-Grade All
+            </button>
+            <button
+                onClick={() => setShowCalibration(true)}
+                className="w-full flex items-center justify-center gap-1 px-2 py-1.5 bg-white border border-slate-300 text-slate-700 rounded-md hover:bg-slate-50 text-xs font-bold"
+            >
+                <Icon.Bookmark className="w-3 h-3" /> Calibration ({exemplarCount})
+            </button>
+            <button
+                onClick={() => setShowSimilarity(true)}
+                className="w-full flex items-center justify-center gap-1 px-2 py-1.5 bg-white border border-slate-300 text-slate-700 rounded-md hover:bg-slate-50 text-xs font-bold"
+            >
+                <Icon.DocumentText className="w-3 h-3" /> Similarity
+            </button>
+            {(flaggedCount > 0 || reviewOnly) && (
+                <label className="flex items-center gap-2 text-xs text-amber-700 font-medium cursor-pointer">
+                    <input type="checkbox" checked={reviewOnly} onChange={(e) => setReviewOnly(e.target.checked)} className="rounded border-slate-300" />
+                    Needs review only ({flaggedCount})
+                </label>
+            )}
         </div>
         <div className="overflow-y-auto flex-1">
-          {assignees.map(a => {
+          {reviewOnly && rosterAssignees.length === 0 && (
+            <p className="p-3 text-xs text-slate-400">No AI grades are waiting for review.</p>
+          )}
+          {rosterAssignees.map(a => {
             const compositeKey = `${rubric.id}_${a.id}`;
             const assessment = assessments[compositeKey];
-            const score = assessment ? assessment.totalScore : 0;
-            const passed = score >= (rubric.passingPercentage ?? 50);
+            const { totalScore: score, passed } = computeScore(rubric, assessment);
 
             return (
               <button
@@ -332,7 +512,13 @@ export const Grader: React.FC<GraderProps> = ({ rubric, assignees, assessments,
                 <div className="text-right shrink-0">
                    {assessment ? (
                        <div className="flex flex-col items-end">
-                            <span className="text-xs font-bold text-slate-700">{score.toFixed(0)}%</span>
+                            <span className="text-xs font-bold text-slate-700 flex items-center gap-1">
+                                {assessment.aiReview && <span title="AI grades need review" className="w-2 h-2 rounded-full bg-amber-400"></span>}
+                                {assessment.integrityNote && <span title="Academic-integrity note" className="w-2 h-2 rounded-full bg-rose-500"></span>}
+                                {assessment.exemplar && <span title="Calibration exemplar"><Icon.Bookmark className="w-3 h-3 text-purple-500" /></span>}
+                                {assessment.locked && <Icon.LockClosed className="w-3 h-3 text-slate-400" />}
+                                {score.toFixed(0)}%
+                            </span>
                             <span className={`w-2 h-2 rounded-full ${passed ? 'bg-green-500' : 'bg-red-500'}`}></span>
                        </div>
                    ) : (
@@ -363,40 +549,149 @@ export const Grader: React.FC<GraderProps> = ({ rubric, assignees, assessments,
                     <span>•</span>
                     <span>Rubric: {rubric.title}</span>
                 </div>
+                {lateStatus?.dueAt && (
+                    <div className="flex items-center gap-2 text-xs text-slate-500 mt-1">
+                        <span>Due {new Date(lateStatus.dueAt).toLocaleString()}{lateStatus.extended && ' (extended)'}</span>
+                        {!currentAssessment.submittedAt ? (
+                            <span className="px-1.5 py-0.5 rounded bg-slate-100 text-slate-500 font-bold">No submission time</span>
+                        ) : lateStatus.daysLate > 0 ? (
+                            <span className="px-1.5 py-0.5 rounded bg-red-100 text-red-700 font-bold">
+                                {lateStatus.daysLate} day{lateStatus.daysLate > 1 ? 's' : ''} late
+                            </span>
+                        ) : (
+                            <span className="px-1.5 py-0.5 rounded bg-green-100 text-green-700 font-bold">On time</span>
+                        )}
+                    </div>
+                )}
+                {currentAssessment.locked && (
+                    <div className="text-xs text-slate-500 mt-1">
+                        Finalized{currentAssessment.lockedBy && ` by ${currentAssessment.lockedBy}`}
+                        {currentAssessment.lockedAt && ` on ${new Date(currentAssessment.lockedAt).toLocaleString()}`}
+                    </div>
+                )}
               </div>
               
-              <div className="flex items-center gap-6 bg-white px-4 py-2 rounded-lg border border-slate-200 shadow-sm">
-                  <div>
-                      <span className="text-[10px] uppercase font-bold text-slate-400 block">Rubric Score</span>
-                      <span className="text-lg font-bold text-blue-600">
-                          {getRubricRawScore().toFixed(1)} 
-                      </span>
-                  </div>
-                  {(rubric.peerEvalWeight || 0) > 0 && rubric.type === 'group' && (
-                      <div className="border-l border-slate-200 pl-4">
-                          <span className="text-[10px] uppercase font-bold text-slate-400 block">Peer Score</span>
-                          <span className="text-lg font-bold text-purple-600">
-                             {currentAssessment.peerEvaluations?.length 
-                                ? Math.round(currentAssessment.peerEvaluations.reduce((a,b)=>a+b.score,0)/currentAssessment.peerEvaluations.length) + '%' 
-                                : '0%'
-                             }
-                          </span>
-                      </div>
+              <div className="flex items-center gap-3">
+                  {onSetExemplar && (
+                      <button
+                          onClick={() => onSetExemplar(currentAssessment.id, !currentAssessment.exemplar)}
+                          disabled={!currentAssessment.exemplar && (!assessments[currentAssessment.id] || !!exemplarProblem)}
+                          title={currentAssessment.exemplar
+                              ? 'Stop sending these grades as an example to AI grading'
+                              : exemplarProblem || 'Send these grades as an example with AI grading for this assignment'}
+                          className={`flex items-center gap-1 text-xs font-bold px-3 py-2 rounded-lg border transition-colors disabled:opacity-50 ${currentAssessment.exemplar ? 'bg-purple-600 border-purple-600 text-white hover:bg-purple-700' : 'border-slate-300 bg-white text-slate-700 hover:bg-slate-50'}`}
+                      >
+                          <Icon.Bookmark className="w-4 h-4" /> {currentAssessment.exemplar ? 'Exemplar' : 'Use as Exemplar'}
+                      </button>
+                  )}
+                  {currentAssessment.locked ? (
+                      <button
+                          onClick={handleUnlock}
+                          disabled={!canUnlock}
+                          title={canUnlock ? 'Unlock to make changes' : 'Only teachers can unlock finalized grades'}
+                          className="flex items-center gap-1 text-xs font-bold px-3 py-2 rounded-lg bg-slate-800 text-white hover:bg-slate-700 disabled:opacity-60 transition-colors"
+                      >
+                          <Icon.LockClosed className="w-4 h-4" /> {canUnlock ? 'Unlock' : 'Finalized'}
+                      </button>
+                  ) : (
+                      <button
+                          onClick={() => onSetLocked([currentAssessment.id], true)}
+                          disabled={!assessments[currentAssessment.id]}
+                          title={assessments[currentAssessment.id] ? 'Lock these grades against further changes' : 'Grade this student first'}
+                          className="flex items-center gap-1 text-xs font-bold px-3 py-2 rounded-lg border border-slate-300 bg-white text-slate-700 hover:bg-slate-50 disabled:opacity-50 transition-colors"
+                      >
+                          <Icon.LockOpen className="w-4 h-4" /> Finalize
+                      </button>
                   )}
-                  <div className="border-l border-slate-200 pl-4">
-                      <span className="text-[10px] uppercase font-bold text-slate-400 block">Final Grade</span>
-                      <div className="flex items-center gap-2">
-                          <span className="text-2xl font-black text-slate-800">{currentAssessment.totalScore.toFixed(1)}%</span>
-                          <span className={`text-[10px] px-1.5 py-0.5 rounded font-bold ${isPassed ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'}`}>
-                              {isPassed ? 'PASS' : 'FAIL'}
+                  <div className="flex items-center gap-6 bg-white px-4 py-2 rounded-lg border border-slate-200 shadow-sm">
+                      <div>
+                          <span className="text-[10px] uppercase font-bold text-slate-400 block">Rubric Score</span>
+                          <span className="text-lg font-bold text-blue-600">
+                              {scoreBreakdown?.teacherRawScore.toFixed(1)} 
                           </span>
                       </div>
+                      {scoreBreakdown?.peerAverage != null && (
+                          <div className="border-l border-slate-200 pl-4">
+                              <span className="text-[10px] uppercase font-bold text-slate-400 block">Peer Score</span>
+                              <span className="text-lg font-bold text-purple-600">
+                                 {Math.round(scoreBreakdown.peerAverage)}%
+                              </span>
+                          </div>
+                      )}
+                      {(scoreBreakdown?.latePenalty ?? 0) > 0 && (
+                          <div className="border-l border-slate-200 pl-4">
+                              <span className="text-[10px] uppercase font-bold text-slate-400 block">Late Penalty</span>
+                              <span className="text-lg font-bold text-red-600">
+                                  −{scoreBreakdown!.latePenalty.toFixed(1)}
+                              </span>
+                          </div>
+                      )}
+                      <div className="border-l border-slate-200 pl-4">
+                          <span className="text-[10px] uppercase font-bold text-slate-400 block">Final Grade</span>
+                          <div className="flex items-center gap-2">
+                              <span className="text-2xl font-black text-slate-800">{(scoreBreakdown?.totalScore ?? 0).toFixed(1)}%</span>
+                              <span className={`text-[10px] px-1.5 py-0.5 rounded font-bold ${isPassed ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'}`}>
+                                  {isPassed ? 'PASS' : 'FAIL'}
+                              </span>
+                          </div>
+                      </div>
+                      {letterGrade && (
+                          <div className="border-l border-slate-200 pl-4" title={letterGrade.scaleName}>
+                              <span className="text-[10px] uppercase font-bold text-slate-400 block">Letter / GPA</span>
+                              <span className="text-lg font-bold text-slate-800">
+                                  {letterGrade.letter} <span className="text-sm font-medium text-slate-500">{letterGrade.gpa.toFixed(2)}</span>
+                              </span>
+                          </div>
+                      )}
                   </div>
               </div>
             </div>
 
             {/* Scrollable Grading Content */}
             <div className="flex-1 overflow-y-auto p-6 space-y-8">
+              {currentAssessment.aiReview && (
+                <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 flex flex-col sm:flex-row sm:items-start justify-between gap-3">
+                  <div className="text-sm text-amber-800">
+                    <div className="font-bold">AI grades need review</div>
+                    <ul className="list-disc pl-5 mt-1 text-xs space-y-0.5">
+                      {currentAssessment.aiReview.reasons.map((reason, i) => <li key={i}>{reason}</li>)}
+                    </ul>
+                  </div>
+                  <button
+                    onClick={handleConfirmReview}
+                    disabled={currentAssessment.locked}
+                    className="shrink-0 flex items-center gap-1 text-xs font-bold px-3 py-2 rounded-lg bg-amber-600 text-white hover:bg-amber-700 disabled:opacity-50 transition-colors"
+                  >
+                    <Icon.Check /> Confirm Grades
+                  </button>
+                </div>
+              )}
+
+              {currentAssessment.integrityNote && (
+                <div className="bg-rose-50 border border-rose-200 rounded-lg p-4 text-sm text-rose-800 flex flex-col sm:flex-row sm:items-start justify-between gap-3">
+                  <div>
+                    <div className="font-bold">Academic-integrity note</div>
+                    <p className="text-xs mt-1 whitespace-pre-wrap">{currentAssessment.integrityNote.note}</p>
+                    <p className="text-[10px] text-rose-600 mt-1">
+                      Recorded by {currentAssessment.integrityNote.recordedBy} on {new Date(currentAssessment.integrityNote.recordedAt).toLocaleString()}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => setShowSimilarity(true)}
+                    className="shrink-0 text-xs font-bold px-3 py-2 rounded-lg border border-rose-300 bg-white text-rose-700 hover:bg-rose-100 transition-colors"
+                  >
+                    Similarity Check
+                  </button>
+                </div>
+              )}
+
+              {isDoubleMarking && (
+                <div className="bg-indigo-50 text-indigo-800 text-xs p-3 rounded-lg border border-indigo-100">
+                  <strong>Double marking:</strong> you are entering your own independent marks as {assessor.name}
+                  {' '}({Object.keys(currentAssessment.markings || {}).length} assessor{Object.keys(currentAssessment.markings || {}).length === 1 ? '' : 's'} so far).
+                  {' '}The final grade shown above is set on the Moderation screen.
+                </div>
+              )}
               
               {/* Submission Section */}
               <div className="bg-slate-50 rounded-lg border border-slate-200 p-4">
@@ -405,8 +700,13 @@ export const Grader: React.FC<GraderProps> = ({ rubric, assignees, assessments,
                         <Icon.DocumentText /> Student Submission
                     </h3>
                     <div className="flex gap-2">
+                        {showSubmission && evidenceMarks.length > 0 && (
+                            <button onClick={() => setEditingSubmission(!editingSubmission)} className="text-xs bg-white border border-slate-300 px-2 py-1 rounded hover:bg-slate-50 transition-colors">
+                                {editingSubmission ? 'Show Evidence' : 'Edit Text'}
+                            </button>
+                        )}
                         <input type="file" ref={submissionInputRef} className="hidden" accept="application/pdf,image/*,text/plain" onChange={handleSubmissionFileUpload}/>
-                        <button onClick={() => submissionInputRef.current?.click()} disabled={isExtracting} className="text-xs flex items-center gap-1 bg-white border border-slate-300 px-2 py-1 rounded hover:bg-slate-50 transition-colors">
+                        <button onClick={() => submissionInputRef.current?.click()} disabled={isExtracting || currentAssessment.locked} className="text-xs flex items-center gap-1 bg-white border border-slate-300 px-2 py-1 rounded hover:bg-slate-50 disabled:opacity-50 transition-colors">
                             {isExtracting ? <span className="animate-pulse">Importing...</span> : <><Icon.CloudArrowUp /> Upload Submission</>}
                         </button>
                         <button onClick={() => setShowSubmission(!showSubmission)} className="text-xs text-blue-600 hover:text-blue-700 font-medium">
@@ -417,16 +717,91 @@ export const Grader: React.FC<GraderProps> = ({ rubric, assignees, assessments,
                 
                 {showSubmission && (
                     <div className="space-y-3 animate-fade-in">
-                        <textarea 
-                            value={currentAssessment.submissionText || ''}
-                            onChange={(e) => handleSubmissionChange(e.target.value)}
-                            className="w-full h-40 p-3 text-sm border border-slate-300 rounded-md focus:ring-2 focus:ring-blue-500 outline-none resize-y"
-                            placeholder="Paste student work here or import a file to auto-grade..."
-                        />
-                        <div className="flex justify-end">
+                        <div className="flex flex-wrap items-center gap-4 text-xs text-slate-600">
+                            <label className="flex items-center gap-2">
+                                <span className="font-bold">Submitted at</span>
+                                <input
+                                    type="datetime-local"
+                                    value={toDateTimeInputValue(currentAssessment.submittedAt)}
+                                    onChange={(e) => handleSubmittedAtChange(e.target.value)}
+                                    disabled={currentAssessment.locked}
+                                    className="p-1 border border-slate-300 rounded bg-white disabled:opacity-60"
+                                />
+                            </label>
+                            {onUpdateRubric && rubric.dueDate && (
+                                <label className="flex items-center gap-2">
+                                    <span className="font-bold">Extension until</span>
+                                    <input
+                                        type="datetime-local"
+                                        value={toDateTimeInputValue(rubric.extensions?.[selectedAssignee.id])}
+                                        onChange={(e) => handleExtensionChange(e.target.value)}
+                                        disabled={currentAssessment.locked}
+                                        className="p-1 border border-slate-300 rounded bg-white disabled:opacity-60"
+                                    />
+                                </label>
+                            )}
+                        </div>
+                        {showEvidence ? (
+                            <>
+                                <div className="flex flex-wrap gap-2">
+                                    {rubric.criteria.filter(c => evidenceMarks.some(m => m.key === c.id)).map(c => (
+                                        <button
+                                            key={c.id}
+                                            onClick={() => focusEvidence(c.id)}
+                                            className={`text-[11px] font-medium px-2 py-0.5 rounded text-slate-700 ${evidenceColor(c.id)} ${focusedCriterionId === c.id ? 'ring-2 ring-slate-500' : ''}`}
+                                        >
+                                            {c.title}
+                                        </button>
+                                    ))}
+                                </div>
+                                <div ref={evidenceRef} className="w-full max-h-80 overflow-y-auto p-3 text-sm bg-white border border-slate-300 rounded-md whitespace-pre-wrap leading-relaxed">
+                                    {segmentText(submissionText, evidenceMarks).map(segment => {
+                                        const text = submissionText.slice(segment.start, segment.end);
+                                        if (segment.keys.length === 0) return <React.Fragment key={segment.start}>{text}</React.Fragment>;
+                                        return (
+                                            <mark
+                                                key={segment.start}
+                                                data-criteria={segment.keys.join(' ')}
+                                                title={segment.keys.map(id => rubric.criteria.find(c => c.id === id)?.title).join(', ')}
+                                                className={`rounded-sm text-slate-900 ${evidenceColor(segment.keys[0])} ${focusedCriterionId && segment.keys.includes(focusedCriterionId) ? 'ring-2 ring-slate-500' : ''}`}
+                                            >
+                                                {text}
+                                            </mark>
+                                        );
+                                    })}
+                                </div>
+                            </>
+                        ) : (
+                            <textarea 
+                                value={currentAssessment.submissionText || ''}
+                                onChange={(e) => handleSubmissionChange(e.target.value)}
+                                readOnly={currentAssessment.locked}
+                                className="w-full h-40 p-3 text-sm border border-slate-300 rounded-md focus:ring-2 focus:ring-blue-500 outline-none resize-y"
+                                placeholder="Paste student work here or import a file to auto-grade..."
+                            />
+                        )}
+                        <div className="flex justify-end items-center gap-3">
+                            {cachedGrade?.assessmentId === currentAssessment.id ? (
+                                <span className="text-xs text-slate-500">
+                                    Reused a cached result from {new Date(cachedGrade.cachedAt).toLocaleString()}.{' '}
+                                    <button
+                                        onClick={() => handleAutoGrade(true)}
+                                        disabled={isAutoGrading || currentAssessment.locked}
+                                        className="text-blue-600 hover:text-blue-800 font-medium disabled:opacity-50"
+                                    >
+                                        Grade Again
+                                    </button>
+                                </span>
+                            ) : currentAssessment.promptRun && (
+                                <span className="text-xs text-slate-400" title={`Prompt fingerprint ${currentAssessment.promptRun.fingerprint}`}>
+                                    Last graded with the {PROMPT_SCOPE_LABELS[currentAssessment.promptRun.scope]} prompt
+                                    {currentAssessment.promptRun.version ? ` v${currentAssessment.promptRun.version}` : ''}
+                                    {currentAssessment.promptRun.exemplars ? ` and ${currentAssessment.promptRun.exemplars} exemplar${currentAssessment.promptRun.exemplars === 1 ? '' : 's'}` : ''} · {new Date(currentAssessment.promptRun.at).toLocaleString()}
+                                </span>
+                            )}
                             <button 
-                                onClick={handleAutoGrade}
-                                disabled={isAutoGrading || !currentAssessment.submissionText?.trim()}
+                                onClick={() => handleAutoGrade()}
+                                disabled={isAutoGrading || currentAssessment.locked || !currentAssessment.submissionText?.trim()}
                                 className="bg-purple-600 text-white px-4 py-2 rounded-md hover:bg-purple-700 disabled:opacity-50 flex items-center gap-2 font-medium shadow-sm"
                             >
                                 {isAutoGrading ? 'Grading...' : <><Icon.Sparkles /> Auto-Grade with AI</>}
@@ -437,7 +812,7 @@ export const Grader: React.FC<GraderProps> = ({ rubric, assignees, assessments,
               </div>
 
               {rubric.criteria.map(criterion => {
-                const entry = currentAssessment.entries.find(e => e.criterionId === criterion.id);
+                const entry = visibleEntries.find(e => e.criterionId === criterion.id);
                 const weight = criterion.weight ?? 1;
                 const currentScore = entry?.score ?? 0;
 
@@ -445,7 +820,14 @@ export const Grader: React.FC<GraderProps> = ({ rubric, assignees, assessments,
                   <div key={criterion.id} className="space-y-4 border-b border-slate-100 pb-8 last:border-0">
                     <div className="flex justify-between items-baseline">
                         <div className="flex items-center gap-3">
-                          <h4 className="font-bold text-slate-700 text-lg">{criterion.title}</h4>
+                          {evidenceMarks.some(m => m.key === criterion.id) ? (
+                            <button onClick={() => focusEvidence(criterion.id)} title="Show the evidence in the submission" className="flex items-center gap-2 text-left group">
+                              <span className={`w-3 h-3 rounded-sm shrink-0 ${evidenceColor(criterion.id)}`}></span>
+                              <h4 className="font-bold text-slate-700 text-lg group-hover:text-blue-700 group-hover:underline">{criterion.title}</h4>
+                            </button>
+                          ) : (
+                            <h4 className="font-bold text-slate-700 text-lg">{criterion.title}</h4>
+                          )}
                           <span className="text-xs bg-slate-100 text-slate-600 px-2 py-0.5 rounded-full border border-slate-200">Weight: x{weight.toFixed(2)}</span>
                         </div>
                         <span className="text-2xl font-bold text-blue-600">{currentScore}</span>
@@ -458,6 +840,7 @@ export const Grader: React.FC<GraderProps> = ({ rubric, assignees, assessments,
                             <button
                                 key={val}
                                 onClick={() => handleCustomScore(criterion.id, val)}
+                                disabled={currentAssessment.locked}
                                 className={`flex-1 h-10 rounded-lg font-bold text-sm border transition-all ${currentScore === val ? 'bg-blue-600 border-blue-600 text-white shadow-md transform scale-105' : 'bg-white border-slate-200 text-slate-600 hover:border-blue-300 hover:bg-blue-50'}`}
                             >
                                 {val}
@@ -473,6 +856,7 @@ export const Grader: React.FC<GraderProps> = ({ rubric, assignees, assessments,
                           <button
                             key={level.id}
                             onClick={() => handleScore(criterion.id, level.id)}
+                            disabled={currentAssessment.locked}
                             className={`text-left p-3 rounded-lg border transition-all h-full flex flex-col justify-between group ${isExactMatch ? 'bg-blue-50 border-blue-400 ring-1 ring-blue-400' : 'bg-white border-slate-200 hover:border-blue-200'}`}
                           >
                             <div>
@@ -487,6 +871,78 @@ export const Grader: React.FC<GraderProps> = ({ rubric, assignees, assessments,
                         );
                       })}
                     </div>
+
+                    {entry && (
+                      <div>
+                        <div className="flex items-center gap-2 mb-1">
+                          <label className="text-xs font-bold text-slate-500 uppercase">Rationale</label>
+                          {entry.rationale && (
+                            <span className={`text-[10px] font-bold px-1.5 py-0.5 rounded ${entry.rationaleSource === 'AI' ? 'bg-purple-100 text-purple-700' : 'bg-slate-100 text-slate-600'}`}>
+                              {AUDIT_SOURCE_LABELS[entry.rationaleSource || 'HUMAN']}
+                            </span>
+                          )}
+                          {entry.confidence !== undefined && (
+                            <span
+                              title="How sure the AI was of this level"
+                              className={`text-[10px] font-bold px-1.5 py-0.5 rounded ${entry.confidence < LOW_CONFIDENCE ? 'bg-amber-100 text-amber-700' : 'bg-green-100 text-green-700'}`}
+                            >
+                              Confidence {formatConfidence(entry.confidence)}
+                            </span>
+                          )}
+                        </div>
+                        <textarea
+                          value={entry.rationale || ''}
+                          onChange={(e) => handleRationaleChange(criterion.id, e.target.value)}
+                          readOnly={currentAssessment.locked}
+                          rows={2}
+                          className="w-full p-2 text-sm border border-slate-200 rounded-md focus:ring-2 focus:ring-blue-500 outline-none resize-y"
+                          placeholder="Why this level? Shown to students when rationales are exported."
+                        />
+                        <div className="flex items-center gap-2 mt-2 mb-1">
+                          <label className="text-xs font-bold text-slate-500 uppercase">Feedback</label>
+                          {(entry.feedback || entry.nextStep) && (
+                            <span className={`text-[10px] font-bold px-1.5 py-0.5 rounded ${entry.feedbackSource === 'AI' ? 'bg-purple-100 text-purple-700' : 'bg-slate-100 text-slate-600'}`}>
+                              {AUDIT_SOURCE_LABELS[entry.feedbackSource || 'HUMAN']}
+                            </span>
+                          )}
+                        </div>
+                        <textarea
+                          value={entry.feedback || ''}
+                          onChange={(e) => handleCriterionFeedbackChange(criterion.id, { feedback: e.target.value })}
+                          readOnly={currentAssessment.locked}
+                          rows={2}
+                          className="w-full p-2 text-sm border border-slate-200 rounded-md focus:ring-2 focus:ring-blue-500 outline-none resize-y"
+                          placeholder="Comment to the student on this criterion"
+                        />
+                        <input
+                          type="text"
+                          value={entry.nextStep || ''}
+                          onChange={(e) => handleCriterionFeedbackChange(criterion.id, { nextStep: e.target.value })}
+                          readOnly={currentAssessment.locked}
+                          className="w-full mt-1 p-2 text-sm border border-slate-200 rounded-md focus:ring-2 focus:ring-blue-500 outline-none"
+                          placeholder="Next step: what to do differently next time"
+                        />
+                        {translation && (entry.feedback || entry.nextStep) && (
+                          <div className="mt-2 pl-3 border-l-2 border-indigo-200">
+                            <label className="text-[10px] font-bold text-indigo-600 uppercase">In {translation.language}</label>
+                            <textarea
+                              value={getTranslatedCriterion(currentAssessment, criterion.id)?.feedback || ''}
+                              onChange={(e) => handleTranslatedCriterionChange(criterion.id, 'feedback', e.target.value)}
+                              readOnly={currentAssessment.locked}
+                              rows={2}
+                              className="w-full p-2 text-sm border border-indigo-100 rounded-md focus:ring-2 focus:ring-indigo-500 outline-none resize-y"
+                            />
+                            <input
+                              type="text"
+                              value={getTranslatedCriterion(currentAssessment, criterion.id)?.nextStep || ''}
+                              onChange={(e) => handleTranslatedCriterionChange(criterion.id, 'nextStep', e.target.value)}
+                              readOnly={currentAssessment.locked}
+                              className="w-full mt-1 p-2 text-sm border border-indigo-100 rounded-md focus:ring-2 focus:ring-indigo-500 outline-none"
+                            />
+                          </div>
+                        )}
+                      </div>
+                    )}
                   </div>
                 );
               })}
@@ -503,8 +959,7 @@ export const Grader: React.FC<GraderProps> = ({ rubric, assignees, assessments,
                         <div className="grid gap-4 mt-4">
                             {selectedAssignee.members?.map(member => {
                                 const allEvaluations = currentAssessment.peerEvaluations?.filter(pe => pe.subject === member) || [];
-                                const totalScore = allEvaluations.reduce((sum, e) => sum + e.score, 0);
-                                const avgScore = allEvaluations.length > 0 ? Math.round(totalScore / allEvaluations.length) : 0;
+                                const avgScore = Math.round(getPeerAverage(currentAssessment.peerEvaluations, member));
                                 
                                 return (
                                     <div key={member} className="bg-white p-4 rounded-lg shadow-sm border border-purple-100">
@@ -534,16 +989,107 @@ export const Grader: React.FC<GraderProps> = ({ rubric, assignees, assessments,
               <div className="bg-slate-50 p-6 rounded-lg border border-slate-200">
                 <div className="flex justify-between items-center mb-4">
                   <h3 className="font-bold text-slate-800">Overall Feedback</h3>
-                  <button onClick={generateAiFeedback} disabled={loadingFeedback} className="flex items-center gap-2 text-sm bg-purple-100 text-purple-700 px-3 py-1.5 rounded-full hover:bg-purple-200 disabled:opacity-50 transition-colors">
+                  <button onClick={generateAiFeedback} disabled={loadingFeedback || currentAssessment.locked} className="flex items-center gap-2 text-sm bg-purple-100 text-purple-700 px-3 py-1.5 rounded-full hover:bg-purple-200 disabled:opacity-50 transition-colors">
                     {loadingFeedback ? <span className="animate-pulse">Thinking...</span> : <><Icon.Sparkles /> AI Suggestion</>}
                   </button>
                 </div>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mb-2">
+                  {(Object.keys(FEEDBACK_STYLE_OPTIONS) as (keyof FeedbackStyle)[]).map(key => (
+                    <div key={key}>
+                      <label className="block text-[10px] font-bold text-slate-500 uppercase mb-0.5">{FEEDBACK_STYLE_OPTIONS[key].label}</label>
+                      <select
+                        value={feedbackStyle[key]}
+                        onChange={(e) => handleFeedbackStyleChange({ [key]: e.target.value })}
+                        disabled={!onUpdateRubric}
+                        title={onUpdateRubric ? 'Applies to AI feedback for everyone on this assignment' : 'Set by the teacher'}
+                        className="w-full p-1.5 text-xs border border-slate-300 rounded-md bg-white disabled:bg-slate-100"
+                      >
+                        {Object.entries(FEEDBACK_STYLE_OPTIONS[key].options).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-slate-500 mb-3">AI Suggestion writes a comment and next step for each graded criterion, and the summary below.</p>
                 <textarea 
                   value={currentAssessment.feedback}
                   onChange={(e) => handleFeedbackChange(e.target.value)}
+                  readOnly={currentAssessment.locked}
                   className="w-full h-32 p-3 border border-slate-300 rounded-md focus:ring-2 focus:ring-blue-500 outline-none text-sm"
                   placeholder="Enter specific feedback..."
                 />
+                {(feedbackLanguage || translation) && (
+                  <div className="mt-4 pt-4 border-t border-slate-200">
+                    <div className="flex flex-wrap justify-between items-center gap-2 mb-2">
+                      <h4 className="text-sm font-bold text-indigo-700">
+                        In {translation?.language || feedbackLanguage}
+                        {translation && (
+                          <span className="ml-2 text-xs font-normal text-slate-500">
+                            {translation.edited ? 'Edited' : 'Translated'} from the original · {new Date(translation.translatedAt).toLocaleString()}
+                          </span>
+                        )}
+                      </h4>
+                      {feedbackLanguage && (
+                        <button
+                          onClick={handleTranslate}
+                          disabled={isTranslating || loadingFeedback || currentAssessment.locked}
+                          className="flex items-center gap-1 text-xs font-bold bg-indigo-100 text-indigo-700 px-3 py-1.5 rounded-full hover:bg-indigo-200 disabled:opacity-50 transition-colors"
+                        >
+                          {isTranslating ? <span className="animate-pulse">Translating...</span> : <><Icon.Sparkles className="w-3 h-3" /> {translation ? 'Translate Again' : `Translate to ${feedbackLanguage}`}</>}
+                        </button>
+                      )}
+                    </div>
+                    {translation && translation.language !== feedbackLanguage && (
+                      <p className="text-xs text-amber-700 mb-2">
+                        {feedbackLanguage ? `This student's feedback language is now ${feedbackLanguage}.` : 'No feedback language is set for this student any more.'} Translate again to update it.
+                      </p>
+                    )}
+                    {translationStale && (
+                      <p className="text-xs text-amber-700 mb-2">The original feedback has changed since it was translated.</p>
+                    )}
+                    {translation ? (
+                      <textarea
+                        value={translation.feedback}
+                        onChange={(e) => handleTranslationChange({ feedback: e.target.value })}
+                        readOnly={currentAssessment.locked}
+                        className="w-full h-32 p-3 border border-indigo-200 rounded-md focus:ring-2 focus:ring-indigo-500 outline-none text-sm"
+                      />
+                    ) : (
+                      <p className="text-xs text-slate-500">AI Suggestion translates new feedback automatically. Feedback written by hand is translated with the button.</p>
+                    )}
+                  </div>
+                )}
+              </div>
+
+              {/* Change History */}
+              <div className="rounded-lg border border-slate-200 p-4">
+                <div className="flex justify-between items-center">
+                  <h3 className="font-bold text-slate-700 text-sm">Change History ({currentAssessment.auditLog?.length || 0})</h3>
+                  <button onClick={() => setShowHistory(!showHistory)} className="text-xs text-blue-600 hover:text-blue-700 font-medium">
+                    {showHistory ? 'Hide' : 'Show'}
+                  </button>
+                </div>
+                {showHistory && (
+                  currentAssessment.auditLog?.length ? (
+                    <ol className="mt-3 space-y-2 max-h-72 overflow-y-auto animate-fade-in">
+                      {[...currentAssessment.auditLog].reverse().map(event => (
+                        <li key={event.id} className="flex gap-3 text-xs border-l-2 border-slate-200 pl-3">
+                          <span className="w-36 shrink-0 text-slate-400">{new Date(event.at).toLocaleString()}</span>
+                          <div className="flex-1 min-w-0">
+                            <div className="font-medium text-slate-700">{describeAuditEvent(event, rubric)}</div>
+                            <div className="text-slate-400 truncate">
+                              {event.actor} ({event.actorRole.toLowerCase()}){event.note && ` • ${event.note}`}
+                            </div>
+                          </div>
+                          <span className={`shrink-0 h-fit px-1.5 py-0.5 rounded font-bold text-[10px] ${event.source === 'AI' ? 'bg-purple-100 text-purple-700' : event.source === 'PEER_EVAL' ? 'bg-indigo-100 text-indigo-700' : 'bg-slate-100 text-slate-600'}`}>
+                            {AUDIT_SOURCE_LABELS[event.source]}
+                          </span>
+                        </li>
+                      ))}
+                    </ol>
+                  ) : (
+                    <p className="mt-3 text-xs text-slate-400 italic">No changes recorded yet.</p>
+                  )
+                )}
               </div>
             </div>
           </>
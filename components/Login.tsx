@@ -3,10 +3,38 @@ import { Icon } from './Icon';
 import { UserRole } from '../types';
 
 interface LoginProps {
-  onLogin: (role: UserRole, label: string, userId: string) => void;
+  onLogin: (role: UserRole, label: string, userId: string, sessionToken?: string) => void;
 }
 
-type AuthStep = 'LANDING' | 'REGISTER_EMAIL' | 'REGISTER_VERIFY' | 'REGISTER_USERNAME' | 'LOGIN_ID' | 'ROLE_SELECT' | 'PASSCODE';
+type AuthStep = 'LANDING' | 'REGISTER_EMAIL' | 'REGISTER_VERIFY' | 'REGISTER_USERNAME' | 'LOGIN_ID' | 'ADMIN_CODE' | 'ROLE_SELECT' | 'PASSCODE';
+
+const USERS_KEY = 'smartgrade_users_db';
+// Session tokens live only as long as the browser tab, keyed by lower-cased username,
+// so they are never written to the shared user list
+const SESSION_TOKENS_KEY = 'smartgrade_session_tokens';
+
+const loadUsers = (): any[] => {
+    const users: any[] = JSON.parse(localStorage.getItem(USERS_KEY) || '[]');
+    // Older releases stored each account's session token in the list; drop them
+    if (users.some(u => 'sessionToken' in u)) {
+        const stripped = users.map(({ sessionToken, ...u }) => u);
+        localStorage.setItem(USERS_KEY, JSON.stringify(stripped));
+        return stripped;
+    }
+    return users;
+};
+
+const loadSessionTokens = (): Record<string, string> => {
+    try {
+        return JSON.parse(sessionStorage.getItem(SESSION_TOKENS_KEY) || '{}');
+    } catch {
+        return {};
+    }
+};
+
+const saveSessionToken = (username: string, token: string) => {
+    sessionStorage.setItem(SESSION_TOKENS_KEY, JSON.stringify({ ...loadSessionTokens(), [username.toLowerCase()]: token }));
+};
 
 export const Login: React.FC<LoginProps> = ({ onLogin }) => {
   const [step, setStep] = useState<AuthStep>('LANDING');
@@ -18,9 +46,13 @@ export const Login: React.FC<LoginProps> = ({ onLogin }) => {
   
   // Security Token (Stores the signed code from the server)
   const [securityToken, setSecurityToken] = useState('');
+  // Session Token (Issued once the email is verified; enables workspace sync)
+  const [sessionToken, setSessionToken] = useState('');
   
   // Login Data
   const [loginId, setLoginId] = useState(''); // Email or Username
+  const [returningUser, setReturningUser] = useState(''); // Username of an existing account being verified again
+  const [adminCode, setAdminCode] = useState('');
 
   // Role Selection
   const [selectedRole, setSelectedRole] = useState<{role: UserRole, label: string} | null>(null);
@@ -34,8 +66,9 @@ export const Login: React.FC<LoginProps> = ({ onLogin }) => {
 
   // --- Actions ---
 
-  const handleSendCode = async () => {
-      if (!email.includes('@') || email.length < 5) {
+  // Returning users pass their stored address, since the email state has not updated yet
+  const handleSendCode = async (address: string = email) => {
+      if (!address.includes('@') || address.length < 5) {
           setError('Please enter a valid email address.');
           return;
       }
@@ -47,7 +80,7 @@ export const Login: React.FC<LoginProps> = ({ onLogin }) => {
       try {
           const res = await fetch('/.netlify/functions/send-verification', {
               method: 'POST',
-              body: JSON.stringify({ email }),
+              body: JSON.stringify({ email: address }),
               headers: { 'Content-Type': 'application/json' }
           });
           
@@ -97,7 +130,15 @@ export const Login: React.FC<LoginProps> = ({ onLogin }) => {
               throw new Error(data.error || 'Verification failed');
           }
 
-          setStep('REGISTER_USERNAME');
+          setSessionToken(data.sessionToken || '');
+          if (returningUser) {
+              // Same username, so the same workspace as before
+              if (data.sessionToken) saveSessionToken(returningUser, data.sessionToken);
+              setLoginId(returningUser);
+              setStep('ROLE_SELECT');
+          } else {
+              setStep('REGISTER_USERNAME');
+          }
       } catch (err: any) {
           setError(err.message || 'Verification failed.');
       } finally {
@@ -111,8 +152,7 @@ export const Login: React.FC<LoginProps> = ({ onLogin }) => {
           return;
       }
       // Save to "Database" (Local Storage simulation)
-      const existingUsersStr = localStorage.getItem('smartgrade_users_db');
-      const existingUsers = existingUsersStr ? JSON.parse(existingUsersStr) : [];
+      const existingUsers = loadUsers();
       
       // Check uniqueness
       if (existingUsers.some((u: any) => u.username.toLowerCase() === username.toLowerCase())) {
@@ -121,29 +161,34 @@ export const Login: React.FC<LoginProps> = ({ onLogin }) => {
       }
 
       const newUser = { email, username, createdAt: Date.now() };
-      localStorage.setItem('smartgrade_users_db', JSON.stringify([...existingUsers, newUser]));
+      localStorage.setItem(USERS_KEY, JSON.stringify([...existingUsers, newUser]));
+      if (sessionToken) saveSessionToken(username, sessionToken);
 
       // Proceed to Role Selection using the new username
       setLoginId(username);
       setStep('ROLE_SELECT');
   };
 
-  const handleLoginIdSubmit = () => {
+  const handleLoginIdSubmit = async () => {
       if (!loginId.trim()) {
           setError('Please enter your username or email.');
           return;
       }
+      setError('');
+      setReturningUser('');
       
-      // Admin Bypass Logic
+      // Admin Bypass Logic: no email, so the server checks the admin access code instead
       if (loginId.trim().toLowerCase() === 'admin') {
           setLoginId('Admin'); // Normalize display name
-          setStep('ROLE_SELECT');
+          const storedToken = loadSessionTokens()['admin'];
+          setSessionToken(storedToken || '');
+          setAdminCode('');
+          setStep(storedToken ? 'ROLE_SELECT' : 'ADMIN_CODE');
           return;
       }
       
       // Check if user exists (optional, but good for UX)
-      const existingUsersStr = localStorage.getItem('smartgrade_users_db');
-      const existingUsers = existingUsersStr ? JSON.parse(existingUsersStr) : [];
+      const existingUsers = loadUsers();
       
       const userFound = existingUsers.find((u: any) => 
           u.username.toLowerCase() === loginId.toLowerCase() || 
@@ -156,10 +201,60 @@ export const Login: React.FC<LoginProps> = ({ onLogin }) => {
       }
 
       // If found, ensure we use the stable username for the session if they entered email
-      setLoginId(userFound.username);
+      const storedToken = loadSessionTokens()[userFound.username.toLowerCase()];
+      if (storedToken) {
+          setLoginId(userFound.username);
+          setSessionToken(storedToken);
+          setStep('ROLE_SELECT');
+          return;
+      }
+
+      // New browser session: verify the account's email again to get a session token
+      setReturningUser(userFound.username);
+      setEmail(userFound.email);
+      setVerificationCode('');
+      await handleSendCode(userFound.email);
+  };
+
+  // Signs in without a session token: the workspace stays on this device and server AI is unavailable
+  const skipVerification = () => {
+      if (returningUser) setLoginId(returningUser);
+      setSessionToken('');
+      setError('');
       setStep('ROLE_SELECT');
   };
 
+  const handleAdminCodeSubmit = async () => {
+      if (!adminCode) {
+          setError('Please enter the admin access code.');
+          return;
+      }
+      setIsLoading(true);
+      setError('');
+
+      try {
+          const res = await fetch('/.netlify/functions/admin-session', {
+              method: 'POST',
+              body: JSON.stringify({ code: adminCode }),
+              headers: { 'Content-Type': 'application/json' }
+          });
+
+          const data = await res.json();
+
+          if (!res.ok) {
+              throw new Error(data.error || 'Admin sign-in failed');
+          }
+
+          saveSessionToken('admin', data.sessionToken);
+          setSessionToken(data.sessionToken);
+          setStep('ROLE_SELECT');
+      } catch (err: any) {
+          setError(err.message || 'Admin sign-in failed.');
+      } finally {
+          setIsLoading(false);
+      }
+  };
+
   const handleRoleSelect = (role: UserRole, label: string) => {
       setSelectedRole({ role, label });
       if (role === 'TEACHER') {
@@ -168,14 +263,14 @@ export const Login: React.FC<LoginProps> = ({ onLogin }) => {
           setError('');
       } else {
           // Assessors login immediately
-          onLogin(role, label, loginId);
+          onLogin(role, label, loginId, sessionToken);
       }
   };
 
   const verifyPasscode = () => {
       if (passcode === '123456') {
           if (selectedRole) {
-              onLogin(selectedRole.role, selectedRole.label, loginId);
+              onLogin(selectedRole.role, selectedRole.label, loginId, sessionToken);
           }
       } else {
           setError('Invalid access code');
@@ -240,7 +335,7 @@ export const Login: React.FC<LoginProps> = ({ onLogin }) => {
                         Sign In
                     </button>
                     <button 
-                        onClick={() => setStep('REGISTER_EMAIL')}
+                        onClick={() => { setReturningUser(''); setStep('REGISTER_EMAIL'); }}
                         className="w-full bg-white border border-slate-200 text-slate-700 py-3 md:py-4 rounded-xl font-bold hover:bg-slate-50 hover:border-slate-300 transition-all"
                     >
                         Create Account
@@ -263,7 +358,7 @@ export const Login: React.FC<LoginProps> = ({ onLogin }) => {
                               type="email"
                               value={email}
                               onChange={(e) => setEmail(e.target.value)}
-                              onKeyDown={(e) => handleKeyDown(e, handleSendCode)}
+                              onKeyDown={(e) => handleKeyDown(e, () => handleSendCode())}
                               className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-blue-500 outline-none"
                               placeholder="name@school.edu"
                               autoFocus
@@ -271,7 +366,7 @@ export const Login: React.FC<LoginProps> = ({ onLogin }) => {
                       </div>
                       {error && <p className="text-red-500 text-xs font-bold">{error}</p>}
                       <button 
-                          onClick={handleSendCode}
+                          onClick={() => handleSendCode()}
                           disabled={isLoading}
                           className="w-full bg-blue-600 text-white py-3 rounded-xl font-bold hover:bg-blue-700 transition-all shadow-lg shadow-blue-200 disabled:opacity-50"
                       >
@@ -284,9 +379,12 @@ export const Login: React.FC<LoginProps> = ({ onLogin }) => {
           {/* REGISTER FLOW: VERIFY */}
           {step === 'REGISTER_VERIFY' && (
               <div className="animate-fade-in">
-                  <BackButton to="REGISTER_EMAIL" />
+                  <BackButton to={returningUser ? 'LOGIN_ID' : 'REGISTER_EMAIL'} />
                   <h2 className="text-2xl font-bold text-slate-800 mb-2">Check your email</h2>
-                  <p className="text-slate-500 mb-4 text-sm">We've sent a code to <strong>{email}</strong></p>
+                  <p className="text-slate-500 mb-4 text-sm">
+                      We've sent a code to <strong>{email}</strong>
+                      {returningUser && <> to confirm it's you. Sync and AI grading need a verified email for each browser session.</>}
+                  </p>
                   
                   {devModeHint && (
                       <div className="bg-yellow-50 border border-yellow-200 p-3 rounded-lg text-xs text-yellow-800 mb-4 animate-pulse">
@@ -322,6 +420,14 @@ export const Login: React.FC<LoginProps> = ({ onLogin }) => {
                       >
                           {isLoading ? 'Verifying...' : 'Confirm Code'}
                       </button>
+                      {returningUser && (
+                          <button
+                              onClick={skipVerification}
+                              className="w-full text-sm text-slate-400 hover:text-slate-600 font-medium"
+                          >
+                              Continue without verifying (this device only)
+                          </button>
+                      )}
                   </div>
               </div>
           )}
@@ -377,11 +483,57 @@ export const Login: React.FC<LoginProps> = ({ onLogin }) => {
                           />
                       </div>
                       {error && <p className="text-red-500 text-xs font-bold">{error}</p>}
+                      {error && returningUser && (
+                          <button
+                              onClick={skipVerification}
+                              className="w-full text-sm text-slate-400 hover:text-slate-600 font-medium"
+                          >
+                              Continue without verifying (this device only)
+                          </button>
+                      )}
                       <button 
                           onClick={handleLoginIdSubmit}
-                          className="w-full bg-blue-600 text-white py-3 rounded-xl font-bold hover:bg-blue-700 transition-all shadow-lg shadow-blue-200"
+                          disabled={isLoading}
+                          className="w-full bg-blue-600 text-white py-3 rounded-xl font-bold hover:bg-blue-700 transition-all shadow-lg shadow-blue-200 disabled:opacity-50"
+                      >
+                          {isLoading ? 'Sending code...' : 'Continue'}
+                      </button>
+                  </div>
+              </div>
+          )}
+
+          {/* LOGIN FLOW: ADMIN ACCESS CODE */}
+          {step === 'ADMIN_CODE' && (
+              <div className="animate-fade-in">
+                  <BackButton to="LOGIN_ID" />
+                  <h2 className="text-2xl font-bold text-slate-800 mb-2">Admin Sign In</h2>
+                  <p className="text-slate-500 mb-8 text-sm">Enter the admin access code configured on the server.</p>
+
+                  <div className="space-y-4">
+                      <div>
+                          <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1">Admin Access Code</label>
+                          <input
+                              type="password"
+                              value={adminCode}
+                              onChange={(e) => setAdminCode(e.target.value)}
+                              onKeyDown={(e) => handleKeyDown(e, handleAdminCodeSubmit)}
+                              className="w-full p-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-2 focus:ring-blue-500 outline-none"
+                              autoFocus
+                          />
+                      </div>
+                      {error && <p className="text-red-500 text-xs font-bold">{error}</p>}
+                      <button
+                          onClick={handleAdminCodeSubmit}
+                          disabled={isLoading}
+                          className="w-full bg-blue-600 text-white py-3 rounded-xl font-bold hover:bg-blue-700 transition-all shadow-lg shadow-blue-200 disabled:opacity-50"
+                      >
+                          {isLoading ? 'Checking...' : 'Continue'}
+                      </button>
+                      <button
+                          onClick={skipVerification}
+                          className="w-full text-sm text-slate-400 hover:text-slate-600 font-medium"
                       >
-                          Continue
+                          Continue without server features (this device only)
                       </button>
                   </div>
               </div>
@@ -0,0 +1,303 @@
+import React, { useState } from 'react';
+import { Assessment, Assignee, Rubric } from '../types';
+import { recalculateAssessment } from '../services/gradingEngine';
+import { parseBackup, formatBackupIssues } from '../services/backupService';
+import {
+  DISAGREEMENT_THRESHOLD,
+  buildModerationReport,
+  collectImportedMarkings,
+  describeAgreement,
+  findReplacedMarkers,
+  getBackupMarker,
+  getCriterionSpread,
+  getMarkers,
+  getMeanMark,
+  reconcileMarkings,
+  toAgreedEntry
+} from '../services/moderationService';
+import { Icon } from './Icon';
+
+interface ModerationViewProps {
+  rubric: Rubric;
+  assignees: Assignee[];
+  assessments: Record<string, Assessment>;
+  moderatorId: string;
+  moderatorName: string;
+  onSaveAssessments: (label: string, updates: Assessment[]) => void;
+}
+
+const formatStat = (value: number | null) => value === null ? '—' : value.toFixed(2);
+
+export const ModerationView: React.FC<ModerationViewProps> = ({ rubric, assignees, assessments, moderatorId, moderatorName, onSaveAssessments }) => {
+  const [pair, setPair] = useState<[string, string] | null>(null);
+  const [onlyDisagreements, setOnlyDisagreements] = useState(false);
+
+  const marked = assignees
+    .map(a => ({ assignee: a, assessment: assessments[`${rubric.id}_${a.id}`] }))
+    .filter((row): row is { assignee: Assignee; assessment: Assessment } => !!row.assessment && Object.keys(row.assessment.markings || {}).length > 0);
+  const markedAssessments = marked.map(row => row.assessment);
+  const markers = getMarkers(markedAssessments);
+
+  // Agreement statistics compare two assessors at a time; default to the first two
+  const selected = pair && pair.every(id => markers.some(m => m.id === id)) ? pair : markers.length >= 2 ? [markers[0].id, markers[1].id] as [string, string] : null;
+  const markerA = markers.find(m => m.id === selected?.[0]);
+  const markerB = markers.find(m => m.id === selected?.[1]);
+  const report = markerA && markerB ? buildModerationReport(rubric, markedAssessments, [markerA, markerB], markers) : null;
+
+  const hasDisagreement = (assessment: Assessment) =>
+    rubric.criteria.some(c => getCriterionSpread(assessment, c.id) >= DISAGREEMENT_THRESHOLD);
+  const visibleRows = onlyDisagreements ? marked.filter(row => hasDisagreement(row.assessment)) : marked;
+
+  const moderated = (assessment: Assessment, entries: Assessment['entries']): Assessment => recalculateAssessment(rubric, {
+    ...assessment,
+    entries,
+    moderatedBy: moderatorName,
+    moderatedAt: Date.now(),
+    lastUpdated: Date.now()
+  });
+
+  const setFinalScore = (assessment: Assessment, criterionId: string, value: string) => {
+    const others = assessment.entries.filter(e => e.criterionId !== criterionId);
+    const entry = value === '' ? null : toAgreedEntry(rubric, criterionId, parseFloat(value));
+    onSaveAssessments('Moderate mark', [moderated(assessment, entry ? [...others, entry] : others)]);
+  };
+
+  const reconcileAll = (useMean: boolean) => {
+    const updates = markedAssessments
+      .filter(a => !a.locked)
+      .map(a => ({ before: a, entries: reconcileMarkings(rubric, a, useMean) }))
+      .filter(({ before, entries }) => JSON.stringify(before.entries) !== JSON.stringify(entries))
+      .map(({ before, entries }) => moderated(before, entries));
+    if (updates.length === 0) {
+      alert(useMean ? "Every final mark already matches the assessors' mean." : "No new agreed marks to accept.");
+      return;
+    }
+    onSaveAssessments(useMean ? 'Use mean marks' : 'Accept agreed marks', updates);
+  };
+
+  const handleImportMarks = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      try {
+        const { data, issues, metadata } = parseBackup(JSON.parse(event.target?.result as string));
+        if (!data) {
+          alert(`Marks cannot be imported from this backup:\n\n${formatBackupIssues(issues)}`);
+          return;
+        }
+        if (metadata.exporterId === moderatorId) {
+          alert("This backup was exported from your own account. Import marks from another assessor's backup.");
+          return;
+        }
+        const exporter = getBackupMarker(metadata, file.name);
+        const updates = collectImportedMarkings(rubric, assessments, data, exporter).filter(a => !a.locked);
+        if (updates.length === 0) {
+          alert(`No marks for "${rubric.title}" were found in that backup.`);
+          return;
+        }
+        const replaced = findReplacedMarkers(assessments, updates);
+        if (replaced.length > 0 && !confirm(`This backup has different marks from ${replaced.map(m => m.name).join(', ')} than the ones already here. Replace them with the marks in this backup?`)) {
+          return;
+        }
+        onSaveAssessments(`Import marks from ${exporter.name}`, updates);
+        alert(`Imported marks for ${updates.length} student${updates.length === 1 ? '' : 's'} from ${exporter.name}.`);
+      } catch (err) {
+        console.error(err);
+        alert("Failed to parse backup file.");
+      }
+    };
+    reader.readAsText(file);
+    e.target.value = '';
+  };
+
+  const criterionTitle = (criterionId: string) => rubric.criteria.find(c => c.id === criterionId)?.title || 'Unknown';
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="bg-white rounded-lg shadow-sm border border-slate-200 p-6 flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div>
+          <h2 className="text-xl font-bold text-slate-800">Moderation</h2>
+          <p className="text-sm text-slate-500">
+            {rubric.title} • {markers.length} assessor{markers.length === 1 ? '' : 's'} • {marked.length} student{marked.length === 1 ? '' : 's'} marked
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <label className="bg-white border border-slate-300 text-slate-700 px-4 py-2 rounded-md hover:bg-slate-50 flex items-center gap-2 font-medium transition-colors text-sm cursor-pointer">
+            <Icon.CloudArrowUp /> Import Marks
+            <input type="file" className="hidden" accept=".json" onChange={handleImportMarks} />
+          </label>
+          <button
+            onClick={() => reconcileAll(false)}
+            disabled={markers.length < 2}
+            className="bg-white border border-slate-300 text-slate-700 px-4 py-2 rounded-md hover:bg-slate-50 disabled:opacity-50 flex items-center gap-2 font-medium transition-colors text-sm"
+          >
+            <Icon.Check /> Accept Agreed Marks
+          </button>
+          <button
+            onClick={() => reconcileAll(true)}
+            disabled={marked.length === 0}
+            className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 disabled:opacity-50 flex items-center gap-2 font-medium transition-colors text-sm shadow-sm"
+          >
+            Use Mean for All
+          </button>
+        </div>
+      </div>
+
+      {!rubric.doubleMarking && (
+        <div className="bg-yellow-50 text-yellow-800 text-xs p-3 rounded-lg border border-yellow-200">
+          <strong>Note:</strong> Double marking is turned off for this assignment, so new grades go straight to the final marks. Turn it on in Subject Assignment.
+        </div>
+      )}
+
+      {markers.length < 2 ? (
+        <div className="bg-white rounded-lg border border-slate-200 p-12 text-center text-slate-400">
+          Agreement statistics need marks from at least two assessors. Each assessor grades in the Grade view while signed in, or you can import another assessor's backup.
+        </div>
+      ) : report && (
+        <div className="bg-white rounded-lg shadow-sm border border-slate-200 overflow-hidden">
+          <div className="p-4 border-b border-slate-200 bg-slate-50 flex flex-wrap items-center gap-3 text-sm">
+            <span className="font-bold text-slate-700">Compare</span>
+            {[0, 1].map(i => (
+              <select
+                key={i}
+                value={selected![i]}
+                onChange={(e) => {
+                  const next: [string, string] = [...selected!] as [string, string];
+                  next[i] = e.target.value;
+                  setPair(next);
+                }}
+                className="p-1.5 border border-slate-300 rounded-md bg-white"
+              >
+                {markers.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+              </select>
+            ))}
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 p-4">
+            <div className="p-4 rounded-lg border border-slate-200">
+              <span className="text-[10px] uppercase font-bold text-slate-400 block">Cohen's Kappa</span>
+              <span className="text-2xl font-black text-slate-800">{formatStat(report.overallKappa)}</span>
+              <span className="text-xs text-slate-500 block">{describeAgreement(report.overallKappa)} • {markerA!.name} vs {markerB!.name}</span>
+            </div>
+            <div className="p-4 rounded-lg border border-slate-200">
+              <span className="text-[10px] uppercase font-bold text-slate-400 block">ICC(2,1) on Rubric Score</span>
+              <span className="text-2xl font-black text-slate-800">{formatStat(report.icc)}</span>
+              <span className="text-xs text-slate-500 block">{describeAgreement(report.icc)} • {report.iccSubjects} students marked by all {markers.length} assessors</span>
+            </div>
+            <div className="p-4 rounded-lg border border-slate-200">
+              <span className="text-[10px] uppercase font-bold text-slate-400 block">Needs Moderation</span>
+              <span className="text-2xl font-black text-orange-600">{marked.filter(row => hasDisagreement(row.assessment)).length}</span>
+              <span className="text-xs text-slate-500 block">Students with a gap of {DISAGREEMENT_THRESHOLD}+ points on a criterion</span>
+            </div>
+          </div>
+          <table className="w-full text-left text-sm">
+            <thead className="bg-slate-100 text-slate-700 uppercase font-semibold text-xs">
+              <tr>
+                <th className="p-3">Criterion</th>
+                <th className="p-3 text-right">Pairs</th>
+                <th className="p-3 text-right">Exact Agreement</th>
+                <th className="p-3 text-right">Mean Difference</th>
+                <th className="p-3 text-right">Kappa</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {report.criteria.map(c => (
+                <tr key={c.criterionId}>
+                  <td className="p-3 font-medium text-slate-800">{criterionTitle(c.criterionId)}</td>
+                  <td className="p-3 text-right text-slate-500">{c.pairs}</td>
+                  <td className="p-3 text-right">{c.pairs ? `${Math.round(c.exactAgreement * 100)}%` : '—'}</td>
+                  <td className="p-3 text-right">{c.pairs ? c.meanAbsDifference.toFixed(2) : '—'}</td>
+                  <td className="p-3 text-right font-mono" title={describeAgreement(c.kappa)}>{formatStat(c.kappa)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {marked.length > 0 && (
+        <div className="bg-white rounded-lg shadow-sm border border-slate-200 overflow-hidden">
+          <div className="p-4 border-b border-slate-200 bg-slate-50 flex justify-between items-center">
+            <h3 className="font-bold text-slate-700">Reconcile Marks</h3>
+            <label className="flex items-center gap-2 text-xs text-slate-600 cursor-pointer">
+              <input type="checkbox" checked={onlyDisagreements} onChange={(e) => setOnlyDisagreements(e.target.checked)} />
+              Only show disagreements
+            </label>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-sm">
+              <thead className="bg-slate-100 text-slate-700 uppercase font-semibold text-xs">
+                <tr>
+                  <th className="p-3">Student</th>
+                  {rubric.criteria.map(c => <th key={c.id} className="p-3 text-center">{c.title}</th>)}
+                  <th className="p-3 text-right">Final</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {visibleRows.map(({ assignee, assessment }) => (
+                  <tr key={assignee.id} className="align-top">
+                    <td className="p-3">
+                      <div className="font-medium text-slate-800 flex items-center gap-1">
+                        {assessment.locked && <Icon.LockClosed className="w-3 h-3 text-slate-400" />}
+                        {assignee.name}
+                      </div>
+                      <div className="text-[10px] text-slate-400">
+                        {assessment.moderatedBy ? `Moderated by ${assessment.moderatedBy}` : 'Not moderated'}
+                      </div>
+                    </td>
+                    {rubric.criteria.map(c => {
+                      const spread = getCriterionSpread(assessment, c.id);
+                      const scores = markers.map(m => ({ marker: m, score: assessment.markings?.[m.id]?.entries.find(e => e.criterionId === c.id)?.score }));
+                      const options = Array.from(new Set([
+                        ...scores.map(s => s.score).filter((s): s is number => s !== undefined),
+                        ...(getMeanMark(assessment, c.id) !== undefined ? [getMeanMark(assessment, c.id)!] : [])
+                      ])).sort((x, y) => x - y);
+                      const finalScore = assessment.entries.find(e => e.criterionId === c.id)?.score;
+                      return (
+                        <td key={c.id} className={`p-3 text-center ${spread >= DISAGREEMENT_THRESHOLD ? 'bg-orange-50' : ''}`}>
+                          <div className="text-xs text-slate-500 space-y-0.5 mb-2">
+                            {scores.filter(s => s.score !== undefined).map(s => (
+                              <div key={s.marker.id} title={s.marker.name}>
+                                <span className="text-slate-400">{s.marker.name.split(' ')[0]}:</span> <span className="font-mono font-bold text-slate-700">{s.score}</span>
+                              </div>
+                            ))}
+                          </div>
+                          <select
+                            value={finalScore === undefined ? '' : String(finalScore)}
+                            onChange={(e) => setFinalScore(assessment, c.id, e.target.value)}
+                            disabled={assessment.locked}
+                            className="p-1 border border-slate-300 rounded text-xs font-bold bg-white disabled:opacity-60"
+                          >
+                            <option value="">—</option>
+                            {finalScore !== undefined && !options.includes(finalScore) && <option value={finalScore}>{finalScore}</option>}
+                            {options.map(o => <option key={o} value={o}>{o}</option>)}
+                          </select>
+                        </td>
+                      );
+                    })}
+                    <td className="p-3 text-right">
+                      <div className="font-bold text-slate-800">{assessment.totalScore.toFixed(1)}%</div>
+                      <button
+                        onClick={() => onSaveAssessments('Use mean marks', [moderated(assessment, reconcileMarkings(rubric, assessment, true))])}
+                        disabled={assessment.locked}
+                        className="text-xs text-blue-600 hover:underline disabled:opacity-50 disabled:no-underline"
+                      >
+                        Use mean
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+                {visibleRows.length === 0 && (
+                  <tr>
+                    <td colSpan={rubric.criteria.length + 2} className="p-8 text-center text-slate-400">No disagreements to moderate.</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
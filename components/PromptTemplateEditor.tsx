@@ -0,0 +1,206 @@
+import React, { useEffect, useState } from 'react';
+import { PromptKind, PromptTemplate, Rubric } from '../types';
+import {
+  PROMPT_KINDS, PROMPT_KIND_LABELS, PROMPT_SCOPE_LABELS, PROMPT_VARIABLES, PromptText, ResolvedPrompt,
+  findUnknownVariables, saveTemplateVersion
+} from '../services/promptTemplates';
+import { buildFeedbackPrompt, buildGradingPrompt, buildRubricPrompt } from '../services/aiProvider';
+import { Icon } from './Icon';
+
+interface PromptTemplateEditorProps {
+  templates: PromptTemplate[]; // The list being edited: workspace defaults or one rubric's overrides
+  onChange: (templates: PromptTemplate[]) => void;
+  inherited: (kind: PromptKind) => ResolvedPrompt; // What applies to a kind with no template in this list
+  inheritedLabel: string; // e.g. "built-in prompt" or "workspace default"
+  sampleRubric: Rubric; // Fills the preview
+}
+
+const SAMPLE_SUBMISSION = 'The results show a clear upward trend. However, the analysis does not consider other explanations for the data.';
+
+// Renders a draft with sample data from the current assignment
+const previewPrompt = (kind: PromptKind, template: PromptText, rubric: Rubric): PromptText => {
+  switch (kind) {
+    case 'grading':
+      return buildGradingPrompt({ rubric, submissionText: SAMPLE_SUBMISSION, assigneeName: 'Sample Student', template });
+    case 'feedback':
+      return buildFeedbackPrompt({
+        assigneeName: 'Sample Student',
+        rubricTitle: rubric.title,
+        criteriaResults: rubric.criteria.map(c => ({ criterion: c.title, level: c.levels[0]?.label || '-', description: c.levels[0]?.description || '' })),
+        context: { subject: rubric.subject, brief: rubric.assignmentBrief, clos: rubric.clos },
+        template,
+        style: rubric.feedbackStyle
+      });
+    case 'rubric':
+      return buildRubricPrompt({
+        topic: rubric.title,
+        gradeLevel: 'University',
+        numCriteria: 4,
+        context: { brief: rubric.assignmentBrief, plos: rubric.plos, clos: rubric.clos },
+        template
+      });
+  }
+};
+
+export const PromptTemplateEditor: React.FC<PromptTemplateEditorProps> = ({ templates, onChange, inherited, inheritedLabel, sampleRubric }) => {
+  const [kind, setKind] = useState<PromptKind>('grading');
+  const [draft, setDraft] = useState<PromptText>({ system: '', prompt: '' });
+  const [showPreview, setShowPreview] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+
+  const current = templates.find(t => t.kind === kind);
+  const source: PromptText = current || inherited(kind);
+
+  // Start from the saved text whenever it changes: another kind, a new version, a restore or a reset
+  useEffect(() => {
+      setDraft({ system: source.system, prompt: source.prompt });
+  }, [kind, source.system, source.prompt]);
+
+  const isDirty = draft.system !== source.system || draft.prompt !== source.prompt;
+  const unknown = findUnknownVariables(kind, draft);
+  const preview = showPreview ? previewPrompt(kind, draft, sampleRubric) : null;
+
+  const handleSave = () => {
+      if (!draft.prompt.trim()) {
+          alert("The prompt cannot be empty.");
+          return;
+      }
+      if (unknown.length > 0 && !confirm(`Unknown variables will be sent as written: ${unknown.map(v => `{{${v}}}`).join(', ')}. Save anyway?`)) return;
+      onChange(saveTemplateVersion(templates, kind, draft));
+  };
+
+  const handleReset = () => {
+      if (!current) return;
+      if (!confirm(`Stop using this ${PROMPT_KIND_LABELS[kind].toLowerCase()} prompt and fall back to the ${inheritedLabel}? Its version history is removed too.`)) return;
+      onChange(templates.filter(t => t.kind !== kind));
+  };
+
+  const fallback = inherited(kind);
+
+  return (
+    <div className="bg-white p-5 rounded-xl border border-slate-200 shadow-sm space-y-4">
+        <div className="flex flex-wrap gap-2">
+            {PROMPT_KINDS.map(k => {
+                const custom = templates.find(t => t.kind === k);
+                return (
+                    <button
+                        key={k}
+                        onClick={() => setKind(k)}
+                        className={`px-3 py-1.5 rounded-lg text-xs font-bold border transition-colors ${kind === k ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-slate-600 border-slate-300 hover:bg-slate-50'}`}
+                    >
+                        {PROMPT_KIND_LABELS[k]}{custom && ` · v${custom.version}`}
+                    </button>
+                );
+            })}
+        </div>
+
+        <p className="text-xs text-slate-500">
+            {current
+                ? <>Customized, version {current.version}, saved {new Date(current.updatedAt).toLocaleString()}.</>
+                : <>Using the {inheritedLabel} ({PROMPT_SCOPE_LABELS[fallback.scope]}{fallback.version ? ` v${fallback.version}` : ''}). Saving creates version 1 here.</>}
+        </p>
+
+        <div>
+            <label className="block text-xs font-bold text-slate-500 uppercase mb-1">System Instruction</label>
+            <textarea
+                value={draft.system}
+                onChange={(e) => setDraft({ ...draft, system: e.target.value })}
+                rows={2}
+                className="w-full p-2 text-sm font-mono border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none resize-y"
+                placeholder="Optional. Sets the model's role, e.g. You are a fair and strict grader."
+            />
+        </div>
+        <div>
+            <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Prompt</label>
+            <textarea
+                value={draft.prompt}
+                onChange={(e) => setDraft({ ...draft, prompt: e.target.value })}
+                rows={10}
+                className="w-full p-2 text-sm font-mono border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none resize-y"
+            />
+        </div>
+
+        <div className="text-xs text-slate-500">
+            <span className="font-bold">Variables:</span>{' '}
+            {PROMPT_VARIABLES[kind].map(v => (
+                <code key={v.name} title={v.description} className="inline-block mr-1 mb-1 px-1.5 py-0.5 rounded bg-slate-100 text-slate-700">{`{{${v.name}}}`}</code>
+            ))}
+            {kind === 'grading' && <p className="mt-1">The reply format (levels, confidence, evidence, feedback) is enforced separately, so edits here cannot break it.</p>}
+        </div>
+        {unknown.length > 0 && (
+            <p className="text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded p-2">
+                Unknown variable{unknown.length === 1 ? '' : 's'}: {unknown.map(v => `{{${v}}}`).join(', ')}
+            </p>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+            <button
+                onClick={handleSave}
+                disabled={!isDirty}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 font-bold text-xs"
+            >
+                Save as Version {(current?.version ?? 0) + 1}
+            </button>
+            <button
+                onClick={() => setDraft({ system: source.system, prompt: source.prompt })}
+                disabled={!isDirty}
+                className="px-4 py-2 bg-white border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50 disabled:opacity-50 font-bold text-xs"
+            >
+                Discard Changes
+            </button>
+            <button
+                onClick={() => setShowPreview(!showPreview)}
+                className="px-4 py-2 bg-white border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50 font-bold text-xs flex items-center gap-1"
+            >
+                <Icon.DocumentText /> {showPreview ? 'Hide Preview' : 'Preview'}
+            </button>
+            {current?.history && current.history.length > 0 && (
+                <button
+                    onClick={() => setShowHistory(!showHistory)}
+                    className="px-4 py-2 bg-white border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50 font-bold text-xs"
+                >
+                    {showHistory ? 'Hide' : 'Show'} Earlier Versions ({current.history.length})
+                </button>
+            )}
+            {current && (
+                <button
+                    onClick={handleReset}
+                    className="px-4 py-2 text-red-600 hover:bg-red-50 rounded-lg font-bold text-xs ml-auto"
+                >
+                    Use {inheritedLabel}
+                </button>
+            )}
+        </div>
+
+        {preview && (
+            <div className="space-y-2">
+                <p className="text-xs text-slate-500">Rendered with "{sampleRubric.title}", a sample student and a sample submission.</p>
+                {preview.system.trim() && (
+                    <pre className="text-xs bg-slate-800 text-slate-100 p-3 rounded-lg whitespace-pre-wrap">{preview.system}</pre>
+                )}
+                <pre className="text-xs bg-slate-50 border border-slate-200 p-3 rounded-lg whitespace-pre-wrap max-h-80 overflow-y-auto">{preview.prompt}</pre>
+            </div>
+        )}
+
+        {showHistory && current?.history && (
+            <ul className="divide-y divide-slate-100 border border-slate-100 rounded-lg text-xs">
+                {current.history.map(v => (
+                    <li key={v.version} className="p-2 flex items-center justify-between gap-4">
+                        <div className="min-w-0">
+                            <span className="font-bold text-slate-700">Version {v.version}</span>
+                            <span className="text-slate-400"> · {new Date(v.updatedAt).toLocaleString()}</span>
+                            <div className="text-slate-500 truncate">{v.prompt}</div>
+                        </div>
+                        <button
+                            onClick={() => setDraft({ system: v.system, prompt: v.prompt })}
+                            className="shrink-0 text-blue-600 hover:text-blue-700 font-bold"
+                        >
+                            Load into Editor
+                        </button>
+                    </li>
+                ))}
+            </ul>
+        )}
+    </div>
+  );
+};
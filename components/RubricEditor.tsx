@@ -1,7 +1,9 @@
 import React, { useState, useRef } from 'react';
 import { Rubric, RubricCriterion, RubricLevel } from '../types';
 import { generateRubricWithAI, extractRubricFromMedia } from '../services/geminiService';
+import { AiOutputError, getDuplicateTitles } from '../services/aiValidation';
 import { Icon } from './Icon';
+import { RubricReviewPanel } from './RubricReviewPanel';
 
 interface RubricEditorProps {
   rubric: Rubric;
@@ -44,7 +46,7 @@ export const RubricEditor: React.FC<RubricEditorProps> = ({ rubric, onUpdate, re
         brief: rubric.assignmentBrief,
         plos: rubric.plos,
         clos: rubric.clos
-      });
+      }, undefined, rubric);
 
       if (generated && generated.criteria) {
         onUpdate({
@@ -54,7 +56,7 @@ export const RubricEditor: React.FC<RubricEditorProps> = ({ rubric, onUpdate, re
         });
       }
     } catch (e) {
-      alert("Failed to generate rubric. Please check API key configuration.");
+      alert(e instanceof AiOutputError ? e.message : "Failed to generate rubric. Please check API key configuration.");
     } finally {
       setIsGenerating(false);
     }
@@ -78,7 +80,7 @@ export const RubricEditor: React.FC<RubricEditorProps> = ({ rubric, onUpdate, re
         reader.readAsDataURL(file);
       });
 
-      const generated = await extractRubricFromMedia(base64Data, file.type);
+      const generated = await extractRubricFromMedia(base64Data, file.type, { rubric });
       if (generated && generated.criteria) {
         onUpdate({
           ...rubric,
@@ -88,7 +90,7 @@ export const RubricEditor: React.FC<RubricEditorProps> = ({ rubric, onUpdate, re
       }
     } catch (e) {
       console.error(e);
-      alert("Failed to extract rubric from file.");
+      alert(e instanceof AiOutputError ? e.message : "Failed to extract rubric from file.");
     } finally {
       setIsGenerating(false);
     }
@@ -122,11 +124,18 @@ export const RubricEditor: React.FC<RubricEditorProps> = ({ rubric, onUpdate, re
     }
   };
 
+  // Criterion titles must be unique: AI grading and feedback name criteria by title
+  const duplicateTitles = getDuplicateTitles(rubric.criteria.map(c => c.title));
+  const isDuplicateTitle = (index: number) =>
+    duplicateTitles.some(t => t.trim().toLowerCase() === rubric.criteria[index]?.title.trim().toLowerCase());
+
   const addCriterion = () => {
     if (readOnly) return;
+    let title = 'New Criterion';
+    for (let n = 2; rubric.criteria.some(c => c.title.trim().toLowerCase() === title.toLowerCase()); n++) title = `New Criterion ${n}`;
     const newCriterion: RubricCriterion = {
       id: crypto.randomUUID(),
-      title: 'New Criterion',
+      title,
       description: 'Description of items to evaluate...',
       weight: 0.5, 
       levels: [
@@ -148,6 +157,14 @@ export const RubricEditor: React.FC<RubricEditorProps> = ({ rubric, onUpdate, re
     onUpdate({ ...rubric, criteria: updated });
   };
 
+  const closeEditor = () => {
+    if (editingIndex !== null && !readOnly && isDuplicateTitle(editingIndex)) {
+      alert(`Another criterion is already called "${rubric.criteria[editingIndex].title.trim()}". Give this one a different title.`);
+      return;
+    }
+    setEditingIndex(null);
+  };
+
   const removeCriterion = (index: number) => {
     if (readOnly) return;
     const updated = rubric.criteria.filter((_, i) => i !== index);
@@ -385,6 +402,8 @@ export const RubricEditor: React.FC<RubricEditorProps> = ({ rubric, onUpdate, re
         </div>
       )}
 
+      {!readOnly && <RubricReviewPanel rubric={rubric} onUpdate={onUpdate} />}
+
       <div className="bg-white p-6 rounded-lg shadow-sm border border-slate-200">
         <div className="flex items-center justify-between mb-2 px-2">
             <h3 className="font-bold text-slate-700">Criteria</h3>
@@ -395,6 +414,11 @@ export const RubricEditor: React.FC<RubricEditorProps> = ({ rubric, onUpdate, re
 
         {/* List of Criteria - Table-like Layout */}
         <div className="space-y-4">
+          {duplicateTitles.length > 0 && (
+            <div className="text-sm p-3 rounded-lg border bg-amber-50 border-amber-200 text-amber-800">
+              More than one criterion is called {duplicateTitles.map(t => `"${t.trim()}"`).join(', ')}. {readOnly ? 'AI grading cannot tell them apart.' : 'Rename them so AI grading can tell them apart.'}
+            </div>
+          )}
           <div className="hidden md:grid grid-cols-12 gap-4 px-4 py-2 bg-slate-50 text-xs font-bold text-slate-500 uppercase tracking-wider rounded-t-lg border-b border-slate-200">
             <div className="col-span-4">Criteria / Items</div>
             <div className="col-span-2 text-center">Full Mark (%)</div>
@@ -541,7 +565,7 @@ export const RubricEditor: React.FC<RubricEditorProps> = ({ rubric, onUpdate, re
                  <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2">
                     <Icon.Pencil /> {readOnly ? 'View Criterion Details' : 'Edit Criterion'}
                  </h2>
-                 <button onClick={() => setEditingIndex(null)} className="text-slate-400 hover:text-slate-600 p-2 hover:bg-slate-100 rounded-full transition-colors">
+                 <button onClick={closeEditor} className="text-slate-400 hover:text-slate-600 p-2 hover:bg-slate-100 rounded-full transition-colors">
                     <Icon.XMark />
                  </button>
               </div>
@@ -556,9 +580,12 @@ export const RubricEditor: React.FC<RubricEditorProps> = ({ rubric, onUpdate, re
                             disabled={readOnly}
                             value={currentCriterion.title}
                             onChange={(e) => updateCriterion(editingIndex, 'title', e.target.value)}
-                            className={`w-full font-medium border border-slate-300 rounded-md p-2 outline-none ${readOnly ? 'bg-slate-50 text-slate-600' : 'focus:ring-2 focus:ring-blue-500'}`}
+                            className={`w-full font-medium border rounded-md p-2 outline-none ${isDuplicateTitle(editingIndex) ? 'border-red-400' : 'border-slate-300'} ${readOnly ? 'bg-slate-50 text-slate-600' : 'focus:ring-2 focus:ring-blue-500'}`}
                             placeholder="e.g. Content Accuracy"
                            />
+                           {!readOnly && isDuplicateTitle(editingIndex) && (
+                               <p className="text-xs text-red-600 mt-1">Another criterion has this title. Titles must be unique, since AI grading names criteria by title.</p>
+                           )}
                        </div>
                        <div>
                            <label className="block text-sm font-medium text-slate-700 mb-1">Description</label>
@@ -683,7 +710,7 @@ export const RubricEditor: React.FC<RubricEditorProps> = ({ rubric, onUpdate, re
 
               <div className="p-6 border-t border-slate-100 bg-slate-50 rounded-b-xl flex justify-end">
                  <button 
-                    onClick={() => setEditingIndex(null)} 
+                    onClick={closeEditor} 
                     className="bg-blue-600 text-white px-8 py-2.5 rounded-lg font-bold hover:bg-blue-700 shadow-lg shadow-blue-200 transition-all"
                  >
                     {readOnly ? 'Close' : 'Done'}
@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import { Rubric } from '../types';
+import { reviewRubricWithAI } from '../services/geminiService';
+import { REVIEW_CATEGORY_LABELS, ReviewItem, applyRewrites, checkLevelText, checkScoreGaps, describeRewrite, mergeReview } from '../services/rubricReview';
+import { Icon } from './Icon';
+
+interface RubricReviewPanelProps {
+  rubric: Rubric;
+  onUpdate: (rubric: Rubric) => void;
+}
+
+const CATEGORY_STYLES: Record<ReviewItem['category'], string> = {
+  overlap: 'bg-amber-100 text-amber-700',
+  vague: 'bg-blue-100 text-blue-700',
+  non_discriminating: 'bg-indigo-100 text-indigo-700',
+  score_gap: 'bg-red-100 text-red-700',
+  coverage: 'bg-purple-100 text-purple-700'
+};
+
+const FIELD_LABELS: Record<string, string> = { title: 'Title', description: 'Description', label: 'Label', score: 'Score' };
+
+// The rubric as the review saw it; a change means the findings may be out of date
+const snapshot = (rubric: Rubric) => JSON.stringify([rubric.criteria, rubric.assignmentBrief, rubric.clos, rubric.plos]);
+
+// Quality checklist for a rubric before it is used: AI findings plus local score and descriptor checks,
+// each with rewrites the teacher can accept or dismiss
+export const RubricReviewPanel: React.FC<RubricReviewPanelProps> = ({ rubric, onUpdate }) => {
+  const [isReviewing, setIsReviewing] = useState(false);
+  const [items, setItems] = useState<ReviewItem[] | null>(null);
+  const [resolved, setResolved] = useState<Record<string, 'accepted' | 'dismissed'>>({});
+  const [reviewedAs, setReviewedAs] = useState('');
+  const [cachedAt, setCachedAt] = useState<number | undefined>();
+
+  const handleReview = async () => {
+      if (rubric.criteria.length === 0) {
+          alert('Add at least one criterion before reviewing the rubric.');
+          return;
+      }
+      setIsReviewing(true);
+      try {
+          const result = await reviewRubricWithAI(rubric, { forceRefresh: items !== null });
+          setItems(mergeReview([...checkScoreGaps(rubric), ...checkLevelText(rubric)], result.issues));
+          setCachedAt(result.cachedAt);
+          setResolved({});
+          setReviewedAs(snapshot(rubric));
+      } catch (e) {
+          alert(`Failed to review rubric: ${e instanceof Error ? e.message : 'Unknown error'}`);
+      } finally {
+          setIsReviewing(false);
+      }
+  };
+
+  const handleAccept = (item: ReviewItem) => {
+      const { rubric: updated, skipped } = applyRewrites(rubric, item.rewrites || []);
+      if (skipped === (item.rewrites || []).length) {
+          alert('None of the suggested changes match the rubric any more. Edit it by hand or review again.');
+          return;
+      }
+      if (skipped > 0) alert(`${skipped} suggested change${skipped === 1 ? '' : 's'} no longer matched the rubric and ${skipped === 1 ? 'was' : 'were'} skipped.`);
+      onUpdate(updated);
+      // Accepted rewrites are expected changes, not a reason to re-run the review
+      if (snapshot(rubric) === reviewedAs) setReviewedAs(snapshot(updated));
+      setResolved(prev => ({ ...prev, [item.id]: 'accepted' }));
+  };
+
+  const open = (items || []).filter(i => !resolved[i.id]);
+  const isStale = items !== null && snapshot(rubric) !== reviewedAs;
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-sm border border-slate-200">
+        <div className="flex justify-between items-start gap-4 mb-4">
+            <div>
+                <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+                    <Icon.Check /> Quality Review
+                </h2>
+                <p className="text-sm text-slate-500 mt-1">
+                    Checks for overlapping criteria, vague or indistinct level descriptors, uneven scores, and learning outcomes or brief requirements no criterion covers.
+                </p>
+            </div>
+            <button
+                onClick={handleReview}
+                disabled={isReviewing}
+                className="shrink-0 bg-purple-600 text-white px-4 py-2 rounded-md hover:bg-purple-700 disabled:opacity-50 flex items-center gap-2 transition-colors"
+            >
+                <Icon.Sparkles /> {isReviewing ? 'Reviewing...' : items === null ? 'Review Rubric' : 'Review Again'}
+            </button>
+        </div>
+
+        {items !== null && (
+            <div className="space-y-3">
+                <div className="flex justify-between text-xs text-slate-500">
+                    <span>
+                        {open.length === 0 ? 'No open items.' : `${open.length} of ${items.length} item${items.length === 1 ? '' : 's'} open.`}
+                        {cachedAt && ` Reused a cached review from ${new Date(cachedAt).toLocaleString()}.`}
+                    </span>
+                    {isStale && <span className="text-amber-700">The rubric has changed since this review.</span>}
+                </div>
+                {items.length === 0 && <p className="text-sm text-green-700">No problems found.</p>}
+                <ul className="space-y-2">
+                    {items.map(item => {
+                        const state = resolved[item.id];
+                        const rewrites = item.rewrites || [];
+                        return (
+                            <li key={item.id} className={`border rounded-lg p-3 ${state ? 'border-slate-100 bg-slate-50 opacity-60' : 'border-slate-200'}`}>
+                                <div className="flex justify-between items-start gap-4">
+                                    <div className="min-w-0">
+                                        <div className="flex items-center gap-2 flex-wrap">
+                                            <span className={`text-[10px] uppercase font-bold px-2 py-0.5 rounded ${CATEGORY_STYLES[item.category]}`}>{REVIEW_CATEGORY_LABELS[item.category]}</span>
+                                            {item.criterionTitle && <span className="text-sm font-medium text-slate-700">{item.criterionTitle}</span>}
+                                            {item.source === 'CHECK' && <span className="text-[10px] text-slate-400">Automatic check</span>}
+                                        </div>
+                                        <p className={`text-sm text-slate-600 mt-1 ${state ? 'line-through' : ''}`}>{item.problem}</p>
+                                    </div>
+                                    {state ? (
+                                        <span className="shrink-0 text-xs font-bold text-slate-500 flex items-center gap-1">
+                                            {state === 'accepted' ? <><Icon.Check className="w-4 h-4" /> Accepted</> : 'Dismissed'}
+                                        </span>
+                                    ) : (
+                                        <div className="shrink-0 flex gap-2">
+                                            {rewrites.length > 0 && (
+                                                <button onClick={() => handleAccept(item)} className="text-xs font-bold text-green-700 hover:text-green-800 px-2 py-1 border border-green-200 rounded hover:bg-green-50">
+                                                    Accept
+                                                </button>
+                                            )}
+                                            <button onClick={() => setResolved(prev => ({ ...prev, [item.id]: 'dismissed' }))} className="text-xs font-bold text-slate-500 hover:text-slate-700 px-2 py-1">
+                                                Dismiss
+                                            </button>
+                                        </div>
+                                    )}
+                                </div>
+                                {rewrites.length > 0 && !state && (
+                                    <ul className="mt-2 space-y-1 text-xs">
+                                        {rewrites.map((r, i) => {
+                                            const change = describeRewrite(rubric, r);
+                                            return (
+                                                <li key={i} className="bg-slate-50 rounded p-2">
+                                                    <div className="text-slate-500 font-medium">{change.target} · {FIELD_LABELS[change.field]}</div>
+                                                    {change.before && <div className="text-red-700 line-through">{change.before}</div>}
+                                                    <div className="text-green-700">{change.after}</div>
+                                                </li>
+                                            );
+                                        })}
+                                    </ul>
+                                )}
+                            </li>
+                        );
+                    })}
+                </ul>
+            </div>
+        )}
+    </div>
+  );
+};
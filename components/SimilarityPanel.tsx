@@ -0,0 +1,247 @@
+import React, { useState } from 'react';
+import { Assessment, Assignee, IntegrityNote, Rubric } from '../types';
+import { DEFAULT_SIMILARITY_THRESHOLD, MatchedPassage, SHINGLE_WORDS, SimilarPair, alignMatches, findSimilarPairs } from '../services/similarity';
+import { Icon } from './Icon';
+
+interface SimilarityPanelProps {
+  rubric: Rubric;
+  rubrics: Rubric[];
+  assignees: Assignee[];
+  assessments: Record<string, Assessment>;
+  onSetIntegrityNote?: (id: string, note: Omit<IntegrityNote, 'recordedAt' | 'recordedBy'> | null) => void; // Teachers only
+  onClose: () => void;
+}
+
+const percent = (share: number) => `${Math.round(share * 100)}%`;
+
+// Submissions on this assignment that closely match each other or work handed in for other
+// assignments, with the shared passages side by side. Runs entirely in the browser.
+export const SimilarityPanel: React.FC<SimilarityPanelProps> = ({ rubric, rubrics, assignees, assessments, onSetIntegrityNote, onClose }) => {
+  const [threshold, setThreshold] = useState(Math.round(DEFAULT_SIMILARITY_THRESHOLD * 100));
+  const [includeOther, setIncludeOther] = useState(true);
+  const [phase, setPhase] = useState<'idle' | 'running' | 'done'>('idle');
+  const [pairs, setPairs] = useState<SimilarPair[]>([]);
+  const [selected, setSelected] = useState<{ pair: SimilarPair; passages: MatchedPassage[] } | null>(null);
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+
+  const all = Object.values(assessments);
+  const targets = all.filter(a => a.rubricId === rubric.id && a.submissionText?.trim());
+  const others = all.filter(a => a.rubricId !== rubric.id && a.submissionText?.trim());
+  const nameOf = (assessment: Assessment) => assignees.find(a => a.id === assessment.assigneeId)?.name || assessment.assigneeId;
+  const titleOf = (assessment: Assessment) => rubrics.find(r => r.id === assessment.rubricId)?.title || 'Deleted assignment';
+
+  const handleRun = () => {
+      setPhase('running');
+      setSelected(null);
+      // Let the progress message render before the comparison blocks the page
+      setTimeout(() => {
+          setPairs(findSimilarPairs(targets, includeOther ? others : [], threshold / 100));
+          setPhase('done');
+      }, 0);
+  };
+
+  const handleSelect = (pair: SimilarPair) => {
+      setSelected({ pair, passages: alignMatches(pair.a.submissionText!, pair.b.submissionText!) });
+  };
+
+  const suggestNote = (pair: SimilarPair, self: Assessment) => {
+      const other = self.id === pair.a.id ? pair.b : pair.a;
+      const where = other.rubricId === self.rubricId ? 'on the same assignment' : `for "${titleOf(other)}"`;
+      return `Submission is ${percent(pair.similarity)} similar to the work by ${nameOf(other)} ${where} (${pair.sharedWords} words in shared passages).`;
+  };
+
+  const handleSaveNote = (pair: SimilarPair, self: Assessment) => {
+      const current = assessments[self.id]?.integrityNote;
+      const other = self.id === pair.a.id ? pair.b : pair.a;
+      const text = (drafts[self.id] ?? current?.note ?? suggestNote(pair, self)).trim();
+      if (!text) {
+          alert('Write a note first.');
+          return;
+      }
+      onSetIntegrityNote!(self.id, {
+          note: text,
+          matchedAssessmentIds: Array.from(new Set([...(current?.matchedAssessmentIds || []), other.id])),
+          similarity: Math.max(current?.similarity || 0, pair.similarity)
+      });
+      setDrafts(prev => {
+          const { [self.id]: _, ...rest } = prev;
+          return rest;
+      });
+  };
+
+  const handleRemoveNote = (self: Assessment) => {
+      if (!confirm(`Remove the academic-integrity note for ${nameOf(self)}?`)) return;
+      onSetIntegrityNote!(self.id, null);
+  };
+
+  const renderNote = (pair: SimilarPair, self: Assessment) => {
+      const current = assessments[self.id]?.integrityNote;
+      if (!onSetIntegrityNote) {
+          return current
+              ? <p className="text-xs text-rose-800 bg-rose-50 border border-rose-100 rounded p-2 whitespace-pre-wrap">{current.note}</p>
+              : <p className="text-xs text-slate-400">No integrity note.</p>;
+      }
+      if (!assessments[self.id]) return null;
+      return (
+          <div className="space-y-1">
+              <textarea
+                  value={drafts[self.id] ?? current?.note ?? suggestNote(pair, self)}
+                  onChange={(e) => setDrafts(prev => ({ ...prev, [self.id]: e.target.value }))}
+                  className="w-full text-xs border border-slate-300 rounded-md p-2 h-20 outline-none resize-none focus:ring-2 focus:ring-blue-500"
+              />
+              <div className="flex items-center justify-between gap-2">
+                  <span className="text-[10px] text-slate-400">
+                      {current ? `Recorded by ${current.recordedBy} on ${new Date(current.recordedAt).toLocaleString()}` : 'Not recorded yet'}
+                  </span>
+                  <div className="flex gap-2">
+                      {current && (
+                          <button onClick={() => handleRemoveNote(self)} className="text-xs text-red-600 hover:text-red-700 font-bold">Remove</button>
+                      )}
+                      <button onClick={() => handleSaveNote(pair, self)} className="text-xs font-bold px-2 py-1 rounded bg-rose-600 text-white hover:bg-rose-700">
+                          {current ? 'Update Note' : 'Record Note'}
+                      </button>
+                  </div>
+              </div>
+          </div>
+      );
+  };
+
+  const side = (assessment: Assessment) => (
+      <div className="min-w-0">
+          <div className="font-bold text-slate-800 truncate">{nameOf(assessment)}</div>
+          <div className="text-[10px] text-slate-400 truncate">{titleOf(assessment)}</div>
+      </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 backdrop-blur-sm z-50 flex items-center justify-center p-4 animate-fade-in">
+        <div className="bg-white rounded-xl shadow-2xl w-full max-w-5xl flex flex-col max-h-[90vh]">
+            <div className="p-6 border-b border-slate-100 flex justify-between items-center bg-slate-50 rounded-t-xl">
+                <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+                    <Icon.DocumentText /> Similarity Check
+                </h2>
+                {phase !== 'running' && (
+                    <button onClick={onClose} className="text-slate-400 hover:text-slate-600"><Icon.XMark /></button>
+                )}
+            </div>
+
+            <div className="p-6 overflow-y-auto space-y-6">
+                {selected ? (
+                    <div className="space-y-4">
+                        <button onClick={() => setSelected(null)} className="text-sm text-blue-600 hover:text-blue-800 font-medium">&larr; All pairs</button>
+                        <div className="grid grid-cols-2 gap-4 text-sm">
+                            {side(selected.pair.a)}
+                            {side(selected.pair.b)}
+                        </div>
+                        <p className="text-xs text-slate-500">
+                            {percent(selected.pair.similarity)} of {SHINGLE_WORDS}-word sequences in common; {selected.passages.length} shared passage{selected.passages.length === 1 ? '' : 's'} of {SHINGLE_WORDS} or more words.
+                        </p>
+                        <div className="border border-slate-200 rounded-lg divide-y divide-slate-100">
+                            {selected.passages.length === 0 && <p className="p-3 text-sm text-slate-400">No passage is shared word for word; the overlap is spread across short phrases.</p>}
+                            {selected.passages.map((p, i) => (
+                                <div key={i} className="grid grid-cols-2 gap-4 p-3 text-sm text-slate-600">
+                                    {[p.a, p.b].map((excerpt, j) => (
+                                        <p key={j} className="whitespace-pre-wrap break-words">
+                                            {excerpt.before && <span className="text-slate-400">…{excerpt.before}</span>}
+                                            <mark className="bg-rose-100 text-slate-900 rounded px-0.5">{excerpt.text}</mark>
+                                            {excerpt.after && <span className="text-slate-400">{excerpt.after}…</span>}
+                                        </p>
+                                    ))}
+                                </div>
+                            ))}
+                        </div>
+                        <div className="pt-4 border-t border-slate-100">
+                            <h3 className="font-bold text-slate-800 text-sm mb-2">Academic-Integrity Notes</h3>
+                            <div className="grid grid-cols-2 gap-4">
+                                {renderNote(selected.pair, selected.pair.a)}
+                                {renderNote(selected.pair, selected.pair.b)}
+                            </div>
+                        </div>
+                    </div>
+                ) : (
+                    <>
+                        <div className="space-y-3">
+                            <p className="text-sm text-slate-600">
+                                Compares the {targets.length} submission{targets.length === 1 ? '' : 's'} for "{rubric.title}" with each other
+                                {includeOther && ` and with ${others.length} from other assignments`}. Nothing is sent to an external service.
+                                Similar work is a reason to look closer, not proof of misconduct.
+                            </p>
+                            <div className="flex flex-wrap items-center gap-6 text-sm">
+                                <label className="flex items-center gap-2 text-slate-700">
+                                    Flag pairs at least
+                                    <input
+                                        type="range" min={10} max={90} step={5}
+                                        value={threshold}
+                                        onChange={(e) => setThreshold(parseInt(e.target.value))}
+                                        disabled={phase === 'running'}
+                                    />
+                                    <span className="font-bold w-10">{threshold}%</span> similar
+                                </label>
+                                <label className="flex items-center gap-2 text-slate-700 cursor-pointer">
+                                    <input type="checkbox" checked={includeOther} onChange={(e) => setIncludeOther(e.target.checked)} disabled={phase === 'running'} className="rounded border-slate-300" />
+                                    Include other assignments
+                                </label>
+                            </div>
+                        </div>
+
+                        {phase === 'running' && <p className="text-sm text-slate-500 animate-pulse">Comparing submissions...</p>}
+
+                        {phase === 'done' && (pairs.length === 0 ? (
+                            <p className="text-sm text-green-700">No pairs are {threshold}% similar or more.</p>
+                        ) : (
+                            <table className="w-full text-sm text-slate-600">
+                                <thead>
+                                    <tr className="text-xs text-slate-400 text-left">
+                                        <th className="pb-2 font-medium">This assignment</th>
+                                        <th className="pb-2 font-medium">Similar to</th>
+                                        <th className="pb-2 font-medium text-right">Similarity</th>
+                                        <th className="pb-2 font-medium text-right">Shared words</th>
+                                        <th className="pb-2"></th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {pairs.map(pair => (
+                                        <tr key={`${pair.a.id}:${pair.b.id}`} className="border-t border-slate-100">
+                                            <td className="py-2">
+                                                <div className="flex items-center gap-1">
+                                                    {nameOf(pair.a)}
+                                                    {assessments[pair.a.id]?.integrityNote && <span title="Has an integrity note" className="w-2 h-2 rounded-full bg-rose-500"></span>}
+                                                </div>
+                                            </td>
+                                            <td className="py-2">
+                                                <div className="flex items-center gap-1">
+                                                    {nameOf(pair.b)}
+                                                    {assessments[pair.b.id]?.integrityNote && <span title="Has an integrity note" className="w-2 h-2 rounded-full bg-rose-500"></span>}
+                                                </div>
+                                                {pair.b.rubricId !== rubric.id && <div className="text-[10px] text-slate-400">{titleOf(pair.b)}</div>}
+                                            </td>
+                                            <td className={`py-2 text-right font-bold ${pair.similarity >= 0.6 ? 'text-red-600' : 'text-amber-600'}`}>{percent(pair.similarity)}</td>
+                                            <td className="py-2 text-right">{pair.sharedWords}</td>
+                                            <td className="py-2 text-right">
+                                                <button onClick={() => handleSelect(pair)} className="text-xs font-bold text-blue-600 hover:text-blue-800">Compare</button>
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        ))}
+                    </>
+                )}
+            </div>
+
+            {!selected && (
+                <div className="p-4 border-t border-slate-100 flex justify-end gap-2">
+                    <button
+                        onClick={handleRun}
+                        disabled={phase === 'running' || targets.length === 0 || (targets.length < 2 && !(includeOther && others.length > 0))}
+                        title={targets.length === 0 ? 'No submission text on this assignment yet' : undefined}
+                        className="bg-rose-600 text-white px-4 py-2 rounded-md hover:bg-rose-700 disabled:opacity-50 flex items-center gap-2 font-medium"
+                    >
+                        <Icon.DocumentText /> {phase === 'done' ? 'Check Again' : 'Check Similarity'}
+                    </button>
+                </div>
+            )}
+        </div>
+    </div>
+  );
+};
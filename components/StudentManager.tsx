@@ -1,5 +1,6 @@
 import React, { useState, useRef } from 'react';
 import { Assignee } from '../types';
+import { FEEDBACK_LANGUAGES } from '../services/translation';
 import { Icon } from './Icon';
 
 interface StudentManagerProps {
@@ -277,6 +278,26 @@ export const StudentManager: React.FC<StudentManagerProps> = ({ assignees, setAs
     setAssignees(assignees.map(a => a.id === groupId ? { ...a, members: newMembers } : a));
   };
 
+  const setFeedbackLanguage = (id: string, language: string) => {
+      if (readOnly) return;
+      setAssignees(assignees.map(a => a.id === id ? { ...a, feedbackLanguage: language || undefined } : a));
+  };
+
+  const languagePicker = (a: Assignee) => readOnly ? (
+      <span className="text-xs text-slate-500">{a.feedbackLanguage || 'Course default'}</span>
+  ) : (
+      <select
+          value={a.feedbackLanguage || ''}
+          onChange={(e) => setFeedbackLanguage(a.id, e.target.value)}
+          className="p-1 text-xs border border-slate-200 rounded bg-white"
+          title="Feedback is translated into this language, keeping the original"
+      >
+          <option value="">Course default</option>
+          {a.feedbackLanguage && !FEEDBACK_LANGUAGES.includes(a.feedbackLanguage) && <option value={a.feedbackLanguage}>{a.feedbackLanguage}</option>}
+          {FEEDBACK_LANGUAGES.map(language => <option key={language} value={language}>{language}</option>)}
+      </select>
+  );
+
   // --- Student Modal Logic ---
   const openAddStudentModal = () => {
       if (readOnly) return;
@@ -510,13 +531,14 @@ export const StudentManager: React.FC<StudentManagerProps> = ({ assignees, setAs
                             <th className="px-6 py-3 font-bold">Group Name</th>
                             <th className="px-6 py-3 font-bold">Student ID</th>
                             <th className="px-6 py-3 font-bold">Name</th>
+                            <th className="px-6 py-3 font-bold">Feedback Language</th>
                             {!readOnly && <th className="px-6 py-3 font-bold text-right">Actions</th>}
                         </tr>
                     </thead>
                     <tbody className="divide-y divide-slate-100">
                         {displayAssignees.length === 0 && (
                             <tr>
-                                <td colSpan={readOnly ? 3 : 4} className="p-12 text-center text-slate-400">
+                                <td colSpan={readOnly ? 4 : 5} className="p-12 text-center text-slate-400">
                                     No {assignmentType}s found.
                                 </td>
                             </tr>
@@ -528,6 +550,7 @@ export const StudentManager: React.FC<StudentManagerProps> = ({ assignees, setAs
                                         <td className="px-6 py-3 text-slate-300">-</td>
                                         <td className="px-6 py-3 font-mono text-slate-600">{a.id}</td>
                                         <td className="px-6 py-3 font-medium text-slate-800">{a.name}</td>
+                                        <td className="px-6 py-3">{languagePicker(a)}</td>
                                         {!readOnly && (
                                         <td className="px-6 py-3 text-right">
                                             <button 
@@ -548,6 +571,7 @@ export const StudentManager: React.FC<StudentManagerProps> = ({ assignees, setAs
                                             </td>
                                             <td className="px-6 py-3 font-mono text-purple-600 font-bold">{a.id}</td>
                                             <td className="px-6 py-3 text-purple-400 italic text-xs uppercase tracking-wider">Group Entity</td>
+                                            <td className="px-6 py-3">{languagePicker(a)}</td>
                                             {!readOnly && (
                                             <td className="px-6 py-3 text-right flex justify-end gap-2">
                                                 <button 
@@ -575,6 +599,7 @@ export const StudentManager: React.FC<StudentManagerProps> = ({ assignees, setAs
                                                     </td>
                                                     <td className="px-6 py-2 font-mono text-slate-500 text-xs">{id || '-'}</td>
                                                     <td className="px-6 py-2 text-slate-700">{name}</td>
+                                                    <td className="px-6 py-2"></td>
                                                     {!readOnly && (
                                                     <td className="px-6 py-2 text-right">
                                                         <button 
@@ -591,7 +616,7 @@ export const StudentManager: React.FC<StudentManagerProps> = ({ assignees, setAs
                                         })}
                                         {(!a.members || a.members.length === 0) && (
                                             <tr>
-                                                <td colSpan={readOnly ? 3 : 4} className="px-6 py-2 text-xs text-orange-400 italic bg-orange-50/30 pl-20">
+                                                <td colSpan={readOnly ? 4 : 5} className="px-6 py-2 text-xs text-orange-400 italic bg-orange-50/30 pl-20">
                                                     No members in this group.
                                                 </td>
                                             </tr>
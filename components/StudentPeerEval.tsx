@@ -1,12 +1,13 @@
 import React, { useState, useEffect } from 'react';
-import { Assignee, Assessment, PeerEvaluation, Rubric } from '../types';
+import { Assignee, Assessment, AuditSource, PeerEvaluation, Rubric } from '../types';
+import { recalculateAssessment } from '../services/gradingEngine';
 import { Icon } from './Icon';
 
 interface StudentPeerEvalProps {
   assignees: Assignee[];
   assessments: Record<string, Assessment>;
   rubric: Rubric;
-  onSaveAssessment: (id: string, assessment: Assessment) => void;
+  onSaveAssessment: (id: string, assessment: Assessment, source?: AuditSource) => void;
   onExit: () => void;
   hostUserId?: string;
   isGuest?: boolean;
@@ -58,6 +59,9 @@ export const StudentPeerEval: React.FC<StudentPeerEvalProps> = ({
   const groups = assignees.filter(a => a.type === 'group');
   const selectedGroup = groups.find(g => g.id === selectedGroupId);
 
+  // Finalized groups no longer accept peer reviews
+  const isGroupLocked = (group: Assignee) => !!assessments[`${rubric.id}_${group.id}`]?.locked;
+
   const startStudentMode = () => {
     setStep('SEARCH');
   };
@@ -106,6 +110,10 @@ export const StudentPeerEval: React.FC<StudentPeerEvalProps> = ({
     }
 
     if (foundStudentGroup && foundStudentName) {
+        if (isGroupLocked(foundStudentGroup)) {
+            setSearchError('Peer evaluation for your group has been closed by your teacher.');
+            return;
+        }
         setSelectedGroupId(foundStudentGroup.id);
         // Auto-select the user and go straight to evaluation
         handleUserSelect(foundStudentName, foundStudentGroup); 
@@ -115,6 +123,10 @@ export const StudentPeerEval: React.FC<StudentPeerEvalProps> = ({
     // 2. Fallback: Check if query matches a Group ID or Name (Group Login)
     const groupMatch = groups.find(g => g.id.toLowerCase() === query || g.name.toLowerCase() === query);
     if (groupMatch) {
+        if (isGroupLocked(groupMatch)) {
+            setSearchError('Peer evaluation for this group has been closed by your teacher.');
+            return;
+        }
         setSelectedGroupId(groupMatch.id);
         setVerificationQuery(''); 
         setVerificationError('');
@@ -185,6 +197,11 @@ export const StudentPeerEval: React.FC<StudentPeerEvalProps> = ({
     if (!selectedGroupId || !currentUser || !selectedGroup) return;
 
     const compositeKey = `${rubric.id}_${selectedGroupId}`;
+    if (assessments[compositeKey]?.locked) {
+        alert('Peer evaluation for this group has been closed by your teacher. Your review was not saved.');
+        reset();
+        return;
+    }
     
     // Get existing assessment or create new structure
     const existingAssessment = assessments[compositeKey] || {
@@ -218,11 +235,11 @@ export const StudentPeerEval: React.FC<StudentPeerEvalProps> = ({
       });
     });
 
-    onSaveAssessment(compositeKey, {
+    onSaveAssessment(compositeKey, recalculateAssessment(rubric, {
       ...existingAssessment,
       peerEvaluations: cleanedEvaluations,
       lastUpdated: Date.now()
-    });
+    }), 'PEER_EVAL');
 
     setStep('SUCCESS');
   };
@@ -1,7 +1,13 @@
 import React, { useState, useRef, useEffect, useMemo } from 'react';
-import { Rubric } from '../types';
+import { GradeScale, LatePenaltyPolicy, PromptTemplate, Rubric } from '../types';
 import { Icon } from './Icon';
+import { GradeScaleEditor } from './GradeScaleEditor';
+import { PromptTemplateEditor } from './PromptTemplateEditor';
+import { PROMPT_KIND_LABELS, resolvePrompt } from '../services/promptTemplates';
 import { extractSubmissionText } from '../services/geminiService';
+import { toDateTimeInputValue, fromDateTimeInputValue } from '../services/dateInput';
+import { getCourseKey, getCourseScale } from '../services/gradeScales';
+import { FEEDBACK_LANGUAGES } from '../services/translation';
 
 interface SubjectAssignmentProps {
   rubric: Rubric;
@@ -11,6 +17,10 @@ interface SubjectAssignmentProps {
   onCreateRubric: () => void;
   onDeleteRubric: (id: string) => void;
   onDeleteSubject: (subject: string) => void;
+  gradeScales: GradeScale[];
+  onUpdateGradeScales: (scales: GradeScale[]) => void;
+  promptTemplates: PromptTemplate[]; // Workspace defaults that this assignment's overrides replace
+  onSetCourseLanguage: (courseKey: string, language: string) => void;
   onNext: () => void;
 }
 
@@ -22,6 +32,10 @@ export const SubjectAssignment: React.FC<SubjectAssignmentProps> = ({
     onCreateRubric,
     onDeleteRubric,
     onDeleteSubject,
+    gradeScales,
+    onUpdateGradeScales,
+    promptTemplates,
+    onSetCourseLanguage,
     onNext 
 }) => {
   const peerWeight = rubric.peerEvalWeight || 0;
@@ -35,6 +49,26 @@ export const SubjectAssignment: React.FC<SubjectAssignmentProps> = ({
   // Calculate passing points based on assignment weight
   const passingPoints = (assignmentWeight * passingPercentage) / 100;
 
+  const latePenalty = rubric.latePenalty || {};
+  const updateLatePenalty = (changes: Partial<LatePenaltyPolicy>) => {
+      onUpdate({ ...rubric, latePenalty: { ...latePenalty, ...changes } });
+  };
+  const parseOptionalNumber = (value: string) => value === '' ? undefined : Math.max(0, parseFloat(value) || 0);
+
+  const courseKey = getCourseKey(rubric);
+  const courseScale = getCourseScale(rubric, gradeScales);
+  const [isScaleEditorOpen, setIsScaleEditorOpen] = useState(false);
+  const [isPromptEditorOpen, setIsPromptEditorOpen] = useState(false);
+  const promptOverrides = rubric.promptTemplates || [];
+
+  // A course has at most one default scale, so attaching it here detaches it everywhere else
+  const setCourseScale = (scaleId: string) => {
+      onUpdateGradeScales(gradeScales.map(s => {
+          const courses = (s.courses || []).filter(c => c !== courseKey);
+          return { ...s, courses: s.id === scaleId ? [...courses, courseKey] : courses };
+      }));
+  };
+
   const briefInputRef = useRef<HTMLInputElement>(null);
   const ploInputRef = useRef<HTMLInputElement>(null);
   const cloInputRef = useRef<HTMLInputElement>(null);
@@ -123,7 +157,7 @@ export const SubjectAssignment: React.FC<SubjectAssignmentProps> = ({
                 reader.onerror = reject;
                 reader.readAsDataURL(file);
             });
-            const text = await extractSubmissionText(base64Data, file.type);
+            const text = await extractSubmissionText(base64Data, file.type, { rubric });
             const newText = currentText ? currentText + "\n\n" + text : text;
             
             if (field === 'plos' || field === 'clos') {
@@ -330,6 +364,22 @@ export const SubjectAssignment: React.FC<SubjectAssignmentProps> = ({
                         <p className="text-xs text-slate-400 mt-1">Applies to all assignments in this course.</p>
                     </div>
 
+                    <div>
+                        <label className="block text-sm font-bold text-slate-700 mb-2">Feedback Language</label>
+                        <select
+                            value={rubric.feedbackLanguage || ''}
+                            onChange={(e) => onSetCourseLanguage(getCourseKey(rubric), e.target.value)}
+                            className="w-full p-3 border border-slate-300 rounded-lg bg-white focus:ring-2 focus:ring-blue-500 outline-none"
+                        >
+                            <option value="">Same as written (no translation)</option>
+                            {rubric.feedbackLanguage && !FEEDBACK_LANGUAGES.includes(rubric.feedbackLanguage) && (
+                                <option value={rubric.feedbackLanguage}>{rubric.feedbackLanguage}</option>
+                            )}
+                            {FEEDBACK_LANGUAGES.map(language => <option key={language} value={language}>{language}</option>)}
+                        </select>
+                        <p className="text-xs text-slate-400 mt-1">Applies to all assignments in this course. Feedback is translated into this language, keeping the original; a student's own language on the Student List takes precedence.</p>
+                    </div>
+
                     <div>
                         <label className="block text-sm font-bold text-slate-700 mb-2">Assignment Title</label>
                         <input 
@@ -365,6 +415,66 @@ export const SubjectAssignment: React.FC<SubjectAssignmentProps> = ({
                             </label>
                         </div>
                     </div>
+
+                    <div>
+                        <label className="block text-sm font-bold text-slate-700 mb-2">Due Date</label>
+                        <input 
+                            type="datetime-local"
+                            value={toDateTimeInputValue(rubric.dueDate)}
+                            onChange={(e) => {
+                                const time = fromDateTimeInputValue(e.target.value);
+                                onUpdate({...rubric, dueDate: time === undefined ? undefined : new Date(time).toISOString()});
+                            }}
+                            className="w-full p-3 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                        />
+                        <p className="text-xs text-slate-400 mt-1">Individual extensions can be granted from the Grade view.</p>
+                    </div>
+
+                    {rubric.dueDate && (
+                        <div className="bg-slate-50 p-4 rounded-lg border border-slate-200 space-y-3">
+                            <p className="text-sm font-bold text-slate-700">Late Penalty Policy</p>
+                            <div className="flex items-center gap-2 text-sm text-slate-600">
+                                <input 
+                                    type="number" min="0" max="100"
+                                    value={latePenalty.percentPerDay ?? ''}
+                                    onChange={(e) => updateLatePenalty({ percentPerDay: parseOptionalNumber(e.target.value) })}
+                                    className="w-20 p-2 text-center border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                                    placeholder="0"
+                                />
+                                <span>% off per day late</span>
+                            </div>
+                            <label className="flex items-center gap-2 text-sm text-slate-600 cursor-pointer">
+                                <input 
+                                    type="checkbox"
+                                    checked={!!latePenalty.capAtPass}
+                                    onChange={(e) => updateLatePenalty({ capAtPass: e.target.checked })}
+                                />
+                                Cap late work at the passing score ({passingPercentage}%)
+                            </label>
+                            <div className="flex items-center gap-2 text-sm text-slate-600">
+                                <span>Zero after</span>
+                                <input 
+                                    type="number" min="0"
+                                    value={latePenalty.zeroAfterDays ?? ''}
+                                    onChange={(e) => updateLatePenalty({ zeroAfterDays: parseOptionalNumber(e.target.value) })}
+                                    className="w-20 p-2 text-center border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                                    placeholder="—"
+                                />
+                                <span>days late</span>
+                            </div>
+                            <div className="flex items-center gap-2 text-sm text-slate-600">
+                                <span>Grace period</span>
+                                <input 
+                                    type="number" min="0"
+                                    value={latePenalty.graceMinutes ?? ''}
+                                    onChange={(e) => updateLatePenalty({ graceMinutes: parseOptionalNumber(e.target.value) })}
+                                    className="w-20 p-2 text-center border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                                    placeholder="0"
+                                />
+                                <span>minutes</span>
+                            </div>
+                        </div>
+                    )}
                 </div>
 
                 {/* Right Column: Grading */}
@@ -406,6 +516,45 @@ export const SubjectAssignment: React.FC<SubjectAssignmentProps> = ({
                             </p>
                     </div>
 
+                    <div className="mb-6">
+                            <div className="flex justify-between items-center mb-2">
+                                <label className="block text-sm font-bold text-slate-700">Grade Scale</label>
+                                <button 
+                                    onClick={() => setIsScaleEditorOpen(!isScaleEditorOpen)}
+                                    className="text-xs text-blue-600 hover:text-blue-800 font-medium flex items-center gap-1"
+                                >
+                                    <Icon.Pencil /> Manage Scales
+                                </button>
+                            </div>
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                                <div>
+                                    <span className="block text-xs text-slate-500 mb-1">Course default ({courseKey})</span>
+                                    <select
+                                        value={courseScale?.id || ''}
+                                        onChange={(e) => setCourseScale(e.target.value)}
+                                        className="w-full p-2 text-sm border border-slate-300 rounded-lg bg-white focus:ring-2 focus:ring-blue-500 outline-none"
+                                    >
+                                        <option value="">No letter grades</option>
+                                        {gradeScales.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                                    </select>
+                                </div>
+                                <div>
+                                    <span className="block text-xs text-slate-500 mb-1">This assignment</span>
+                                    <select
+                                        value={rubric.gradeScaleId || ''}
+                                        onChange={(e) => onUpdate({...rubric, gradeScaleId: e.target.value || undefined})}
+                                        className="w-full p-2 text-sm border border-slate-300 rounded-lg bg-white focus:ring-2 focus:ring-blue-500 outline-none"
+                                    >
+                                        <option value="">Use course default</option>
+                                        {gradeScales.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                                    </select>
+                                </div>
+                            </div>
+                            {gradeScales.length === 0 && !isScaleEditorOpen && (
+                                <p className="text-xs text-slate-400 mt-2">Create a grade scale to show letter grades and GPA points.</p>
+                            )}
+                    </div>
+
                     <div className="space-y-4">
                         {/* Peer Eval Weight - Only for Group */}
                         {rubric.type === 'group' ? (
@@ -429,6 +578,19 @@ export const SubjectAssignment: React.FC<SubjectAssignmentProps> = ({
                             </div>
                         )}
 
+                        <label className="flex items-start gap-3 p-3 bg-white rounded-lg border border-slate-200 cursor-pointer">
+                            <input 
+                                type="checkbox"
+                                checked={!!rubric.doubleMarking}
+                                onChange={(e) => onUpdate({...rubric, doubleMarking: e.target.checked})}
+                                className="mt-1"
+                            />
+                            <span>
+                                <span className="block text-sm font-bold text-slate-700">Double Marking</span>
+                                <span className="block text-xs text-slate-500">Each assessor grades independently. The final grade is agreed on the Moderation screen.</span>
+                            </span>
+                        </label>
+
                         {/* Visual Breakdown */}
                         <div className="bg-white p-4 rounded-lg border border-slate-200 space-y-2 mt-4">
                             <p className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Impact on Final Course Grade</p>
@@ -457,6 +619,44 @@ export const SubjectAssignment: React.FC<SubjectAssignmentProps> = ({
                 </div>
             </div>
 
+            {isScaleEditorOpen && (
+                <GradeScaleEditor
+                    scales={gradeScales}
+                    onChange={onUpdateGradeScales}
+                    onClose={() => setIsScaleEditorOpen(false)}
+                />
+            )}
+
+            <div className="bg-slate-50 p-6 rounded-xl border border-slate-200">
+                <div className="flex justify-between items-center">
+                    <div>
+                        <h3 className="font-bold text-slate-800 flex items-center gap-2"><Icon.Sparkles /> AI Prompts for This Assignment</h3>
+                        <p className="text-xs text-slate-500 mt-1">
+                            {promptOverrides.length > 0
+                                ? `Overrides the workspace default for: ${promptOverrides.map(t => PROMPT_KIND_LABELS[t.kind]).join(', ')}.`
+                                : 'Uses the workspace default prompts.'}
+                        </p>
+                    </div>
+                    <button
+                        onClick={() => setIsPromptEditorOpen(!isPromptEditorOpen)}
+                        className="text-xs text-blue-600 hover:text-blue-800 font-medium flex items-center gap-1"
+                    >
+                        <Icon.Pencil /> {isPromptEditorOpen ? 'Close' : 'Customize'}
+                    </button>
+                </div>
+                {isPromptEditorOpen && (
+                    <div className="mt-4">
+                        <PromptTemplateEditor
+                            templates={promptOverrides}
+                            onChange={(list) => onUpdate({ ...rubric, promptTemplates: list.length > 0 ? list : undefined })}
+                            inherited={(kind) => resolvePrompt(kind, undefined, promptTemplates)}
+                            inheritedLabel="workspace default"
+                            sampleRubric={rubric}
+                        />
+                    </div>
+                )}
+            </div>
+
             <div className="flex justify-end pt-4 border-t border-slate-100">
                 <button 
                     onClick={onNext}
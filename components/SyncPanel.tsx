@@ -0,0 +1,103 @@
+import React from 'react';
+import { Assessment, Assignee, Rubric } from '../types';
+import { SyncConflict } from '../services/workspaceMerge';
+import { computeScore } from '../services/gradingEngine';
+import { Icon } from './Icon';
+
+interface SyncPanelProps {
+  enabled: boolean; // false when the account has no session token
+  isSyncing: boolean;
+  error: string | null;
+  lastSyncedAt: number | null;
+  conflicts: SyncConflict[];
+  rubrics: Rubric[];
+  assignees: Assignee[];
+  onSync: () => void;
+  onResolve: (conflict: SyncConflict, keep: 'local' | 'remote') => void;
+}
+
+export const SyncPanel: React.FC<SyncPanelProps> = ({
+    enabled,
+    isSyncing,
+    error,
+    lastSyncedAt,
+    conflicts,
+    rubrics,
+    assignees,
+    onSync,
+    onResolve
+}) => {
+  const describe = (assessment: Assessment | null, rubric?: Rubric) => {
+      if (!assessment) return <span className="italic text-slate-400">Deleted</span>;
+      const score = rubric ? computeScore(rubric, assessment).totalScore : assessment.totalScore;
+      return (
+          <div className="space-y-1">
+              <div className="font-bold text-slate-800">{score.toFixed(1)}%</div>
+              <div className="text-[10px] text-slate-500">Saved {new Date(assessment.lastUpdated).toLocaleString()}</div>
+              {assessment.feedback && <p className="text-xs text-slate-600 line-clamp-2">{assessment.feedback}</p>}
+          </div>
+      );
+  };
+
+  if (!enabled) {
+      return (
+          <div className="bg-slate-50 text-slate-600 text-xs p-3 rounded-lg border border-slate-200 inline-block max-w-2xl">
+              <strong>Sync unavailable:</strong> workspace sync needs a verified email. Register with your email address to sync between devices.
+          </div>
+      );
+  }
+
+  return (
+    <div className="space-y-4">
+        <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+            <button
+                onClick={onSync}
+                disabled={isSyncing}
+                className="flex items-center justify-center gap-2 px-6 py-3 bg-blue-600 text-white rounded-xl hover:bg-blue-700 disabled:opacity-50 font-bold text-sm shadow-sm transition-colors"
+            >
+                <Icon.CloudArrowUp /> {isSyncing ? 'Syncing...' : 'Sync Now'}
+            </button>
+            <div className="text-xs text-slate-500">
+                {error
+                    ? <span className="text-red-600 font-medium">{error}</span>
+                    : lastSyncedAt ? `Last synced ${new Date(lastSyncedAt).toLocaleString()}` : 'Never synced from this device'}
+            </div>
+        </div>
+
+        {conflicts.length > 0 && (
+            <div className="bg-orange-50 border border-orange-200 rounded-xl p-4">
+                <h4 className="font-bold text-orange-900 mb-1">{conflicts.length} grading conflict{conflicts.length > 1 ? 's' : ''}</h4>
+                <p className="text-xs text-orange-800 mb-4">
+                    These assessments were changed on this device and elsewhere since the last sync. Choose which version to keep, then sync again.
+                </p>
+                <div className="space-y-3">
+                    {conflicts.map(conflict => {
+                        const sample = conflict.local || conflict.remote;
+                        const rubric = rubrics.find(r => r.id === sample?.rubricId);
+                        const assignee = assignees.find(a => a.id === sample?.assigneeId);
+                        return (
+                            <div key={conflict.id} className="bg-white rounded-lg border border-orange-100 p-3">
+                                <div className="text-sm font-bold text-slate-700 mb-2">
+                                    {assignee?.name || sample?.assigneeId} <span className="text-slate-400 font-normal">• {rubric?.title || 'Unknown assignment'}</span>
+                                </div>
+                                <div className="grid grid-cols-2 gap-3">
+                                    <div className="border border-slate-200 rounded p-2">
+                                        <div className="text-[10px] uppercase font-bold text-slate-400 mb-1">This device</div>
+                                        {describe(conflict.local, rubric)}
+                                        <button onClick={() => onResolve(conflict, 'local')} className="mt-2 text-xs font-bold text-blue-600 hover:underline">Keep mine</button>
+                                    </div>
+                                    <div className="border border-slate-200 rounded p-2">
+                                        <div className="text-[10px] uppercase font-bold text-slate-400 mb-1">Other device</div>
+                                        {describe(conflict.remote, rubric)}
+                                        <button onClick={() => onResolve(conflict, 'remote')} className="mt-2 text-xs font-bold text-blue-600 hover:underline">Use theirs</button>
+                                    </div>
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            </div>
+        )}
+    </div>
+  );
+};
@@ -0,0 +1,36 @@
+import { Handler } from "@netlify/functions";
+import { signSessionToken } from "../lib/session";
+
+// CONFIGURATION
+// The admin account has no email to verify, so it proves itself with this code instead.
+// Set ADMIN_ACCESS_CODE in your Netlify Dashboard > Site settings > Environment variables
+const ADMIN_ACCESS_CODE = process.env.ADMIN_ACCESS_CODE || "";
+const ADMIN_SESSION_EMAIL = "admin";
+
+const handler: Handler = async (event) => {
+  if (event.httpMethod !== "POST") {
+    return { statusCode: 405, body: "Method Not Allowed" };
+  }
+
+  if (!ADMIN_ACCESS_CODE) {
+    return { statusCode: 503, body: JSON.stringify({ error: "Admin sign-in is not configured on this server" }) };
+  }
+
+  try {
+    const { code } = JSON.parse(event.body || "{}");
+
+    if (code !== ADMIN_ACCESS_CODE) {
+      return { statusCode: 401, body: JSON.stringify({ error: "Incorrect admin access code" }) };
+    }
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({ success: true, sessionToken: signSessionToken(ADMIN_SESSION_EMAIL) }),
+    };
+
+  } catch (error: any) {
+    return { statusCode: 500, body: JSON.stringify({ error: "Server error" }) };
+  }
+};
+
+export { handler };
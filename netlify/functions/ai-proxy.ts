@@ -0,0 +1,123 @@
+import { Handler } from "@netlify/functions";
+import { verifySession } from "../lib/session";
+import { createQuotaStore, QuotaStatus } from "../lib/quotaStore";
+import { createGeminiProvider } from "../lib/geminiProvider";
+import { AI_TASKS, AiTask, DEFAULT_MODELS, TokenUsage } from "../../services/aiProvider";
+import { AiOutputError } from "../../services/aiValidation";
+
+// AI endpoint. Holds the Gemini key, so the browser bundle never contains it.
+// The client posts { task, request, model? }; `task` is one of the AiProvider operations and
+// `request` is that operation's argument. Every model call counts against the caller's daily quota,
+// including the re-asks made when a reply is unusable, so one request may count up to three times.
+// Replies carry the token counts Gemini reported, so the client can meter usage.
+
+const quotaStore = createQuotaStore();
+const DAILY_LIMIT = parseInt(process.env.AI_DAILY_REQUEST_LIMIT || "200", 10);
+// Models callers may pick; anything else falls back to the default
+const ALLOWED_MODELS = (process.env.GEMINI_ALLOWED_MODELS || DEFAULT_MODELS.gemini).split(",").map(m => m.trim()).filter(Boolean);
+
+const isObject = (v: unknown): v is Record<string, any> => typeof v === "object" && v !== null && !Array.isArray(v);
+const MAX_TEMPLATE_LENGTH = 20000;
+const MAX_EXEMPLARS = 5;
+const MAX_EXEMPLAR_LENGTH = 5000;
+const MAX_TRANSLATION_TEXTS = 100;
+const MAX_TRANSLATION_LENGTH = 20000;
+
+class QuotaExceededError extends Error {
+  constructor(readonly quota: QuotaStatus) {
+    super(`Daily AI limit of ${quota.limit} calls reached. It resets at ${new Date(quota.resetsAt).toUTCString()}.`);
+    this.name = "QuotaExceededError";
+  }
+}
+
+// Cheap shape checks so malformed calls fail here instead of inside the prompt builders
+const validateRequest = (task: AiTask, request: any): string | null => {
+  if (!isObject(request)) return "Missing request";
+  if (request.template !== undefined) {
+    const { template } = request;
+    if (!isObject(template) || typeof template.system !== "string" || typeof template.prompt !== "string") return "Template needs system and prompt text";
+    if (template.system.length + template.prompt.length > MAX_TEMPLATE_LENGTH) return "Prompt template is too long";
+  }
+  switch (task) {
+    case "generateRubric":
+      return typeof request.topic === "string" && typeof request.gradeLevel === "string" ? null : "Needs a topic and grade level";
+    case "extractRubric":
+    case "extractText":
+      return typeof request.base64Data === "string" && typeof request.mimeType === "string" ? null : "Needs base64Data and mimeType";
+    case "generateFeedback":
+      if (request.style !== undefined && !isObject(request.style)) return "Feedback style must be an object";
+      return Array.isArray(request.criteriaResults) ? null : "Needs criteriaResults";
+    case "translateFeedback": {
+      const { texts, language } = request;
+      if (typeof language !== "string" || !language.trim()) return "Needs a target language";
+      if (!Array.isArray(texts) || texts.length === 0 || texts.length > MAX_TRANSLATION_TEXTS || !texts.every((t: unknown) => typeof t === "string")) {
+        return `Needs 1 to ${MAX_TRANSLATION_TEXTS} texts`;
+      }
+      return texts.join("").length <= MAX_TRANSLATION_LENGTH ? null : "Texts are too long to translate at once";
+    }
+    case "reviewRubric":
+      return isObject(request.rubric) && Array.isArray(request.rubric.criteria) ? null : "Needs a rubric";
+    case "gradeSubmission":
+      if (request.exemplars !== undefined) {
+        const { exemplars } = request;
+        if (!Array.isArray(exemplars) || exemplars.length > MAX_EXEMPLARS) return `Up to ${MAX_EXEMPLARS} exemplars are allowed`;
+        const valid = exemplars.every((e: any) => isObject(e) && typeof e.submissionText === "string" &&
+          e.submissionText.length <= MAX_EXEMPLAR_LENGTH && Array.isArray(e.ratings));
+        if (!valid) return "Each exemplar needs a submissionText and ratings";
+      }
+      return isObject(request.rubric) && Array.isArray(request.rubric.criteria) && typeof request.submissionText === "string"
+        ? null
+        : "Needs a rubric and submissionText";
+  }
+};
+
+const handler: Handler = async (event) => {
+  if (event.httpMethod !== "POST") {
+    return { statusCode: 405, body: "Method Not Allowed" };
+  }
+
+  const session = verifySession(event.headers);
+  if (!session) {
+    return { statusCode: 401, body: JSON.stringify({ error: "AI features need a verified email. Sign in with your email address, or switch to the offline AI provider." }) };
+  }
+
+  try {
+    const { task, request, model } = JSON.parse(event.body || "{}");
+
+    if (!AI_TASKS.includes(task)) {
+      return { statusCode: 400, body: JSON.stringify({ error: `Unknown AI task "${task}"` }) };
+    }
+    const invalid = validateRequest(task, request);
+    if (invalid) {
+      return { statusCode: 400, body: JSON.stringify({ error: invalid }) };
+    }
+
+    let quota: QuotaStatus | undefined;
+    const charge = async () => {
+      quota = await quotaStore.consume(session.email, DAILY_LIMIT);
+      if (!quota.allowed) throw new QuotaExceededError(quota);
+    };
+
+    let usage: TokenUsage | undefined;
+    // Summed over the attempts made to get a valid reply
+    const provider = createGeminiProvider(ALLOWED_MODELS.includes(model) ? model : ALLOWED_MODELS[0], (u) => {
+      usage = usage ? { inputTokens: usage.inputTokens + u.inputTokens, outputTokens: usage.outputTokens + u.outputTokens } : u;
+    }, charge);
+    const result = await (provider[task as AiTask] as (request: unknown) => Promise<unknown>)(request);
+
+    return { statusCode: 200, body: JSON.stringify({ result, quota, usage }) };
+
+  } catch (error: any) {
+    if (error instanceof QuotaExceededError) {
+      return { statusCode: 429, body: JSON.stringify({ error: error.message, quota: error.quota }) };
+    }
+    console.error("AI proxy error:", error);
+    // Says what was wrong with the model's reply; other errors may carry server details
+    if (error instanceof AiOutputError) {
+      return { statusCode: 502, body: JSON.stringify({ error: error.message, problems: error.problems }) };
+    }
+    return { statusCode: 502, body: JSON.stringify({ error: "The AI service could not complete the request. Try again." }) };
+  }
+};
+
+export { handler };
@@ -0,0 +1,64 @@
+import { Handler } from "@netlify/functions";
+import { verifySession } from "../lib/session";
+import { createSyncStore } from "../lib/syncStore";
+import { mergeWorkspace, EMPTY_FINGERPRINTS } from "../../services/workspaceMerge";
+
+// Workspace sync endpoint.
+// The client pushes its whole workspace together with the fingerprints of its last sync;
+// the server merges per record, stores the result and returns it along with any conflicts.
+
+const store = createSyncStore();
+const MAX_ATTEMPTS = 3;
+
+const handler: Handler = async (event) => {
+  if (event.httpMethod !== "POST") {
+    return { statusCode: 405, body: "Method Not Allowed" };
+  }
+
+  const session = verifySession(event.headers);
+  if (!session) {
+    return { statusCode: 401, body: JSON.stringify({ error: "Sign-in session expired. Please verify your email again to sync." }) };
+  }
+
+  try {
+    const { workspace, base, clientId } = JSON.parse(event.body || "{}");
+
+    if (!workspace || !Array.isArray(workspace.rubrics) || !Array.isArray(workspace.assignees) || typeof workspace.assessments !== "object") {
+      return { statusCode: 400, body: JSON.stringify({ error: "Invalid workspace payload" }) };
+    }
+
+    // Optimistic concurrency: retry the merge if another device wrote in between
+    for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+      const stored = await store.get(session.email);
+      const result = mergeWorkspace(stored?.data || null, workspace, base || EMPTY_FINGERPRINTS);
+      const revision = (stored?.revision ?? 0) + 1;
+
+      const written = await store.put(session.email, stored?.revision ?? 0, {
+        revision,
+        updatedAt: Date.now(),
+        updatedBy: clientId || "unknown",
+        data: result.merged
+      });
+
+      if (written) {
+        return {
+          statusCode: 200,
+          body: JSON.stringify({
+            revision,
+            workspace: result.merged,
+            fingerprints: result.fingerprints,
+            conflicts: result.conflicts
+          }),
+        };
+      }
+    }
+
+    return { statusCode: 409, body: JSON.stringify({ error: "Workspace is being updated from another device. Try again." }) };
+
+  } catch (error: any) {
+    console.error("Sync error:", error);
+    return { statusCode: 500, body: JSON.stringify({ error: "Server error" }) };
+  }
+};
+
+export { handler };
@@ -1,5 +1,6 @@
 import { Handler } from "@netlify/functions";
 import jwt from "jsonwebtoken";
+import { signSessionToken } from "../lib/session";
 
 const JWT_SECRET = process.env.JWT_SECRET || "smartgrade-dev-secret-key-change-me";
 
@@ -32,10 +33,10 @@ const handler: Handler = async (event, context) => {
       return { statusCode: 400, body: JSON.stringify({ error: "Incorrect code" }) };
     }
 
-    // 3. Success
+    // 3. Success: issue a session token for server features (workspace sync)
     return {
       statusCode: 200,
-      body: JSON.stringify({ success: true }),
+      body: JSON.stringify({ success: true, sessionToken: signSessionToken(email) }),
     };
 
   } catch (error: any) {
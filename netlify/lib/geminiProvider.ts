@@ -0,0 +1,40 @@
+import { GoogleGenAI } from "@google/genai";
+import { AiProvider, createCompletionProvider, DEFAULT_MODELS, UsageListener } from "../../services/aiProvider";
+
+// Gemini calls, made only from the ai-proxy function so the API key never reaches the browser.
+
+let aiInstance: GoogleGenAI | null = null;
+
+const getAi = () => {
+  if (!aiInstance) {
+    const apiKey = process.env.GEMINI_API_KEY || process.env.API_KEY;
+    if (!apiKey) throw new Error("GEMINI_API_KEY is not configured on the server");
+    aiInstance = new GoogleGenAI({ apiKey });
+  }
+  return aiInstance;
+};
+
+// `beforeCall` runs before every model call, re-asks for a usable reply included; it may throw to stop
+export const createGeminiProvider = (
+  model: string = DEFAULT_MODELS.gemini,
+  onUsage?: UsageListener,
+  beforeCall?: () => Promise<void>
+): AiProvider =>
+  createCompletionProvider("gemini", async ({ prompt, systemInstruction, media, schema }) => {
+    await beforeCall?.();
+    const response = await getAi().models.generateContent({
+      model,
+      contents: media
+        ? { parts: [{ inlineData: { mimeType: media.mimeType, data: media.base64Data } }, { text: prompt }] }
+        : prompt,
+      config: {
+        ...(schema ? { responseMimeType: "application/json", responseSchema: schema } : {}),
+        ...(systemInstruction ? { systemInstruction } : {})
+      }
+    });
+    const usage = response.usageMetadata;
+    return {
+      text: response.text || "",
+      usage: usage && { inputTokens: usage.promptTokenCount || 0, outputTokens: usage.candidatesTokenCount || 0 }
+    };
+  }, onUsage);
@@ -0,0 +1,85 @@
+import { promises as fs } from "fs";
+import path from "path";
+import crypto from "crypto";
+
+// Per-user AI quotas, counted in model calls per UTC day.
+// Like the sync store, the file store suits `netlify dev` and single-instance hosting;
+// production should plug in a durable implementation via createQuotaStore.
+
+export interface QuotaStatus {
+  allowed: boolean;
+  used: number;     // Calls counted today, including this one when allowed
+  limit: number;
+  resetsAt: number; // Start of the next UTC day
+}
+
+export interface QuotaStore {
+  // Counts one call against the owner's daily limit unless it is already reached
+  consume: (owner: string, limit: number) => Promise<QuotaStatus>;
+}
+
+interface QuotaRecord {
+  day: string; // YYYY-MM-DD (UTC)
+  used: number;
+}
+
+const QUOTA_DATA_DIR = process.env.QUOTA_DATA_DIR || path.join(process.cwd(), ".data", "quota");
+
+const fileFor = (dir: string, owner: string) =>
+  path.join(dir, `${crypto.createHash("sha256").update(owner.toLowerCase()).digest("hex")}.json`);
+
+const today = (now: number) => new Date(now).toISOString().slice(0, 10);
+
+const nextUtcMidnight = (now: number) => {
+  const date = new Date(now);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1);
+};
+
+export const createFileQuotaStore = (dir: string = QUOTA_DATA_DIR): QuotaStore => {
+  // Serialise updates per owner within this process
+  const locks = new Map<string, Promise<unknown>>();
+  const withLock = <T>(owner: string, task: () => Promise<T>): Promise<T> => {
+    const previous = locks.get(owner) || Promise.resolve();
+    const next = previous.then(task, task);
+    locks.set(owner, next.catch(() => undefined));
+    return next;
+  };
+
+  const read = async (owner: string): Promise<QuotaRecord | null> => {
+    try {
+      return JSON.parse(await fs.readFile(fileFor(dir, owner), "utf8"));
+    } catch (err: any) {
+      if (err.code === "ENOENT") return null;
+      throw err;
+    }
+  };
+
+  return {
+    consume: (owner, limit) => withLock(owner, async () => {
+      const now = Date.now();
+      const day = today(now);
+      const current = await read(owner);
+      const used = current?.day === day ? current.used : 0;
+      const resetsAt = nextUtcMidnight(now);
+      if (used >= limit) return { allowed: false, used, limit, resetsAt };
+
+      await fs.mkdir(dir, { recursive: true });
+      const target = fileFor(dir, owner);
+      const temp = `${target}.${process.pid}.tmp`;
+      const record: QuotaRecord = { day, used: used + 1 };
+      await fs.writeFile(temp, JSON.stringify(record));
+      await fs.rename(temp, target);
+      return { allowed: true, used: used + 1, limit, resetsAt };
+    })
+  };
+};
+
+export const createQuotaStore = (): QuotaStore => {
+  const kind = process.env.QUOTA_STORE || "file";
+  switch (kind) {
+    case "file":
+      return createFileQuotaStore();
+    default:
+      throw new Error(`Unknown QUOTA_STORE "${kind}"`);
+  }
+};
@@ -0,0 +1,29 @@
+import jwt from "jsonwebtoken";
+
+// Session tokens prove that the caller verified their email address.
+// They are issued by verify-code and sent back as "Authorization: Bearer <token>" by the client.
+
+const JWT_SECRET = process.env.JWT_SECRET || "smartgrade-dev-secret-key-change-me";
+const SESSION_TTL = "180d";
+
+export interface Session {
+  email: string;
+}
+
+export const signSessionToken = (email: string): string =>
+  jwt.sign({ email, type: "session" }, JWT_SECRET, { expiresIn: SESSION_TTL });
+
+// Returns null when the header is missing, the token is invalid/expired, or it is not a session token
+export const verifySession = (headers: Record<string, string | undefined>): Session | null => {
+  const header = headers["authorization"] || headers["Authorization"] || "";
+  const token = header.startsWith("Bearer ") ? header.slice(7) : "";
+  if (!token) return null;
+
+  try {
+    const decoded: any = jwt.verify(token, JWT_SECRET);
+    if (decoded.type !== "session" || !decoded.email) return null;
+    return { email: decoded.email };
+  } catch (err) {
+    return null;
+  }
+};
@@ -0,0 +1,74 @@
+import { promises as fs } from "fs";
+import path from "path";
+import crypto from "crypto";
+import { WorkspaceData } from "../../types";
+
+// Storage backend for synced workspaces.
+// The file store is meant for local development (`netlify dev`) and single-instance hosting;
+// function containers on Netlify have an ephemeral disk, so production should plug in a
+// durable implementation of SyncStore (e.g. a database or blob store) via createSyncStore.
+
+export interface StoredWorkspace {
+  revision: number;
+  updatedAt: number;
+  updatedBy: string;
+  data: WorkspaceData;
+}
+
+export interface SyncStore {
+  get: (owner: string) => Promise<StoredWorkspace | null>;
+  // Resolves to false when another write landed first (revision mismatch)
+  put: (owner: string, expectedRevision: number, workspace: StoredWorkspace) => Promise<boolean>;
+}
+
+const SYNC_DATA_DIR = process.env.SYNC_DATA_DIR || path.join(process.cwd(), ".data", "sync");
+
+// Owners are email addresses: hash them so they are safe as file names
+const fileFor = (dir: string, owner: string) =>
+  path.join(dir, `${crypto.createHash("sha256").update(owner.toLowerCase()).digest("hex")}.json`);
+
+export const createFileSyncStore = (dir: string = SYNC_DATA_DIR): SyncStore => {
+  // Serialise writes per owner within this process
+  const locks = new Map<string, Promise<unknown>>();
+  const withLock = <T>(owner: string, task: () => Promise<T>): Promise<T> => {
+    const previous = locks.get(owner) || Promise.resolve();
+    const next = previous.then(task, task);
+    locks.set(owner, next.catch(() => undefined));
+    return next;
+  };
+
+  const read = async (owner: string): Promise<StoredWorkspace | null> => {
+    try {
+      return JSON.parse(await fs.readFile(fileFor(dir, owner), "utf8"));
+    } catch (err: any) {
+      if (err.code === "ENOENT") return null;
+      throw err;
+    }
+  };
+
+  return {
+    get: read,
+    put: (owner, expectedRevision, workspace) => withLock(owner, async () => {
+      const current = await read(owner);
+      if ((current?.revision ?? 0) !== expectedRevision) return false;
+
+      await fs.mkdir(dir, { recursive: true });
+      // Write-then-rename so a crash never leaves a half-written workspace behind
+      const target = fileFor(dir, owner);
+      const temp = `${target}.${process.pid}.tmp`;
+      await fs.writeFile(temp, JSON.stringify(workspace));
+      await fs.rename(temp, target);
+      return true;
+    })
+  };
+};
+
+export const createSyncStore = (): SyncStore => {
+  const kind = process.env.SYNC_STORE || "file";
+  switch (kind) {
+    case "file":
+      return createFileSyncStore();
+    default:
+      throw new Error(`Unknown SYNC_STORE "${kind}"`);
+  }
+};
@@ -0,0 +1,131 @@
+import { AiTask } from './aiProvider';
+
+// Content-addressed cache for AI results, kept on this device.
+// The key is a SHA-256 hash of everything that decides the answer (model, rendered prompt or file
+// content), so the same request never bills the API twice, and any change to the prompt template,
+// the rubric or the input simply misses the cache. Results are stored as returned by the
+// provider, before ids or timestamps are added.
+
+export interface AiCacheOptions {
+  forceRefresh?: boolean; // Call the provider even on a hit, and replace the stored result
+}
+
+export interface CachedResult<T> {
+  value: T;
+  cachedAt?: number; // When the reused result was first produced; absent for fresh results
+}
+
+export interface AiCacheStats {
+  entries: number;
+  bytes: number;
+}
+
+interface CacheRecord {
+  key: string;
+  task: AiTask;
+  value: unknown;
+  createdAt: number;
+  size: number;
+}
+
+const DB_NAME = 'smartgrade-ai-cache';
+const DB_VERSION = 1;
+const STORE = 'results';
+// Bump when a result's shape changes, so older entries stop matching
+const CACHE_FORMAT = 1;
+// Oldest entries are dropped beyond this, to keep extracted texts from filling the browser quota
+const MAX_ENTRIES = 500;
+
+const requestToPromise = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+// Used when IndexedDB is unavailable; lasts until the page reloads
+const memoryStore = new Map<string, CacheRecord>();
+
+const getDb = (): Promise<IDBDatabase> | null => {
+  if (typeof indexedDB === 'undefined') return null;
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'key' });
+        store.createIndex('byCreated', 'createdAt');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call retry instead of reusing the failure
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+// Returns null when Web Crypto is unavailable (e.g. plain http on a LAN address); nothing is cached then
+export const computeCacheKey = async (task: AiTask, parts: unknown): Promise<string | null> => {
+  if (typeof crypto === 'undefined' || !crypto.subtle) return null;
+  const data = new TextEncoder().encode(JSON.stringify({ format: CACHE_FORMAT, task, parts }));
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const readRecord = async (key: string): Promise<CacheRecord | undefined> => {
+  const db = await getDb();
+  if (!db) return memoryStore.get(key);
+  return requestToPromise<CacheRecord | undefined>(db.transaction(STORE, 'readonly').objectStore(STORE).get(key));
+};
+
+const writeRecord = async (record: CacheRecord) => {
+  const db = await getDb();
+  if (!db) {
+    memoryStore.set(record.key, record);
+    if (memoryStore.size > MAX_ENTRIES) memoryStore.delete(memoryStore.keys().next().value!);
+    return;
+  }
+  const store = db.transaction(STORE, 'readwrite').objectStore(STORE);
+  await requestToPromise(store.put(record));
+  const count = await requestToPromise(store.count());
+  if (count <= MAX_ENTRIES) return;
+  const oldest = await requestToPromise(store.index('byCreated').getAllKeys(null, count - MAX_ENTRIES));
+  oldest.forEach(key => store.delete(key));
+};
+
+// Runs `compute` unless an identical request has a stored result. Cache failures never fail the
+// AI call itself: the provider is asked instead and the result is just not stored.
+export const withAiCache = async <T>(
+  task: AiTask,
+  keyParts: unknown,
+  compute: () => Promise<T>,
+  options: AiCacheOptions & { enabled?: boolean } = {}
+): Promise<CachedResult<T>> => {
+  if (options.enabled === false) return { value: await compute() };
+  const key = await computeCacheKey(task, keyParts).catch(() => null);
+  if (!key) return { value: await compute() };
+
+  if (!options.forceRefresh) {
+    const hit = await readRecord(key).catch(() => undefined);
+    if (hit) return { value: hit.value as T, cachedAt: hit.createdAt };
+  }
+
+  const value = await compute();
+  const serialized = JSON.stringify(value);
+  writeRecord({ key, task, value: JSON.parse(serialized), createdAt: Date.now(), size: serialized.length })
+    .catch(e => console.warn('Could not store AI result in the cache', e));
+  return { value };
+};
+
+export const getAiCacheStats = async (): Promise<AiCacheStats> => {
+  const db = await getDb();
+  const records = db
+    ? await requestToPromise<CacheRecord[]>(db.transaction(STORE, 'readonly').objectStore(STORE).getAll())
+    : Array.from(memoryStore.values());
+  return { entries: records.length, bytes: records.reduce((sum, r) => sum + r.size, 0) };
+};
+
+export const clearAiCache = async () => {
+  memoryStore.clear();
+  const db = await getDb();
+  if (db) await requestToPromise(db.transaction(STORE, 'readwrite').objectStore(STORE).clear());
+};
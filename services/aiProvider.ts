@@ -0,0 +1,552 @@
+import { Type, Schema } from "@google/genai";
+import { FeedbackStyle, Rubric } from '../types';
+import {
+  AiOutputError, MAX_REPAIR_ATTEMPTS, Validated, validateFeedbackResult, validateGradingResult, validateRubricDraft, validateRubricReview,
+  validateTranslationResult
+} from './aiValidation';
+import { DEFAULT_FEEDBACK_STYLE, describeFeedbackStyle } from './feedback';
+import { BUILTIN_PROMPTS, PromptText, renderPrompt } from './promptTemplates';
+
+// AI provider layer.
+// Every AI feature goes through an AiProvider, chosen per device in the AI settings panel.
+// Remote providers only supply a `complete` function; prompts and schemas live here so all of
+// them are asked the same questions and return the same shapes.
+
+export type AiProviderId = 'gemini' | 'openai' | 'mock';
+
+export interface AiSettings {
+  provider: AiProviderId;
+  model?: string;   // Overrides the provider's default model
+  baseUrl?: string; // OpenAI-compatible endpoint, e.g. http://localhost:11434/v1 for Ollama
+  apiKey?: string;  // OpenAI-compatible endpoints only
+  cacheResults?: boolean; // Reuse stored results for identical requests; on unless turned off
+}
+
+export interface MediaInput {
+  base64Data: string;
+  mimeType: string;
+}
+
+export interface RubricRequest {
+  topic: string;
+  gradeLevel: string;
+  numCriteria: number;
+  context?: { brief?: string; plos?: string[]; clos?: string[] };
+  template?: PromptText; // Unrendered; the built-in prompt is used when absent
+}
+
+export interface FeedbackRequest {
+  assigneeName: string;
+  rubricTitle: string;
+  criteriaResults: { criterion: string; level: string; description: string; rationale?: string }[];
+  context?: { subject?: string; brief?: string; clos?: string[] };
+  template?: PromptText;
+  style?: FeedbackStyle; // Defaults apply when absent
+}
+
+export interface FeedbackResult {
+  criteria: { criterionTitle: string; feedback: string; nextStep?: string }[];
+  summary: string;
+  nextSteps: string[]; // Feed-forward for the next assignment, most important first
+}
+
+export interface TranslationRequest {
+  texts: string[];
+  language: string; // Target language, by name
+}
+
+export interface TranslationResult {
+  texts: string[]; // Same order and count as the request's
+}
+
+export type RubricReviewCategory = 'overlap' | 'vague' | 'non_discriminating' | 'score_gap' | 'coverage';
+
+// One change to a rubric. Criteria and levels are named by title and label because the model
+// never sees ids; a description for a criterion title that does not exist adds that criterion.
+export interface RubricRewrite {
+  criterionTitle: string;
+  levelLabel?: string;
+  field: 'title' | 'description' | 'label' | 'score';
+  value: string;
+}
+
+export interface RubricReviewIssue {
+  category: RubricReviewCategory;
+  criterionTitle?: string; // Absent for problems with the rubric as a whole
+  problem: string;
+  rewrites?: RubricRewrite[]; // Together they fix the problem; none when only the teacher can
+}
+
+export interface RubricReviewRequest {
+  rubric: Rubric;
+}
+
+export interface RubricReviewResult {
+  issues: RubricReviewIssue[];
+}
+
+// A teacher-graded submission shown to the model as an anchor for the rubric's levels
+export interface GradingExemplar {
+  submissionText: string;
+  ratings: { criterionTitle: string; levelLabel: string }[];
+}
+
+export interface GradingRequest {
+  rubric: Rubric;
+  submissionText: string;
+  assigneeName?: string;
+  template?: PromptText;
+  exemplars?: GradingExemplar[];
+}
+
+export interface GradingResult {
+  ratings: { criterionTitle: string; levelLabel: string; explanation?: string; confidence?: number; evidence?: string[] }[];
+  feedback: string;
+}
+
+// Rubric as returned by a provider, before ids are assigned
+export interface RubricDraft {
+  title: string;
+  description: string;
+  criteria: {
+    title: string;
+    description: string;
+    weight: number;
+    levels: { label: string; score: number; description: string }[];
+  }[];
+}
+
+export interface AiProvider {
+  id: AiProviderId;
+  label: string;
+  generateRubric: (request: RubricRequest) => Promise<RubricDraft>;
+  extractRubric: (media: MediaInput) => Promise<RubricDraft>;
+  extractText: (media: MediaInput) => Promise<string>;
+  generateFeedback: (request: FeedbackRequest) => Promise<FeedbackResult>;
+  translateFeedback: (request: TranslationRequest) => Promise<TranslationResult>;
+  reviewRubric: (request: RubricReviewRequest) => Promise<RubricReviewResult>;
+  gradeSubmission: (request: GradingRequest) => Promise<GradingResult>;
+}
+
+// Operations a provider performs; also the task names accepted by the ai-proxy function
+export type AiTask = Exclude<keyof AiProvider, 'id' | 'label'>;
+
+export const AI_TASKS: AiTask[] = ['generateRubric', 'extractRubric', 'extractText', 'generateFeedback', 'translateFeedback', 'reviewRubric', 'gradeSubmission'];
+
+export const AI_PROVIDER_LABELS: Record<AiProviderId, string> = {
+  gemini: 'Google Gemini',
+  openai: 'OpenAI-compatible / Ollama',
+  mock: 'Offline (deterministic)'
+};
+
+export const DEFAULT_MODELS: Record<AiProviderId, string> = {
+  gemini: 'gemini-2.5-flash',
+  openai: 'llama3.1',
+  mock: 'mock'
+};
+
+// --- Settings (per device, not part of the synced workspace) ---
+
+const SETTINGS_KEY = 'smartgrade_ai_settings';
+
+// Build-time default, e.g. AI_PROVIDER=mock for offline development
+const getDefaultProvider = (): AiProviderId => {
+  const configured = process.env.AI_PROVIDER;
+  return configured === 'openai' || configured === 'mock' ? configured : 'gemini';
+};
+
+export const loadAiSettings = (): AiSettings => {
+  const fallback: AiSettings = { provider: getDefaultProvider() };
+  if (typeof localStorage === 'undefined') return fallback;
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    return saved ? { ...fallback, ...JSON.parse(saved) } : fallback;
+  } catch (e) {
+    return fallback;
+  }
+};
+
+export const saveAiSettings = (settings: AiSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+// --- Prompts and schemas shared by the remote providers ---
+
+export const rubricSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    title: { type: Type.STRING, description: "Title of the rubric" },
+    description: { type: Type.STRING, description: "Short description of the assignment" },
+    criteria: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          title: { type: Type.STRING, description: "Criterion title, e.g., 'Clarity'" },
+          description: { type: Type.STRING, description: "What this criterion measures" },
+          weight: { type: Type.NUMBER, description: "Weight of this criterion (default 1)" },
+          levels: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                label: { type: Type.STRING, description: "Level name (e.g., Excellent)" },
+                score: { type: Type.NUMBER, description: "Points for this level" },
+                description: { type: Type.STRING, description: "Description of performance at this level" }
+              },
+              required: ["label", "score", "description"]
+            }
+          }
+        },
+        required: ["title", "description", "levels", "weight"]
+      }
+    }
+  },
+  required: ["title", "criteria", "description"]
+};
+
+export const gradingSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    ratings: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          criterionTitle: { type: Type.STRING, description: "The exact title of the criterion from the rubric" },
+          levelLabel: { type: Type.STRING, description: "The exact label of the selected level" },
+          explanation: { type: Type.STRING, description: "Why this level was chosen" },
+          confidence: { type: Type.NUMBER, description: "How sure you are of this level, from 0 (a guess) to 1 (certain)" },
+          evidence: {
+            type: Type.ARRAY,
+            items: { type: Type.STRING },
+            description: "Short passages copied word for word from the submission that justify this level"
+          }
+        },
+        required: ["criterionTitle", "levelLabel"]
+      }
+    },
+    feedback: { type: Type.STRING, description: "Overall feedback for the student" }
+  },
+  required: ["ratings", "feedback"]
+};
+
+export const feedbackSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    criteria: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          criterionTitle: { type: Type.STRING, description: "The exact title of the criterion" },
+          feedback: { type: Type.STRING, description: "What the work did well or where it fell short on this criterion" },
+          nextStep: { type: Type.STRING, description: "One concrete thing to do differently next time" }
+        },
+        required: ["criterionTitle", "feedback"]
+      }
+    },
+    summary: { type: Type.STRING, description: "Overall feedback on the whole submission" },
+    nextSteps: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: "Up to three next steps for the next assignment, most important first"
+    }
+  },
+  required: ["criteria", "summary", "nextSteps"]
+};
+
+export const translationSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    texts: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: "The translations, one per input text, in the same order"
+    }
+  },
+  required: ["texts"]
+};
+
+export const rubricReviewSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    issues: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          category: { type: Type.STRING, description: "One of: overlap, vague, non_discriminating, score_gap, coverage" },
+          criterionTitle: { type: Type.STRING, description: "The exact title of the criterion concerned; omit for the whole rubric" },
+          problem: { type: Type.STRING, description: "The problem, in one sentence" },
+          rewrites: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                criterionTitle: { type: Type.STRING, description: "Exact title of the criterion to change, or the title of a new one" },
+                levelLabel: { type: Type.STRING, description: "Exact label of the level to change; omit to change the criterion itself" },
+                field: { type: Type.STRING, description: "One of: title, description, label, score" },
+                value: { type: Type.STRING, description: "The new text, or the new score as a number" }
+              },
+              required: ["criterionTitle", "field", "value"]
+            }
+          }
+        },
+        required: ["category", "problem"]
+      }
+    }
+  },
+  required: ["issues"]
+};
+
+export interface CompletionRequest {
+  prompt: string;
+  systemInstruction?: string;
+  media?: MediaInput;
+  schema?: Schema; // When set, the reply must be JSON matching it
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+// Called by providers whose API reports token counts, once per completion
+export type UsageListener = (usage: TokenUsage) => void;
+
+export interface Completion {
+  text: string;
+  usage?: TokenUsage;
+}
+
+export type CompletionFn = (request: CompletionRequest) => Promise<Completion>;
+
+const listOrNone = (items?: string[]) => items && items.length > 0 ? items.map(i => `- ${i}`).join('\n') : '(none)';
+
+// Builders render the request's template (or the built-in one) with that kind's variables.
+// Exported for the template editor's preview.
+export const buildRubricPrompt = ({ topic, gradeLevel, numCriteria, context, template }: RubricRequest): PromptText => {
+  let alignment = '';
+  if (context) {
+    alignment += `\n\nEnsure the rubric aligns with the following context:`;
+    if (context.brief) {
+      alignment += `\n\nAssignment Brief:\n"${context.brief}"`;
+    }
+    if (context.plos && context.plos.length > 0) {
+      alignment += `\n\nProgram Learning Outcomes (PLOs):\n${listOrNone(context.plos)}`;
+    }
+    if (context.clos && context.clos.length > 0) {
+      alignment += `\n\nCourse Learning Outcomes (CLOs):\n${listOrNone(context.clos)}`;
+    }
+    alignment += `\n\nThe criteria must explicitly address the learning outcomes and the requirements in the brief.`;
+  }
+  return renderPrompt(template || BUILTIN_PROMPTS.rubric, {
+    topic,
+    grade_level: gradeLevel,
+    num_criteria: String(numCriteria),
+    brief: context?.brief || '(none)',
+    plos: listOrNone(context?.plos),
+    clos: listOrNone(context?.clos),
+    alignment
+  });
+};
+
+export const buildFeedbackPrompt = ({ assigneeName, rubricTitle, criteriaResults, context, template, style }: FeedbackRequest): PromptText => {
+  const styleText = describeFeedbackStyle({ ...DEFAULT_FEEDBACK_STYLE, ...style }, assigneeName);
+  const source = template || BUILTIN_PROMPTS.feedback;
+  // Custom templates written before the style settings existed still follow them, at the end
+  const placed = /\{\{\s*(style|tone|length|reading_level|person)\s*\}\}/.test(`${source.system}\n${source.prompt}`)
+    ? source
+    : { ...source, prompt: `${source.prompt}\n{{style}}` };
+  return renderPrompt(placed, {
+    ...styleText,
+    style: Object.values(styleText).join('\n'),
+    student_name: assigneeName,
+    rubric_title: rubricTitle,
+    results: criteriaResults.map(c => `- ${c.criterion}: ${c.level} (${c.description})${c.rationale ? `. Grader's note: ${c.rationale}` : ''}`).join('\n'),
+    subject: context?.subject || '(none)',
+    brief: context?.brief || '(none)',
+    clos: listOrNone(context?.clos)
+  });
+};
+
+export const buildTranslationPrompt = ({ texts, language }: TranslationRequest): PromptText => ({
+  system: "You are a careful translator of teachers' feedback to students.",
+  prompt: `Translate each of the following ${texts.length} feedback texts into ${language}.
+Keep the meaning, tone and formatting (line breaks and list markers). Keep names and subject terms that have no common translation.
+Return exactly ${texts.length} translations, in the same order.
+
+${texts.map((t, i) => `<text id="${i + 1}">\n${t}\n</text>`).join('\n\n')}`
+});
+
+export const buildRubricReviewPrompt = ({ rubric }: RubricReviewRequest): PromptText => {
+  const rubricContext = {
+    title: rubric.title,
+    description: rubric.description,
+    criteria: rubric.criteria.map(c => ({
+      title: c.title,
+      description: c.description,
+      weight: c.weight,
+      levels: c.levels.map(l => ({ label: l.label, score: l.score, description: l.description }))
+    }))
+  };
+  return {
+    system: 'You are an assessment design expert reviewing a grading rubric before it is used with students.',
+    prompt: `Review this rubric and list its problems. Check for:
+- overlap: two criteria that assess the same thing, so one weakness is penalised twice
+- vague: level descriptors a grader could not apply consistently, such as "good", "adequate" or "some" without saying what that looks like
+- non_discriminating: levels of a criterion whose descriptors do not say what separates them
+- score_gap: level scores that are unevenly spaced, repeated, or out of order with the descriptors
+- coverage: learning outcomes or requirements of the brief that no criterion assesses
+
+For each problem give its category, the title of the criterion it concerns, a one-sentence description, and rewrites that fix it.
+A rewrite names the criterion by its exact title and, for a level, the level by its exact label, then the field to change (title, description, label or score) and the new value.
+To add a missing criterion, give a description rewrite for the new criterion's title, then one description rewrite per level using the level labels of the existing criteria.
+Only list real problems. Return an empty list for a sound rubric.
+
+Rubric:
+${JSON.stringify(rubricContext, null, 2)}
+
+Assignment Brief:
+${rubric.assignmentBrief || '(none)'}
+
+Course Learning Outcomes (CLOs):
+${listOrNone(rubric.clos?.filter(c => c.trim()))}
+
+Program Learning Outcomes (PLOs):
+${listOrNone(rubric.plos?.filter(p => p.trim()))}`
+  };
+};
+
+const formatExemplars = (exemplars: GradingExemplar[]) => exemplars.length === 0 ? '' : `
+Examples graded by the teacher. Grade to the same standard; do not copy their levels unless the work merits them.
+${exemplars.map((e, i) => `
+Example ${i + 1} submission:
+"${e.submissionText}"
+Teacher's levels: ${e.ratings.map(r => `${r.criterionTitle}: ${r.levelLabel}`).join('; ')}`).join('\n')}
+`;
+
+export const buildGradingPrompt = ({ rubric, submissionText, assigneeName, template, exemplars = [] }: GradingRequest): PromptText => {
+  const rubricContext = {
+    title: rubric.title,
+    criteria: rubric.criteria.map(c => ({
+      title: c.title,
+      description: c.description,
+      levels: c.levels.map(l => ({ label: l.label, description: l.description }))
+    }))
+  };
+  const source = template || BUILTIN_PROMPTS.grading;
+  const examples = formatExemplars(exemplars);
+  // Custom templates written before calibration existed still get the examples, at the end
+  const placed = /\{\{\s*exemplars\s*\}\}/.test(source.prompt) || !examples
+    ? source
+    : { ...source, prompt: `${source.prompt}\n{{exemplars}}` };
+  return renderPrompt(placed, {
+    exemplars: examples,
+    rubric_title: rubric.title,
+    rubric: JSON.stringify(rubricContext, null, 2),
+    subject: rubric.subject || '(none)',
+    brief: rubric.assignmentBrief || '(none)',
+    clos: listOrNone(rubric.clos),
+    plos: listOrNone(rubric.plos),
+    student_name: assigneeName || 'the student',
+    submission: submissionText
+  });
+};
+
+const parseJson = (text: string): unknown => {
+  if (!text) throw new Error("No response from AI");
+  // Some local models wrap JSON in a markdown fence even when asked not to
+  const unfenced = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  try {
+    return JSON.parse(unfenced);
+  } catch (error) {
+    // Or put a sentence before or after it
+    const start = unfenced.indexOf('{');
+    const end = unfenced.lastIndexOf('}');
+    if (start < 0 || end <= start) throw error;
+    return JSON.parse(unfenced.slice(start, end + 1));
+  }
+};
+
+// Longer replies are cut when quoted back to the model
+const MAX_QUOTED_REPLY = 4000;
+
+// The original request plus the rejected reply and what was wrong with it
+const repairRequest = (request: CompletionRequest, reply: string, problems: string[]): CompletionRequest => ({
+  ...request,
+  prompt: `${request.prompt}
+
+Your previous reply could not be used:
+${problems.slice(0, 10).map(p => `- ${p}`).join('\n')}
+
+Previous reply:
+${reply.length > MAX_QUOTED_REPLY ? `${reply.slice(0, MAX_QUOTED_REPLY)}...` : reply || '(empty)'}
+
+Reply again with the complete corrected JSON only.`
+});
+
+const fromPromptText = ({ system, prompt }: PromptText) => ({ prompt, ...(system.trim() ? { systemInstruction: system } : {}) });
+
+// Builds a provider from a single text-completion function
+export const createCompletionProvider = (id: AiProviderId, completeWithUsage: CompletionFn, onUsage?: UsageListener): AiProvider => {
+  const complete = async (request: CompletionRequest) => {
+    const { text, usage } = await completeWithUsage(request);
+    if (usage) onUsage?.(usage);
+    return text;
+  };
+  // Parses and validates the reply, re-asking with the problems found until it is usable
+  const completeJson = async <T>(task: AiTask, request: CompletionRequest, validate: (data: unknown) => Validated<T>): Promise<T> => {
+    let reply = '';
+    let problems: string[] = [];
+    for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+      reply = await complete(attempt === 0 ? request : repairRequest(request, reply, problems));
+      let data: unknown;
+      try {
+        data = parseJson(reply);
+      } catch {
+        problems = [reply.trim() ? 'The reply was not valid JSON.' : 'The reply was empty.'];
+        continue;
+      }
+      const result = validate(data);
+      if (result.value !== undefined && result.problems.length === 0) return result.value;
+      problems = result.problems;
+    }
+    throw new AiOutputError(task, problems);
+  };
+  return {
+    id,
+    label: AI_PROVIDER_LABELS[id],
+    generateRubric: (request) => completeJson('generateRubric', {
+      ...fromPromptText(buildRubricPrompt(request)),
+      schema: rubricSchema
+    }, validateRubricDraft),
+    extractRubric: (media) => completeJson('extractRubric', {
+      prompt: "Analyze this document and extract the grading rubric into a structured JSON format. Identify the title, description, criteria, weight, and detailed performance levels (label, score, description) for each criterion.",
+      media,
+      schema: rubricSchema,
+      systemInstruction: "You are an expert pedagogical consultant helping teachers digitize their existing rubrics."
+    }, validateRubricDraft),
+    extractText: (media) => complete({
+      prompt: "Extract all readable text from this document. Return only the text content.",
+      media
+    }),
+    generateFeedback: (request) => completeJson('generateFeedback', {
+      ...fromPromptText(buildFeedbackPrompt(request)),
+      schema: feedbackSchema
+    }, data => validateFeedbackResult(data, request.criteriaResults.map(c => c.criterion))),
+    translateFeedback: (request) => completeJson('translateFeedback', {
+      ...fromPromptText(buildTranslationPrompt(request)),
+      schema: translationSchema
+    }, data => validateTranslationResult(data, request.texts.length)),
+    reviewRubric: (request) => completeJson('reviewRubric', {
+      ...fromPromptText(buildRubricReviewPrompt(request)),
+      schema: rubricReviewSchema
+    }, data => validateRubricReview(data, request.rubric)),
+    gradeSubmission: (request) => completeJson('gradeSubmission', {
+      ...fromPromptText(buildGradingPrompt(request)),
+      schema: gradingSchema
+    }, data => validateGradingResult(data, request.rubric))
+  };
+};
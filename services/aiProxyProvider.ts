@@ -0,0 +1,52 @@
+import { AI_PROVIDER_LABELS, AiProvider, AiSettings, AiTask, UsageListener } from './aiProvider';
+import { AiOutputError } from './aiValidation';
+
+// Client for the ai-proxy Netlify function, which makes the Gemini calls with the server's key.
+// Each provider operation becomes one POST carrying the operation name and its argument. The server
+// validates replies (see createCompletionProvider), so results are returned as received.
+
+export interface AiQuota {
+  used: number;
+  limit: number;
+  resetsAt: number;
+}
+
+let lastQuota: AiQuota | null = null;
+
+// Quota reported by the most recent proxy call, if any
+export const getLastAiQuota = (): AiQuota | null => lastQuota;
+
+export const createAiProxyProvider = (settings: AiSettings, sessionToken: string, onUsage?: UsageListener): AiProvider => {
+  const call = async <T>(task: AiTask, request: unknown): Promise<T> => {
+    if (!sessionToken) {
+      throw new Error('Gemini needs a verified email. Sign in with your email address, or switch to the offline AI provider.');
+    }
+    const res = await fetch('/.netlify/functions/ai-proxy', {
+      method: 'POST',
+      body: JSON.stringify({ task, request, model: settings.model }),
+      headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${sessionToken}` }
+    });
+
+    const data = await res.json().catch(() => ({}));
+    if (data.quota) lastQuota = { used: data.quota.used, limit: data.quota.limit, resetsAt: data.quota.resetsAt };
+    if (!res.ok) {
+      // The model's reply was unusable even after the function re-asked
+      if (Array.isArray(data.problems)) throw new AiOutputError(task, data.problems);
+      throw new Error(data.error || 'AI request failed');
+    }
+    if (data.usage) onUsage?.(data.usage);
+    return data.result;
+  };
+
+  return {
+    id: 'gemini',
+    label: AI_PROVIDER_LABELS.gemini,
+    generateRubric: (request) => call('generateRubric', request),
+    extractRubric: (media) => call('extractRubric', media),
+    extractText: (media) => call('extractText', media),
+    generateFeedback: (request) => call('generateFeedback', request),
+    translateFeedback: (request) => call('translateFeedback', request),
+    reviewRubric: (request) => call('reviewRubric', request),
+    gradeSubmission: (request) => call('gradeSubmission', request)
+  };
+};
@@ -0,0 +1,216 @@
+import { AiProviderId, AiTask } from './aiProvider';
+
+// AI usage metering and budgets, per signed-in user, kept on this device.
+// Every call made through geminiService is recorded: cache hits and calls stopped by the budget
+// too, so the dashboard shows what was saved and what was refused. Calls are summed into monthly
+// buckets per course, task and model, which keeps the log small enough for localStorage however
+// many calls are made; only the most recent calls are kept in full.
+// Calls made on other devices are not counted here, so totals undercount anyone who uses several.
+// The budget is one per device, set by a teacher, and applies to each user's own usage; the
+// server's daily limit (see ai-proxy) is the one that holds across devices.
+
+export type AiCallOutcome = 'success' | 'error' | 'cached' | 'blocked';
+
+export interface AiCallRecord {
+  at: number;
+  task: AiTask;
+  provider: AiProviderId;
+  model: string;
+  course: string;     // Course key of the assignment; '' when the call was not tied to one
+  outcome: AiCallOutcome;
+  inputTokens: number;
+  outputTokens: number;
+  estimated: boolean; // Tokens guessed from text length because the provider did not report them
+  latencyMs: number;
+  error?: string;
+}
+
+export interface AiUsageBucket {
+  month: string; // YYYY-MM, local time
+  course: string;
+  task: AiTask;
+  model: string; // provider/model
+  calls: number; // Every outcome
+  errors: number;
+  cached: number;
+  blocked: number;
+  inputTokens: number;
+  outputTokens: number;
+  estimatedCalls: number;
+  latencyMs: number; // Summed over the calls that reached the provider
+}
+
+export interface AiUsageLog {
+  buckets: AiUsageBucket[];
+  recent: AiCallRecord[]; // Newest first
+}
+
+export interface AiUsageTotals {
+  calls: number;
+  requests: number; // Calls that reached the provider; these are what a budget counts
+  errors: number;
+  cached: number;
+  blocked: number;
+  inputTokens: number;
+  outputTokens: number;
+  estimatedCalls: number;
+  averageLatencyMs: number;
+}
+
+export interface AiQuotaSettings {
+  monthlyRequests?: number;
+  monthlyTokens?: number; // Input plus output
+  warnAt: number;         // Share of a limit (0-1) from which the user is warned
+  onLimit: 'warn' | 'block';
+}
+
+export interface AiBudgetStatus {
+  level: 'ok' | 'warning' | 'exceeded';
+  blocked: boolean; // Exceeded, and the quota is set to block further calls
+  message: string;
+  requests: number; // Used this month
+  tokens: number;
+}
+
+const USAGE_KEY_PREFIX = 'smartgrade_ai_usage_';
+const QUOTA_KEY = 'smartgrade_ai_quota';
+const MAX_RECENT = 50;
+// Rough rule for English text; only used when the provider reports nothing
+const CHARS_PER_TOKEN = 4;
+
+export const DEFAULT_AI_QUOTA: AiQuotaSettings = { warnAt: 0.8, onLimit: 'warn' };
+
+const listeners = new Set<() => void>();
+
+// Notified after every recorded call and quota change
+export const subscribeToAiUsage = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+const notify = () => listeners.forEach(listener => listener());
+
+export const estimateTokens = (text: string) => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+export const getMonthKey = (at: number) => {
+  const date = new Date(at);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+};
+
+const readJson = <T>(key: string, fallback: T): T => {
+  if (typeof localStorage === 'undefined') return fallback;
+  try {
+    const saved = localStorage.getItem(key);
+    return saved ? { ...fallback, ...JSON.parse(saved) } : fallback;
+  } catch (e) {
+    return fallback;
+  }
+};
+
+const writeJson = (key: string, value: unknown) => {
+  if (typeof localStorage === 'undefined') return;
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (e) {
+    // Metering must never break the AI feature it measures
+    console.warn('Could not save AI usage', e);
+  }
+};
+
+export const loadAiUsage = (userId: string): AiUsageLog =>
+  readJson<AiUsageLog>(`${USAGE_KEY_PREFIX}${userId}`, { buckets: [], recent: [] });
+
+export const recordAiCall = (userId: string, record: AiCallRecord) => {
+  const log = loadAiUsage(userId);
+  const month = getMonthKey(record.at);
+  let bucket = log.buckets.find(b => b.month === month && b.course === record.course && b.task === record.task && b.model === record.model);
+  if (!bucket) {
+    bucket = {
+      month, course: record.course, task: record.task, model: record.model,
+      calls: 0, errors: 0, cached: 0, blocked: 0, inputTokens: 0, outputTokens: 0, estimatedCalls: 0, latencyMs: 0
+    };
+    log.buckets.push(bucket);
+  }
+  bucket.calls++;
+  if (record.outcome === 'error') bucket.errors++;
+  if (record.outcome === 'cached') bucket.cached++;
+  if (record.outcome === 'blocked') bucket.blocked++;
+  if (record.outcome === 'success' || record.outcome === 'error') bucket.latencyMs += record.latencyMs;
+  bucket.inputTokens += record.inputTokens;
+  bucket.outputTokens += record.outputTokens;
+  if (record.estimated) bucket.estimatedCalls++;
+
+  writeJson(`${USAGE_KEY_PREFIX}${userId}`, { buckets: log.buckets, recent: [record, ...log.recent].slice(0, MAX_RECENT) });
+  notify();
+};
+
+export const clearAiUsage = (userId: string) => {
+  if (typeof localStorage !== 'undefined') localStorage.removeItem(`${USAGE_KEY_PREFIX}${userId}`);
+  notify();
+};
+
+export const sumUsage = (buckets: AiUsageBucket[]): AiUsageTotals => {
+  const totals = buckets.reduce((sum, b) => ({
+    calls: sum.calls + b.calls,
+    requests: sum.requests + b.calls - b.cached - b.blocked,
+    errors: sum.errors + b.errors,
+    cached: sum.cached + b.cached,
+    blocked: sum.blocked + b.blocked,
+    inputTokens: sum.inputTokens + b.inputTokens,
+    outputTokens: sum.outputTokens + b.outputTokens,
+    estimatedCalls: sum.estimatedCalls + b.estimatedCalls,
+    averageLatencyMs: sum.averageLatencyMs + b.latencyMs // Summed here, averaged below
+  }), { calls: 0, requests: 0, errors: 0, cached: 0, blocked: 0, inputTokens: 0, outputTokens: 0, estimatedCalls: 0, averageLatencyMs: 0 });
+  return { ...totals, averageLatencyMs: totals.requests > 0 ? totals.averageLatencyMs / totals.requests : 0 };
+};
+
+// Totals per value of one bucket field, largest token use first
+export const groupUsage = (buckets: AiUsageBucket[], by: 'month' | 'course' | 'task' | 'model'): { key: string; totals: AiUsageTotals }[] => {
+  const groups = new Map<string, AiUsageBucket[]>();
+  buckets.forEach(b => groups.set(b[by], [...(groups.get(b[by]) || []), b]));
+  return Array.from(groups, ([key, list]) => ({ key, totals: sumUsage(list) }))
+    .sort((a, b) => (b.totals.inputTokens + b.totals.outputTokens) - (a.totals.inputTokens + a.totals.outputTokens));
+};
+
+export const loadAiQuota = (): AiQuotaSettings => readJson<AiQuotaSettings>(QUOTA_KEY, DEFAULT_AI_QUOTA);
+
+// Teachers only; the UI does not offer it to other roles
+export const saveAiQuota = (quota: AiQuotaSettings) => {
+  writeJson(QUOTA_KEY, quota);
+  notify();
+};
+
+// Checked before every call. Only reached limits block; the warning starts at `warnAt`.
+export const getBudgetStatus = (userId: string, now: number = Date.now()): AiBudgetStatus => {
+  const quota = loadAiQuota();
+  const month = getMonthKey(now);
+  const totals = sumUsage(loadAiUsage(userId).buckets.filter(b => b.month === month));
+  const tokens = totals.inputTokens + totals.outputTokens;
+  const limits = [
+    quota.monthlyRequests ? { used: totals.requests, limit: quota.monthlyRequests, unit: 'AI requests' } : null,
+    quota.monthlyTokens ? { used: tokens, limit: quota.monthlyTokens, unit: 'AI tokens' } : null
+  ].filter((l): l is { used: number; limit: number; unit: string } => l !== null);
+
+  const exceeded = limits.find(l => l.used >= l.limit);
+  if (exceeded) {
+    const blocked = quota.onLimit === 'block';
+    return {
+      level: 'exceeded',
+      blocked,
+      message: `Monthly budget of ${exceeded.limit.toLocaleString()} ${exceeded.unit} reached.${blocked ? ' AI features are paused until next month or until the budget is raised.' : ''}`,
+      requests: totals.requests,
+      tokens
+    };
+  }
+  const nearing = limits.find(l => l.used >= l.limit * quota.warnAt);
+  if (nearing) {
+    return {
+      level: 'warning',
+      blocked: false,
+      message: `${nearing.used.toLocaleString()} of ${nearing.limit.toLocaleString()} ${nearing.unit} used this month.`,
+      requests: totals.requests,
+      tokens
+    };
+  }
+  return { level: 'ok', blocked: false, message: '', requests: totals.requests, tokens };
+};
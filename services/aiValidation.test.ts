@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest';
+import { Rubric } from '../types';
+import {
+  AiOutputError, getDuplicateTitles, requireValid, validateFeedbackResult, validateGradingResult, validateRubricDraft,
+  validateRubricReview, validateTranslationResult
+} from './aiValidation';
+
+const levels = (prefix: string) => [
+  { id: `${prefix}-high`, label: 'High', score: 4, description: '' },
+  { id: `${prefix}-low`, label: 'Low', score: 1, description: '' }
+];
+
+const rubric = (titles = ['Content', 'Style']): Rubric => ({
+  id: 'r1',
+  title: 'Essay',
+  description: '',
+  passingPercentage: 50,
+  criteria: titles.map((title, i) => ({ id: `c${i}`, title, description: '', weight: 1, levels: levels(`c${i}`) }))
+});
+
+describe('validateRubricDraft', () => {
+  it('repairs numbers sent as text and fills in missing optional fields', () => {
+    const result = validateRubricDraft({
+      title: 'Essay',
+      criteria: [{ title: 'Content', weight: '2', levels: [{ label: 'High', score: '4 points' }, { label: 'Low', score: 1 }] }]
+    });
+    expect(result.problems).toEqual([]);
+    expect(result.value).toEqual({
+      title: 'Essay',
+      description: '',
+      criteria: [{
+        title: 'Content', description: '', weight: 2,
+        levels: [{ label: 'High', score: 4, description: '' }, { label: 'Low', score: 1, description: '' }]
+      }]
+    });
+  });
+
+  it('lists what it cannot repair', () => {
+    const result = validateRubricDraft({ criteria: [{ title: 'Content', levels: [{ label: 'High' }] }, { title: 'content', levels: [] }] });
+    expect(result.value).toBeUndefined();
+    expect(result.problems).toEqual(['Criterion 1, level 1 needs a numeric score.', 'Criterion 2 needs a non-empty list of levels.']);
+    expect(validateRubricDraft({ criteria: [] }).problems).toEqual(['"criteria" must be a non-empty list.']);
+  });
+
+  it('rejects repeated criterion titles', () => {
+    const level = [{ label: 'High', score: 4 }];
+    const result = validateRubricDraft({ criteria: [{ title: 'Content', levels: level }, { title: 'CONTENT', levels: level }] });
+    expect(result.problems).toEqual(['The criterion title "CONTENT" appears more than once.']);
+  });
+});
+
+describe('validateGradingResult', () => {
+  it('matches titles and labels in any case and normalizes confidence and evidence', () => {
+    const result = validateGradingResult({
+      ratings: [
+        { criterionTitle: 'content', levelLabel: 'HIGH', confidence: 80, evidence: 'A quote' },
+        { criterionTitle: 'Style', levelLabel: 'Low', confidence: 0.4, explanation: 'Plain' },
+        { criterionTitle: 'Style', levelLabel: 'High' }
+      ],
+      feedback: 'Well done'
+    }, rubric());
+    expect(result.problems).toEqual([]);
+    expect(result.value).toEqual({
+      ratings: [
+        { criterionTitle: 'Content', levelLabel: 'High', confidence: 0.8, evidence: ['A quote'] },
+        { criterionTitle: 'Style', levelLabel: 'Low', explanation: 'Plain', confidence: 0.4 }
+      ],
+      feedback: 'Well done'
+    });
+  });
+
+  it('names unknown criteria and levels, and criteria left unrated', () => {
+    const result = validateGradingResult({ ratings: [{ criterionTitle: 'Grammar', levelLabel: 'High' }, { criterionTitle: 'Content', levelLabel: 'Top' }] }, rubric());
+    expect(result.value).toBeUndefined();
+    expect(result.problems).toEqual([
+      'Rating 1 names the criterion "Grammar", which is not in the rubric. Use one of: "Content", "Style".',
+      'The rating for "Content" uses the level "Top". Use one of: "High", "Low".',
+      'No rating for "Style".'
+    ]);
+  });
+
+  it('accepts one rating for criteria that share a title', () => {
+    const result = validateGradingResult({ ratings: [{ criterionTitle: 'Content', levelLabel: 'High' }] }, rubric(['Content', 'content']));
+    expect(result.problems).toEqual([]);
+    expect(result.value?.ratings).toHaveLength(1);
+  });
+});
+
+describe('validateFeedbackResult', () => {
+  it('keeps one comment per graded criterion and needs a summary', () => {
+    const result = validateFeedbackResult({
+      criteria: [{ criterionTitle: 'content', feedback: 'Clear', nextStep: 'Add sources' }, { criterionTitle: 'Content', feedback: 'Again' }],
+      summary: 'Good work',
+      nextSteps: 'Revise'
+    }, ['Content']);
+    expect(result.value).toEqual({
+      criteria: [{ criterionTitle: 'Content', feedback: 'Clear', nextStep: 'Add sources' }],
+      summary: 'Good work',
+      nextSteps: ['Revise']
+    });
+    expect(validateFeedbackResult({ criteria: [] }, ['Content']).problems).toEqual(['"summary" must be a non-empty text.']);
+  });
+});
+
+describe('validateTranslationResult', () => {
+  it('needs one text per input', () => {
+    expect(validateTranslationResult({ texts: ['Hola', 'Adiós'] }, 2).value).toEqual({ texts: ['Hola', 'Adiós'] });
+    expect(validateTranslationResult({ texts: ['Hola'] }, 2).problems).toEqual(['Expected 2 translations but received 1.']);
+    expect(validateTranslationResult({ texts: ['Hola', null] }, 2).problems).toEqual(['Translation 2 must be text.']);
+  });
+});
+
+describe('validateRubricReview', () => {
+  it('drops malformed findings and rewrites, and uses the rubric spelling of names', () => {
+    const result = validateRubricReview({
+      issues: [
+        { category: 'vague', criterionTitle: 'style', problem: 'Unclear', rewrites: [
+          { criterionTitle: 'STYLE', levelLabel: 'high', field: 'description', value: 'Precise' },
+          { criterionTitle: 'Style', field: 'colour', value: 'Red' }
+        ] },
+        { category: 'unknown', problem: 'Ignored' },
+        { category: 'coverage' }
+      ]
+    }, rubric());
+    expect(result.value).toEqual({
+      issues: [{
+        category: 'vague',
+        criterionTitle: 'Style',
+        problem: 'Unclear',
+        rewrites: [{ criterionTitle: 'Style', levelLabel: 'High', field: 'description', value: 'Precise' }]
+      }]
+    });
+  });
+});
+
+describe('requireValid', () => {
+  it('returns usable values and throws an AiOutputError listing the problems otherwise', () => {
+    expect(requireValid('translateFeedback', { value: { texts: [] }, problems: [] })).toEqual({ texts: [] });
+    expect(() => requireValid('translateFeedback', { problems: ['Bad'] })).toThrow(AiOutputError);
+  });
+});
+
+describe('getDuplicateTitles', () => {
+  it('lists each repeated title once, ignoring case, space and blank titles', () => {
+    expect(getDuplicateTitles(['Content', 'Style', 'content ', 'CONTENT', '', ' '])).toEqual(['content ']);
+    expect(getDuplicateTitles(['Content', 'Style'])).toEqual([]);
+  });
+});
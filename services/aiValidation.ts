@@ -0,0 +1,224 @@
+import { Rubric } from '../types';
+import {
+  AiTask, FeedbackResult, GradingResult, RubricDraft, RubricReviewCategory, RubricReviewIssue, RubricReviewResult, RubricRewrite, TranslationResult
+} from './aiProvider';
+
+// Runtime checks on what a model returns. Schemas are a request, not a guarantee: local models
+// ignore them and any model can name a criterion that is not in the rubric. Each validator repairs
+// what it safely can (numbers sent as text, a title in the wrong case, a missing optional field)
+// and lists what it cannot. Completion providers re-ask the model with that list (see
+// createCompletionProvider); output that is still unusable becomes an AiOutputError.
+
+export const MAX_REPAIR_ATTEMPTS = 2; // Re-asks after the first reply
+
+// The repaired value when usable, otherwise what is wrong with it, phrased for the model and the user
+export interface Validated<T> {
+  value?: T;
+  problems: string[];
+}
+
+const TASK_RESULTS: Record<AiTask, string> = {
+  generateRubric: 'rubric',
+  extractRubric: 'rubric',
+  extractText: 'text',
+  generateFeedback: 'feedback',
+  translateFeedback: 'translation',
+  reviewRubric: 'rubric review',
+  gradeSubmission: 'grading result'
+};
+
+// Shown to the user, so it names the first few problems and what to do
+export class AiOutputError extends Error {
+  constructor(readonly task: AiTask, readonly problems: string[]) {
+    super(`The AI returned an unusable ${TASK_RESULTS[task]}: ${problems.slice(0, 3).join(' ')}${problems.length > 3 ? ` (and ${problems.length - 3} more problems)` : ''} Try again, or choose another model in AI Settings.`);
+    this.name = 'AiOutputError';
+  }
+}
+
+// Throws an AiOutputError unless the data is usable
+export const requireValid = <T>(task: AiTask, result: Validated<T>): T => {
+  if (result.value === undefined || result.problems.length > 0) throw new AiOutputError(task, result.problems);
+  return result.value;
+};
+
+const isObject = (v: unknown): v is Record<string, any> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+// Strings as given; numbers and booleans as text
+const text = (v: unknown): string | undefined =>
+  typeof v === 'string' ? v.trim() : typeof v === 'number' || typeof v === 'boolean' ? String(v) : undefined;
+
+// Numbers, or text that is one ("4", "4 points")
+const num = (v: unknown): number | undefined => {
+  if (typeof v === 'number') return isFinite(v) ? v : undefined;
+  const match = typeof v === 'string' ? v.match(/^\s*(-?\d+(?:\.\d+)?)/) : null;
+  return match ? parseFloat(match[1]) : undefined;
+};
+
+const key = (s: string) => s.trim().toLowerCase();
+
+// The entry of `names` that `name` refers to, ignoring case and surrounding space
+const matchName = (names: string[], name: string) => names.find(n => key(n) === key(name));
+
+const duplicates = (names: string[]) => names.filter((n, i) => names.findIndex(o => key(o) === key(n)) !== i);
+
+const quote = (s: string) => `"${s}"`;
+
+// Replies name criteria by title, so the rubric editor refuses titles that repeat (ignoring case)
+export const getDuplicateTitles = (titles: string[]): string[] => {
+  const repeated = duplicates(titles.filter(t => t.trim()));
+  return repeated.filter((t, i) => repeated.findIndex(o => key(o) === key(t)) === i);
+};
+
+export const validateRubricDraft = (data: unknown): Validated<RubricDraft> => {
+  if (!isObject(data)) return { problems: ['The reply must be a JSON object with title, description and criteria.'] };
+  if (!Array.isArray(data.criteria) || data.criteria.length === 0) return { problems: ['"criteria" must be a non-empty list.'] };
+  const problems: string[] = [];
+  const criteria = data.criteria.flatMap((c: unknown, i: number): RubricDraft['criteria'] => {
+    const where = `Criterion ${i + 1}`;
+    if (!isObject(c)) {
+      problems.push(`${where} must be an object.`);
+      return [];
+    }
+    const title = text(c.title);
+    if (!title) problems.push(`${where} needs a title.`);
+    const weight = c.weight === undefined || c.weight === null ? 1 : num(c.weight);
+    if (weight === undefined || weight < 0) problems.push(`${where} needs a weight of zero or more.`);
+    if (!Array.isArray(c.levels) || c.levels.length === 0) {
+      problems.push(`${where} needs a non-empty list of levels.`);
+      return [];
+    }
+    const levels = c.levels.flatMap((l: unknown, j: number): RubricDraft['criteria'][number]['levels'] => {
+      const at = `${where}, level ${j + 1}`;
+      if (!isObject(l)) {
+        problems.push(`${at} must be an object.`);
+        return [];
+      }
+      const label = text(l.label);
+      const score = num(l.score);
+      if (!label) problems.push(`${at} needs a label.`);
+      if (score === undefined) problems.push(`${at} needs a numeric score.`);
+      return [{ label: label || '', score: score ?? 0, description: text(l.description) || '' }];
+    });
+    const repeated = duplicates(levels.map(l => l.label).filter(Boolean));
+    if (repeated.length > 0) problems.push(`${where} repeats the level label${repeated.length === 1 ? '' : 's'} ${repeated.map(quote).join(', ')}; each label must be unique.`);
+    return [{ title: title || '', description: text(c.description) || '', weight: weight ?? 1, levels }];
+  });
+  const repeated = duplicates(criteria.map(c => c.title).filter(Boolean));
+  if (repeated.length > 0) problems.push(`The criterion title${repeated.length === 1 ? '' : 's'} ${repeated.map(quote).join(', ')} appear${repeated.length === 1 ? 's' : ''} more than once.`);
+  return problems.length > 0 ? { problems } : { value: { title: text(data.title) || '', description: text(data.description) || '', criteria }, problems };
+};
+
+// Every criterion that has levels must be rated once, with one of its own level labels
+export const validateGradingResult = (data: unknown, rubric: Rubric): Validated<GradingResult> => {
+  if (!isObject(data) || !Array.isArray(data.ratings)) return { problems: ['The reply must be a JSON object with a "ratings" list and "feedback".'] };
+  const problems: string[] = [];
+  const titles = rubric.criteria.map(c => c.title);
+  const ratings: GradingResult['ratings'] = [];
+  const named = new Set<string>(); // Criteria the reply rated, usably or not, by title key
+  data.ratings.forEach((r: unknown, i: number) => {
+    if (!isObject(r)) {
+      problems.push(`Rating ${i + 1} must be an object.`);
+      return;
+    }
+    const given = text(r.criterionTitle) || '';
+    const title = matchName(titles, given);
+    if (!title) {
+      problems.push(`Rating ${i + 1} names the criterion ${quote(given)}, which is not in the rubric. Use one of: ${titles.map(quote).join(', ')}.`);
+      return;
+    }
+    // A repeated criterion keeps its first rating
+    if (named.has(key(title))) return;
+    named.add(key(title));
+    const labels = rubric.criteria.find(c => c.title === title)!.levels.map(l => l.label);
+    const givenLabel = text(r.levelLabel) || '';
+    const levelLabel = matchName(labels, givenLabel);
+    if (!levelLabel) {
+      problems.push(`The rating for ${quote(title)} uses the level ${quote(givenLabel)}. Use one of: ${labels.map(quote).join(', ')}.`);
+      return;
+    }
+    // Confidence is a share; some models answer in percent
+    let confidence = num(r.confidence);
+    if (confidence !== undefined && confidence > 1 && confidence <= 100) confidence /= 100;
+    const evidence = (Array.isArray(r.evidence) ? r.evidence : typeof r.evidence === 'string' ? [r.evidence] : [])
+      .map(text).filter((e: string | undefined): e is string => !!e);
+    ratings.push({
+      criterionTitle: title,
+      levelLabel,
+      ...(text(r.explanation) ? { explanation: text(r.explanation) } : {}),
+      ...(confidence !== undefined && confidence >= 0 && confidence <= 1 ? { confidence } : {}),
+      ...(evidence.length > 0 ? { evidence } : {})
+    });
+  });
+  // Criteria that share a title (from rubrics saved before titles had to be unique) cannot be told
+  // apart, so one rating counts for all of them rather than asking the model for the impossible
+  const missing = rubric.criteria.filter(c => c.levels.length > 0 && !named.has(key(c.title)));
+  if (missing.length > 0) problems.push(`No rating for ${missing.map(c => quote(c.title)).join(', ')}.`);
+  return problems.length > 0 ? { problems } : { value: { ratings, feedback: text(data.feedback) || '' }, problems };
+};
+
+// Criterion comments must name criteria that were graded
+export const validateFeedbackResult = (data: unknown, criterionTitles: string[]): Validated<FeedbackResult> => {
+  if (!isObject(data)) return { problems: ['The reply must be a JSON object with criteria, summary and nextSteps.'] };
+  const problems: string[] = [];
+  const summary = text(data.summary);
+  if (!summary) problems.push('"summary" must be a non-empty text.');
+  const criteria: FeedbackResult['criteria'] = [];
+  (Array.isArray(data.criteria) ? data.criteria : []).forEach((c: unknown, i: number) => {
+    if (!isObject(c)) return;
+    const given = text(c.criterionTitle) || '';
+    const title = matchName(criterionTitles, given);
+    const feedback = text(c.feedback);
+    if (!title) {
+      problems.push(`Comment ${i + 1} names the criterion ${quote(given)}. Use one of: ${criterionTitles.map(quote).join(', ')}.`);
+    } else if (feedback && !criteria.some(x => x.criterionTitle === title)) {
+      const nextStep = text(c.nextStep);
+      criteria.push({ criterionTitle: title, feedback, ...(nextStep ? { nextStep } : {}) });
+    }
+  });
+  const nextSteps = (Array.isArray(data.nextSteps) ? data.nextSteps : typeof data.nextSteps === 'string' ? [data.nextSteps] : [])
+    .map(text).filter((s: string | undefined): s is string => !!s);
+  return problems.length > 0 ? { problems } : { value: { criteria, summary: summary!, nextSteps }, problems };
+};
+
+export const validateTranslationResult = (data: unknown, count: number): Validated<TranslationResult> => {
+  if (!isObject(data) || !Array.isArray(data.texts)) return { problems: ['The reply must be a JSON object with a "texts" list.'] };
+  if (data.texts.length !== count) return { problems: [`Expected ${count} translation${count === 1 ? '' : 's'} but received ${data.texts.length}.`] };
+  const problems: string[] = [];
+  const texts = data.texts.map((t: unknown, i: number) => {
+    const value = typeof t === 'string' ? t : text(t);
+    if (value === undefined) problems.push(`Translation ${i + 1} must be text.`);
+    return value || '';
+  });
+  return problems.length > 0 ? { problems } : { value: { texts }, problems };
+};
+
+const REVIEW_CATEGORIES: RubricReviewCategory[] = ['overlap', 'vague', 'non_discriminating', 'score_gap', 'coverage'];
+const REWRITE_FIELDS: RubricRewrite['field'][] = ['title', 'description', 'label', 'score'];
+
+// Findings are advice, so malformed ones are dropped rather than re-asked for. Names of existing
+// criteria and levels are matched to the rubric's own spelling.
+export const validateRubricReview = (data: unknown, rubric: Rubric): Validated<RubricReviewResult> => {
+  if (!isObject(data) || !Array.isArray(data.issues)) return { problems: ['The reply must be a JSON object with an "issues" list.'] };
+  const titles = rubric.criteria.map(c => c.title);
+  const issues = data.issues.flatMap((i: unknown): RubricReviewIssue[] => {
+    const problem = isObject(i) ? text(i.problem) : undefined;
+    if (!isObject(i) || !REVIEW_CATEGORIES.includes(i.category) || !problem) return [];
+    const criterionTitle = text(i.criterionTitle);
+    const rewrites = (Array.isArray(i.rewrites) ? i.rewrites : []).flatMap((r: unknown): RubricRewrite[] => {
+      const given = isObject(r) ? text(r.criterionTitle) : undefined;
+      const value = isObject(r) ? text(r.value) : undefined;
+      if (!isObject(r) || !given || value === undefined || !REWRITE_FIELDS.includes(r.field)) return [];
+      const title = matchName(titles, given) || given;
+      const labels = rubric.criteria.find(c => c.title === title)?.levels.map(l => l.label) || [];
+      const levelLabel = text(r.levelLabel);
+      return [{ criterionTitle: title, ...(levelLabel ? { levelLabel: matchName(labels, levelLabel) || levelLabel } : {}), field: r.field, value }];
+    });
+    return [{
+      category: i.category,
+      ...(criterionTitle ? { criterionTitle: matchName(titles, criterionTitle) || criterionTitle } : {}),
+      problem,
+      ...(rewrites.length > 0 ? { rewrites } : {})
+    }];
+  });
+  return { value: { issues }, problems: [] };
+};
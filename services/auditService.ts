@@ -0,0 +1,199 @@
+import { Assessment, AuditEvent, AuditSource, Rubric, UserRole } from '../types';
+
+// Per-change audit trail for assessments.
+// Events are derived by diffing the stored assessment against the one being saved, so callers only
+// say *who* is saving and *how* (by hand, AI, peer evaluation); they cannot edit the log themselves.
+
+export interface AuditActor {
+  name: string;
+  role: UserRole;
+}
+
+export const AUDIT_SOURCE_LABELS: Record<AuditSource, string> = {
+  HUMAN: 'Manual',
+  AI: 'AI',
+  PEER_EVAL: 'Peer evaluation'
+};
+
+// Typing in a text field produces one save per keystroke; those collapse into one event
+const TEXT_EDIT_WINDOW_MS = 2 * 60 * 1000;
+const MAX_TEXT_LENGTH = 500;
+
+const clip = (text: string) => text.length > MAX_TEXT_LENGTH ? `${text.slice(0, MAX_TEXT_LENGTH)}…` : text;
+
+const createEvent = (actor: AuditActor, source: AuditSource, at: number, fields: Omit<AuditEvent, 'id' | 'at' | 'actor' | 'actorRole' | 'source'>): AuditEvent => ({
+  id: crypto.randomUUID(),
+  at,
+  actor: actor.name,
+  actorRole: actor.role,
+  source,
+  ...fields
+});
+
+export const diffAssessment = (
+  previous: Assessment | undefined,
+  next: Assessment,
+  actor: AuditActor,
+  source: AuditSource,
+  note?: string
+): AuditEvent[] => {
+  const at = Date.now();
+  const events: AuditEvent[] = [];
+
+  const criterionIds = new Set([...(previous?.entries || []), ...next.entries].map(e => e.criterionId));
+  criterionIds.forEach(criterionId => {
+    const from = previous?.entries.find(e => e.criterionId === criterionId)?.score ?? null;
+    const to = next.entries.find(e => e.criterionId === criterionId)?.score ?? null;
+    if (from !== to) events.push(createEvent(actor, source, at, { action: 'SCORE', criterionId, from, to, note }));
+  });
+
+  // Independent marks on double-marked assignments, attributed in the note to the assessor they belong to
+  new Set([...Object.keys(previous?.markings || {}), ...Object.keys(next.markings || {})]).forEach(assessorId => {
+    const before = previous?.markings?.[assessorId];
+    const after = next.markings?.[assessorId];
+    if (before === after) return;
+    const name = (after || before)!.assessorName;
+    new Set([...(before?.entries || []), ...(after?.entries || [])].map(e => e.criterionId)).forEach(criterionId => {
+      const from = before?.entries.find(e => e.criterionId === criterionId)?.score ?? null;
+      const to = after?.entries.find(e => e.criterionId === criterionId)?.score ?? null;
+      if (from !== to) events.push(createEvent(actor, source, at, { action: 'SCORE', criterionId, from, to, note: note || `Marks of ${name}` }));
+    });
+  });
+
+  if ((previous?.feedback || '') !== (next.feedback || '')) {
+    events.push(createEvent(actor, source, at, { action: 'FEEDBACK', from: clip(previous?.feedback || ''), to: clip(next.feedback || ''), note }));
+  }
+
+  // Submissions can be long, so only their size is recorded
+  if ((previous?.submissionText || '') !== (next.submissionText || '')) {
+    events.push(createEvent(actor, source, at, {
+      action: 'SUBMISSION',
+      from: (previous?.submissionText || '').length,
+      to: (next.submissionText || '').length,
+      note
+    }));
+  }
+
+  if (previous?.submittedAt !== next.submittedAt) {
+    events.push(createEvent(actor, source, at, {
+      action: 'SUBMITTED_AT',
+      from: previous?.submittedAt ? new Date(previous.submittedAt).toISOString() : null,
+      to: next.submittedAt ? new Date(next.submittedAt).toISOString() : null,
+      note
+    }));
+  }
+
+  if (!!previous?.aiReview !== !!next.aiReview) {
+    events.push(createEvent(actor, source, at, next.aiReview
+      ? { action: 'FLAG', note: note || next.aiReview.reasons.join('; ') }
+      : { action: 'CONFIRM', note }));
+  }
+
+  if (!!previous?.exemplar !== !!next.exemplar) {
+    events.push(createEvent(actor, source, at, { action: 'EXEMPLAR', to: next.exemplar ? 'on' : 'off', note }));
+  }
+
+  if ((previous?.integrityNote?.note || '') !== (next.integrityNote?.note || '')) {
+    events.push(createEvent(actor, source, at, {
+      action: 'INTEGRITY',
+      from: clip(previous?.integrityNote?.note || ''),
+      to: clip(next.integrityNote?.note || ''),
+      note
+    }));
+  }
+
+  if (!!previous?.locked !== next.locked) {
+    events.push(createEvent(actor, source, at, { action: next.locked ? 'LOCK' : 'UNLOCK', note }));
+  }
+
+  // Peer reviews are attributed to the student who wrote them, not to whoever is signed in
+  const reviewKey = (evaluator: string, subject: string) => `${evaluator}\u0000${subject}`;
+  const previousReviews = new Map((previous?.peerEvaluations || []).map(pe => [reviewKey(pe.evaluator, pe.subject), pe]));
+  const nextReviews = new Map((next.peerEvaluations || []).map(pe => [reviewKey(pe.evaluator, pe.subject), pe]));
+  new Set([...previousReviews.keys(), ...nextReviews.keys()]).forEach(key => {
+    const before = previousReviews.get(key);
+    const after = nextReviews.get(key);
+    if (before?.score === after?.score && before?.feedback === after?.feedback) return;
+    const review = (after || before)!;
+    const reviewer: AuditActor = source === 'PEER_EVAL' ? { name: review.evaluator, role: 'STUDENT' } : actor;
+    events.push(createEvent(reviewer, source, at, {
+      action: 'PEER_EVAL',
+      from: before?.score ?? null,
+      to: after?.score ?? null,
+      note: note || `Review of ${review.subject}`
+    }));
+  });
+
+  return events;
+};
+
+const isTextEdit = (event: AuditEvent) => event.action === 'FEEDBACK' || event.action === 'SUBMISSION';
+
+// Appends events, folding a run of keystrokes on the same field by the same person into its last event
+export const appendAuditEvents = (log: AuditEvent[], events: AuditEvent[]): AuditEvent[] => {
+  const result = [...log];
+  events.forEach(event => {
+    const last = result[result.length - 1];
+    const continuesTyping = last && isTextEdit(event) && last.action === event.action &&
+      last.actor === event.actor && last.source === event.source && !last.note && !event.note &&
+      event.at - last.at < TEXT_EDIT_WINDOW_MS;
+    if (continuesTyping) result[result.length - 1] = { ...last, at: event.at, to: event.to };
+    else result.push(event);
+  });
+  return result;
+};
+
+// Returns `next` carrying the stored log plus events for what changed.
+// The caller's copy of the log is ignored, so an edit can never drop or rewrite history.
+export const withAuditTrail = (
+  previous: Assessment | undefined,
+  next: Assessment,
+  actor: AuditActor,
+  source: AuditSource,
+  note?: string
+): Assessment => {
+  const events = diffAssessment(previous, next, actor, source, note);
+  const log = previous?.auditLog || [];
+  return { ...next, auditLog: events.length ? appendAuditEvents(log, events) : log };
+};
+
+// Union of two copies of a log (e.g. the same assessment edited on two devices), oldest first
+export const mergeAuditLogs = (a: AuditEvent[] = [], b: AuditEvent[] = []): AuditEvent[] => {
+  const byId = new Map<string, AuditEvent>();
+  [...a, ...b].forEach(event => {
+    const existing = byId.get(event.id);
+    if (!existing || event.at > existing.at) byId.set(event.id, event);
+  });
+  return Array.from(byId.values()).sort((x, y) => x.at - y.at);
+};
+
+const formatValue = (value: AuditEvent['from']) => value === null || value === undefined || value === '' ? '—' : String(value);
+
+export const describeAuditEvent = (event: AuditEvent, rubric?: Rubric): string => {
+  switch (event.action) {
+    case 'SCORE': {
+      const title = rubric?.criteria.find(c => c.id === event.criterionId)?.title || 'Removed criterion';
+      return `${title}: ${formatValue(event.from)} → ${formatValue(event.to)}`;
+    }
+    case 'FEEDBACK':
+      return event.from ? 'Edited feedback' : 'Wrote feedback';
+    case 'SUBMISSION':
+      return `Submission text: ${event.from} → ${event.to} characters`;
+    case 'SUBMITTED_AT':
+      return event.to ? `Submission time set to ${new Date(event.to).toLocaleString()}` : 'Submission time cleared';
+    case 'PEER_EVAL':
+      return `Peer score: ${formatValue(event.from)} → ${formatValue(event.to)}`;
+    case 'LOCK':
+      return 'Finalized grades';
+    case 'UNLOCK':
+      return 'Unlocked grades';
+    case 'FLAG':
+      return 'Flagged AI grades for review';
+    case 'CONFIRM':
+      return 'Confirmed AI grades';
+    case 'EXEMPLAR':
+      return event.to === 'on' ? 'Marked as calibration exemplar' : 'Removed from calibration exemplars';
+    case 'INTEGRITY':
+      return !event.to ? 'Removed academic-integrity note' : event.from ? 'Edited academic-integrity note' : 'Recorded academic-integrity note';
+  }
+};
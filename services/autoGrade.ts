@@ -0,0 +1,84 @@
+import { Assessment, GradeEntry, Rubric } from '../types';
+import { GradingResult } from './aiProvider';
+import { computeScore } from './gradingEngine';
+import { anchorEvidence } from './evidence';
+import { keepFeedback } from './feedback';
+
+// Turns an AI grading result into rubric entries. Shared by single and batch auto-grading.
+
+export interface AppliedRatings {
+  entries: GradeEntry[];
+  // Why a person should look at this result before trusting it (empty when it mapped cleanly)
+  reviewReasons: string[];
+}
+
+export const LOW_CONFIDENCE = 0.6;    // Ratings the AI is less sure of than this are flagged
+export const BORDERLINE_MARGIN = 5;   // Percentage points either side of the pass mark
+
+const sameText = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+export const formatConfidence = (confidence: number) => `${Math.round(confidence * 100)}%`;
+
+// Ratings replace existing entries for the criteria they name; criteria the AI skipped keep theirs.
+// Evidence quotes are kept only when they can be found in the submission text.
+export const applyAiRatings = (rubric: Rubric, entries: GradeEntry[], result: GradingResult, submissionText = ''): AppliedRatings => {
+  const next = [...entries];
+  const reviewReasons: string[] = [];
+  const rated = new Set<string>();
+
+  (result.ratings || []).forEach(rating => {
+    const criterion = rubric.criteria.find(c => sameText(c.title, rating.criterionTitle || ''));
+    if (!criterion) {
+      reviewReasons.push(`Unknown criterion "${rating.criterionTitle}"`);
+      return;
+    }
+    const level = criterion.levels.find(l => sameText(l.label, rating.levelLabel || ''));
+    if (!level) {
+      reviewReasons.push(`${criterion.title}: unknown level "${rating.levelLabel}"`);
+      return;
+    }
+    const existing = next.findIndex(e => e.criterionId === criterion.id);
+    const previous = existing >= 0 ? next.splice(existing, 1)[0] : undefined;
+    const rationale = rating.explanation?.trim();
+    // Models occasionally answer on a 0-100 scale despite the schema
+    const raw = typeof rating.confidence === 'number' && isFinite(rating.confidence) ? rating.confidence : undefined;
+    const confidence = raw === undefined ? undefined : Math.min(1, Math.max(0, raw > 1 ? raw / 100 : raw));
+    const quotes = Array.isArray(rating.evidence) ? rating.evidence.filter((q): q is string => typeof q === 'string') : [];
+    const { spans, missing } = anchorEvidence(submissionText, quotes);
+    next.push({
+      criterionId: criterion.id,
+      levelId: level.id,
+      score: level.score,
+      ...(rationale ? { rationale, rationaleSource: 'AI' as const } : {}),
+      ...(confidence !== undefined ? { confidence } : {}),
+      ...(spans.length > 0 ? { evidence: spans } : {}),
+      ...keepFeedback(previous, previous?.levelId === level.id)
+    });
+    if (missing.length > 0) {
+      reviewReasons.push(`${criterion.title}: ${missing.length} evidence quote${missing.length === 1 ? '' : 's'} not found in the submission`);
+    }
+    if (confidence !== undefined && confidence < LOW_CONFIDENCE) {
+      reviewReasons.push(`${criterion.title}: low confidence (${formatConfidence(confidence)})`);
+    }
+    rated.add(criterion.id);
+  });
+
+  rubric.criteria.filter(c => !rated.has(c.id)).forEach(c => reviewReasons.push(`${c.title}: not graded by AI`));
+  if (!result.feedback?.trim()) reviewReasons.push('No feedback returned');
+
+  return { entries: next, reviewReasons };
+};
+
+// A small change to one criterion could flip pass and fail, so a person should decide
+export const getBorderlineReason = (rubric: Rubric, assessment: Assessment, entries: GradeEntry[]): string | null => {
+  const passMark = rubric.passingPercentage ?? 50;
+  const { totalScore } = computeScore(rubric, { ...assessment, entries });
+  if (Math.abs(totalScore - passMark) > BORDERLINE_MARGIN) return null;
+  return `Borderline: ${totalScore.toFixed(1)}% against a pass mark of ${passMark}%`;
+};
+
+// Sets or clears the review flag after auto-grading
+export const markForReview = (assessment: Assessment, reasons: string[]): Assessment =>
+  reasons.length > 0
+    ? { ...assessment, aiReview: { reasons, flaggedAt: Date.now() } }
+    : { ...assessment, aiReview: undefined };
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import { CURRENT_BACKUP_VERSION, getBackupVersion, migrateBackup, parseBackup, validateBackup } from './backupService';
+
+const rubric = {
+  id: 'r1',
+  title: 'Essay',
+  passingPercentage: 60,
+  criteria: [{ id: 'c1', title: 'Content', weight: 2, levels: [{ label: 'High', score: 4 }] }]
+};
+
+// An early export: no metadata, assessments keyed by assignee id, optional fields left out
+const v0 = {
+  rubrics: [rubric],
+  assignees: [{ id: 's1', name: 'Ada' }],
+  assessments: { s1: { entries: [{ criterionId: 'c1', levelId: 'l1', score: 4 }], totalScore: 100, lastUpdated: 5 } }
+};
+
+describe('getBackupVersion', () => {
+  it('reads the schema version, the legacy string version, or 0 without metadata', () => {
+    expect(getBackupVersion({ metadata: { schemaVersion: 3 } })).toBe(3);
+    expect(getBackupVersion({ metadata: { version: '1.0' } })).toBe(1);
+    expect(getBackupVersion({ metadata: { version: 'beta' } })).toBe(0);
+    expect(getBackupVersion(v0)).toBe(0);
+  });
+});
+
+describe('migrateBackup', () => {
+  it('upgrades a version 0 backup step by step to the current version', () => {
+    const migrated = migrateBackup(v0);
+    expect(migrated.metadata).toEqual({ schemaVersion: CURRENT_BACKUP_VERSION });
+    expect(migrated.gradeScales).toEqual([]);
+    expect(migrated.promptTemplates).toEqual([]);
+    expect(migrated.assignees).toEqual([{ id: 's1', name: 'Ada', type: 'individual' }]);
+    expect(migrated.rubrics).toEqual([{
+      ...rubric,
+      type: 'individual',
+      description: '',
+      assignmentWeight: 100,
+      peerEvalWeight: 0,
+      criteria: [{ ...rubric.criteria[0], description: '', levels: [{ label: 'High', score: 4, id: expect.any(String), description: '' }] }]
+    }]);
+    expect(migrated.assessments).toEqual({
+      r1_s1: {
+        ...v0.assessments.s1,
+        id: 'r1_s1',
+        rubricId: 'r1',
+        assigneeId: 's1',
+        peerEvaluations: [],
+        feedback: '',
+        maxScore: 100,
+        locked: false
+      }
+    });
+    expect(validateBackup(migrated)).toEqual([]);
+  });
+
+  it('dates version 1 assessments without a timestamp from the export and drops the legacy version', () => {
+    const exportedAt = '2024-03-01T00:00:00.000Z';
+    const migrated = migrateBackup({
+      rubrics: [rubric],
+      assignees: [],
+      assessments: { r1_s1: { id: 'r1_s1', rubricId: 'r1', assigneeId: 's1', entries: [] } },
+      metadata: { version: '1.0', exportedAt }
+    });
+    expect(migrated.metadata).toEqual({ exportedAt, schemaVersion: CURRENT_BACKUP_VERSION });
+    expect(migrated.assessments).toMatchObject({ r1_s1: { lastUpdated: Date.parse(exportedAt) } });
+  });
+
+  it('keeps lists that later versions already carry', () => {
+    const gradeScales = [{ id: 'g1', name: 'Letters', boundaries: [{ letter: 'A', minPercent: 90, gpa: 4 }] }];
+    const v2 = migrateBackup({ gradeScales, metadata: { schemaVersion: 2 } });
+    expect(v2.gradeScales).toBe(gradeScales);
+    expect(v2.promptTemplates).toEqual([]);
+
+    const current = { promptTemplates: [], metadata: { schemaVersion: CURRENT_BACKUP_VERSION } };
+    expect(migrateBackup(current)).toBe(current);
+  });
+});
+
+describe('validateBackup', () => {
+  it('reports each problem with its path', () => {
+    const issues = validateBackup({
+      rubrics: [{ ...rubric, type: 'individual', criteria: [{ id: 'c1', title: 'Content', weight: '2', levels: [{ label: 'High' }] }] }, { ...rubric, type: 'team' }],
+      assignees: [{ id: 's1', name: 'Ada', type: 'individual', members: [1] }],
+      gradeScales: [{ id: 'g1', name: 'Letters', boundaries: [{ letter: 'A' }] }],
+      promptTemplates: [{ id: 't1', kind: 'essay', system: '', prompt: '', version: 1 }],
+      assessments: { r1_s1: { id: 'r1_s2', rubricId: 'r1', assigneeId: 's1', lastUpdated: 1, entries: [], peerEvaluations: [], auditLog: {} } }
+    });
+    expect(issues).toEqual([
+      { path: 'rubrics[0].criteria[0].weight', message: 'Must be a number' },
+      { path: 'rubrics[0].criteria[0].levels[0].score', message: 'Must be a number' },
+      { path: 'rubrics[1].id', message: 'Duplicate id "r1"' },
+      { path: 'rubrics[1].type', message: 'Unknown type "team"' },
+      { path: 'assignees[0].members', message: 'Must be a list of names' },
+      { path: 'gradeScales[0].boundaries[0]', message: 'Needs a letter, a numeric minPercent and a numeric gpa' },
+      { path: 'promptTemplates[0].kind', message: 'Unknown kind "essay"' },
+      { path: 'assessments["r1_s1"].id', message: 'Does not match its key' },
+      { path: 'assessments["r1_s1"].auditLog', message: 'Must be a list' }
+    ]);
+  });
+
+  it('needs at least one rubric and every top-level list', () => {
+    expect(validateBackup({ rubrics: [] }).map(i => i.path)).toEqual(['rubrics', 'assignees', 'gradeScales', 'promptTemplates', 'assessments']);
+  });
+});
+
+describe('parseBackup', () => {
+  it('restores a valid old backup and falls back to the first rubric', () => {
+    const result = parseBackup({ ...v0, currentRubricId: 'gone' });
+    expect(result.issues).toEqual([]);
+    expect(result.fromVersion).toBe(0);
+    expect(result.data?.currentRubricId).toBe('r1');
+    expect(Object.keys(result.data?.assessments ?? {})).toEqual(['r1_s1']);
+  });
+
+  it('refuses backups from a newer version and content that is not an object', () => {
+    const newer = parseBackup({ ...v0, metadata: { schemaVersion: CURRENT_BACKUP_VERSION + 1 } });
+    expect(newer.data).toBeNull();
+    expect(newer.issues[0].path).toBe('metadata.schemaVersion');
+    expect(parseBackup([]).issues).toEqual([{ path: '', message: 'Backup is not a JSON object' }]);
+  });
+});
@@ -0,0 +1,377 @@
+import { WorkspaceData } from '../types';
+
+// Backup file format.
+// Every backup carries `metadata.schemaVersion`. When the shape of Rubric/Assessment changes,
+// bump CURRENT_BACKUP_VERSION and append a migration that upgrades the previous version,
+// so backups taken with older releases keep restoring.
+//
+// Version history:
+//   0 - Early exports without metadata. Assessments were keyed by assignee id only.
+//   1 - `metadata.version: '1.0'`. Composite `${rubricId}_${assigneeId}` keys, optional fields may be missing.
+//   2 - `metadata.schemaVersion: 2`. All records normalised with defaults filled in.
+//   3 - Adds the `gradeScales` list.
+//   4 - Adds the `promptTemplates` list.
+
+export const CURRENT_BACKUP_VERSION = 4;
+
+export interface BackupMetadata {
+  schemaVersion: number;
+  exportedBy?: string; // Display name, e.g. the role label
+  exporterId?: string; // Signed-in user (email) who exported
+  exportId?: string;   // Different for every export
+  exportedAt?: string;
+}
+
+export interface WorkspaceBackup extends WorkspaceData {
+  metadata: BackupMetadata;
+}
+
+export interface BackupIssue {
+  path: string; // e.g. "rubrics[0].criteria[2].levels"
+  message: string;
+}
+
+export interface BackupParseResult {
+  data: WorkspaceData | null; // null when the backup cannot be restored
+  issues: BackupIssue[];
+  fromVersion: number;
+  metadata: BackupMetadata;
+}
+
+type RawObject = Record<string, unknown>;
+type Migration = (backup: RawObject) => RawObject;
+
+const isObject = (v: unknown): v is RawObject => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isString = (v: unknown): v is string => typeof v === 'string';
+const isNumber = (v: unknown): v is number => typeof v === 'number' && !isNaN(v);
+const metadataOf = (backup: RawObject): RawObject => isObject(backup.metadata) ? backup.metadata : {};
+
+export const getBackupVersion = (raw: RawObject): number => {
+  if (!isObject(raw.metadata)) return 0;
+  if (isNumber(raw.metadata.schemaVersion)) return raw.metadata.schemaVersion;
+  // Legacy string version ("1.0")
+  const legacy = parseInt(String(raw.metadata.version ?? ''), 10);
+  return isNaN(legacy) ? 0 : legacy;
+};
+
+// migrations[n] upgrades a version n backup to version n + 1
+const migrations: Record<number, Migration> = {
+  0: (backup) => {
+    // Single-assignment era: attach every assessment to the first rubric and re-key it
+    const firstRubric: unknown = Array.isArray(backup.rubrics) ? backup.rubrics[0] : undefined;
+    const fallbackRubricId = isObject(firstRubric) ? firstRubric.id : undefined;
+    const assessments: RawObject = {};
+    Object.entries(isObject(backup.assessments) ? backup.assessments : {}).forEach(([key, a]) => {
+      if (!isObject(a)) {
+        assessments[key] = a;
+        return;
+      }
+      const rubricId = a.rubricId ?? fallbackRubricId;
+      const assigneeId = a.assigneeId ?? key;
+      const id = `${rubricId}_${assigneeId}`;
+      assessments[id] = { ...a, id, rubricId, assigneeId };
+    });
+    return {
+      ...backup,
+      assessments,
+      metadata: { ...metadataOf(backup), version: '1.0' }
+    };
+  },
+  1: (backup) => {
+    const rubrics = Array.isArray(backup.rubrics) ? backup.rubrics.map((r: unknown) => !isObject(r) ? r : ({
+      ...r,
+      type: r.type ?? 'individual',
+      description: r.description ?? '',
+      passingPercentage: r.passingPercentage ?? 50,
+      assignmentWeight: r.assignmentWeight ?? 100,
+      peerEvalWeight: r.peerEvalWeight ?? 0,
+      criteria: Array.isArray(r.criteria) ? r.criteria.map((c: unknown) => !isObject(c) ? c : ({
+        ...c,
+        description: c.description ?? '',
+        weight: c.weight ?? 1,
+        levels: Array.isArray(c.levels) ? c.levels.map((l: unknown) => !isObject(l) ? l : ({
+          ...l,
+          id: l.id ?? crypto.randomUUID(),
+          description: l.description ?? ''
+        })) : c.levels
+      })) : r.criteria
+    })) : backup.rubrics;
+
+    const { version, ...metadata } = metadataOf(backup);
+    const exportedAt = Date.parse(isString(metadata.exportedAt) ? metadata.exportedAt : '');
+    const assessments: RawObject = {};
+    Object.entries(isObject(backup.assessments) ? backup.assessments : {}).forEach(([key, a]) => {
+      assessments[key] = !isObject(a) ? a : {
+        ...a,
+        peerEvaluations: a.peerEvaluations ?? [],
+        feedback: a.feedback ?? '',
+        maxScore: 100,
+        locked: a.locked ?? false,
+        lastUpdated: a.lastUpdated ?? (isNaN(exportedAt) ? Date.now() : exportedAt)
+      };
+    });
+
+    const assignees = Array.isArray(backup.assignees) ? backup.assignees.map((a: unknown) => !isObject(a) ? a : ({
+      ...a,
+      type: a.type ?? 'individual'
+    })) : (backup.assignees ?? []);
+
+    return {
+      ...backup,
+      rubrics,
+      assignees,
+      assessments,
+      metadata: { ...metadata, schemaVersion: 2 }
+    };
+  },
+  2: (backup) => ({
+    ...backup,
+    gradeScales: backup.gradeScales ?? [],
+    metadata: { ...metadataOf(backup), schemaVersion: 3 }
+  }),
+  3: (backup) => ({
+    ...backup,
+    promptTemplates: backup.promptTemplates ?? [],
+    metadata: { ...metadataOf(backup), schemaVersion: 4 }
+  })
+};
+
+export const migrateBackup = (raw: RawObject): RawObject => {
+  let backup = raw;
+  let version = getBackupVersion(raw);
+  while (version < CURRENT_BACKUP_VERSION) {
+    const migrate = migrations[version];
+    if (!migrate) throw new Error(`No migration available for backup version ${version}`);
+    backup = migrate(backup);
+    version++;
+  }
+  return backup;
+};
+
+// Validates a backup that has already been migrated to the current version
+export const validateBackup = (backup: RawObject): BackupIssue[] => {
+  const issues: BackupIssue[] = [];
+  const add = (path: string, message: string) => issues.push({ path, message });
+
+  // Workspace defaults and rubric overrides share one shape
+  const validateTemplates = (templates: unknown[], path: string) => templates.forEach((t, i) => {
+    const tPath = `${path}[${i}]`;
+    if (!isObject(t)) return add(tPath, 'Not an object');
+    if (!isString(t.id) || !t.id) add(`${tPath}.id`, 'Missing id');
+    if (!isString(t.kind) || !['grading', 'feedback', 'rubric'].includes(t.kind)) add(`${tPath}.kind`, `Unknown kind "${t.kind}"`);
+    if (!isString(t.system) || !isString(t.prompt)) add(tPath, 'Needs system and prompt text');
+    if (!isNumber(t.version)) add(`${tPath}.version`, 'Must be a number');
+  });
+
+  if (!Array.isArray(backup.rubrics) || backup.rubrics.length === 0) {
+    add('rubrics', 'At least one assignment rubric is required');
+  } else {
+    const rubricIds = new Set<string>();
+    backup.rubrics.forEach((r: unknown, i: number) => {
+      const path = `rubrics[${i}]`;
+      if (!isObject(r)) return add(path, 'Not an object');
+      if (!isString(r.id) || !r.id) add(`${path}.id`, 'Missing id');
+      else if (rubricIds.has(r.id)) add(`${path}.id`, `Duplicate id "${r.id}"`);
+      else rubricIds.add(r.id);
+      if (!isString(r.title)) add(`${path}.title`, 'Missing title');
+      if (!isNumber(r.passingPercentage)) add(`${path}.passingPercentage`, 'Must be a number');
+      if (r.type !== 'individual' && r.type !== 'group') add(`${path}.type`, `Unknown type "${r.type}"`);
+      if (r.promptTemplates !== undefined) {
+        if (!Array.isArray(r.promptTemplates)) add(`${path}.promptTemplates`, 'Must be a list');
+        else validateTemplates(r.promptTemplates, `${path}.promptTemplates`);
+      }
+      if (r.feedbackStyle !== undefined && !isObject(r.feedbackStyle)) add(`${path}.feedbackStyle`, 'Must be an object');
+      if (!Array.isArray(r.criteria)) return add(`${path}.criteria`, 'Must be a list');
+      r.criteria.forEach((c: unknown, j: number) => {
+        const cPath = `${path}.criteria[${j}]`;
+        if (!isObject(c)) return add(cPath, 'Not an object');
+        if (!isString(c.id) || !c.id) add(`${cPath}.id`, 'Missing id');
+        if (!isString(c.title)) add(`${cPath}.title`, 'Missing title');
+        if (!isNumber(c.weight)) add(`${cPath}.weight`, 'Must be a number');
+        if (!Array.isArray(c.levels)) return add(`${cPath}.levels`, 'Must be a list');
+        c.levels.forEach((l: unknown, k: number) => {
+          const lPath = `${cPath}.levels[${k}]`;
+          if (!isObject(l)) return add(lPath, 'Not an object');
+          if (!isString(l.label)) add(`${lPath}.label`, 'Missing label');
+          if (!isNumber(l.score)) add(`${lPath}.score`, 'Must be a number');
+        });
+      });
+    });
+  }
+
+  if (!Array.isArray(backup.assignees)) {
+    add('assignees', 'Must be a list');
+  } else {
+    backup.assignees.forEach((a: unknown, i: number) => {
+      const path = `assignees[${i}]`;
+      if (!isObject(a)) return add(path, 'Not an object');
+      if (!isString(a.id) || !a.id) add(`${path}.id`, 'Missing id');
+      if (!isString(a.name)) add(`${path}.name`, 'Missing name');
+      if (a.type !== 'individual' && a.type !== 'group') add(`${path}.type`, `Unknown type "${a.type}"`);
+      if (a.members !== undefined && (!Array.isArray(a.members) || !a.members.every(isString))) {
+        add(`${path}.members`, 'Must be a list of names');
+      }
+    });
+  }
+
+  if (!Array.isArray(backup.gradeScales)) {
+    add('gradeScales', 'Must be a list');
+  } else {
+    backup.gradeScales.forEach((g: unknown, i: number) => {
+      const path = `gradeScales[${i}]`;
+      if (!isObject(g)) return add(path, 'Not an object');
+      if (!isString(g.id) || !g.id) add(`${path}.id`, 'Missing id');
+      if (!isString(g.name)) add(`${path}.name`, 'Missing name');
+      if (g.courses !== undefined && (!Array.isArray(g.courses) || !g.courses.every(isString))) {
+        add(`${path}.courses`, 'Must be a list of course names');
+      }
+      if (!Array.isArray(g.boundaries)) return add(`${path}.boundaries`, 'Must be a list');
+      g.boundaries.forEach((b: unknown, j: number) => {
+        if (!isObject(b) || !isString(b.letter) || !isNumber(b.minPercent) || !isNumber(b.gpa)) {
+          add(`${path}.boundaries[${j}]`, 'Needs a letter, a numeric minPercent and a numeric gpa');
+        }
+      });
+    });
+  }
+
+  if (!Array.isArray(backup.promptTemplates)) {
+    add('promptTemplates', 'Must be a list');
+  } else {
+    validateTemplates(backup.promptTemplates, 'promptTemplates');
+  }
+
+  if (!isObject(backup.assessments)) {
+    add('assessments', 'Must be an object keyed by assessment id');
+  } else {
+    Object.entries(backup.assessments).forEach(([key, a]) => {
+      const path = `assessments["${key}"]`;
+      if (!isObject(a)) return add(path, 'Not an object');
+      if (a.id !== key) add(`${path}.id`, 'Does not match its key');
+      if (!isString(a.rubricId)) add(`${path}.rubricId`, 'Missing rubricId');
+      if (!isString(a.assigneeId)) add(`${path}.assigneeId`, 'Missing assigneeId');
+      if (!isNumber(a.lastUpdated)) add(`${path}.lastUpdated`, 'Must be a timestamp');
+      if (!Array.isArray(a.entries)) {
+        add(`${path}.entries`, 'Must be a list');
+      } else {
+        a.entries.forEach((e: unknown, j: number) => {
+          if (!isObject(e) || !isString(e.criterionId) || !isNumber(e.score)) {
+            add(`${path}.entries[${j}]`, 'Needs a criterionId and a numeric score');
+          }
+        });
+      }
+      if (!Array.isArray(a.peerEvaluations)) {
+        add(`${path}.peerEvaluations`, 'Must be a list');
+      } else {
+        a.peerEvaluations.forEach((pe: unknown, j: number) => {
+          if (!isObject(pe) || !isString(pe.evaluator) || !isString(pe.subject) || !isNumber(pe.score)) {
+            add(`${path}.peerEvaluations[${j}]`, 'Needs an evaluator, subject and numeric score');
+          }
+        });
+      }
+      if (a.markings !== undefined) {
+        if (!isObject(a.markings)) {
+          add(`${path}.markings`, 'Must be an object keyed by assessor id');
+        } else {
+          Object.entries(a.markings).forEach(([assessorId, m]) => {
+            if (!isObject(m) || !isString(m.assessorName) || !Array.isArray(m.entries)) {
+              add(`${path}.markings["${assessorId}"]`, 'Needs an assessorName and a list of entries');
+            }
+          });
+        }
+      }
+      if (a.aiReview !== undefined && (!isObject(a.aiReview) || !Array.isArray(a.aiReview.reasons))) {
+        add(`${path}.aiReview`, 'Needs a list of reasons');
+      }
+      if (a.exemplar !== undefined && (!isObject(a.exemplar) || !isNumber(a.exemplar.markedAt))) {
+        add(`${path}.exemplar`, 'Needs the time it was marked');
+      }
+      if (a.feedbackTranslation !== undefined && (!isObject(a.feedbackTranslation) || !isString(a.feedbackTranslation.language) ||
+          !isString(a.feedbackTranslation.feedback) || !Array.isArray(a.feedbackTranslation.criteria))) {
+        add(`${path}.feedbackTranslation`, 'Needs a language, the translated feedback and a list of criteria');
+      }
+      if (a.integrityNote !== undefined && (!isObject(a.integrityNote) || !isString(a.integrityNote.note) || !isNumber(a.integrityNote.recordedAt))) {
+        add(`${path}.integrityNote`, 'Needs the note and the time it was recorded');
+      }
+      if (a.auditLog !== undefined) {
+        if (!Array.isArray(a.auditLog)) {
+          add(`${path}.auditLog`, 'Must be a list');
+        } else {
+          a.auditLog.forEach((ev: unknown, j: number) => {
+            if (!isObject(ev) || !isString(ev.id) || !isNumber(ev.at) || !isString(ev.action)) {
+              add(`${path}.auditLog[${j}]`, 'Needs an id, timestamp and action');
+            }
+          });
+        }
+      }
+    });
+  }
+
+  return issues;
+};
+
+export const createBackup = (data: WorkspaceData, exportedBy: string, exporterId: string): WorkspaceBackup => ({
+  ...data,
+  metadata: {
+    schemaVersion: CURRENT_BACKUP_VERSION,
+    exportedBy,
+    exporterId,
+    exportId: crypto.randomUUID(),
+    exportedAt: new Date().toISOString()
+  }
+});
+
+// Upgrades and validates raw backup JSON. Never throws for bad content: problems are reported as issues.
+export const parseBackup = (raw: unknown): BackupParseResult => {
+  const emptyMetadata: BackupMetadata = { schemaVersion: 0 };
+  if (!isObject(raw)) {
+    return { data: null, issues: [{ path: '', message: 'Backup is not a JSON object' }], fromVersion: 0, metadata: emptyMetadata };
+  }
+
+  const fromVersion = getBackupVersion(raw);
+  if (fromVersion > CURRENT_BACKUP_VERSION) {
+    return {
+      data: null,
+      issues: [{ path: 'metadata.schemaVersion', message: `Backup was created by a newer version of SmartGrade (v${fromVersion}). Please update the app.` }],
+      fromVersion,
+      metadata: { ...emptyMetadata, schemaVersion: fromVersion }
+    };
+  }
+
+  let migrated: RawObject;
+  try {
+    migrated = migrateBackup(raw);
+  } catch (e) {
+    return { data: null, issues: [{ path: '', message: (e instanceof Error && e.message) || 'Migration failed' }], fromVersion, metadata: emptyMetadata };
+  }
+
+  const issues = validateBackup(migrated);
+  if (issues.length > 0) {
+    return { data: null, issues, fromVersion, metadata: { ...emptyMetadata, ...metadataOf(migrated) } };
+  }
+
+  // Validation has checked the shape the app relies on
+  const backup = migrated as unknown as WorkspaceBackup;
+  const currentRubricId = backup.rubrics.some(r => r.id === backup.currentRubricId)
+    ? backup.currentRubricId
+    : backup.rubrics[0].id;
+
+  return {
+    data: {
+      rubrics: backup.rubrics,
+      assignees: backup.assignees,
+      assessments: backup.assessments,
+      gradeScales: backup.gradeScales,
+      promptTemplates: backup.promptTemplates,
+      currentRubricId
+    },
+    issues,
+    fromVersion,
+    metadata: backup.metadata
+  };
+};
+
+export const formatBackupIssues = (issues: BackupIssue[], limit: number = 10): string => {
+  const lines = issues.slice(0, limit).map(i => `• ${i.path ? `${i.path}: ` : ''}${i.message}`);
+  if (issues.length > limit) lines.push(`…and ${issues.length - limit} more`);
+  return lines.join('\n');
+};
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { BatchItemState, runBatch } from './batchRunner';
+
+const options = { concurrency: 2, maxAttempts: 3, baseDelayMs: 1 };
+
+describe('runBatch', () => {
+  it('returns results in item order and never runs more than `concurrency` at once', async () => {
+    let running = 0;
+    let peak = 0;
+    const results = await runBatch([30, 10, 20, 5], async (ms) => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise(resolve => setTimeout(resolve, ms));
+      running--;
+      return ms * 2;
+    }, options);
+    expect(results.map(r => r.result)).toEqual([60, 20, 40, 10]);
+    expect(results.every(r => r.status === 'success' && r.attempts === 1)).toBe(true);
+    expect(peak).toBe(2);
+  });
+
+  it('retries a failing item and reports the last error once attempts run out', async () => {
+    const calls: Record<string, number> = {};
+    const results = await runBatch(['flaky', 'broken'], async (item) => {
+      calls[item] = (calls[item] || 0) + 1;
+      if (item === 'broken' || calls[item] < 2) throw new Error(`${item} failed`);
+      return 'ok';
+    }, options);
+    expect(results[0]).toMatchObject({ status: 'success', attempts: 2, result: 'ok' });
+    expect(results[0].error).toBeUndefined();
+    expect(results[1]).toMatchObject({ status: 'failed', attempts: 3, error: 'broken failed' });
+    expect(calls).toEqual({ flaky: 2, broken: 3 });
+  });
+
+  it('reports progress for every state change', async () => {
+    const seen: [number, BatchItemState<string>['status']][] = [];
+    await runBatch(['a'], async () => 'done', { ...options, onProgress: (i, s) => seen.push([i, s.status]) });
+    expect(seen).toEqual([[0, 'running'], [0, 'success']]);
+  });
+
+  it('cancels items not yet started and retries waiting when aborted', async () => {
+    const controller = new AbortController();
+    const results = await runBatch([1, 2, 3], async (item) => {
+      if (item === 1) {
+        controller.abort();
+        throw new Error('failed');
+      }
+      return item;
+    }, { concurrency: 1, maxAttempts: 3, baseDelayMs: 60000, signal: controller.signal });
+    expect(results.map(r => r.status)).toEqual(['cancelled', 'cancelled', 'cancelled']);
+    expect(results[0].attempts).toBe(1);
+  });
+});
@@ -0,0 +1,82 @@
+// Runs an async task over many items with bounded concurrency, retries with exponential backoff,
+// progress callbacks and cancellation. Used by batch auto-grading, where each item is one AI call.
+
+export type BatchItemStatus = 'pending' | 'running' | 'retrying' | 'success' | 'failed' | 'cancelled';
+
+export interface BatchItemState<R> {
+  status: BatchItemStatus;
+  attempts: number;
+  result?: R;
+  error?: string;
+}
+
+export interface BatchOptions<R> {
+  concurrency: number;
+  maxAttempts: number;  // Including the first try
+  baseDelayMs: number;  // Backoff before the 2nd attempt; doubles after each failure
+  signal?: AbortSignal; // Stops starting new items and waiting retries; in-flight calls finish
+  onProgress?: (index: number, state: BatchItemState<R>) => void;
+}
+
+// Resolves early (without throwing) when the signal aborts
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>(resolve => {
+  if (signal?.aborted) return resolve();
+  const onAbort = () => {
+    clearTimeout(timer);
+    resolve();
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+export const backoffDelay = (attempt: number, baseDelayMs: number) =>
+  // Jitter keeps parallel workers that failed together from retrying in lockstep
+  baseDelayMs * 2 ** (attempt - 1) * (0.75 + Math.random() * 0.5);
+
+export const runBatch = async <T, R>(
+  items: T[],
+  task: (item: T) => Promise<R>,
+  options: BatchOptions<R>
+): Promise<BatchItemState<R>[]> => {
+  const states: BatchItemState<R>[] = items.map(() => ({ status: 'pending', attempts: 0 }));
+  const update = (index: number, changes: Partial<BatchItemState<R>>) => {
+    states[index] = { ...states[index], ...changes };
+    options.onProgress?.(index, states[index]);
+  };
+
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      if (options.signal?.aborted) {
+        update(index, { status: 'cancelled' });
+        continue;
+      }
+      for (let attempt = 1; attempt <= options.maxAttempts; attempt++) {
+        update(index, { status: attempt === 1 ? 'running' : 'retrying', attempts: attempt });
+        try {
+          update(index, { status: 'success', result: await task(items[index]), error: undefined });
+          break;
+        } catch (e: any) {
+          const error = e?.message || 'Failed';
+          if (attempt === options.maxAttempts) {
+            update(index, { status: 'failed', error });
+            break;
+          }
+          update(index, { status: 'retrying', error });
+          await sleep(backoffDelay(attempt, options.baseDelayMs), options.signal);
+          if (options.signal?.aborted) {
+            update(index, { status: 'cancelled' });
+            break;
+          }
+        }
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(options.concurrency, items.length)) }, worker));
+  return states;
+};
@@ -0,0 +1,115 @@
+import { Assessment, GradeEntry, Rubric } from '../types';
+import { GradingExemplar } from './aiProvider';
+import { getRubricMaxRawScore, getTeacherRawScore } from './gradingEngine';
+
+// Few-shot calibration. A teacher marks graded assessments as exemplars; AI grading for the same
+// rubric then sends a few of them, with the teacher's levels, so the model marks to the
+// department's standard rather than to the rubric text alone. The agreement report measures
+// whether that helps, by grading each exemplar with and without the others and comparing the
+// AI's levels to the teacher's.
+
+export const MAX_EXEMPLARS = 3;          // Sent with each grading request
+export const MAX_EXEMPLAR_CHARS = 2000;  // Per submission, to keep requests small
+export const MAX_AGREEMENT_SAMPLES = 10; // Exemplars graded by one agreement check (two calls each)
+
+export interface CalibrationSample {
+  assessmentId: string;
+  teacher: GradeEntry[];
+  before: GradeEntry[]; // AI levels without exemplars
+  after: GradeEntry[];  // AI levels with the other exemplars
+}
+
+export interface AgreementSummary {
+  ratings: number;   // Criterion ratings compared
+  exact: number;     // Share with the teacher's level (0-1)
+  adjacent: number;  // Share within one level of the teacher's
+  scoreGap: number;  // Mean absolute difference in rubric score, percentage points
+}
+
+// Why an assessment cannot anchor AI grading, or null when it can
+export const getExemplarProblem = (rubric: Rubric, assessment: Assessment): string | null => {
+  if (!assessment.submissionText?.trim()) return 'Needs submission text';
+  if (rubric.criteria.some(c => !assessment.entries.some(e => e.criterionId === c.id && e.levelId))) return 'Grade every criterion first';
+  if (assessment.aiReview) return 'Confirm the AI grades first';
+  return null;
+};
+
+// Rubric points only; peer marks and late penalties are the same for the AI and the teacher
+export const getRubricPercent = (rubric: Rubric, entries: GradeEntry[]) => {
+  const max = getRubricMaxRawScore(rubric);
+  return max > 0 ? (getTeacherRawScore(rubric, entries) / max) * 100 : 0;
+};
+
+export const getExemplarPool = (rubric: Rubric, assessments: Assessment[]): Assessment[] =>
+  assessments
+    .filter(a => a.rubricId === rubric.id && a.exemplar && !getExemplarProblem(rubric, a))
+    // Stable order keeps requests, and so cache keys, the same between runs
+    .sort((a, b) => getRubricPercent(rubric, a.entries) - getRubricPercent(rubric, b.entries) || a.id.localeCompare(b.id));
+
+export const toGradingExemplar = (rubric: Rubric, assessment: Assessment): GradingExemplar => {
+  const text = assessment.submissionText!.trim();
+  return {
+    submissionText: text.length > MAX_EXEMPLAR_CHARS ? `${text.slice(0, MAX_EXEMPLAR_CHARS)}...` : text,
+    ratings: rubric.criteria.map(c => {
+      const levelId = assessment.entries.find(e => e.criterionId === c.id)?.levelId;
+      return { criterionTitle: c.title, levelLabel: c.levels.find(l => l.id === levelId)?.label || '' };
+    })
+  };
+};
+
+// Evenly spaced picks from a list sorted by score, always including both ends
+export const pickSpread = <T>(list: T[], count: number): T[] => {
+  if (list.length <= count) return list;
+  if (count <= 1) return list.slice(0, count);
+  return Array.from({ length: count }, (_, i) => list[Math.round(i * (list.length - 1) / (count - 1))]);
+};
+
+// Up to MAX_EXEMPLARS, spread from the weakest to the strongest so the model sees the whole scale.
+// The assessment being graded is never its own example.
+export const selectExemplars = (rubric: Rubric, assessments: Assessment[], excludeId?: string): GradingExemplar[] =>
+  pickSpread(getExemplarPool(rubric, assessments).filter(a => a.id !== excludeId), MAX_EXEMPLARS)
+    .map(a => toGradingExemplar(rubric, a));
+
+// Levels in score order, so "within one level" means neighbouring scores
+const levelRank = (rubric: Rubric, criterionId: string, levelId?: string) => {
+  const levels = [...(rubric.criteria.find(c => c.id === criterionId)?.levels || [])].sort((a, b) => a.score - b.score);
+  return levels.findIndex(l => l.id === levelId);
+};
+
+const compareEntries = (rubric: Rubric, teacher: GradeEntry[], ai: GradeEntry[], criterionId: string) => {
+  const expected = levelRank(rubric, criterionId, teacher.find(e => e.criterionId === criterionId)?.levelId);
+  const actual = levelRank(rubric, criterionId, ai.find(e => e.criterionId === criterionId)?.levelId);
+  if (expected < 0) return null;
+  // A criterion the AI skipped counts as a disagreement
+  return { exact: actual === expected, adjacent: actual >= 0 && Math.abs(actual - expected) <= 1 };
+};
+
+export const summarizeAgreement = (rubric: Rubric, samples: CalibrationSample[], run: 'before' | 'after'): AgreementSummary => {
+  let ratings = 0, exact = 0, adjacent = 0, gap = 0;
+  samples.forEach(sample => {
+    rubric.criteria.forEach(c => {
+      const result = compareEntries(rubric, sample.teacher, sample[run], c.id);
+      if (!result) return;
+      ratings++;
+      if (result.exact) exact++;
+      if (result.adjacent) adjacent++;
+    });
+    gap += Math.abs(getRubricPercent(rubric, sample[run]) - getRubricPercent(rubric, sample.teacher));
+  });
+  return {
+    ratings,
+    exact: ratings ? exact / ratings : 0,
+    adjacent: ratings ? adjacent / ratings : 0,
+    scoreGap: samples.length ? gap / samples.length : 0
+  };
+};
+
+// Exact agreement per criterion, before and after calibration
+export const criterionAgreement = (rubric: Rubric, samples: CalibrationSample[]) =>
+  rubric.criteria.map(c => {
+    const share = (run: 'before' | 'after') => {
+      const results = samples.map(s => compareEntries(rubric, s.teacher, s[run], c.id)).filter(r => r !== null);
+      return results.length ? results.filter(r => r!.exact).length / results.length : 0;
+    };
+    return { criterion: c, before: share('before'), after: share('after') };
+  });
@@ -0,0 +1,16 @@
+// Conversions between stored dates and <input type="datetime-local"> values, which are in local time
+// without a zone ("2024-05-01T17:00").
+
+export const toDateTimeInputValue = (value?: string | number): string => {
+  if (value === undefined || value === '') return '';
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return '';
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60 * 1000);
+  return local.toISOString().slice(0, 16);
+};
+
+export const fromDateTimeInputValue = (value: string): number | undefined => {
+  if (!value) return undefined;
+  const time = new Date(value).getTime();
+  return isNaN(time) ? undefined : time;
+};
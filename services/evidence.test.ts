@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { anchorEvidence, resolveEvidence, segmentText } from './evidence';
+
+const essay = 'The  Industrial Revolution\nchanged “everything” about work. It also changed cities.';
+
+describe('anchorEvidence', () => {
+  it('finds exact quotes at their offsets', () => {
+    const { spans, missing } = anchorEvidence(essay, ['changed cities']);
+    expect(missing).toEqual([]);
+    expect(spans).toEqual([{ quote: 'changed cities', start: essay.indexOf('changed cities'), end: essay.indexOf('changed cities') + 14 }]);
+  });
+
+  it('matches quotes with different case, whitespace and quotation marks, returning the original text', () => {
+    const { spans } = anchorEvidence(essay, ['"the industrial revolution changed "everything""']);
+    expect(spans).toHaveLength(1);
+    expect(spans[0].quote).toBe('The  Industrial Revolution\nchanged “everything');
+    expect(essay.slice(spans[0].start, spans[0].end)).toBe(spans[0].quote);
+  });
+
+  it('strips the ellipses a model wraps around a quote', () => {
+    expect(anchorEvidence(essay, ['…about work...']).spans[0].quote).toBe('about work');
+  });
+
+  it('rejects quotes that are not in the text or too short to anchor', () => {
+    expect(anchorEvidence(essay, ['changed the world', 'It']).missing).toEqual(['changed the world', 'It']);
+  });
+
+  it('keeps one span for quotes that land on the same text', () => {
+    expect(anchorEvidence(essay, ['changed cities', 'CHANGED CITIES']).spans).toHaveLength(1);
+  });
+});
+
+describe('resolveEvidence', () => {
+  it('moves spans to where their text now is and drops spans whose text was removed', () => {
+    const { spans } = anchorEvidence(essay, ['about work', 'changed cities']);
+    const edited = `Introduction. ${essay.replace('It also changed cities.', '')}`;
+    const resolved = resolveEvidence(edited, spans);
+    expect(resolved).toHaveLength(1);
+    expect(edited.slice(resolved[0].start, resolved[0].end)).toBe('about work');
+  });
+});
+
+describe('segmentText', () => {
+  it('covers the whole text with unmarked pieces when there are no marks', () => {
+    expect(segmentText('abcdef', [])).toEqual([{ start: 0, end: 6, keys: [] }]);
+  });
+
+  it('splits overlapping marks into pieces that list every covering mark', () => {
+    expect(segmentText('abcdefgh', [{ key: 'x', start: 1, end: 5 }, { key: 'y', start: 3, end: 7 }])).toEqual([
+      { start: 0, end: 1, keys: [] },
+      { start: 1, end: 3, keys: ['x'] },
+      { start: 3, end: 5, keys: ['x', 'y'] },
+      { start: 5, end: 7, keys: ['y'] },
+      { start: 7, end: 8, keys: [] }
+    ]);
+  });
+
+  it('ignores offsets outside the text and lists a key once', () => {
+    expect(segmentText('abc', [{ key: 'x', start: 1, end: 10 }, { key: 'x', start: 1, end: 3 }])).toEqual([
+      { start: 0, end: 1, keys: [] },
+      { start: 1, end: 3, keys: ['x'] }
+    ]);
+  });
+});
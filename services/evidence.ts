@@ -0,0 +1,91 @@
+import { EvidenceSpan } from '../types';
+
+// Anchors AI evidence quotes in the submission text. Models rarely copy text exactly (curly quotes,
+// re-flowed whitespace, changed case), so matching is done on a normalized copy that remembers
+// where each character came from. Quotes that still cannot be found are rejected, never guessed.
+
+const MIN_QUOTE_LENGTH = 3;
+
+const normalizeChar = (ch: string) => {
+  if (/[‘’‛`]/.test(ch)) return "'";
+  if (/[“”‟]/.test(ch)) return '"';
+  if (/[–—]/.test(ch)) return '-';
+  return ch.toLowerCase();
+};
+
+// Lower-cased text with whitespace runs collapsed, plus the original index of every kept character
+const normalize = (text: string) => {
+  let value = '';
+  const positions: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    if (/\s/.test(text[i])) {
+      if (value && !value.endsWith(' ')) {
+        value += ' ';
+        positions.push(i);
+      }
+      continue;
+    }
+    value += normalizeChar(text[i]);
+    positions.push(i);
+  }
+  return { value, positions };
+};
+
+// Surrounding quotation marks and ellipses are the model's, not the student's
+const cleanQuote = (quote: string) => quote.trim().replace(/^["'“‘.…\s]+|["'”’.…\s]+$/g, '');
+
+export const locateQuote = (text: string, quote: string): EvidenceSpan | null => {
+  const cleaned = cleanQuote(quote);
+  if (cleaned.length < MIN_QUOTE_LENGTH) return null;
+
+  const exact = text.indexOf(cleaned);
+  if (exact >= 0) return { quote: cleaned, start: exact, end: exact + cleaned.length };
+
+  const haystack = normalize(text);
+  const needle = normalize(cleaned).value;
+  const found = haystack.value.indexOf(needle);
+  if (found < 0) return null;
+  const start = haystack.positions[found];
+  const end = haystack.positions[found + needle.length - 1] + 1;
+  return { quote: text.slice(start, end), start, end };
+};
+
+export const anchorEvidence = (text: string, quotes: string[]): { spans: EvidenceSpan[]; missing: string[] } => {
+  const spans: EvidenceSpan[] = [];
+  const missing: string[] = [];
+  quotes.forEach(quote => {
+    const span = locateQuote(text, quote);
+    if (!span) missing.push(quote);
+    else if (!spans.some(s => s.start === span.start && s.end === span.end)) spans.push(span);
+  });
+  return { spans, missing };
+};
+
+// Stored offsets go stale when the submission is edited; spans are re-found by their text or dropped
+export const resolveEvidence = (text: string, spans: EvidenceSpan[] = []): EvidenceSpan[] =>
+  spans.flatMap(span => {
+    if (text.slice(span.start, span.end) === span.quote) return [span];
+    const moved = locateQuote(text, span.quote);
+    return moved ? [moved] : [];
+  });
+
+export interface TextSegment {
+  start: number;
+  end: number;
+  keys: string[]; // Which highlights cover this piece, in the order they were given
+}
+
+// Splits the text at every highlight boundary so overlapping highlights can be rendered
+export const segmentText = (text: string, marks: { key: string; start: number; end: number }[]): TextSegment[] => {
+  const cuts = Array.from(new Set([0, text.length, ...marks.flatMap(m => [m.start, m.end])]))
+    .filter(i => i >= 0 && i <= text.length)
+    .sort((a, b) => a - b);
+  const segments: TextSegment[] = [];
+  for (let i = 0; i < cuts.length - 1; i++) {
+    const start = cuts[i];
+    const end = cuts[i + 1];
+    const keys = marks.filter(m => m.start <= start && m.end >= end).map(m => m.key);
+    segments.push({ start, end, keys: Array.from(new Set(keys)) });
+  }
+  return segments;
+};
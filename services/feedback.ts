@@ -0,0 +1,77 @@
+import { FeedbackStyle, GradeEntry, Rubric } from '../types';
+import { FeedbackResult } from './aiProvider';
+
+// AI feedback: a comment and a next step per criterion, plus an overall summary with the next steps
+// that matter most. The criterion parts are stored on the grade entries; the summary becomes the
+// assessment's overall feedback. The teacher sets the style per assignment.
+
+export const DEFAULT_FEEDBACK_STYLE: FeedbackStyle = {
+  tone: 'encouraging',
+  length: 'standard',
+  readingLevel: 'secondary',
+  person: 'second'
+};
+
+export const FEEDBACK_STYLE_OPTIONS: { [K in keyof FeedbackStyle]: { label: string; options: Record<FeedbackStyle[K], string> } } = {
+  tone: { label: 'Tone', options: { encouraging: 'Encouraging', neutral: 'Neutral', direct: 'Direct' } },
+  length: { label: 'Length', options: { brief: 'Brief', standard: 'Standard', detailed: 'Detailed' } },
+  readingLevel: { label: 'Reading level', options: { primary: 'Primary school', secondary: 'Secondary school', university: 'University' } },
+  person: { label: 'Address', options: { second: 'You (2nd person)', third: 'By name (3rd person)' } }
+};
+
+export const resolveFeedbackStyle = (rubric?: Rubric): FeedbackStyle => ({ ...DEFAULT_FEEDBACK_STYLE, ...rubric?.feedbackStyle });
+
+const TONE_TEXT: Record<FeedbackStyle['tone'], string> = {
+  encouraging: 'Use a warm, encouraging tone that recognises effort as well as results.',
+  neutral: 'Use a neutral, professional tone.',
+  direct: 'Be direct and to the point; name weaknesses plainly, without softening.'
+};
+
+const LENGTH_TEXT: Record<FeedbackStyle['length'], string> = {
+  brief: 'Keep each criterion comment to one sentence and the summary under 50 words.',
+  standard: 'Keep each criterion comment to two or three sentences and the summary under 100 words.',
+  detailed: 'Write up to five sentences per criterion comment and a summary of up to 150 words.'
+};
+
+const READING_TEXT: Record<FeedbackStyle['readingLevel'], string> = {
+  primary: 'Write for a primary school reader: short sentences and everyday words.',
+  secondary: 'Write for a secondary school reader, and explain any subject terms you use.',
+  university: 'Write for a university student; subject terminology is fine.'
+};
+
+// One instruction per setting, as prompt variables
+export const describeFeedbackStyle = (style: FeedbackStyle, studentName: string) => ({
+  tone: TONE_TEXT[style.tone],
+  length: LENGTH_TEXT[style.length],
+  reading_level: READING_TEXT[style.readingLevel],
+  person: style.person === 'second'
+    ? 'Address the student directly as "you".'
+    : `Write about the student in the third person, by name ("${studentName}"), as a report would.`
+});
+
+// Overall feedback text: the summary, then the next steps as a list
+export const formatOverallFeedback = (result: FeedbackResult) => {
+  const steps = (result.nextSteps || []).map(s => s.trim()).filter(Boolean);
+  const summary = (result.summary || '').trim();
+  return steps.length > 0 ? `${summary}\n\nNext steps:\n${steps.map(s => `- ${s}`).join('\n')}` : summary;
+};
+
+const sameText = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// Criterion comments replace those on the graded entries they name; criteria without an entry are skipped
+export const applyAiFeedback = (rubric: Rubric, entries: GradeEntry[], result: FeedbackResult): GradeEntry[] =>
+  entries.map(entry => {
+    const criterion = rubric.criteria.find(c => c.id === entry.criterionId);
+    const item = criterion && (result.criteria || []).find(i => sameText(i.criterionTitle || '', criterion.title));
+    const feedback = item?.feedback?.trim();
+    if (!feedback) return entry;
+    const nextStep = item?.nextStep?.trim();
+    return { ...entry, feedback, nextStep: nextStep || undefined, feedbackSource: 'AI' as const };
+  });
+
+// Feedback carried over when an entry's level is replaced. AI comments describe the level they
+// were written for, so they go when it changes; a person's comments stay.
+export const keepFeedback = (previous: GradeEntry | undefined, sameLevel: boolean): Partial<GradeEntry> =>
+  previous && (previous.feedback || previous.nextStep) && (previous.feedbackSource !== 'AI' || sameLevel)
+    ? { feedback: previous.feedback, nextStep: previous.nextStep, feedbackSource: previous.feedbackSource }
+    : {};
@@ -1,82 +1,158 @@
-import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { Rubric } from '../types';
+import { PromptRun, PromptTemplate, Rubric } from '../types';
+import {
+  AiProvider, AiSettings, AiTask, DEFAULT_MODELS, FeedbackRequest, FeedbackResult, GradingExemplar, GradingResult, RubricDraft, RubricReviewIssue,
+  TokenUsage, UsageListener, buildGradingPrompt, buildRubricReviewPrompt, loadAiSettings
+} from './aiProvider';
+import { AiCacheOptions, withAiCache } from './aiCache';
+import { AiCallOutcome, AiCallRecord, estimateTokens, getBudgetStatus, recordAiCall } from './aiUsage';
+import { getCourseKey } from './gradeScales';
+import { resolveFeedbackStyle } from './feedback';
+import { resolvePrompt, toPromptRun } from './promptTemplates';
+import { createAiProxyProvider } from './aiProxyProvider';
+import { createOpenAiCompatibleProvider } from './openAiCompatibleProvider';
+import { createMockAiProvider } from './mockAiProvider';
 
-// Lazy initialization to prevent app crash if API key is missing at load time
-let aiInstance: GoogleGenAI | null = null;
+// AI features used by the components. Each call goes to the provider selected in the AI settings,
+// so the grading flows work the same against Gemini, a local model, or the offline provider.
+// Gemini is reached through the ai-proxy function, which needs the signed-in user's session.
+// Prompts come from the rubric's override, the workspace's templates, or the built-in text.
+// Grading and file extraction results are cached on this device (see aiCache).
+// Providers validate every structured reply before returning it, so unusable output never reaches
+// the caller or the cache (see aiValidation).
+// Every call is metered against the signed-in user and checked against their budget (see aiUsage).
 
-const getAi = () => {
-  if (!aiInstance) {
-    // Fallback to empty string to prevent constructor error, API calls will fail gracefully later
-    const key = process.env.API_KEY || ''; 
-    aiInstance = new GoogleGenAI({ apiKey: key });
-  }
-  return aiInstance;
+let sessionToken = '';
+let usageUserId = '';
+let workspaceTemplates: PromptTemplate[] = [];
+
+// Called on sign-in and sign-out
+export const setAiSessionToken = (token: string) => {
+  sessionToken = token;
+};
+
+// Called on sign-in and sign-out; usage is recorded against this user
+export const setAiUsageUser = (userId: string) => {
+  usageUserId = userId;
+};
+
+// Called whenever the workspace's prompt templates change
+export const setWorkspacePromptTemplates = (templates: PromptTemplate[]) => {
+  workspaceTemplates = templates;
+};
+
+// A grading result together with the prompt version that produced it
+export type GradedSubmission = GradingResult & {
+  promptRun: PromptRun;
+  cachedAt?: number; // Set when an earlier identical result was reused
+};
+
+// Cache control plus the assignment a call is made for, which usage is grouped by
+export interface AiCallOptions extends AiCacheOptions {
+  rubric?: Rubric;
+}
+
+export interface AutoGradeOptions extends AiCacheOptions {
+  exemplars?: GradingExemplar[]; // Teacher-graded anchors for this rubric (see calibration)
 }
 
-// Schema definitions for structured output
-const rubricSchema: Schema = {
-  type: Type.OBJECT,
-  properties: {
-    title: { type: Type.STRING, description: "Title of the rubric" },
-    description: { type: Type.STRING, description: "Short description of the assignment" },
-    criteria: {
-      type: Type.ARRAY,
-      items: {
-        type: Type.OBJECT,
-        properties: {
-          title: { type: Type.STRING, description: "Criterion title, e.g., 'Clarity'" },
-          description: { type: Type.STRING, description: "What this criterion measures" },
-          weight: { type: Type.NUMBER, description: "Weight of this criterion (default 1)" },
-          levels: {
-            type: Type.ARRAY,
-            items: {
-              type: Type.OBJECT,
-              properties: {
-                label: { type: Type.STRING, description: "Level name (e.g., Excellent)" },
-                score: { type: Type.NUMBER, description: "Points for this level" },
-                description: { type: Type.STRING, description: "Description of performance at this level" }
-              },
-              required: ["label", "score", "description"]
-            }
-          }
-        },
-        required: ["title", "description", "levels", "weight"]
-      }
-    }
-  },
-  required: ["title", "criteria", "description"]
+export const createAiProvider = (settings: AiSettings, onUsage?: UsageListener): AiProvider => {
+  switch (settings.provider) {
+    case 'openai': return createOpenAiCompatibleProvider(settings, onUsage);
+    case 'mock': return createMockAiProvider();
+    default: return createAiProxyProvider(settings, sessionToken, onUsage);
+  }
 };
 
-// Schema for grading result
-const gradingSchema: Schema = {
-  type: Type.OBJECT,
-  properties: {
-    ratings: {
-      type: Type.ARRAY,
-      items: {
-        type: Type.OBJECT,
-        properties: {
-          criterionTitle: { type: Type.STRING, description: "The exact title of the criterion from the rubric" },
-          levelLabel: { type: Type.STRING, description: "The exact label of the selected level" },
-          explanation: { type: Type.STRING, description: "Why this level was chosen" }
-        },
-        required: ["criterionTitle", "levelLabel"]
-      }
-    },
-    feedback: { type: Type.STRING, description: "Overall feedback for the student" }
-  },
-  required: ["ratings", "feedback"]
+const describeCall = (settings: AiSettings, task: AiTask, rubric?: Rubric) =>
+  (outcome: AiCallOutcome, details: Partial<AiCallRecord> = {}): AiCallRecord => ({
+    at: Date.now(),
+    task,
+    provider: settings.provider,
+    model: `${settings.provider}/${settings.model || DEFAULT_MODELS[settings.provider]}`,
+    course: rubric ? getCourseKey(rubric) : '',
+    outcome,
+    inputTokens: 0,
+    outputTokens: 0,
+    estimated: false,
+    latencyMs: 0,
+    ...details
+  });
+
+// For providers that report no token counts. File contents are left out: what they cost depends
+// on the file, not on the length of their base64 text.
+const estimateUsage = (request: object, result: unknown) => ({
+  inputTokens: estimateTokens(JSON.stringify(request, (key, value) => key === 'base64Data' ? '' : value)),
+  outputTokens: estimateTokens(typeof result === 'string' ? result : JSON.stringify(result) || ''),
+  estimated: true
+});
+
+// Checks the user's budget, then makes one provider call and records its tokens, latency and outcome.
+// Settings are read on every call so changes apply without a reload.
+const meteredCall = async <T>(
+  task: AiTask,
+  request: object,
+  rubric: Rubric | undefined,
+  call: (provider: AiProvider) => Promise<T>,
+  settings: AiSettings = loadAiSettings()
+): Promise<T> => {
+  const describe = describeCall(settings, task, rubric);
+  const budget = getBudgetStatus(usageUserId);
+  if (budget.blocked) {
+    recordAiCall(usageUserId, describe('blocked'));
+    throw new Error(budget.message);
+  }
+
+  // Summed, since a reply that fails validation is asked for again
+  let usage: TokenUsage | undefined;
+  const provider = createAiProvider(settings, (reported) => {
+    usage = usage
+      ? { inputTokens: usage.inputTokens + reported.inputTokens, outputTokens: usage.outputTokens + reported.outputTokens }
+      : reported;
+  });
+  const startedAt = Date.now();
+  try {
+    const result = await call(provider);
+    recordAiCall(usageUserId, describe('success', { at: startedAt, latencyMs: Date.now() - startedAt, ...(usage || estimateUsage(request, result)) }));
+    return result;
+  } catch (error: any) {
+    recordAiCall(usageUserId, describe('error', { at: startedAt, latencyMs: Date.now() - startedAt, ...usage, error: error?.message }));
+    throw error;
+  }
 };
 
-// Helper function to enrich raw JSON with IDs
-const enrichRubricData = (data: any): Partial<Rubric> => {
+// A metered call behind the cache. The model is part of every key, so switching provider or model
+// never reuses another model's answer. Hits are recorded too, at no token cost.
+const cachedCall = async <T>(
+  task: AiTask,
+  request: object,
+  keyParts: Record<string, unknown>,
+  call: (provider: AiProvider) => Promise<T>,
+  options: AiCallOptions = {}
+) => {
+  const { rubric, ...cacheOptions } = options;
+  const settings = loadAiSettings();
+  const model = {
+    provider: settings.provider,
+    name: settings.model || DEFAULT_MODELS[settings.provider],
+    baseUrl: settings.provider === 'openai' ? settings.baseUrl : undefined
+  };
+  const result = await withAiCache(task, { model, ...keyParts }, () => meteredCall(task, request, rubric, call, settings), {
+    ...cacheOptions,
+    enabled: settings.cacheResults !== false
+  });
+  if (result.cachedAt) recordAiCall(usageUserId, describeCall(settings, task, rubric)('cached'));
+  return result;
+};
+
+// Helper function to enrich validated JSON with IDs
+const enrichRubricData = (data: RubricDraft): Partial<Rubric> => {
   return {
     ...data,
     id: crypto.randomUUID(),
-    criteria: data.criteria.map((c: any) => ({
+    criteria: data.criteria.map(c => ({
       ...c,
       id: crypto.randomUUID(),
-      levels: c.levels.map((l: any) => ({
+      levels: c.levels.map(l => ({
         ...l,
         id: crypto.randomUUID()
       }))
@@ -85,176 +161,142 @@ const enrichRubricData = (data: any): Partial<Rubric> => {
 };
 
 export const generateRubricWithAI = async (
-    topic: string, 
-    gradeLevel: string, 
+    topic: string,
+    gradeLevel: string,
     context?: { brief?: string, plos?: string[], clos?: string[] },
-    numCriteria: number = 4
+    numCriteria: number = 4,
+    rubric?: Rubric // The assignment being drafted, for its prompt override
 ): Promise<Partial<Rubric>> => {
   try {
-    let prompt = `Create a grading rubric for a "${topic}" assignment for ${gradeLevel} students. 
-    It should have approximately ${numCriteria} main criteria. 
-    Each criterion should have 4 levels of performance (e.g., Excellent, Good, Fair, Needs Improvement).`;
-
-    if (context) {
-        prompt += `\n\nEnsure the rubric aligns with the following context:`;
-        
-        if (context.brief) {
-            prompt += `\n\nAssignment Brief:\n"${context.brief}"`;
-        }
-        
-        if (context.plos && context.plos.length > 0) {
-            prompt += `\n\nProgram Learning Outcomes (PLOs):\n${context.plos.map(p => `- ${p}`).join('\n')}`;
-        }
-        
-        if (context.clos && context.clos.length > 0) {
-            prompt += `\n\nCourse Learning Outcomes (CLOs):\n${context.clos.map(c => `- ${c}`).join('\n')}`;
-        }
-
-        prompt += `\n\nThe criteria must explicitly address the learning outcomes and the requirements in the brief.`;
-    }
-
-    const response = await getAi().models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: rubricSchema,
-        systemInstruction: "You are an expert pedagogical consultant helping teachers create fair, aligned, and detailed rubrics based on specific learning outcomes."
-      }
-    });
-
-    const text = response.text;
-    if (!text) throw new Error("No response from AI");
-
-    const data = JSON.parse(text);
+    const { system, prompt } = resolvePrompt('rubric', rubric, workspaceTemplates);
+    const request = { topic, gradeLevel, context, numCriteria, template: { system, prompt } };
+    const data = await meteredCall('generateRubric', request, rubric, p => p.generateRubric(request));
     return enrichRubricData(data);
-
   } catch (error) {
     console.error("Error generating rubric:", error);
     throw error;
   }
 };
 
-export const extractRubricFromMedia = async (base64Data: string, mimeType: string): Promise<Partial<Rubric>> => {
+export const extractRubricFromMedia = async (base64Data: string, mimeType: string, options?: AiCallOptions): Promise<Partial<Rubric>> => {
   try {
-    const prompt = "Analyze this document and extract the grading rubric into a structured JSON format. Identify the title, description, criteria, weight, and detailed performance levels (label, score, description) for each criterion.";
-
-    const response = await getAi().models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: {
-        parts: [
-          { inlineData: { mimeType, data: base64Data } },
-          { text: prompt }
-        ]
-      },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: rubricSchema,
-        systemInstruction: "You are an expert pedagogical consultant helping teachers digitize their existing rubrics."
-      }
-    });
-
-    const text = response.text;
-    if (!text) throw new Error("No response from AI");
-
-    const data = JSON.parse(text);
-    return enrichRubricData(data);
-
+    const media = { base64Data, mimeType };
+    const extract = (p: AiProvider) => p.extractRubric(media);
+    const { value } = await cachedCall('extractRubric', media, media, extract, options);
+    return enrichRubricData(value);
   } catch (error) {
     console.error("Error extracting rubric:", error);
     throw error;
   }
 };
 
-export const extractSubmissionText = async (base64Data: string, mimeType: string): Promise<string> => {
+export const extractSubmissionText = async (base64Data: string, mimeType: string, options?: AiCallOptions): Promise<string> => {
   try {
-    const prompt = "Extract all readable text from this document. Return only the text content.";
-
-    const response = await getAi().models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: {
-        parts: [
-          { inlineData: { mimeType, data: base64Data } },
-          { text: prompt }
-        ]
-      }
-    });
-
-    return response.text || "";
+    const media = { base64Data, mimeType };
+    const extract = async (p: AiProvider) => {
+      const text = await p.extractText(media);
+      if (typeof text !== 'string') throw new Error('The AI returned no text for this file.');
+      return text;
+    };
+    const { value } = await cachedCall('extractText', media, media, extract, options);
+    return value;
   } catch (error) {
     console.error("Error extracting text:", error);
     throw error;
   }
 };
 
+// Written in the rubric's feedback style; throws when the provider fails or its reply is unusable
 export const generateFeedbackWithAI = async (
   assigneeName: string,
   rubricTitle: string,
-  criteriaResults: { criterion: string; level: string; description: string }[]
-): Promise<string> => {
+  criteriaResults: FeedbackRequest['criteriaResults'],
+  rubric?: Rubric
+): Promise<FeedbackResult> => {
   try {
-    const inputs = criteriaResults.map(c => 
-      `- ${c.criterion}: ${c.level} (${c.description})`
-    ).join('\n');
-
-    const prompt = `Write constructive, encouraging, and specific feedback for student "${assigneeName}" for the assignment "${rubricTitle}".
-    
-    Here is their performance breakdown:
-    ${inputs}
-    
-    Keep the tone professional yet supportive. Address the student directly (2nd person). Limit to 100 words.`;
+    const { system, prompt } = resolvePrompt('feedback', rubric, workspaceTemplates);
+    const request: FeedbackRequest = {
+      assigneeName,
+      rubricTitle,
+      criteriaResults,
+      context: rubric && { subject: rubric.subject, brief: rubric.assignmentBrief, clos: rubric.clos },
+      template: { system, prompt },
+      style: resolveFeedbackStyle(rubric)
+    };
+    return await meteredCall('generateFeedback', request, rubric, p => p.generateFeedback(request));
+  } catch (error) {
+    console.error("Error generating feedback:", error);
+    throw error;
+  }
+};
 
-    const response = await getAi().models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: prompt,
-    });
+// Translations of the given texts, in order. Cached like grading: the same texts and language
+// are not translated twice.
+export const translateFeedbackWithAI = async (texts: string[], language: string, rubric?: Rubric): Promise<string[]> => {
+  try {
+    const request = { texts, language };
+    const translate = async (p: AiProvider) => (await p.translateFeedback(request)).texts;
+    const { value } = await cachedCall('translateFeedback', request, request, translate, { rubric });
+    return value;
+  } catch (error) {
+    console.error("Error translating feedback:", error);
+    throw error;
+  }
+};
 
-    return response.text || "Could not generate feedback.";
+// The AI's findings on a rubric's wording and coverage. Keyed on the rendered prompt, so an unchanged
+// rubric is not reviewed twice unless `forceRefresh` is set.
+export const reviewRubricWithAI = async (rubric: Rubric, options: AiCacheOptions = {}): Promise<{ issues: RubricReviewIssue[]; cachedAt?: number }> => {
+  try {
+    const request = { rubric };
+    const review = (p: AiProvider) => p.reviewRubric(request);
+    const { value, cachedAt } = await cachedCall('reviewRubric', request, { prompt: buildRubricReviewPrompt(request) }, review, { ...options, rubric });
+    return { issues: value.issues, ...(cachedAt ? { cachedAt } : {}) };
   } catch (error) {
-    console.error("Error generating feedback:", error);
-    return "Error generating AI feedback.";
+    console.error("Error reviewing rubric:", error);
+    throw error;
   }
 };
 
 export const autoGradeWithAI = async (
   rubric: Rubric,
-  submissionText: string
-): Promise<{ ratings: { criterionTitle: string; levelLabel: string; explanation?: string }[]; feedback: string }> => {
+  submissionText: string,
+  assigneeName?: string,
+  options: AutoGradeOptions = {}
+): Promise<GradedSubmission> => {
   try {
-    const rubricContext = {
-      title: rubric.title,
-      criteria: rubric.criteria.map(c => ({
-        title: c.title,
-        description: c.description,
-        levels: c.levels.map(l => ({ label: l.label, description: l.description }))
-      }))
-    };
-
-    const prompt = `You are a fair and strict grader. Evaluate the student submission based on the following rubric.
-    
-    Rubric:
-    ${JSON.stringify(rubricContext, null, 2)}
-    
-    Student Submission:
-    "${submissionText}"
-    
-    For each criterion, select the Level Label that best matches the submission quality. Provide a brief explanation. Also provide overall feedback.`;
-
-    const response = await getAi().models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: gradingSchema
-      }
-    });
-
-    const text = response.text;
-    if (!text) throw new Error("No response from AI");
-
-    return JSON.parse(text);
+    const { exemplars = [], ...cacheOptions } = options;
+    const resolved = resolvePrompt('grading', rubric, workspaceTemplates);
+    const request = { rubric, submissionText, assigneeName, template: { system: resolved.system, prompt: resolved.prompt }, exemplars };
+    // The rendered prompt holds the template, rubric and submission. Criteria are keyed as well, so
+    // editing a level always re-grades, even with a custom template that leaves {{rubric}} out.
+    const criteria = rubric.criteria.map(c => ({
+      title: c.title,
+      weight: c.weight,
+      levels: c.levels.map(l => ({ label: l.label, score: l.score, description: l.description }))
+    }));
+    const { value, cachedAt } = await cachedCall(
+      'gradeSubmission',
+      request,
+      { prompt: buildGradingPrompt(request), criteria },
+      p => p.gradeSubmission(request),
+      { ...cacheOptions, rubric }
+    );
+    const promptRun = { ...toPromptRun('grading', resolved), ...(exemplars.length > 0 ? { exemplars: exemplars.length } : {}) };
+    return { ...value, promptRun, ...(cachedAt ? { cachedAt } : {}) };
   } catch (error) {
     console.error("Error auto-grading:", error);
     throw error;
   }
-};
\ No newline at end of file
+};
+
+// Round trip used by the settings panel's "Test" button; throws with the provider's error message
+export const testAiProvider = async (settings: AiSettings): Promise<string> => {
+  const request = {
+    assigneeName: 'Test Student',
+    rubricTitle: 'Connection Check',
+    criteriaResults: [{ criterion: 'Clarity', level: 'Good', description: 'Clear and well organised' }]
+  };
+  const reply = await meteredCall('generateFeedback', request, undefined, p => p.generateFeedback(request), settings);
+  return reply.summary;
+};
@@ -0,0 +1,75 @@
+import { GradeBoundary, GradeScale, Rubric } from '../types';
+
+// Letter grades and GPA points on top of the 0-100 assignment score from gradingEngine.
+// A rubric uses its own `gradeScaleId` when set, otherwise the scale its course is attached to.
+
+export interface LetterGrade {
+  letter: string;
+  gpa: number;
+  scaleName: string;
+}
+
+// Starting points offered when creating a scale; users edit the copies freely
+export const PRESET_GRADE_SCALES: Omit<GradeScale, 'id'>[] = [
+  {
+    name: 'Letter A+ to F (4.0)',
+    boundaries: [
+      { letter: 'A+', minPercent: 90, gpa: 4.0 },
+      { letter: 'A', minPercent: 85, gpa: 4.0 },
+      { letter: 'A-', minPercent: 80, gpa: 3.7 },
+      { letter: 'B+', minPercent: 75, gpa: 3.3 },
+      { letter: 'B', minPercent: 70, gpa: 3.0 },
+      { letter: 'B-', minPercent: 65, gpa: 2.7 },
+      { letter: 'C+', minPercent: 60, gpa: 2.3 },
+      { letter: 'C', minPercent: 55, gpa: 2.0 },
+      { letter: 'C-', minPercent: 50, gpa: 1.7 },
+      { letter: 'D', minPercent: 45, gpa: 1.0 },
+      { letter: 'F', minPercent: 0, gpa: 0 }
+    ]
+  },
+  {
+    name: 'Simple A to F (4.0)',
+    boundaries: [
+      { letter: 'A', minPercent: 80, gpa: 4.0 },
+      { letter: 'B', minPercent: 70, gpa: 3.0 },
+      { letter: 'C', minPercent: 60, gpa: 2.0 },
+      { letter: 'D', minPercent: 50, gpa: 1.0 },
+      { letter: 'F', minPercent: 0, gpa: 0 }
+    ]
+  }
+];
+
+// Same grouping the Subject view uses for courses
+export const getCourseKey = (rubric: Rubric): string =>
+  rubric.subject && rubric.subject.trim() ? rubric.subject.trim().toUpperCase() : 'NO SUBJECT';
+
+export const getCourseScale = (rubric: Rubric, scales: GradeScale[]): GradeScale | undefined => {
+  const course = getCourseKey(rubric);
+  return scales.find(s => s.courses?.includes(course));
+};
+
+export const resolveGradeScale = (rubric: Rubric, scales: GradeScale[]): GradeScale | undefined =>
+  (rubric.gradeScaleId ? scales.find(s => s.id === rubric.gradeScaleId) : undefined) || getCourseScale(rubric, scales);
+
+export const sortBoundaries = (boundaries: GradeBoundary[]): GradeBoundary[] =>
+  [...boundaries].sort((a, b) => b.minPercent - a.minPercent);
+
+export const getLetterGrade = (scale: GradeScale | undefined, percent: number): LetterGrade | null => {
+  if (!scale) return null;
+  // Rounded to 2 decimals first so 89.995 is not denied an A+ by floating point noise
+  const score = Math.round(percent * 100) / 100;
+  const boundary = sortBoundaries(scale.boundaries).find(b => score >= b.minPercent);
+  return boundary ? { letter: boundary.letter, gpa: boundary.gpa, scaleName: scale.name } : null;
+};
+
+// Problems that make a scale ambiguous, shown while editing
+export const validateGradeScale = (scale: GradeScale): string[] => {
+  const problems: string[] = [];
+  if (!scale.name.trim()) problems.push('Give the scale a name.');
+  if (scale.boundaries.length === 0) problems.push('Add at least one grade.');
+  if (scale.boundaries.some(b => !b.letter.trim())) problems.push('Every grade needs a letter.');
+  const mins = scale.boundaries.map(b => b.minPercent);
+  if (new Set(mins).size !== mins.length) problems.push('Two grades share the same minimum score.');
+  if (scale.boundaries.length > 0 && Math.min(...mins) > 0) problems.push('No grade covers scores down to 0%.');
+  return problems;
+};
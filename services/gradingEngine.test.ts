@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'vitest';
+import { Assessment, Rubric } from '../types';
+import { applyLatePenalty, computeScore, getLateStatus, recalculateAssessment } from './gradingEngine';
+
+const rubric = (overrides: Partial<Rubric> = {}): Rubric => ({
+  id: 'r1',
+  title: 'Essay',
+  description: '',
+  passingPercentage: 50,
+  criteria: [
+    {
+      id: 'c1', title: 'Content', description: '', weight: 2,
+      levels: [{ id: 'c1-high', label: 'High', score: 4, description: '' }, { id: 'c1-low', label: 'Low', score: 1, description: '' }]
+    },
+    {
+      id: 'c2', title: 'Style', description: '', weight: 1,
+      levels: [{ id: 'c2-high', label: 'High', score: 4, description: '' }, { id: 'c2-low', label: 'Low', score: 1, description: '' }]
+    }
+  ],
+  ...overrides
+});
+
+const assessment = (entries: Assessment['entries'], overrides: Partial<Assessment> = {}): Assessment => ({
+  id: 'r1_s1',
+  rubricId: 'r1',
+  assigneeId: 's1',
+  entries,
+  totalScore: 0,
+  maxScore: 100,
+  feedback: '',
+  locked: false,
+  lastUpdated: 0,
+  ...overrides
+});
+
+const DAY = 24 * 60 * 60 * 1000;
+const DUE = '2026-03-01T12:00:00.000Z';
+const dueAt = Date.parse(DUE);
+
+describe('computeScore', () => {
+  it('weights criterion scores', () => {
+    // Content High (4 x 2) + Style Low (1 x 1) out of (4 x 2) + (4 x 1)
+    const score = computeScore(rubric(), assessment([
+      { criterionId: 'c1', levelId: 'c1-high', score: 4 },
+      { criterionId: 'c2', levelId: 'c2-low', score: 1 }
+    ]));
+    expect(score.teacherRawScore).toBe(9);
+    expect(score.teacherMaxRawScore).toBe(12);
+    expect(score.totalScore).toBeCloseTo(75);
+  });
+
+  it('counts missing entries as zero', () => {
+    const score = computeScore(rubric(), assessment([{ criterionId: 'c2', levelId: 'c2-high', score: 4 }]));
+    expect(score.totalScore).toBeCloseTo(100 / 3);
+    expect(computeScore(rubric()).totalScore).toBe(0);
+  });
+
+  it('passes at exactly the pass mark', () => {
+    const half = assessment([{ criterionId: 'c1', levelId: 'c1-high', score: 4 }, { criterionId: 'c2', levelId: 'c2-low', score: 1 }]);
+    expect(computeScore(rubric({ passingPercentage: 75 }), half).passed).toBe(true);
+    expect(computeScore(rubric({ passingPercentage: 76 }), half).passed).toBe(false);
+  });
+
+  it('gives peer reviews their share on group assignments only', () => {
+    const full = assessment(
+      [{ criterionId: 'c1', levelId: 'c1-high', score: 4 }, { criterionId: 'c2', levelId: 'c2-high', score: 4 }],
+      { peerEvaluations: [{ id: 'p1', evaluator: 'a', subject: 'b', score: 50, feedback: '' }] }
+    );
+    expect(computeScore(rubric({ type: 'group', peerEvalWeight: 20 }), full).totalScore).toBeCloseTo(90);
+    expect(computeScore(rubric({ peerEvalWeight: 20 }), full).totalScore).toBeCloseTo(100);
+  });
+
+  it('applies the late penalty to the total', () => {
+    const late = assessment(
+      [{ criterionId: 'c1', levelId: 'c1-high', score: 4 }, { criterionId: 'c2', levelId: 'c2-high', score: 4 }],
+      { submittedAt: dueAt + 2 * DAY - 1000 }
+    );
+    const score = computeScore(rubric({ dueDate: DUE, latePenalty: { percentPerDay: 10 } }), late);
+    expect(score.daysLate).toBe(2);
+    expect(score.latePenalty).toBeCloseTo(20);
+    expect(score.totalScore).toBeCloseTo(80);
+  });
+});
+
+describe('getLateStatus', () => {
+  it('counts any started day and honours the grace period', () => {
+    const r = rubric({ dueDate: DUE, latePenalty: { graceMinutes: 10 } });
+    expect(getLateStatus(r, assessment([], { submittedAt: dueAt + 9 * 60 * 1000 })).daysLate).toBe(0);
+    expect(getLateStatus(r, assessment([], { submittedAt: dueAt + 11 * 60 * 1000 })).daysLate).toBe(1);
+  });
+
+  it('uses the assignee extension over the due date', () => {
+    const r = rubric({ dueDate: DUE, extensions: { s1: new Date(dueAt + 3 * DAY).toISOString() } });
+    const status = getLateStatus(r, assessment([], { submittedAt: dueAt + 2 * DAY }));
+    expect(status).toEqual({ dueAt: dueAt + 3 * DAY, extended: true, daysLate: 0 });
+  });
+
+  it('is never late without a due date or a submission time', () => {
+    expect(getLateStatus(rubric(), assessment([], { submittedAt: dueAt })).daysLate).toBe(0);
+    expect(getLateStatus(rubric({ dueDate: DUE }), assessment([])).daysLate).toBe(0);
+  });
+});
+
+describe('applyLatePenalty', () => {
+  it('takes points per day and never goes below zero', () => {
+    const r = rubric({ latePenalty: { percentPerDay: 30 } });
+    expect(applyLatePenalty(r, 80, 1)).toBe(50);
+    expect(applyLatePenalty(r, 80, 4)).toBe(0);
+    expect(applyLatePenalty(r, 80, 0)).toBe(80);
+  });
+
+  it('caps late work at the pass mark without raising a lower score', () => {
+    const r = rubric({ passingPercentage: 60, latePenalty: { capAtPass: true } });
+    expect(applyLatePenalty(r, 90, 1)).toBe(60);
+    expect(applyLatePenalty(r, 40, 1)).toBe(40);
+  });
+
+  it('scores zero after the zero-score cutoff', () => {
+    const r = rubric({ latePenalty: { percentPerDay: 5, zeroAfterDays: 3 } });
+    expect(applyLatePenalty(r, 90, 3)).toBe(75);
+    expect(applyLatePenalty(r, 90, 4)).toBe(0);
+  });
+});
+
+describe('recalculateAssessment', () => {
+  it('drops entries for removed criteria, back-fills scores and recomputes the total', () => {
+    const stale = assessment([
+      { criterionId: 'c1', levelId: 'c1-high' } as Assessment['entries'][number],
+      { criterionId: 'removed', levelId: 'x', score: 10 }
+    ], { totalScore: 12, maxScore: 40 });
+    const result = recalculateAssessment(rubric(), stale);
+    expect(result.entries).toEqual([{ criterionId: 'c1', levelId: 'c1-high', score: 4 }]);
+    expect(result.totalScore).toBeCloseTo(200 / 3);
+    expect(result.maxScore).toBe(100);
+    expect(result.peerEvaluations).toEqual([]);
+  });
+});
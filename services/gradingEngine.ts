@@ -0,0 +1,140 @@
+import { Assessment, GradeEntry, PeerEvaluation, Rubric } from '../types';
+
+// Single source of truth for assessment scoring.
+// Every view (Grader header, Results table, CSV exports) must go through these helpers
+// so that the numbers shown to teachers and students can never drift apart.
+
+export interface ScoreBreakdown {
+  teacherRawScore: number;    // Sum of weighted criterion scores
+  teacherMaxRawScore: number; // Sum of weighted criterion max scores
+  teacherWeight: number;      // % of the assignment graded by the rubric
+  peerWeight: number;         // % of the assignment graded by peers
+  teacherComponent: number;   // 0 - teacherWeight
+  peerAverage: number | null; // 0 - 100, null when peer eval does not apply
+  peerComponent: number;      // 0 - peerWeight
+  daysLate: number;           // 0 when on time, not submitted or there is no due date
+  latePenalty: number;        // Points taken off the 0 - 100 score by the late policy
+  totalScore: number;         // 0 - 100, after the late penalty
+  passed: boolean;
+}
+
+export interface LateStatus {
+  dueAt: number | null;       // Effective deadline, including any extension
+  extended: boolean;
+  daysLate: number;
+}
+
+// Peer evaluation only counts towards group assignments
+export const getPeerEvalWeight = (rubric: Rubric): number =>
+  (rubric.type === 'group' ? rubric.peerEvalWeight : 0) || 0;
+
+export const getRubricMaxRawScore = (rubric: Rubric): number =>
+  rubric.criteria.reduce((acc, c) =>
+    acc + (Math.max(0, ...(c.levels?.map(l => l.score) || [0])) * (c.weight ?? 1)), 0
+  );
+
+// Drops entries for criteria that were removed from the rubric and back-fills missing scores from the level
+export const normalizeEntries = (rubric: Rubric, entries: GradeEntry[]): GradeEntry[] =>
+  entries
+    .filter(entry => rubric.criteria.some(c => c.id === entry.criterionId))
+    .map(entry => {
+      if (entry.score !== undefined) return entry;
+      const criterion = rubric.criteria.find(c => c.id === entry.criterionId);
+      const level = criterion?.levels.find(l => l.id === entry.levelId);
+      return { ...entry, score: level ? level.score : 0 };
+    });
+
+export const getTeacherRawScore = (rubric: Rubric, entries: GradeEntry[]): number =>
+  normalizeEntries(rubric, entries).reduce((acc, e) => {
+    const c = rubric.criteria.find(crit => crit.id === e.criterionId);
+    return acc + (e.score * (c?.weight ?? 1));
+  }, 0);
+
+// Average peer score (0-100). When a member is given only reviews about that member count.
+// Returns 0 when nobody has reviewed yet: missing peer reviews never award free marks.
+export const getPeerAverage = (peerEvaluations: PeerEvaluation[] = [], member?: string): number => {
+  const relevant = member ? peerEvaluations.filter(pe => pe.subject === member) : peerEvaluations;
+  if (relevant.length === 0) return 0;
+  return relevant.reduce((s, e) => s + e.score, 0) / relevant.length;
+};
+
+export const isPassingScore = (rubric: Rubric, totalScore: number): boolean =>
+  totalScore >= (rubric.passingPercentage ?? 50);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Deadline for one assignee: their extension when granted, otherwise the assignment due date
+export const getDueDate = (rubric: Rubric, assigneeId?: string): { dueAt: number | null; extended: boolean } => {
+  const extension = assigneeId ? rubric.extensions?.[assigneeId] : undefined;
+  const due = extension || rubric.dueDate;
+  const dueAt = due ? Date.parse(due) : NaN;
+  return { dueAt: isNaN(dueAt) ? null : dueAt, extended: !!extension };
+};
+
+// Whole days late, counting any started day (1 minute late after the grace period = 1 day)
+export const getLateStatus = (rubric: Rubric, assessment?: Assessment): LateStatus => {
+  const { dueAt, extended } = getDueDate(rubric, assessment?.assigneeId);
+  if (dueAt === null || !assessment?.submittedAt) return { dueAt, extended, daysLate: 0 };
+  const graceMs = (rubric.latePenalty?.graceMinutes || 0) * 60 * 1000;
+  const lateMs = assessment.submittedAt - dueAt - graceMs;
+  return { dueAt, extended, daysLate: lateMs > 0 ? Math.ceil(lateMs / DAY_MS) : 0 };
+};
+
+// Score after the rubric's late policy, on the 0 - 100 scale
+export const applyLatePenalty = (rubric: Rubric, score: number, daysLate: number): number => {
+  const policy = rubric.latePenalty;
+  if (!policy || daysLate <= 0) return score;
+  let result = score - (policy.percentPerDay || 0) * daysLate;
+  if (policy.capAtPass) result = Math.min(result, rubric.passingPercentage ?? 50);
+  if (policy.zeroAfterDays !== undefined && daysLate > policy.zeroAfterDays) result = 0;
+  return Math.max(0, Math.min(score, result));
+};
+
+export const computeScore = (rubric: Rubric, assessment?: Assessment, member?: string): ScoreBreakdown => {
+  const peerWeight = getPeerEvalWeight(rubric);
+  const teacherWeight = 100 - peerWeight;
+
+  const teacherMaxRawScore = getRubricMaxRawScore(rubric);
+  const teacherRawScore = assessment ? getTeacherRawScore(rubric, assessment.entries) : 0;
+  const teacherComponent = teacherMaxRawScore > 0
+    ? (teacherRawScore / teacherMaxRawScore) * teacherWeight
+    : 0;
+
+  const peerAverage = peerWeight > 0 ? getPeerAverage(assessment?.peerEvaluations, member) : null;
+  const peerComponent = peerAverage !== null ? (peerAverage / 100) * peerWeight : 0;
+
+  const scoreBeforePenalty = teacherComponent + peerComponent;
+  const { daysLate } = getLateStatus(rubric, assessment);
+  const totalScore = applyLatePenalty(rubric, scoreBeforePenalty, daysLate);
+
+  return {
+    teacherRawScore,
+    teacherMaxRawScore,
+    teacherWeight,
+    peerWeight,
+    teacherComponent,
+    peerAverage,
+    peerComponent,
+    daysLate,
+    latePenalty: scoreBeforePenalty - totalScore,
+    totalScore,
+    passed: isPassingScore(rubric, totalScore)
+  };
+};
+
+// Scales a 0-100 assignment score to its contribution towards the course grade
+export const toCourseScore = (rubric: Rubric, score: number): number =>
+  (score * (rubric.assignmentWeight ?? 100)) / 100;
+
+// Returns the assessment with entries cleaned up and totals recomputed (always normalised to 100)
+export const recalculateAssessment = (rubric: Rubric, assessment: Assessment): Assessment => {
+  const entries = normalizeEntries(rubric, assessment.entries);
+  const { totalScore } = computeScore(rubric, { ...assessment, entries });
+  return {
+    ...assessment,
+    entries,
+    peerEvaluations: assessment.peerEvaluations || [],
+    totalScore,
+    maxScore: 100
+  };
+};
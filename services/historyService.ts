@@ -0,0 +1,161 @@
+import { WorkspaceData } from '../types';
+
+// Undo/redo history for workspace edits.
+// Entries store record-level patches (before/after of only the records an edit touched) rather than
+// whole-workspace snapshots, so undoing a score change never rolls back unrelated data such as a sync.
+
+interface RecordPatch<T> {
+  id: string;
+  before: T | null; // null = record did not exist
+  after: T | null;  // null = record was deleted
+  index: number;    // Position in the list before the edit, used to restore deleted records in place
+}
+
+export interface HistoryEntry {
+  label: string;
+  at: number;
+  mergeKey?: string;
+  rubrics: RecordPatch<WorkspaceData['rubrics'][number]>[];
+  assignees: RecordPatch<WorkspaceData['assignees'][number]>[];
+  assessments: RecordPatch<WorkspaceData['assessments'][string]>[];
+  gradeScales: RecordPatch<WorkspaceData['gradeScales'][number]>[];
+  promptTemplates: RecordPatch<WorkspaceData['promptTemplates'][number]>[];
+  currentRubricId?: { before: string; after: string };
+}
+
+export interface HistoryState {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+export const EMPTY_HISTORY: HistoryState = { past: [], future: [] };
+
+const HISTORY_LIMIT = 100;
+// Consecutive edits with the same merge key (e.g. typing feedback) within this window become one step
+const MERGE_WINDOW_MS = 1500;
+
+const diffList = <T extends { id: string }>(before: T[], after: T[]): RecordPatch<T>[] => {
+  const beforeById = new Map(before.map((r, i) => [r.id, { r, i }]));
+  const afterById = new Map(after.map(r => [r.id, r]));
+  const patches: RecordPatch<T>[] = [];
+
+  before.forEach((r, index) => {
+    const next = afterById.get(r.id);
+    if (next !== r) patches.push({ id: r.id, before: r, after: next || null, index });
+  });
+  after.forEach((r, index) => {
+    if (!beforeById.has(r.id)) patches.push({ id: r.id, before: null, after: r, index });
+  });
+  return patches;
+};
+
+export const createHistoryEntry = (label: string, before: WorkspaceData, after: WorkspaceData, mergeKey?: string): HistoryEntry | null => {
+  const entry: HistoryEntry = {
+    label,
+    at: Date.now(),
+    mergeKey,
+    rubrics: diffList(before.rubrics, after.rubrics),
+    assignees: diffList(before.assignees, after.assignees),
+    assessments: diffList(Object.values(before.assessments), Object.values(after.assessments)),
+    gradeScales: diffList(before.gradeScales, after.gradeScales),
+    promptTemplates: diffList(before.promptTemplates, after.promptTemplates),
+    currentRubricId: before.currentRubricId !== after.currentRubricId
+      ? { before: before.currentRubricId, after: after.currentRubricId }
+      : undefined
+  };
+  const isEmpty = !entry.rubrics.length && !entry.assignees.length && !entry.assessments.length && !entry.gradeScales.length && !entry.promptTemplates.length && !entry.currentRubricId;
+  return isEmpty ? null : entry;
+};
+
+const mergePatches = <T>(older: RecordPatch<T>[], newer: RecordPatch<T>[]): RecordPatch<T>[] => {
+  const result = [...older];
+  newer.forEach(p => {
+    const existing = result.findIndex(o => o.id === p.id);
+    if (existing >= 0) result[existing] = { ...result[existing], after: p.after };
+    else result.push(p);
+  });
+  return result;
+};
+
+export const recordHistory = (history: HistoryState, entry: HistoryEntry): HistoryState => {
+  const last = history.past[history.past.length - 1];
+  if (last && entry.mergeKey && last.mergeKey === entry.mergeKey && entry.at - last.at < MERGE_WINDOW_MS) {
+    const merged: HistoryEntry = {
+      ...last,
+      at: entry.at,
+      rubrics: mergePatches(last.rubrics, entry.rubrics),
+      assignees: mergePatches(last.assignees, entry.assignees),
+      assessments: mergePatches(last.assessments, entry.assessments),
+      gradeScales: mergePatches(last.gradeScales, entry.gradeScales),
+      promptTemplates: mergePatches(last.promptTemplates, entry.promptTemplates),
+      currentRubricId: last.currentRubricId || entry.currentRubricId
+        ? { before: (last.currentRubricId || entry.currentRubricId)!.before, after: (entry.currentRubricId || last.currentRubricId)!.after }
+        : undefined
+    };
+    return { past: [...history.past.slice(0, -1), merged], future: [] };
+  }
+  return { past: [...history.past, entry].slice(-HISTORY_LIMIT), future: [] };
+};
+
+const applyList = <T extends { id: string }>(list: T[], patches: RecordPatch<T>[], direction: 'undo' | 'redo'): T[] => {
+  let result = [...list];
+  // Undo walks the patches backwards so that re-inserted records land at their original index
+  const ordered = direction === 'undo' ? [...patches].reverse() : patches;
+  ordered.forEach(p => {
+    const target = direction === 'undo' ? p.before : p.after;
+    const at = result.findIndex(r => r.id === p.id);
+    if (target === null) {
+      if (at >= 0) result = result.filter(r => r.id !== p.id);
+    } else if (at >= 0) {
+      result[at] = target;
+    } else {
+      result.splice(Math.min(p.index, result.length), 0, target);
+    }
+  });
+  return result;
+};
+
+export const applyHistoryEntry = (workspace: WorkspaceData, entry: HistoryEntry, direction: 'undo' | 'redo'): WorkspaceData => {
+  const assessments = { ...workspace.assessments };
+  entry.assessments.forEach(p => {
+    const target = direction === 'undo' ? p.before : p.after;
+    if (target) assessments[p.id] = target;
+    else delete assessments[p.id];
+  });
+
+  const rubrics = applyList(workspace.rubrics, entry.rubrics, direction);
+  let currentRubricId = workspace.currentRubricId;
+  if (entry.currentRubricId) {
+    currentRubricId = direction === 'undo' ? entry.currentRubricId.before : entry.currentRubricId.after;
+  }
+  if (!rubrics.some(r => r.id === currentRubricId) && rubrics.length > 0) {
+    currentRubricId = rubrics[0].id;
+  }
+
+  return {
+    rubrics,
+    assignees: applyList(workspace.assignees, entry.assignees, direction),
+    assessments,
+    gradeScales: applyList(workspace.gradeScales, entry.gradeScales, direction),
+    promptTemplates: applyList(workspace.promptTemplates, entry.promptTemplates, direction),
+    currentRubricId
+  };
+};
+
+export const undoHistory = (history: HistoryState, workspace: WorkspaceData): { history: HistoryState; workspace: WorkspaceData } | null => {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return null;
+  return {
+    history: { past: history.past.slice(0, -1), future: [entry, ...history.future] },
+    workspace: applyHistoryEntry(workspace, entry, 'undo')
+  };
+};
+
+export const redoHistory = (history: HistoryState, workspace: WorkspaceData): { history: HistoryState; workspace: WorkspaceData } | null => {
+  const entry = history.future[0];
+  if (!entry) return null;
+  return {
+    history: { past: [...history.past, entry], future: history.future.slice(1) },
+    workspace: applyHistoryEntry(workspace, entry, 'redo')
+  };
+};
@@ -0,0 +1,182 @@
+import { AI_PROVIDER_LABELS, AiProvider, MediaInput, RubricDraft, RubricReviewIssue } from './aiProvider';
+import {
+  requireValid, validateFeedbackResult, validateGradingResult, validateRubricDraft, validateRubricReview, validateTranslationResult
+} from './aiValidation';
+
+// Offline provider for development and testing without network access or an API key.
+// Output depends only on the input, so the same submission always gets the same grade.
+
+// Submissions this long (in words) count as fully developed
+const FULL_LENGTH_WORDS = 300;
+
+const DEFAULT_CRITERIA = [
+  { title: 'Content & Understanding', description: 'Accuracy and depth of the ideas presented' },
+  { title: 'Organization', description: 'Logical structure and flow of the work' },
+  { title: 'Use of Evidence', description: 'Support of claims with relevant sources and examples' },
+  { title: 'Language & Style', description: 'Clarity, grammar and appropriate academic tone' },
+  { title: 'Critical Thinking', description: 'Analysis, evaluation and original insight' },
+  { title: 'Presentation', description: 'Formatting, referencing and adherence to the brief' }
+];
+
+const LEVELS = [
+  { label: 'Excellent', score: 4, quality: 'consistently exceeds expectations' },
+  { label: 'Good', score: 3, quality: 'meets expectations with minor gaps' },
+  { label: 'Fair', score: 2, quality: 'partially meets expectations' },
+  { label: 'Needs Improvement', score: 1, quality: 'does not yet meet expectations' }
+];
+
+const draftRubric = (title: string, description: string, count: number): RubricDraft => ({
+  title,
+  description,
+  criteria: DEFAULT_CRITERIA.slice(0, Math.max(1, Math.min(count, DEFAULT_CRITERIA.length))).map(c => ({
+    title: c.title,
+    description: c.description,
+    weight: 1,
+    levels: LEVELS.map(l => ({ label: l.label, score: l.score, description: `${c.description} ${l.quality}.` }))
+  }))
+});
+
+const decodeText = (media: MediaInput) =>
+  new TextDecoder().decode(Uint8Array.from(atob(media.base64Data), c => c.charCodeAt(0)));
+
+const words = (text: string) => text.toLowerCase().match(/[a-z0-9']+/g) || [];
+
+const keywordsOf = (text: string) => new Set(words(text).filter(w => w.length >= 4));
+
+// Words that say how well without saying what that looks like
+const VAGUE_WORDS = ['good', 'adequate', 'some', 'appropriate', 'satisfactory', 'sufficient'];
+
+const offlineProvider: AiProvider = {
+  id: 'mock',
+  label: AI_PROVIDER_LABELS.mock,
+
+  generateRubric: async ({ topic, gradeLevel, numCriteria }) =>
+    draftRubric(topic || 'Untitled Assignment', `Sample rubric for ${gradeLevel} students, generated offline.`, numCriteria),
+
+  extractRubric: async (media) =>
+    draftRubric('Imported Rubric', `Sample rubric extracted offline from a ${media.mimeType} file.`, 4),
+
+  extractText: async (media) =>
+    media.mimeType.startsWith('text/')
+      ? decodeText(media)
+      : `[Offline provider] Text extraction is not available for ${media.mimeType} files.`,
+
+  generateFeedback: async ({ assigneeName, rubricTitle, criteriaResults, style }) => {
+    const second = style?.person !== 'third';
+    const subject = second ? 'You' : assigneeName;
+    if (criteriaResults.length === 0) {
+      return { criteria: [], summary: `No criteria have been graded yet for "${rubricTitle}".`, nextSteps: [] };
+    }
+    const list = (items: string[]) => items.join(', ');
+    const strengths = criteriaResults.filter((_, i) => i % 2 === 0).map(c => c.criterion);
+    const next = criteriaResults.filter((_, i) => i % 2 === 1).map(c => c.criterion);
+    return {
+      criteria: criteriaResults.map(c => ({
+        criterionTitle: c.criterion,
+        feedback: `${subject} reached the ${c.level} level: ${c.description || 'see the rubric for what this means'}.`,
+        nextStep: `Compare ${second ? 'your' : 'the'} work with the next level up for ${c.criterion}.`
+      })),
+      summary: `${second ? `${assigneeName}, thank you for your` : `${assigneeName} submitted`} work on "${rubricTitle}". ` +
+        `The work on ${list(strengths)} shows clear effort.` +
+        (next.length ? ` ${second ? 'To improve further, focus' : `To improve further, ${assigneeName} should focus`} on ${list(next)}.` : ''),
+      nextSteps: next.slice(0, 3).map(c => `Work on ${c}.`)
+    };
+  },
+
+  // Marks the text instead of translating it, so the flow can be tried offline
+  translateFeedback: async ({ texts, language }) => ({ texts: texts.map(t => `[${language}] ${t}`) }),
+
+  // Flags vague words, criteria that share most of their key words, and outcomes no criterion mentions
+  reviewRubric: async ({ rubric }) => {
+    const issues: RubricReviewIssue[] = [];
+    rubric.criteria.forEach(c => {
+      const vague = c.levels.filter(l => words(l.description).some(w => VAGUE_WORDS.includes(w)));
+      const example = vague.length > 0 && VAGUE_WORDS.find(w => words(vague[0].description).some(v => v === w));
+      if (example) {
+        issues.push({
+          category: 'vague',
+          criterionTitle: c.title,
+          problem: `${vague.map(l => `"${l.label}"`).join(', ')} rel${vague.length === 1 ? 'ies' : 'y'} on words like "${example}" without saying what they look like.`,
+          rewrites: vague.map(l => ({
+            criterionTitle: c.title,
+            levelLabel: l.label,
+            field: 'description' as const,
+            value: `${c.description || c.title}: name two observable features of work at the ${l.label} level.`
+          }))
+        });
+      }
+    });
+    rubric.criteria.forEach((a, i) => rubric.criteria.slice(i + 1).forEach(b => {
+      const first = keywordsOf(`${a.title} ${a.description}`);
+      const second = keywordsOf(`${b.title} ${b.description}`);
+      const shared = Array.from(first).filter(w => second.has(w));
+      if (shared.length > 0 && shared.length * 2 >= Math.min(first.size, second.size)) {
+        issues.push({ category: 'overlap', criterionTitle: b.title, problem: `Shares "${shared.join('", "')}" with "${a.title}", so both may assess the same thing.` });
+      }
+    }));
+    const assessed = keywordsOf(rubric.criteria.map(c => `${c.title} ${c.description} ${c.levels.map(l => l.description).join(' ')}`).join(' '));
+    const template = rubric.criteria[0]?.levels || [];
+    [...(rubric.clos || []), ...(rubric.plos || [])].filter(o => o.trim()).forEach(outcome => {
+      const terms = Array.from(keywordsOf(outcome));
+      if (terms.length === 0 || terms.some(w => assessed.has(w))) return;
+      const title = outcome.trim().slice(0, 60);
+      issues.push({
+        category: 'coverage',
+        problem: `No criterion assesses the outcome "${outcome.trim()}".`,
+        rewrites: [
+          { criterionTitle: title, field: 'description', value: `Demonstrates: ${outcome.trim()}` },
+          ...template.map(l => ({ criterionTitle: title, levelLabel: l.label, field: 'description' as const, value: `${l.label} evidence of ${outcome.trim()}.` }))
+        ]
+      });
+    });
+    return { issues };
+  },
+
+  // Scores each criterion from how many of its key words the submission mentions and how developed it is
+  gradeSubmission: async ({ rubric, submissionText }) => {
+    const submissionWords = words(submissionText);
+    const vocabulary = new Set(submissionWords);
+    const lengthFactor = Math.min(1, submissionWords.length / FULL_LENGTH_WORDS);
+    const sentences = submissionText.split(/(?<=[.!?])\s+|\n+/).map(s => s.trim()).filter(Boolean);
+
+    const ratings = rubric.criteria.filter(c => c.levels.length > 0).map(c => {
+      const keywords = Array.from(new Set(words(`${c.title} ${c.description}`).filter(w => w.length >= 4)));
+      const matched = keywords.filter(w => vocabulary.has(w)).length;
+      const coverage = keywords.length ? matched / keywords.length : lengthFactor;
+      const quality = submissionWords.length === 0 ? 0 : (coverage + lengthFactor) / 2;
+      const levels = [...c.levels].sort((a, b) => b.score - a.score);
+      const position = (1 - quality) * (levels.length - 1);
+      const level = levels[Math.round(position)];
+      // Least sure halfway between two levels; an empty submission is certain
+      const confidence = submissionWords.length === 0 ? 1 : 0.5 + Math.abs(position - Math.floor(position) - 0.5);
+      return {
+        criterionTitle: c.title,
+        levelLabel: level.label,
+        explanation: `Offline estimate: ${matched} of ${keywords.length} key terms mentioned, ${submissionWords.length} words.`,
+        confidence: Math.round(confidence * 100) / 100,
+        evidence: sentences.filter(s => words(s).some(w => keywords.includes(w))).slice(0, 2)
+      };
+    });
+
+    return {
+      ratings,
+      feedback: submissionWords.length === 0
+        ? 'No submission text was provided, so every criterion received the lowest level.'
+        : `This offline assessment is based on length (${submissionWords.length} words) and coverage of the rubric's key terms. Review each criterion before releasing grades.`
+    };
+  }
+};
+
+// Held to the same checks as replies from a model (see createCompletionProvider), so callers get
+// validated results from every provider
+export const createMockAiProvider = (): AiProvider => ({
+  ...offlineProvider,
+  generateRubric: async (request) => requireValid('generateRubric', validateRubricDraft(await offlineProvider.generateRubric(request))),
+  extractRubric: async (media) => requireValid('extractRubric', validateRubricDraft(await offlineProvider.extractRubric(media))),
+  generateFeedback: async (request) => requireValid('generateFeedback',
+    validateFeedbackResult(await offlineProvider.generateFeedback(request), request.criteriaResults.map(c => c.criterion))),
+  translateFeedback: async (request) => requireValid('translateFeedback',
+    validateTranslationResult(await offlineProvider.translateFeedback(request), request.texts.length)),
+  reviewRubric: async (request) => requireValid('reviewRubric', validateRubricReview(await offlineProvider.reviewRubric(request), request.rubric)),
+  gradeSubmission: async (request) => requireValid('gradeSubmission', validateGradingResult(await offlineProvider.gradeSubmission(request), request.rubric))
+});
@@ -0,0 +1,242 @@
+import { Assessment, AssessorMarking, GradeEntry, Rubric, WorkspaceData } from '../types';
+import { BackupMetadata } from './backupService';
+import { getTeacherRawScore } from './gradingEngine';
+
+// Double marking: inter-rater agreement between assessors' independent markings, and reconciliation
+// of those markings into the final `entries` of an assessment.
+
+export interface Marker {
+  id: string;
+  name: string;
+}
+
+export interface CriterionAgreement {
+  criterionId: string;
+  pairs: number;          // Students marked by both assessors on this criterion
+  exactAgreement: number; // 0-1
+  meanAbsDifference: number;
+  kappa: number | null;
+}
+
+export interface ModerationReport {
+  markers: [Marker, Marker];
+  criteria: CriterionAgreement[];
+  overallKappa: number | null;
+  icc: number | null;     // ICC(2,1) on rubric scores, across every assessor with complete marks
+  iccSubjects: number;
+}
+
+// Scores this far apart (or more) on one criterion are flagged for the moderator
+export const DISAGREEMENT_THRESHOLD = 2;
+
+// Landis & Koch bands, shown next to kappa and ICC values
+export const describeAgreement = (value: number | null): string => {
+  if (value === null) return 'Not enough data';
+  if (value < 0) return 'Poor';
+  if (value <= 0.2) return 'Slight';
+  if (value <= 0.4) return 'Fair';
+  if (value <= 0.6) return 'Moderate';
+  if (value <= 0.8) return 'Substantial';
+  return 'Almost perfect';
+};
+
+export const getMarkers = (assessments: Assessment[]): Marker[] => {
+  const byId = new Map<string, Marker>();
+  assessments.forEach(a => Object.values(a.markings || {}).forEach(m => {
+    byId.set(m.assessorId, { id: m.assessorId, name: m.assessorName });
+  }));
+  return Array.from(byId.values()).sort((a, b) => a.name.localeCompare(b.name));
+};
+
+const scoreFor = (marking: AssessorMarking | undefined, criterionId: string): number | undefined =>
+  marking?.entries.find(e => e.criterionId === criterionId)?.score;
+
+// Unweighted Cohen's kappa over paired category labels (here: the awarded scores)
+export const cohensKappa = (pairs: [string, string][]): number | null => {
+  if (pairs.length === 0) return null;
+  const n = pairs.length;
+  const observed = pairs.filter(([a, b]) => a === b).length / n;
+  const countsA = new Map<string, number>();
+  const countsB = new Map<string, number>();
+  pairs.forEach(([a, b]) => {
+    countsA.set(a, (countsA.get(a) || 0) + 1);
+    countsB.set(b, (countsB.get(b) || 0) + 1);
+  });
+  let expected = 0;
+  countsA.forEach((count, category) => { expected += (count / n) * ((countsB.get(category) || 0) / n); });
+  if (expected === 1) return observed === 1 ? 1 : null;
+  return (observed - expected) / (1 - expected);
+};
+
+// ICC(2,1): two-way random effects, absolute agreement, single rater.
+// `ratings` has one row per subject and one column per rater, with no gaps.
+export const intraclassCorrelation = (ratings: number[][]): number | null => {
+  const n = ratings.length;
+  const k = ratings[0]?.length || 0;
+  if (n < 2 || k < 2) return null;
+
+  const grandMean = ratings.flat().reduce((s, x) => s + x, 0) / (n * k);
+  const rowMeans = ratings.map(row => row.reduce((s, x) => s + x, 0) / k);
+  const colMeans = Array.from({ length: k }, (_, j) => ratings.reduce((s, row) => s + row[j], 0) / n);
+
+  const ssRows = k * rowMeans.reduce((s, m) => s + (m - grandMean) ** 2, 0);
+  const ssCols = n * colMeans.reduce((s, m) => s + (m - grandMean) ** 2, 0);
+  const ssTotal = ratings.flat().reduce((s, x) => s + (x - grandMean) ** 2, 0);
+  const ssError = ssTotal - ssRows - ssCols;
+
+  const msRows = ssRows / (n - 1);
+  const msCols = ssCols / (k - 1);
+  const msError = ssError / ((n - 1) * (k - 1));
+
+  const denominator = msRows + (k - 1) * msError + (k * (msCols - msError)) / n;
+  if (denominator === 0) return ssTotal === 0 ? 1 : null;
+  return (msRows - msError) / denominator;
+};
+
+export const buildModerationReport = (
+  rubric: Rubric,
+  assessments: Assessment[],
+  markers: [Marker, Marker],
+  allMarkers: Marker[]
+): ModerationReport => {
+  const [a, b] = markers;
+  const allPairs: [string, string][] = [];
+
+  const criteria = rubric.criteria.map(criterion => {
+    const pairs: [number, number][] = [];
+    assessments.forEach(assessment => {
+      const scoreA = scoreFor(assessment.markings?.[a.id], criterion.id);
+      const scoreB = scoreFor(assessment.markings?.[b.id], criterion.id);
+      if (scoreA !== undefined && scoreB !== undefined) pairs.push([scoreA, scoreB]);
+    });
+    const labels = pairs.map(([x, y]) => [String(x), String(y)] as [string, string]);
+    allPairs.push(...labels);
+    return {
+      criterionId: criterion.id,
+      pairs: pairs.length,
+      exactAgreement: pairs.length ? pairs.filter(([x, y]) => x === y).length / pairs.length : 0,
+      meanAbsDifference: pairs.length ? pairs.reduce((s, [x, y]) => s + Math.abs(x - y), 0) / pairs.length : 0,
+      kappa: cohensKappa(labels)
+    };
+  });
+
+  // ICC uses only students every assessor has fully marked
+  const complete = (marking?: AssessorMarking) =>
+    !!marking && rubric.criteria.every(c => scoreFor(marking, c.id) !== undefined);
+  const rows = assessments
+    .filter(assessment => allMarkers.every(m => complete(assessment.markings?.[m.id])))
+    .map(assessment => allMarkers.map(m => getTeacherRawScore(rubric, assessment.markings![m.id].entries)));
+
+  return {
+    markers,
+    criteria,
+    overallKappa: cohensKappa(allPairs),
+    icc: intraclassCorrelation(rows),
+    iccSubjects: rows.length
+  };
+};
+
+const markedScores = (assessment: Assessment, criterionId: string): number[] =>
+  Object.values(assessment.markings || {})
+    .map(m => scoreFor(m, criterionId))
+    .filter((s): s is number => s !== undefined);
+
+// Largest gap between assessors on one criterion of one assessment (0 when fewer than two marked it)
+export const getCriterionSpread = (assessment: Assessment, criterionId: string): number => {
+  const scores = markedScores(assessment, criterionId);
+  return scores.length < 2 ? 0 : Math.max(...scores) - Math.min(...scores);
+};
+
+export const getMeanMark = (assessment: Assessment, criterionId: string): number | undefined => {
+  const scores = markedScores(assessment, criterionId);
+  if (scores.length === 0) return undefined;
+  return Math.round((scores.reduce((s, x) => s + x, 0) / scores.length) * 2) / 2; // Nearest half point
+};
+
+// Builds a final entry for an agreed score, pointing at the closest rubric level
+export const toAgreedEntry = (rubric: Rubric, criterionId: string, score: number): GradeEntry | null => {
+  const criterion = rubric.criteria.find(c => c.id === criterionId);
+  if (!criterion) return null;
+  const closest = [...criterion.levels].sort((x, y) => Math.abs(x.score - score) - Math.abs(y.score - score))[0];
+  return { criterionId, levelId: closest?.id || 'unknown', score };
+};
+
+// Final entries for criteria where at least two assessors gave the same score, or the mean of
+// whatever marks exist when `useMean` is set. Other criteria keep their current final entry.
+export const reconcileMarkings = (rubric: Rubric, assessment: Assessment, useMean: boolean): GradeEntry[] => {
+  const entries = [...assessment.entries];
+  rubric.criteria.forEach(criterion => {
+    const scores = markedScores(assessment, criterion.id);
+    const agreed = scores.length >= 2 && getCriterionSpread(assessment, criterion.id) === 0;
+    if (!scores.length || (!useMean && !agreed)) return;
+    const entry = toAgreedEntry(rubric, criterion.id, getMeanMark(assessment, criterion.id)!);
+    if (!entry) return;
+    const existing = entries.findIndex(e => e.criterionId === criterion.id);
+    if (existing >= 0) entries[existing] = entry;
+    else entries.push(entry);
+  });
+  return entries;
+};
+
+// The assessor a backup's final grades are filed under. Display names are role labels that several
+// assessors share, so the id comes from the exporting user, or from the export itself for backups
+// that do not record one.
+export const getBackupMarker = (metadata: BackupMetadata, fileName: string): Marker => {
+  const name = metadata.exportedBy || fileName;
+  if (metadata.exporterId) return { id: `import:${metadata.exporterId}`, name: `${name} (${metadata.exporterId})` };
+  return { id: `import:${metadata.exportId || `${name}@${metadata.exportedAt || ''}`}`, name };
+};
+
+// Assessors whose existing marks an import would overwrite with different ones
+export const findReplacedMarkers = (assessments: Record<string, Assessment>, updates: Assessment[]): Marker[] => {
+  const byId = new Map<string, Marker>();
+  updates.forEach(update => Object.values(update.markings || {}).forEach(m => {
+    const existing = assessments[update.id]?.markings?.[m.assessorId];
+    if (existing && JSON.stringify(existing.entries) !== JSON.stringify(m.entries)) {
+      byId.set(m.assessorId, { id: m.assessorId, name: existing.assessorName });
+    }
+  }));
+  return Array.from(byId.values());
+};
+
+// Pulls another assessor's marks for this assignment out of their backup file.
+// Their markings are copied as-is; their final grades become a marking under `exporter`.
+// The other workspace may have its own copy of the rubric, so it is matched by title and subject too.
+export const collectImportedMarkings = (
+  rubric: Rubric,
+  assessments: Record<string, Assessment>,
+  imported: WorkspaceData,
+  exporter: Marker
+): Assessment[] => {
+  const source = imported.rubrics.find(r => r.id === rubric.id) ||
+    imported.rubrics.find(r => r.title.trim() === rubric.title.trim() && (r.subject || '') === (rubric.subject || ''));
+  if (!source) return [];
+
+  const now = Date.now();
+  const updates: Assessment[] = [];
+  Object.values(imported.assessments)
+    .filter(a => a.rubricId === source.id)
+    .forEach(theirs => {
+      const id = `${rubric.id}_${theirs.assigneeId}`;
+      const markings = { ...(theirs.markings || {}) };
+      if (theirs.entries.length > 0) {
+        markings[exporter.id] = { assessorId: exporter.id, assessorName: exporter.name, entries: theirs.entries, lastUpdated: theirs.lastUpdated };
+      }
+      if (Object.keys(markings).length === 0) return;
+
+      const mine: Assessment = assessments[id] || {
+        id,
+        rubricId: rubric.id,
+        assigneeId: theirs.assigneeId,
+        entries: [],
+        peerEvaluations: [],
+        totalScore: 0,
+        maxScore: 100,
+        feedback: '',
+        locked: false,
+        lastUpdated: now
+      };
+      updates.push({ ...mine, markings: { ...mine.markings, ...markings }, lastUpdated: now });
+    });
+  return updates;
+};
@@ -0,0 +1,70 @@
+import { Schema } from "@google/genai";
+import { AiProvider, AiSettings, createCompletionProvider, DEFAULT_MODELS, MediaInput, UsageListener } from './aiProvider';
+
+// Any server speaking the OpenAI chat completions API: OpenAI itself, vLLM, LM Studio,
+// or Ollama's compatibility endpoint (http://localhost:11434/v1).
+
+const DEFAULT_BASE_URL = 'http://localhost:11434/v1';
+
+// The shared schemas use Gemini's upper-case type names; JSON Schema wants them lower-case
+const toJsonSchema = (schema: Schema): Record<string, unknown> => {
+  const result: Record<string, unknown> = {};
+  if (schema.type) result.type = schema.type.toLowerCase();
+  if (schema.description) result.description = schema.description;
+  if (schema.required) result.required = schema.required;
+  if (schema.items) result.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    result.properties = Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)]));
+  }
+  return result;
+};
+
+const decodeText = (base64Data: string) =>
+  new TextDecoder().decode(Uint8Array.from(atob(base64Data), c => c.charCodeAt(0)));
+
+// Chat completions accept images inline; plain text is inlined into the prompt. Other files need Gemini.
+const toUserContent = (prompt: string, media?: MediaInput) => {
+  if (!media) return prompt;
+  if (media.mimeType.startsWith('text/')) return `${prompt}\n\nDocument:\n${decodeText(media.base64Data)}`;
+  if (media.mimeType.startsWith('image/')) {
+    return [
+      { type: 'text', text: prompt },
+      { type: 'image_url', image_url: { url: `data:${media.mimeType};base64,${media.base64Data}` } }
+    ];
+  }
+  throw new Error(`The OpenAI-compatible provider cannot read ${media.mimeType} files. Upload an image or text file, or switch to Gemini.`);
+};
+
+export const createOpenAiCompatibleProvider = (settings: AiSettings, onUsage?: UsageListener): AiProvider =>
+  createCompletionProvider('openai', async ({ prompt, systemInstruction, media, schema }) => {
+    const system = [
+      systemInstruction,
+      schema ? `Respond with a single JSON object matching this JSON Schema, and nothing else:\n${JSON.stringify(toJsonSchema(schema))}` : ''
+    ].filter(Boolean).join('\n\n');
+
+    const res = await fetch(`${(settings.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(settings.apiKey ? { 'Authorization': `Bearer ${settings.apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model: settings.model || DEFAULT_MODELS.openai,
+        messages: [
+          ...(system ? [{ role: 'system', content: system }] : []),
+          { role: 'user', content: toUserContent(prompt, media) }
+        ],
+        ...(schema ? { response_format: { type: 'json_object' } } : {})
+      })
+    });
+
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      throw new Error(data.error?.message || `AI endpoint returned ${res.status}`);
+    }
+    return {
+      text: data.choices?.[0]?.message?.content || "",
+      // Ollama and most compatible servers report usage too; it is simply absent otherwise
+      usage: data.usage && { inputTokens: data.usage.prompt_tokens || 0, outputTokens: data.usage.completion_tokens || 0 }
+    };
+  }, onUsage);
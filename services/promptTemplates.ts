@@ -0,0 +1,154 @@
+import { PromptKind, PromptRun, PromptTemplate, Rubric } from '../types';
+import { hashString } from './workspaceMerge';
+
+// Editable AI prompts. A prompt is resolved per call: the rubric's override wins, then the
+// workspace default, then the built-in text below. Templates use {{variable}} placeholders that
+// the prompt builders in aiProvider fill in; each kind has its own set of variables.
+
+export interface PromptText {
+  system: string; // System instruction; left out of the request when empty
+  prompt: string;
+}
+
+export interface ResolvedPrompt extends PromptText {
+  scope: PromptRun['scope'];
+  version: number;
+}
+
+export const PROMPT_KINDS: PromptKind[] = ['grading', 'feedback', 'rubric'];
+
+export const PROMPT_KIND_LABELS: Record<PromptKind, string> = {
+  grading: 'Auto-grading',
+  feedback: 'Feedback',
+  rubric: 'Rubric generation'
+};
+
+export const PROMPT_SCOPE_LABELS: Record<PromptRun['scope'], string> = {
+  builtin: 'built-in',
+  workspace: 'workspace default',
+  rubric: 'assignment'
+};
+
+export const PROMPT_VARIABLES: Record<PromptKind, { name: string; description: string }[]> = {
+  grading: [
+    { name: 'rubric_title', description: 'Assignment title' },
+    { name: 'rubric', description: 'Criteria and level descriptions as JSON' },
+    { name: 'subject', description: 'Course or subject name' },
+    { name: 'brief', description: 'Assignment brief' },
+    { name: 'clos', description: 'Course learning outcomes, one per line' },
+    { name: 'plos', description: 'Program learning outcomes, one per line' },
+    { name: 'student_name', description: 'Student or group name' },
+    { name: 'submission', description: 'The submission text' },
+    { name: 'exemplars', description: 'Teacher-graded calibration examples; added at the end when not placed' }
+  ],
+  feedback: [
+    { name: 'student_name', description: 'Student or group name' },
+    { name: 'rubric_title', description: 'Assignment title' },
+    { name: 'results', description: "Level reached on each criterion, with the grader's rationale, one per line" },
+    { name: 'subject', description: 'Course or subject name' },
+    { name: 'brief', description: 'Assignment brief' },
+    { name: 'clos', description: 'Course learning outcomes, one per line' },
+    { name: 'tone', description: 'Instruction for the chosen tone' },
+    { name: 'length', description: 'Instruction for the chosen length' },
+    { name: 'reading_level', description: 'Instruction for the chosen reading level' },
+    { name: 'person', description: 'Instruction to write in the 2nd or 3rd person' },
+    { name: 'style', description: 'All four style instructions; added at the end when none are placed' }
+  ],
+  rubric: [
+    { name: 'topic', description: 'Assignment topic' },
+    { name: 'grade_level', description: 'Level of the students' },
+    { name: 'num_criteria', description: 'Requested number of criteria' },
+    { name: 'brief', description: 'Assignment brief' },
+    { name: 'plos', description: 'Program learning outcomes, one per line' },
+    { name: 'clos', description: 'Course learning outcomes, one per line' },
+    { name: 'alignment', description: 'Brief and outcomes as a ready-made paragraph, empty when there are none' }
+  ]
+};
+
+export const BUILTIN_PROMPTS: Record<PromptKind, PromptText> = {
+  grading: {
+    system: 'You are a fair and strict grader.',
+    prompt: `Evaluate the student submission based on the following rubric.
+
+Rubric:
+{{rubric}}
+{{exemplars}}
+Student Submission:
+"{{submission}}"
+
+For each criterion, select the Level Label that best matches the submission quality. Provide a brief explanation.
+Rate your confidence in each choice from 0 to 1; give a low value when the work sits between two levels or the evidence is thin.
+Quote up to three short passages (one sentence or less) from the submission as evidence, copied exactly without changing any words.
+Also provide overall feedback.`
+  },
+  feedback: {
+    system: '',
+    prompt: `Write constructive and specific feedback for student "{{student_name}}" on the assignment "{{rubric_title}}".
+
+Here is their performance breakdown:
+{{results}}
+
+For each criterion, comment on what the work did well or where it fell short, and give one concrete next step.
+Then write an overall summary and up to three next steps that would most improve their next assignment.
+
+{{style}}`
+  },
+  rubric: {
+    system: 'You are an expert pedagogical consultant helping teachers create fair, aligned, and detailed rubrics based on specific learning outcomes.',
+    prompt: `Create a grading rubric for a "{{topic}}" assignment for {{grade_level}} students.
+It should have approximately {{num_criteria}} main criteria.
+Each criterion should have 4 levels of performance (e.g., Excellent, Good, Fair, Needs Improvement).{{alignment}}`
+  }
+};
+
+const MAX_HISTORY = 20;
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+// Unknown placeholders are left as written so a typo shows up in the preview instead of vanishing
+export const renderTemplate = (text: string, variables: Record<string, string>): string =>
+  text.replace(VARIABLE_PATTERN, (match, name: string) => variables[name] ?? match);
+
+export const renderPrompt = (template: PromptText, variables: Record<string, string>): PromptText => ({
+  system: renderTemplate(template.system, variables),
+  prompt: renderTemplate(template.prompt, variables)
+});
+
+export const findUnknownVariables = (kind: PromptKind, template: PromptText): string[] => {
+  const known = new Set(PROMPT_VARIABLES[kind].map(v => v.name));
+  const used = [...`${template.system}\n${template.prompt}`.matchAll(VARIABLE_PATTERN)].map(m => m[1]);
+  return Array.from(new Set(used.filter(name => !known.has(name))));
+};
+
+export const resolvePrompt = (kind: PromptKind, rubric: Rubric | undefined, workspaceTemplates: PromptTemplate[]): ResolvedPrompt => {
+  const override = rubric?.promptTemplates?.find(t => t.kind === kind);
+  if (override) return { system: override.system, prompt: override.prompt, scope: 'rubric', version: override.version };
+  const workspace = workspaceTemplates.find(t => t.kind === kind);
+  if (workspace) return { system: workspace.system, prompt: workspace.prompt, scope: 'workspace', version: workspace.version };
+  return { ...BUILTIN_PROMPTS[kind], scope: 'builtin', version: 0 };
+};
+
+export const toPromptRun = (kind: PromptKind, resolved: ResolvedPrompt): PromptRun => ({
+  kind,
+  scope: resolved.scope,
+  version: resolved.version,
+  fingerprint: hashString(`${resolved.system}\u0000${resolved.prompt}`),
+  at: Date.now()
+});
+
+// Saves edited text as the next version of the kind's template, keeping earlier versions in its history
+export const saveTemplateVersion = (templates: PromptTemplate[], kind: PromptKind, text: PromptText): PromptTemplate[] => {
+  const current = templates.find(t => t.kind === kind);
+  if (current && current.system === text.system && current.prompt === text.prompt) return templates;
+  const next: PromptTemplate = {
+    id: kind,
+    kind,
+    system: text.system,
+    prompt: text.prompt,
+    version: (current?.version ?? 0) + 1,
+    updatedAt: Date.now(),
+    history: current
+      ? [{ version: current.version, system: current.system, prompt: current.prompt, updatedAt: current.updatedAt }, ...(current.history || [])].slice(0, MAX_HISTORY)
+      : []
+  };
+  return current ? templates.map(t => t.kind === kind ? next : t) : [...templates, next];
+};
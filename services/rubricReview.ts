@@ -0,0 +1,160 @@
+import { Rubric, RubricCriterion } from '../types';
+import { RubricReviewCategory, RubricReviewIssue, RubricRewrite } from './aiProvider';
+
+// Rubric quality review. The AI critiques the rubric's wording and coverage; score spacing and
+// repeated descriptors are checked here, since they need no judgement and a model can get the
+// arithmetic wrong. Each finding can carry rewrites that the teacher accepts one finding at a time.
+
+export interface ReviewItem extends RubricReviewIssue {
+  id: string;
+  source: 'AI' | 'CHECK';
+}
+
+export const REVIEW_CATEGORY_LABELS: Record<RubricReviewCategory, string> = {
+  overlap: 'Overlapping criteria',
+  vague: 'Vague descriptor',
+  non_discriminating: 'Levels not distinct',
+  score_gap: 'Score gaps',
+  coverage: 'Missing coverage'
+};
+
+// Steps between neighbouring levels may differ by this factor before they count as uneven
+const UNEVEN_GAP_RATIO = 1.5;
+
+const sameText = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+// Evenly spaced scores between the criterion's lowest and highest. Levels with the same score
+// keep their place in the list, read from its low end.
+const evenScores = (criterion: RubricCriterion): RubricRewrite[] => {
+  const list = criterion.levels;
+  const descending = list[0].score >= list[list.length - 1].score;
+  const levels = [...list].sort((a, b) => a.score - b.score || (descending ? list.indexOf(b) - list.indexOf(a) : list.indexOf(a) - list.indexOf(b)));
+  const min = levels[0].score;
+  const step = (levels[levels.length - 1].score - min) / (levels.length - 1);
+  return levels
+    .map((l, i) => ({ level: l, score: round(min + step * i) }))
+    .filter(({ level, score }) => level.score !== score)
+    .map(({ level, score }) => ({ criterionTitle: criterion.title, levelLabel: level.label, field: 'score' as const, value: String(score) }));
+};
+
+export const checkScoreGaps = (rubric: Rubric): RubricReviewIssue[] =>
+  rubric.criteria.flatMap((c): RubricReviewIssue[] => {
+    if (c.levels.length < 2) {
+      return [{ category: 'non_discriminating', criterionTitle: c.title, problem: 'Has only one level, so it cannot tell stronger work from weaker.' }];
+    }
+    const scores = [...c.levels].map(l => l.score).sort((a, b) => a - b);
+    const gaps = scores.slice(1).map((s, i) => s - scores[i]);
+    const max = scores[scores.length - 1];
+    if (gaps.some(g => g === 0)) {
+      return [{
+        category: 'score_gap',
+        criterionTitle: c.title,
+        problem: 'Two or more levels give the same score.',
+        ...(max > scores[0] ? { rewrites: evenScores(c) } : {})
+      }];
+    }
+    const smallest = Math.min(...gaps);
+    const largest = Math.max(...gaps);
+    if (largest > smallest * UNEVEN_GAP_RATIO) {
+      return [{
+        category: 'score_gap',
+        criterionTitle: c.title,
+        problem: `Steps between levels range from ${round(smallest)} to ${round(largest)} points, so one step up is worth more than another.`,
+        rewrites: evenScores(c)
+      }];
+    }
+    return [];
+  });
+
+export const checkLevelText = (rubric: Rubric): RubricReviewIssue[] =>
+  rubric.criteria.flatMap(c => {
+    const issues: RubricReviewIssue[] = [];
+    const empty = c.levels.filter(l => !l.description.trim());
+    if (empty.length > 0) {
+      issues.push({ category: 'vague', criterionTitle: c.title, problem: `No descriptor for ${empty.map(l => `"${l.label}"`).join(', ')}.` });
+    }
+    const described = c.levels.filter(l => l.description.trim());
+    const repeated = described.filter((l, i) => described.findIndex(o => sameText(o.description, l.description)) !== i);
+    if (repeated.length > 0) {
+      issues.push({ category: 'non_discriminating', criterionTitle: c.title, problem: `${repeated.map(l => `"${l.label}"`).join(', ')} repeat${repeated.length === 1 ? 's' : ''} another level's descriptor word for word.` });
+    }
+    return issues;
+  });
+
+// AI findings come validated (see aiValidation); their score-gap findings are dropped where the local
+// check already has one
+export const mergeReview = (checks: RubricReviewIssue[], ai: RubricReviewIssue[]): ReviewItem[] => {
+  const checkedGaps = new Set(checks.filter(i => i.category === 'score_gap').map(i => (i.criterionTitle || '').toLowerCase()));
+  const kept = ai.filter(i => !(i.category === 'score_gap' && checkedGaps.has((i.criterionTitle || '').toLowerCase())));
+  return [
+    ...checks.map((issue, i) => ({ ...issue, id: `check-${i}`, source: 'CHECK' as const })),
+    ...kept.map((issue, i) => ({ ...issue, id: `ai-${i}`, source: 'AI' as const }))
+  ];
+};
+
+const findCriterion = (rubric: Rubric, title: string) => rubric.criteria.find(c => sameText(c.title, title));
+
+// What a rewrite changes, for the checklist
+export const describeRewrite = (rubric: Rubric, rewrite: RubricRewrite) => {
+  const criterion = findCriterion(rubric, rewrite.criterionTitle);
+  const level = rewrite.levelLabel ? criterion?.levels.find(l => sameText(l.label, rewrite.levelLabel!)) : undefined;
+  const target = [criterion?.title || `New criterion "${rewrite.criterionTitle}"`, level?.label || rewrite.levelLabel].filter(Boolean).join(' › ');
+  let before = '';
+  if (level) {
+    before = String(level[rewrite.field === 'title' ? 'label' : rewrite.field]);
+  } else if (criterion && !rewrite.levelLabel && (rewrite.field === 'title' || rewrite.field === 'description')) {
+    before = criterion[rewrite.field];
+  }
+  return { target, field: rewrite.field, before, after: rewrite.value };
+};
+
+// Applies rewrites in order. A criterion is added when a description names one that does not exist;
+// it takes the first criterion's level labels and scores, so later rewrites can describe its levels.
+// Rewrites that no longer match the rubric, or would repeat a criterion title, are counted and skipped.
+export const applyRewrites = (rubric: Rubric, rewrites: RubricRewrite[]): { rubric: Rubric; skipped: number } => {
+  let criteria = rubric.criteria;
+  let skipped = 0;
+  rewrites.forEach(rewrite => {
+    const index = criteria.findIndex(c => sameText(c.title, rewrite.criterionTitle));
+    if (index < 0) {
+      if (rewrite.levelLabel || rewrite.field !== 'description') {
+        skipped++;
+        return;
+      }
+      const template = criteria[0]?.levels || [];
+      criteria = [...criteria, {
+        id: crypto.randomUUID(),
+        title: rewrite.criterionTitle.trim(),
+        description: rewrite.value,
+        weight: 1,
+        levels: template.map(l => ({ id: crypto.randomUUID(), label: l.label, score: l.score, description: '' }))
+      }];
+      return;
+    }
+    const criterion = criteria[index];
+    let updated: RubricCriterion | null = null;
+    if (rewrite.levelLabel) {
+      const levelIndex = criterion.levels.findIndex(l => sameText(l.label, rewrite.levelLabel!));
+      const score = parseFloat(rewrite.value);
+      if (levelIndex >= 0 && (rewrite.field !== 'score' || !isNaN(score))) {
+        const field = rewrite.field === 'title' ? 'label' : rewrite.field;
+        const levels = [...criterion.levels];
+        levels[levelIndex] = { ...levels[levelIndex], [field]: field === 'score' ? score : rewrite.value };
+        updated = { ...criterion, levels };
+      }
+    } else if (rewrite.field === 'description') {
+      updated = { ...criterion, description: rewrite.value };
+    } else if (rewrite.field === 'title' && !criteria.some((c, i) => i !== index && sameText(c.title, rewrite.value))) {
+      // Titles stay unique: AI replies name criteria by title
+      updated = { ...criterion, title: rewrite.value };
+    }
+    if (!updated) {
+      skipped++;
+      return;
+    }
+    criteria = criteria.map((c, i) => i === index ? updated! : c);
+  });
+  return { rubric: { ...rubric, criteria }, skipped };
+};
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { Assessment } from '../types';
+import { alignMatches, findSimilarPairs } from './similarity';
+
+const submission = (id: string, submissionText: string, rubricId = 'r1'): Assessment => ({
+  id,
+  rubricId,
+  assigneeId: id,
+  entries: [],
+  totalScore: 0,
+  maxScore: 100,
+  feedback: '',
+  locked: false,
+  lastUpdated: 0,
+  submissionText
+});
+
+// Distinct words from a fixed seed, so texts share nothing unless a test copies a passage
+const prose = (seed: number, words: number) => {
+  let state = seed;
+  return Array.from({ length: words }, () => {
+    state ^= state << 13;
+    state ^= state >>> 17;
+    state ^= state << 5;
+    return `w${(state >>> 0).toString(36)}`;
+  }).join(' ');
+};
+
+describe('findSimilarPairs', () => {
+  const original = prose(1, 200);
+  const copied = submission('copy', `${original.split(' ').slice(0, 150).join(' ')} ${prose(2, 50)}`);
+
+  it('pairs near copies and leaves unrelated work out', () => {
+    const pairs = findSimilarPairs([submission('a', original), copied, submission('b', prose(3, 200))], []);
+    expect(pairs).toHaveLength(1);
+    expect([pairs[0].a.id, pairs[0].b.id].sort()).toEqual(['a', 'copy']);
+    expect(pairs[0].similarity).toBeGreaterThan(0.5);
+    expect(pairs[0].sharedWords).toBe(150);
+  });
+
+  it('compares against past work but never pairs two past submissions', () => {
+    const past = [submission('past', original, 'r0'), submission('past-copy', original, 'r0')];
+    const pairs = findSimilarPairs([copied], past);
+    expect(pairs.map(p => [p.a.id, p.b.id])).toEqual([['copy', 'past'], ['copy', 'past-copy']]);
+  });
+
+  it('skips submissions without text and honours the threshold', () => {
+    expect(findSimilarPairs([submission('a', original), submission('empty', '  ')], [])).toEqual([]);
+    expect(findSimilarPairs([submission('a', original), copied], [], 0.99)).toEqual([]);
+  });
+});
+
+describe('alignMatches', () => {
+  it('finds shared passages ignoring case and punctuation, in the order of the first text', () => {
+    const a = 'Intro text here. The quick brown fox jumps over the lazy dog! Then something else entirely, and finally we reach the end of it.';
+    const b = 'we reach the end of it. Unrelated words. the Quick, brown fox jumps over the lazy dog';
+    const matches = alignMatches(a, b);
+    expect(matches.map(m => [m.a.text, m.b.text, m.words])).toEqual([
+      ['The quick brown fox jumps over the lazy dog!', 'the Quick, brown fox jumps over the lazy dog', 9],
+      ['we reach the end of it.', 'we reach the end of it.', 6]
+    ]);
+    expect(matches[0].a.before).toBe('Intro text here. ');
+  });
+
+  it('ignores runs shorter than a shingle', () => {
+    expect(alignMatches('one two three four', 'one two three four')).toEqual([]);
+  });
+});
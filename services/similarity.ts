@@ -0,0 +1,159 @@
+import { Assessment } from '../types';
+
+// Similarity between submissions, computed in the browser. Each text becomes a set of overlapping
+// word sequences (shingles); MinHash signatures estimate how much two sets share, and banding the
+// signatures finds likely pairs without comparing every submission with every other. Likely pairs
+// are then measured exactly and their shared passages lined up for the teacher to read.
+
+export const SHINGLE_WORDS = 5;
+export const DEFAULT_SIMILARITY_THRESHOLD = 0.3; // Share of shingles in common (Jaccard)
+const NUM_HASHES = 128;
+const BAND_ROWS = 4; // 32 bands: pairs above roughly 0.3 similarity almost always share one
+const CONTEXT_WORDS = 8; // Shown either side of a matched passage
+
+export interface SimilarPair {
+  a: Assessment; // On the assignment being checked
+  b: Assessment; // On the same assignment or a past one
+  similarity: number; // 0-1
+  sharedWords: number; // Words of `a` inside passages shared with `b`
+}
+
+export interface MatchedPassage {
+  a: { before: string; text: string; after: string };
+  b: { before: string; text: string; after: string };
+  words: number;
+}
+
+interface Token {
+  word: string;  // Lower case, letters and digits only
+  start: number; // Character range in the original text
+  end: number;
+}
+
+const tokenize = (text: string): Token[] =>
+  Array.from(text.matchAll(/\S+/g))
+    .map(m => ({ word: m[0].toLowerCase().replace(/[^\p{L}\p{N}]/gu, ''), start: m.index!, end: m.index! + m[0].length }))
+    .filter(t => t.word);
+
+const shingleAt = (tokens: Token[], i: number) => tokens.slice(i, i + SHINGLE_WORDS).map(t => t.word).join(' ');
+
+// 32-bit FNV-1a
+const hash32 = (input: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Fixed seeds, so signatures are the same on every run
+const SEEDS = Array.from({ length: NUM_HASHES }, (_, i) => [hash32(`a${i}`) | 1, hash32(`b${i}`)]);
+
+const shingleSet = (text: string): Set<number> => {
+  const tokens = tokenize(text);
+  const set = new Set<number>();
+  // A text shorter than one shingle is one shingle
+  for (let i = 0; i === 0 || i + SHINGLE_WORDS <= tokens.length; i++) set.add(hash32(shingleAt(tokens, i)));
+  return set;
+};
+
+const signature = (shingles: Set<number>) => {
+  const mins = new Array<number>(NUM_HASHES).fill(0xffffffff);
+  shingles.forEach(s => {
+    SEEDS.forEach(([mul, add], i) => {
+      const h = (Math.imul(s, mul) + add) >>> 0;
+      if (h < mins[i]) mins[i] = h;
+    });
+  });
+  return mins;
+};
+
+const jaccard = (a: Set<number>, b: Set<number>) => {
+  let shared = 0;
+  a.forEach(s => { if (b.has(s)) shared++; });
+  const union = a.size + b.size - shared;
+  return union ? shared / union : 0;
+};
+
+const hasText = (a: Assessment) => !!a.submissionText?.trim();
+
+// Pairs at or above the threshold, most similar first. Every pair includes a submission from
+// `targets`; `pool` adds earlier assignments to compare against.
+export const findSimilarPairs = (targets: Assessment[], pool: Assessment[], threshold = DEFAULT_SIMILARITY_THRESHOLD): SimilarPair[] => {
+  const targetIds = new Set(targets.map(a => a.id));
+  const all = [...targets, ...pool.filter(a => !targetIds.has(a.id))].filter(hasText);
+  const sets = all.map(a => shingleSet(a.submissionText!));
+
+  const buckets = new Map<string, number[]>();
+  all.forEach((_, i) => {
+    const sig = signature(sets[i]);
+    for (let band = 0; band < NUM_HASHES / BAND_ROWS; band++) {
+      const key = `${band}:${sig.slice(band * BAND_ROWS, (band + 1) * BAND_ROWS).join(',')}`;
+      const bucket = buckets.get(key);
+      if (bucket) bucket.push(i); else buckets.set(key, [i]);
+    }
+  });
+
+  const candidates = new Set<string>();
+  buckets.forEach(bucket => {
+    bucket.forEach((i, n) => bucket.slice(n + 1).forEach(j => {
+      if (targetIds.has(all[i].id) || targetIds.has(all[j].id)) candidates.add(i < j ? `${i}:${j}` : `${j}:${i}`);
+    }));
+  });
+
+  const pairs: SimilarPair[] = [];
+  candidates.forEach(key => {
+    const [i, j] = key.split(':').map(Number);
+    const similarity = jaccard(sets[i], sets[j]);
+    if (similarity < threshold) return;
+    // The submission on the assignment being checked goes on the left
+    const [a, b] = targetIds.has(all[i].id) ? [all[i], all[j]] : [all[j], all[i]];
+    const sharedWords = alignMatches(a.submissionText!, b.submissionText!).reduce((sum, m) => sum + m.words, 0);
+    pairs.push({ a, b, similarity, sharedWords });
+  });
+  return pairs.sort((x, y) => y.similarity - x.similarity || x.a.id.localeCompare(y.a.id));
+};
+
+// Passages the two texts share, in the order they appear in `textA`, each with a little context.
+// A passage is a run of at least SHINGLE_WORDS words that appears in both, compared ignoring case
+// and punctuation.
+export const alignMatches = (textA: string, textB: string): MatchedPassage[] => {
+  const a = tokenize(textA);
+  const b = tokenize(textB);
+  const starts = new Map<string, number[]>();
+  for (let j = 0; j + SHINGLE_WORDS <= b.length; j++) {
+    const key = shingleAt(b, j);
+    const list = starts.get(key);
+    if (list) list.push(j); else starts.set(key, [j]);
+  }
+
+  const excerpt = (text: string, tokens: Token[], from: number, to: number) => ({
+    before: from > 0 ? text.slice(tokens[Math.max(0, from - CONTEXT_WORDS)].start, tokens[from].start) : '',
+    text: text.slice(tokens[from].start, tokens[to - 1].end),
+    after: to < tokens.length ? text.slice(tokens[to - 1].end, tokens[Math.min(tokens.length, to + CONTEXT_WORDS) - 1].end) : ''
+  });
+
+  const passages: MatchedPassage[] = [];
+  let i = 0;
+  while (i + SHINGLE_WORDS <= a.length) {
+    // The longest run starting here, over every place the shingle occurs in `b`
+    let best = { j: -1, length: 0 };
+    (starts.get(shingleAt(a, i)) || []).forEach(j => {
+      let length = SHINGLE_WORDS;
+      while (i + length < a.length && j + length < b.length && a[i + length].word === b[j + length].word) length++;
+      if (length > best.length) best = { j, length };
+    });
+    if (best.j < 0) {
+      i++;
+      continue;
+    }
+    passages.push({
+      a: excerpt(textA, a, i, i + best.length),
+      b: excerpt(textB, b, best.j, best.j + best.length),
+      words: best.length
+    });
+    i += best.length;
+  }
+  return passages;
+};
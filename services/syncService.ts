@@ -0,0 +1,146 @@
+import { Assessment, WorkspaceData } from '../types';
+import { EMPTY_FINGERPRINTS, SyncConflict, WorkspaceFingerprints, fingerprintAssessment } from './workspaceMerge';
+
+// Client for the sync-workspace Netlify function.
+// Sync state (fingerprints of the last successful sync and its unresolved conflicts) is small, so it
+// stays in localStorage.
+
+export interface SyncState {
+  revision: number;
+  lastSyncedAt: number | null;
+  base: WorkspaceFingerprints;
+  conflicts: SyncConflict[]; // Still waiting for the user to pick a side
+}
+
+export interface SyncOutcome {
+  workspace: WorkspaceData; // What the UI should show: server merge, with local copies kept for conflicts
+  conflicts: SyncConflict[];
+  state: SyncState;
+}
+
+const SYNC_STATE_PREFIX = 'smartgrade_sync_';
+const CLIENT_ID_KEY = 'smartgrade_client_id';
+
+const INITIAL_SYNC_STATE: SyncState = { revision: 0, lastSyncedAt: null, base: EMPTY_FINGERPRINTS, conflicts: [] };
+
+export const loadSyncState = (userId: string): SyncState => {
+  const saved = localStorage.getItem(`${SYNC_STATE_PREFIX}${userId}`);
+  if (!saved) return INITIAL_SYNC_STATE;
+  try {
+    return { ...INITIAL_SYNC_STATE, ...JSON.parse(saved) };
+  } catch (e) {
+    return INITIAL_SYNC_STATE;
+  }
+};
+
+const saveSyncState = (userId: string, state: SyncState) => {
+  localStorage.setItem(`${SYNC_STATE_PREFIX}${userId}`, JSON.stringify(state));
+};
+
+// Identifies this browser in the server's audit fields
+const getClientId = () => {
+  let id = localStorage.getItem(CLIENT_ID_KEY);
+  if (!id) {
+    id = crypto.randomUUID();
+    localStorage.setItem(CLIENT_ID_KEY, id);
+  }
+  return id;
+};
+
+// Keeps the local object for records the server did not change, so storage only rewrites real changes
+const reuseUnchanged = <T extends { id: string }>(local: T[], incoming: T[], same: (a: T, b: T) => boolean): T[] => {
+  const localById = new Map(local.map(r => [r.id, r]));
+  return incoming.map(r => {
+    const mine = localById.get(r.id);
+    return mine && same(mine, r) ? mine : r;
+  });
+};
+
+const sameJson = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+export const syncWorkspace = async (userId: string, sessionToken: string, local: WorkspaceData): Promise<SyncOutcome> => {
+  const previous = loadSyncState(userId);
+
+  const res = await fetch('/.netlify/functions/sync-workspace', {
+    method: 'POST',
+    body: JSON.stringify({ workspace: local, base: previous.base, clientId: getClientId() }),
+    headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${sessionToken}` }
+  });
+
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new Error(data.error || 'Sync failed');
+  }
+
+  const server: WorkspaceData = data.workspace;
+  const conflicts: SyncConflict[] = data.conflicts || [];
+  const assessments: Record<string, Assessment> = {};
+  reuseUnchanged(Object.values(local.assessments), Object.values(server.assessments), (a, b) => a.lastUpdated === b.lastUpdated)
+    .forEach(a => { assessments[a.id] = a; });
+  // Until the user picks a side, keep showing their own copy of a conflicted record
+  conflicts.forEach(c => {
+    if (local.assessments[c.id]) assessments[c.id] = local.assessments[c.id];
+    else delete assessments[c.id];
+  });
+
+  const state: SyncState = { revision: data.revision, lastSyncedAt: Date.now(), base: data.fingerprints, conflicts };
+  saveSyncState(userId, state);
+
+  return {
+    workspace: {
+      rubrics: reuseUnchanged(local.rubrics, server.rubrics, sameJson),
+      assignees: reuseUnchanged(local.assignees, server.assignees, sameJson),
+      assessments,
+      // Older servers predate grade scales
+      gradeScales: reuseUnchanged(local.gradeScales, server.gradeScales || [], sameJson),
+      promptTemplates: reuseUnchanged(local.promptTemplates, server.promptTemplates || [], sameJson),
+      currentRubricId: server.currentRubricId
+    },
+    conflicts,
+    state
+  };
+};
+
+// Records the user's choice for a conflict. The base moves to the server copy, so the next sync sees
+// only this device's side as changed: a kept local copy is uploaded, a taken server copy matches.
+export const resolveSyncConflict = (userId: string, conflict: SyncConflict): SyncState => {
+  const previous = loadSyncState(userId);
+  const assessments = { ...previous.base.assessments };
+  if (conflict.remote) assessments[conflict.id] = fingerprintAssessment(conflict.remote);
+  else delete assessments[conflict.id];
+  const state: SyncState = {
+    ...previous,
+    base: { ...previous.base, assessments },
+    conflicts: previous.conflicts.filter(c => c.id !== conflict.id)
+  };
+  saveSyncState(userId, state);
+  return state;
+};
+
+const rebaseList = <T extends { id: string }>(synced: T[], sent: T[], current: T[]): T[] => {
+  const sentById = new Map(sent.map(r => [r.id, r]));
+  const currentById = new Map(current.map(r => [r.id, r]));
+  const result: T[] = [];
+  synced.forEach(r => {
+    const editedSince = sentById.has(r.id) && currentById.get(r.id) !== sentById.get(r.id);
+    if (!editedSince) result.push(r);
+    else if (currentById.has(r.id)) result.push(currentById.get(r.id)!);
+  });
+  current.filter(r => !sentById.has(r.id) && !synced.some(s => s.id === r.id)).forEach(r => result.push(r));
+  return result;
+};
+
+// Re-applies edits made while a sync request was in flight on top of the synced workspace
+export const rebaseWorkspace = (synced: WorkspaceData, sent: WorkspaceData, current: WorkspaceData): WorkspaceData => {
+  const assessments: Record<string, Assessment> = {};
+  rebaseList(Object.values(synced.assessments), Object.values(sent.assessments), Object.values(current.assessments))
+    .forEach(a => { assessments[a.id] = a; });
+  return {
+    rubrics: rebaseList(synced.rubrics, sent.rubrics, current.rubrics),
+    assignees: rebaseList(synced.assignees, sent.assignees, current.assignees),
+    assessments,
+    gradeScales: rebaseList(synced.gradeScales, sent.gradeScales, current.gradeScales),
+    promptTemplates: rebaseList(synced.promptTemplates, sent.promptTemplates, current.promptTemplates),
+    currentRubricId: current.currentRubricId !== sent.currentRubricId ? current.currentRubricId : synced.currentRubricId
+  };
+};
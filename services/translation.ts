@@ -0,0 +1,59 @@
+import { Assessment, Assignee, FeedbackTranslation, GradeEntry, Rubric } from '../types';
+import { hashString } from './workspaceMerge';
+
+// Feedback in the student's language. Feedback is written (by the teacher or the AI) in the
+// teacher's language and translated afterwards, so the original is always kept and can be shown,
+// edited and exported next to the translation.
+
+// Offered in the pickers; a language stored from elsewhere is still shown and used
+export const FEEDBACK_LANGUAGES = [
+  'Arabic', 'Bengali', 'Chinese (Simplified)', 'Chinese (Traditional)', 'Dutch', 'English', 'French', 'German',
+  'Hindi', 'Indonesian', 'Italian', 'Japanese', 'Korean', 'Malay', 'Polish', 'Portuguese', 'Russian', 'Spanish',
+  'Swahili', 'Tamil', 'Thai', 'Turkish', 'Ukrainian', 'Urdu', 'Vietnamese'
+];
+
+// The student's own language wins over the course's; '' means feedback is not translated
+export const resolveFeedbackLanguage = (rubric: Rubric, assignee?: Assignee) =>
+  (assignee?.feedbackLanguage || rubric.feedbackLanguage || '').trim();
+
+// Original texts to translate, in a fixed order so the translated list maps back by position
+export const collectFeedbackTexts = (feedback: string, entries: GradeEntry[]) => {
+  const texts: { criterionId?: string; field: 'summary' | 'feedback' | 'nextStep'; text: string }[] = [];
+  if (feedback.trim()) texts.push({ field: 'summary', text: feedback });
+  entries.forEach(e => {
+    if (e.feedback?.trim()) texts.push({ criterionId: e.criterionId, field: 'feedback', text: e.feedback });
+    if (e.nextStep?.trim()) texts.push({ criterionId: e.criterionId, field: 'nextStep', text: e.nextStep });
+  });
+  return texts;
+};
+
+export const hashFeedbackTexts = (texts: { text: string }[]) => hashString(texts.map(t => t.text).join('\u0000'));
+
+export const buildFeedbackTranslation = (
+  language: string,
+  texts: ReturnType<typeof collectFeedbackTexts>,
+  translated: string[]
+): FeedbackTranslation => {
+  const criteria = new Map<string, { criterionId: string; feedback?: string; nextStep?: string }>();
+  let feedback = '';
+  texts.forEach((t, i) => {
+    const text = translated[i] ?? '';
+    if (t.field === 'summary' || !t.criterionId) {
+      feedback = text;
+      return;
+    }
+    const item = criteria.get(t.criterionId) || { criterionId: t.criterionId };
+    item[t.field] = text;
+    criteria.set(t.criterionId, item);
+  });
+  return { language, feedback, criteria: Array.from(criteria.values()), sourceHash: hashFeedbackTexts(texts), translatedAt: Date.now() };
+};
+
+// True when the original feedback changed after it was translated
+export const isTranslationStale = (assessment: Assessment, entries: GradeEntry[]) => {
+  const translation = assessment.feedbackTranslation;
+  return !!translation && translation.sourceHash !== hashFeedbackTexts(collectFeedbackTexts(assessment.feedback, entries));
+};
+
+export const getTranslatedCriterion = (assessment: Assessment | undefined, criterionId: string) =>
+  assessment?.feedbackTranslation?.criteria.find(c => c.criterionId === criterionId);
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { Assessment, WorkspaceData } from '../types';
+import { fingerprintWorkspace, mergeWorkspace } from './workspaceMerge';
+
+const graded = (score: number, lastUpdated: number): Assessment => ({
+  id: 'r1_s1',
+  rubricId: 'r1',
+  assigneeId: 's1',
+  entries: [{ criterionId: 'c1', levelId: 'l1', score }],
+  totalScore: score,
+  maxScore: 100,
+  feedback: '',
+  locked: false,
+  lastUpdated
+});
+
+const workspace = (assessment?: Assessment): WorkspaceData => ({
+  rubrics: [],
+  assignees: [],
+  assessments: assessment ? { [assessment.id]: assessment } : {},
+  gradeScales: [],
+  promptTemplates: [],
+  currentRubricId: 'r1'
+});
+
+describe('mergeWorkspace', () => {
+  it('takes the side that changed since the last sync', () => {
+    const base = fingerprintWorkspace(workspace(graded(50, 1)));
+    const result = mergeWorkspace(workspace(graded(50, 1)), workspace(graded(70, 2)), base);
+    expect(result.conflicts).toEqual([]);
+    expect(result.merged.assessments.r1_s1.totalScore).toBe(70);
+    expect(result.fingerprints.assessments.r1_s1).toBe('2');
+  });
+
+  it('keeps the old base for a conflict, so the next sync does not overwrite the server copy', () => {
+    const base = fingerprintWorkspace(workspace(graded(50, 1)));
+    const local = workspace(graded(70, 2));
+    const first = mergeWorkspace(workspace(graded(90, 3)), local, base);
+    expect(first.conflicts.map(c => c.id)).toEqual(['r1_s1']);
+    expect(first.fingerprints.assessments.r1_s1).toBe('1');
+
+    const again = mergeWorkspace(first.merged, local, first.fingerprints);
+    expect(again.conflicts.map(c => c.id)).toEqual(['r1_s1']);
+    expect(again.merged.assessments.r1_s1.totalScore).toBe(90);
+  });
+
+  it('leaves a conflict on a record created on both devices out of the base', () => {
+    const result = mergeWorkspace(workspace(graded(90, 3)), workspace(graded(70, 2)), fingerprintWorkspace(workspace()));
+    expect(result.conflicts).toHaveLength(1);
+    expect(result.fingerprints.assessments).toEqual({});
+  });
+});
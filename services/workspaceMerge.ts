@@ -0,0 +1,174 @@
+import { Assessment, WorkspaceData } from '../types';
+import { mergeAuditLogs } from './auditService';
+
+// Three-way merge of a workspace, shared by the sync function (server) and the sync client.
+//
+// Each side describes a record by a fingerprint. The client remembers the fingerprints of the last
+// successful sync ("base"), so for every record we can tell which side changed it since then:
+//   - only one side changed  -> take that side (including deletions)
+//   - both sides changed     -> assessments with identical grades keep the newest `lastUpdated`,
+//                               otherwise they become a conflict (two assessors graded offline);
+//                               rubrics, students and grade scales take the pushing client's copy
+// Assessments are fingerprinted by `lastUpdated`, so every edit must bump it. A conflicted record
+// keeps its old base fingerprint until the user picks a side, so it stays a conflict on every sync
+// rather than looking like a local edit that should overwrite the server copy.
+
+export type FingerprintMap = Record<string, string>;
+
+export interface WorkspaceFingerprints {
+  rubrics: FingerprintMap;
+  assignees: FingerprintMap;
+  assessments: FingerprintMap;
+  gradeScales: FingerprintMap;
+  promptTemplates: FingerprintMap;
+}
+
+export interface SyncConflict {
+  id: string;
+  local: Assessment | null;  // null = deleted locally
+  remote: Assessment | null; // null = deleted on the server
+}
+
+export interface MergeResult {
+  merged: WorkspaceData;
+  conflicts: SyncConflict[];
+  fingerprints: WorkspaceFingerprints;
+}
+
+export const EMPTY_FINGERPRINTS: WorkspaceFingerprints = { rubrics: {}, assignees: {}, assessments: {}, gradeScales: {}, promptTemplates: {} };
+
+// FNV-1a, good enough to detect edits without pulling in a crypto dependency on both runtimes
+export const hashString = (input: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16);
+};
+
+const fingerprintRecord = (record: unknown) => hashString(JSON.stringify(record));
+export const fingerprintAssessment = (assessment: Assessment) => String(assessment.lastUpdated);
+
+// Same grades and feedback, only saved at different times: no need to bother the user
+const sameAssessmentContent = (a: Assessment, b: Assessment) => {
+  const { lastUpdated: _a, auditLog: _la, ...restA } = a;
+  const { lastUpdated: _b, auditLog: _lb, ...restB } = b;
+  return fingerprintRecord(restA) === fingerprintRecord(restB);
+};
+
+// Keeps the audit events recorded on both devices
+const newerAssessment = (a: Assessment, b: Assessment): Assessment => ({
+  ...(a.lastUpdated >= b.lastUpdated ? a : b),
+  auditLog: mergeAuditLogs(a.auditLog, b.auditLog)
+});
+
+const toMap = <T extends { id: string }>(list: T[]) => new Map(list.map(r => [r.id, r]));
+
+const fingerprintAll = <T extends { id: string }>(list: T[], fingerprint: (r: T) => string): FingerprintMap => {
+  const map: FingerprintMap = {};
+  list.forEach(r => { map[r.id] = fingerprint(r); });
+  return map;
+};
+
+export const fingerprintWorkspace = (data: WorkspaceData): WorkspaceFingerprints => ({
+  rubrics: fingerprintAll(data.rubrics, fingerprintRecord),
+  assignees: fingerprintAll(data.assignees, fingerprintRecord),
+  assessments: fingerprintAll(Object.values(data.assessments), fingerprintAssessment),
+  gradeScales: fingerprintAll(data.gradeScales || [], fingerprintRecord),
+  promptTemplates: fingerprintAll(data.promptTemplates || [], fingerprintRecord)
+});
+
+interface RecordMerge<T> {
+  merged: T[];
+  conflicts: { id: string; local: T | null; remote: T | null }[];
+}
+
+const mergeRecords = <T extends { id: string }>(
+  local: T[],
+  remote: T[],
+  base: FingerprintMap,
+  fingerprint: (r: T) => string,
+  resolveBothChanged: ((local: T, remote: T) => T | null) | null
+): RecordMerge<T> => {
+  const localById = toMap(local);
+  const remoteById = toMap(remote);
+  // Keep the client's ordering, then append records that only exist on the server
+  const ids = [...local.map(r => r.id), ...remote.filter(r => !localById.has(r.id)).map(r => r.id)];
+  const merged: T[] = [];
+  const conflicts: RecordMerge<T>['conflicts'] = [];
+
+  const baseIds = Object.keys(base).filter(id => !localById.has(id) && !remoteById.has(id));
+  [...ids, ...baseIds].forEach(id => {
+    const l = localById.get(id) || null;
+    const r = remoteById.get(id) || null;
+    const lf = l ? fingerprint(l) : null;
+    const rf = r ? fingerprint(r) : null;
+    const bf = base[id] ?? null;
+
+    let winner: T | null;
+    if (lf === rf) winner = l;
+    else if (lf === bf) winner = r;       // only the server changed
+    else if (rf === bf) winner = l;       // only this client changed
+    else if (!resolveBothChanged) winner = l;
+    else {
+      const resolved = l && r ? resolveBothChanged(l, r) : null;
+      if (resolved) {
+        winner = resolved;
+      } else {
+        conflicts.push({ id, local: l, remote: r });
+        winner = r; // server copy stays until the conflict is resolved
+      }
+    }
+    if (winner) merged.push(winner);
+  });
+
+  return { merged, conflicts };
+};
+
+export const mergeWorkspace = (
+  remote: WorkspaceData | null,
+  local: WorkspaceData,
+  base: WorkspaceFingerprints
+): MergeResult => {
+  const server = remote || { rubrics: [], assignees: [], assessments: {}, gradeScales: [], promptTemplates: [], currentRubricId: local.currentRubricId };
+
+  const rubrics = mergeRecords(local.rubrics, server.rubrics, base.rubrics, fingerprintRecord, null);
+  const assignees = mergeRecords(local.assignees, server.assignees, base.assignees, fingerprintRecord, null);
+  // Workspaces stored or synced before grade scales or prompt templates existed have none of these fields
+  const gradeScales = mergeRecords(local.gradeScales || [], server.gradeScales || [], base.gradeScales || {}, fingerprintRecord, null);
+  const promptTemplates = mergeRecords(local.promptTemplates || [], server.promptTemplates || [], base.promptTemplates || {}, fingerprintRecord, null);
+  const assessmentMerge = mergeRecords(
+    Object.values(local.assessments),
+    Object.values(server.assessments),
+    base.assessments,
+    fingerprintAssessment,
+    (l, r) => sameAssessmentContent(l, r) ? newerAssessment(l, r) : null
+  );
+
+  const assessments: Record<string, Assessment> = {};
+  assessmentMerge.merged.forEach(a => { assessments[a.id] = a; });
+
+  const merged: WorkspaceData = {
+    rubrics: rubrics.merged,
+    assignees: assignees.merged,
+    assessments,
+    gradeScales: gradeScales.merged,
+    promptTemplates: promptTemplates.merged,
+    currentRubricId: rubrics.merged.some(r => r.id === local.currentRubricId)
+      ? local.currentRubricId
+      : (rubrics.merged[0]?.id ?? local.currentRubricId)
+  };
+
+  const fingerprints = fingerprintWorkspace(merged);
+  assessmentMerge.conflicts.forEach(({ id }) => {
+    if (base.assessments[id] !== undefined) fingerprints.assessments[id] = base.assessments[id];
+    else delete fingerprints.assessments[id];
+  });
+
+  return {
+    merged,
+    conflicts: assessmentMerge.conflicts,
+    fingerprints
+  };
+};
@@ -0,0 +1,280 @@
+import { Assessment, Assignee, GradeScale, PromptTemplate, Rubric, WorkspaceData } from '../types';
+
+// Persistence for a user's workspace.
+// Records are stored one per entity so that a single score change only rewrites that assessment,
+// instead of re-serialising every rubric, student and submission text into one localStorage blob.
+
+export interface WorkspaceChanges {
+  rubrics: { put: Rubric[]; remove: string[] };
+  assignees: { put: Assignee[]; remove: string[] };
+  assessments: { put: Assessment[]; remove: string[] };
+  gradeScales: { put: GradeScale[]; remove: string[] };
+  promptTemplates: { put: PromptTemplate[]; remove: string[] };
+  currentRubricId?: string;
+  // Set only when the display order of the list changed
+  rubricOrder?: string[];
+  assigneeOrder?: string[];
+  gradeScaleOrder?: string[];
+}
+
+export interface WorkspaceStore {
+  load: (userId: string) => Promise<WorkspaceData | null>;
+  save: (userId: string, changes: WorkspaceChanges) => Promise<void>;
+}
+
+export interface StorageUsage {
+  usage: number; // bytes
+  quota: number; // bytes
+}
+
+const LEGACY_KEY_PREFIX = 'smartgrade_data_';
+const DB_NAME = 'smartgrade';
+const DB_VERSION = 3; // 2: gradeScales store, 3: promptTemplates store
+const ENTITY_STORES = ['rubrics', 'assignees', 'assessments', 'gradeScales', 'promptTemplates'] as const;
+const META_STORE = 'meta';
+
+type EntityStore = typeof ENTITY_STORES[number];
+
+// Warn before the browser starts rejecting writes
+const QUOTA_WARNING_RATIO = 0.9;
+
+export const isQuotaError = (error: unknown): boolean =>
+  error instanceof DOMException && (error.name === 'QuotaExceededError' || error.code === 22);
+
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return quota > 0 ? { usage, quota } : null;
+};
+
+export const isNearQuota = (usage: StorageUsage | null): boolean =>
+  !!usage && usage.usage / usage.quota >= QUOTA_WARNING_RATIO;
+
+const diffRecords = <T extends { id: string }>(prev: T[], next: T[]) => {
+  const prevById = new Map(prev.map(r => [r.id, r]));
+  const nextIds = new Set(next.map(r => r.id));
+  return {
+    // State updates replace changed records, so reference inequality means "changed"
+    put: next.filter(r => prevById.get(r.id) !== r),
+    remove: prev.filter(r => !nextIds.has(r.id)).map(r => r.id)
+  };
+};
+
+const diffOrder = (prev: { id: string }[], next: { id: string }[]): string[] | undefined => {
+  const nextIds = next.map(r => r.id);
+  const unchanged = prev.length === next.length && prev.every((r, i) => r.id === nextIds[i]);
+  return unchanged ? undefined : nextIds;
+};
+
+const sortByOrder = <T extends { id: string }>(list: T[], order: string[] = []): T[] => {
+  const position = new Map(order.map((id, i) => [id, i]));
+  return [...list].sort((a, b) => (position.get(a.id) ?? Infinity) - (position.get(b.id) ?? Infinity));
+};
+
+export const diffWorkspace = (prev: WorkspaceData | null, next: WorkspaceData): WorkspaceChanges => ({
+  rubrics: diffRecords(prev?.rubrics || [], next.rubrics),
+  assignees: diffRecords(prev?.assignees || [], next.assignees),
+  assessments: diffRecords(Object.values(prev?.assessments || {}), Object.values(next.assessments)),
+  gradeScales: diffRecords(prev?.gradeScales || [], next.gradeScales),
+  promptTemplates: diffRecords(prev?.promptTemplates || [], next.promptTemplates),
+  currentRubricId: prev?.currentRubricId !== next.currentRubricId ? next.currentRubricId : undefined,
+  rubricOrder: diffOrder(prev?.rubrics || [], next.rubrics),
+  assigneeOrder: diffOrder(prev?.assignees || [], next.assignees),
+  gradeScaleOrder: diffOrder(prev?.gradeScales || [], next.gradeScales)
+});
+
+export const hasChanges = (changes: WorkspaceChanges): boolean =>
+  ENTITY_STORES.some(store => changes[store].put.length > 0 || changes[store].remove.length > 0) ||
+  changes.currentRubricId !== undefined ||
+  changes.rubricOrder !== undefined ||
+  changes.assigneeOrder !== undefined ||
+  changes.gradeScaleOrder !== undefined;
+
+// --- Legacy localStorage blob ---
+
+export const readLegacyWorkspace = (userId: string): WorkspaceData | null => {
+  const savedData = localStorage.getItem(`${LEGACY_KEY_PREFIX}${userId}`);
+  if (!savedData) return null;
+  const parsed = JSON.parse(savedData);
+  const rubrics: Rubric[] = parsed.rubrics || [];
+  return {
+    rubrics,
+    assignees: parsed.assignees || [],
+    assessments: parsed.assessments || {},
+    gradeScales: parsed.gradeScales || [],
+    promptTemplates: parsed.promptTemplates || [],
+    currentRubricId: parsed.currentRubricId || (rubrics[0]?.id ?? '')
+  };
+};
+
+// Used when IndexedDB is unavailable (e.g. some private browsing modes)
+export const createLocalStorageStore = (): WorkspaceStore => {
+  const cache = new Map<string, WorkspaceData>();
+
+  return {
+    load: async (userId) => {
+      const data = readLegacyWorkspace(userId);
+      if (data) cache.set(userId, data);
+      return data;
+    },
+    save: async (userId, changes) => {
+      const current = cache.get(userId) || { rubrics: [], assignees: [], assessments: {}, gradeScales: [], promptTemplates: [], currentRubricId: '' };
+      const applyList = <T extends { id: string }>(list: T[], change: { put: T[]; remove: string[] }, order?: string[]) => {
+        const byId = new Map(list.map(r => [r.id, r]));
+        change.remove.forEach(id => byId.delete(id));
+        change.put.forEach(r => byId.set(r.id, r));
+        return sortByOrder(Array.from(byId.values()), order || list.map(r => r.id));
+      };
+      const assessments = { ...current.assessments };
+      changes.assessments.remove.forEach(id => delete assessments[id]);
+      changes.assessments.put.forEach(a => { assessments[a.id] = a; });
+
+      const next: WorkspaceData = {
+        rubrics: applyList(current.rubrics, changes.rubrics, changes.rubricOrder),
+        assignees: applyList(current.assignees, changes.assignees, changes.assigneeOrder),
+        assessments,
+        gradeScales: applyList(current.gradeScales, changes.gradeScales, changes.gradeScaleOrder),
+        promptTemplates: applyList(current.promptTemplates, changes.promptTemplates),
+        currentRubricId: changes.currentRubricId ?? current.currentRubricId
+      };
+      localStorage.setItem(`${LEGACY_KEY_PREFIX}${userId}`, JSON.stringify(next));
+      cache.set(userId, next);
+    }
+  };
+};
+
+// --- IndexedDB ---
+
+interface EntityRecord<T> {
+  userId: string;
+  id: string;
+  value: T;
+}
+
+interface MetaRecord {
+  userId: string;
+  currentRubricId: string;
+  rubricOrder?: string[];
+  assigneeOrder?: string[];
+  gradeScaleOrder?: string[];
+  migratedAt?: number;
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error || new DOMException('Transaction aborted', 'AbortError'));
+});
+
+const openDatabase = () => new Promise<IDBDatabase>((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    ENTITY_STORES.forEach(name => {
+      if (!db.objectStoreNames.contains(name)) {
+        const store = db.createObjectStore(name, { keyPath: ['userId', 'id'] });
+        store.createIndex('byUser', 'userId');
+      }
+    });
+    if (!db.objectStoreNames.contains(META_STORE)) {
+      db.createObjectStore(META_STORE, { keyPath: 'userId' });
+    }
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+export const createIndexedDbStore = (): WorkspaceStore => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  const getDb = () => {
+    if (!dbPromise) dbPromise = openDatabase();
+    return dbPromise;
+  };
+
+  const writeChanges = async (userId: string, changes: WorkspaceChanges, migratedAt?: number) => {
+    const db = await getDb();
+    const tx = db.transaction([...ENTITY_STORES, META_STORE], 'readwrite');
+    const done = transactionDone(tx);
+
+    const writeStore = <T extends { id: string }>(name: EntityStore, change: { put: T[]; remove: string[] }) => {
+      const store = tx.objectStore(name);
+      change.remove.forEach(id => store.delete([userId, id]));
+      change.put.forEach(value => {
+        const record: EntityRecord<T> = { userId, id: value.id, value };
+        store.put(record);
+      });
+    };
+    writeStore('rubrics', changes.rubrics);
+    writeStore('assignees', changes.assignees);
+    writeStore('assessments', changes.assessments);
+    writeStore('gradeScales', changes.gradeScales);
+    writeStore('promptTemplates', changes.promptTemplates);
+
+    // The meta record doubles as the "this user lives in IndexedDB" marker, so it is always written
+    const metaStore = tx.objectStore(META_STORE);
+    const existing = await requestToPromise<MetaRecord | undefined>(metaStore.get(userId));
+    const meta: MetaRecord = {
+      userId,
+      currentRubricId: changes.currentRubricId ?? existing?.currentRubricId ?? '',
+      rubricOrder: changes.rubricOrder ?? existing?.rubricOrder,
+      assigneeOrder: changes.assigneeOrder ?? existing?.assigneeOrder,
+      gradeScaleOrder: changes.gradeScaleOrder ?? existing?.gradeScaleOrder,
+      migratedAt: migratedAt ?? existing?.migratedAt
+    };
+    metaStore.put(meta);
+
+    await done;
+  };
+
+  const readAll = async <T>(db: IDBDatabase, name: EntityStore, userId: string): Promise<T[]> => {
+    const tx = db.transaction(name, 'readonly');
+    const records = await requestToPromise<EntityRecord<T>[]>(tx.objectStore(name).index('byUser').getAll(userId));
+    return records.map(r => r.value);
+  };
+
+  // Moves the old single-blob localStorage data into per-entity records, once per user
+  const migrateLegacy = async (userId: string): Promise<WorkspaceData | null> => {
+    const legacy = readLegacyWorkspace(userId);
+    if (!legacy) return null;
+    await writeChanges(userId, diffWorkspace(null, legacy), Date.now());
+    localStorage.removeItem(`${LEGACY_KEY_PREFIX}${userId}`);
+    return legacy;
+  };
+
+  return {
+    load: async (userId) => {
+      const db = await getDb();
+      const meta = await requestToPromise<MetaRecord | undefined>(
+        db.transaction(META_STORE, 'readonly').objectStore(META_STORE).get(userId)
+      );
+      if (!meta) return migrateLegacy(userId);
+
+      const [rubrics, assignees, assessmentList, gradeScales, promptTemplates] = await Promise.all([
+        readAll<Rubric>(db, 'rubrics', userId),
+        readAll<Assignee>(db, 'assignees', userId),
+        readAll<Assessment>(db, 'assessments', userId),
+        readAll<GradeScale>(db, 'gradeScales', userId),
+        readAll<PromptTemplate>(db, 'promptTemplates', userId)
+      ]);
+      const assessments: Record<string, Assessment> = {};
+      assessmentList.forEach(a => { assessments[a.id] = a; });
+      return {
+        rubrics: sortByOrder(rubrics, meta.rubricOrder),
+        assignees: sortByOrder(assignees, meta.assigneeOrder),
+        assessments,
+        gradeScales: sortByOrder(gradeScales, meta.gradeScaleOrder),
+        promptTemplates,
+        currentRubricId: meta.currentRubricId
+      };
+    },
+    save: (userId, changes) => writeChanges(userId, changes)
+  };
+};
+
+export const createWorkspaceStore = (): WorkspaceStore =>
+  typeof indexedDB !== 'undefined' ? createIndexedDbStore() : createLocalStorageStore();
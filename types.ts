@@ -14,6 +14,28 @@ export interface RubricCriterion {
   levels: RubricLevel[];
 }
 
+export interface GradeBoundary {
+  letter: string;     // e.g. "A+"
+  minPercent: number; // Lowest assignment score (0-100) that earns this grade
+  gpa: number;        // Grade points, e.g. 4.0
+}
+
+// Reusable letter-grade scale, used by the courses listed in `courses` unless a rubric picks its own
+export interface GradeScale {
+  id: string;
+  name: string;
+  boundaries: GradeBoundary[];
+  courses?: string[]; // Course keys (upper-cased subject) that use this scale by default
+}
+
+// Rules combine: the daily deduction is applied first, then the cap, then the cut-off
+export interface LatePenaltyPolicy {
+  percentPerDay?: number; // Percentage points off the assignment score per started day late
+  capAtPass?: boolean;    // Late work can earn at most the passing score
+  zeroAfterDays?: number; // Work more than this many days late scores zero
+  graceMinutes?: number;  // Lateness within this window is ignored
+}
+
 export interface Rubric {
   id: string;
   title: string;
@@ -24,12 +46,56 @@ export interface Rubric {
   passingPercentage: number; // 0-100
   assignmentWeight?: number; // e.g. 30% of course grade
   peerEvalWeight?: number; // New: Percentage (0-100) of assignment grade allocated to peer eval
+  doubleMarking?: boolean; // Assessors mark independently; a moderator reconciles the final grade
+  dueDate?: string; // ISO timestamp
+  extensions?: Record<string, string>; // assigneeId -> extended ISO due date
+  latePenalty?: LatePenaltyPolicy;
+  gradeScaleId?: string; // Overrides the course's default grade scale
+  promptTemplates?: PromptTemplate[]; // Override the workspace's AI prompts for this assignment only
+  feedbackStyle?: FeedbackStyle; // How AI feedback is written for this assignment; defaults apply without one
+  feedbackLanguage?: string; // Course-wide: students without their own language get feedback translated into this one
   // New Alignment Fields
   assignmentBrief?: string;
   plos?: string[]; // Program Learning Outcomes
   clos?: string[]; // Course Learning Outcomes
 }
 
+// Phrasing of AI-written feedback, chosen by the teacher per assignment
+export interface FeedbackStyle {
+  tone: 'encouraging' | 'neutral' | 'direct';
+  length: 'brief' | 'standard' | 'detailed';
+  readingLevel: 'primary' | 'secondary' | 'university';
+  person: 'second' | 'third'; // "You..." or the student's name
+}
+
+// The AI prompts a teacher can edit
+export type PromptKind = 'grading' | 'feedback' | 'rubric';
+
+export interface PromptTemplateVersion {
+  version: number;
+  system: string;
+  prompt: string;
+  updatedAt: number;
+}
+
+// An editable AI prompt with {{variable}} placeholders. There is at most one per kind in a list,
+// and its id is the kind, so workspace defaults and rubric overrides sync like any other record.
+export interface PromptTemplate extends PromptTemplateVersion {
+  id: string;
+  kind: PromptKind;
+  history?: PromptTemplateVersion[]; // Earlier versions, newest first
+}
+
+// Which prompt produced an AI grading result, kept on the assessment
+export interface PromptRun {
+  kind: PromptKind;
+  scope: 'builtin' | 'workspace' | 'rubric';
+  version: number;     // 0 for the built-in prompt
+  fingerprint: string; // Hash of the rendered-from template text, to tell versions apart across devices
+  at: number;
+  exemplars?: number;  // Calibration exemplars sent with the request
+}
+
 export type AssigneeType = 'individual' | 'group';
 
 export interface Assignee {
@@ -37,12 +103,35 @@ export interface Assignee {
   name: string;
   type: AssigneeType;
   members?: string[]; // For groups
+  feedbackLanguage?: string; // Preferred language for feedback; overrides the course's
 }
 
 export interface GradeEntry {
   criterionId: string;
   levelId: string;
   score: number;
+  rationale?: string; // Why this level was given, shown under the criterion and optionally exported
+  rationaleSource?: AuditSource; // 'AI' until a person edits the text
+  confidence?: number; // AI's certainty in the chosen level, 0-1; dropped when a person changes the level
+  evidence?: EvidenceSpan[]; // Passages of the submission that support this criterion's level
+  feedback?: string; // Comment to the student on this criterion
+  nextStep?: string; // Feed-forward: what to do differently next time
+  feedbackSource?: AuditSource; // 'AI' until a person edits the comment or the next step
+}
+
+// A verbatim passage of the submission text; `quote` is the text between the offsets when it was found
+export interface EvidenceSpan {
+  quote: string;
+  start: number;
+  end: number;
+}
+
+// One assessor's independent marks on a double-marked assignment
+export interface AssessorMarking {
+  assessorId: string;
+  assessorName: string;
+  entries: GradeEntry[];
+  lastUpdated: number;
 }
 
 export interface PeerEvaluation {
@@ -53,6 +142,55 @@ export interface PeerEvaluation {
   feedback: string;
 }
 
+export type AuditSource = 'HUMAN' | 'AI' | 'PEER_EVAL';
+
+export type AuditAction = 'SCORE' | 'FEEDBACK' | 'SUBMISSION' | 'SUBMITTED_AT' | 'PEER_EVAL' | 'LOCK' | 'UNLOCK' | 'FLAG' | 'CONFIRM' | 'EXEMPLAR' | 'INTEGRITY';
+
+// One append-only record of who changed what on an assessment
+export interface AuditEvent {
+  id: string;
+  at: number;
+  actor: string;       // Display name of the person (or student evaluator) making the change
+  actorRole: UserRole;
+  source: AuditSource;
+  action: AuditAction;
+  criterionId?: string;
+  from?: number | string | null;
+  to?: number | string | null;
+  note?: string;       // e.g. "Undo: Change score", an unlock reason, or who a peer review was about
+}
+
+// Set by auto-grading when the result should be checked by a person before it counts
+export interface AiReview {
+  reasons: string[];
+  flaggedAt: number;
+}
+
+// Set by a teacher on an assessment whose grades should anchor AI grading for the same rubric
+export interface ExemplarMark {
+  markedAt: number;
+  markedBy: string;
+}
+
+// A teacher's academic-integrity note, usually written after a similarity check
+export interface IntegrityNote {
+  note: string;
+  matchedAssessmentIds?: string[]; // The similar submissions it refers to
+  similarity?: number;             // Highest similarity to them when recorded (0-1)
+  recordedAt: number;
+  recordedBy: string;
+}
+
+// Feedback translated into the student's language. The original stays in `feedback` and the entries.
+export interface FeedbackTranslation {
+  language: string;
+  feedback: string;
+  criteria: { criterionId: string; feedback?: string; nextStep?: string }[];
+  sourceHash: string; // Of the original texts when translated, to show when they have changed since
+  translatedAt: number;
+  edited?: boolean;   // Changed by a person after translating
+}
+
 export interface Assessment {
   id: string; // Composite key usually
   rubricId: string; // Link to specific assignment
@@ -63,8 +201,30 @@ export interface Assessment {
   maxScore: number;
   feedback: string;
   submissionText?: string;
-  locked: boolean;
+  submittedAt?: number; // When the student handed the work in; compared against the due date
+  locked: boolean;      // Finalized: no edits, AI grading or peer reviews until a teacher unlocks
+  lockedAt?: number;
+  lockedBy?: string;
+  markings?: Record<string, AssessorMarking>; // Double marking only, keyed by assessorId
+  moderatedBy?: string; // Set when `entries` were reconciled from the markings
+  moderatedAt?: number;
+  aiReview?: AiReview; // Cleared when a person confirms the AI grades
+  promptRun?: PromptRun; // Template used by the latest AI grading
+  exemplar?: ExemplarMark; // Teacher-graded example sent with AI grading requests (see calibration)
+  feedbackTranslation?: FeedbackTranslation;
+  integrityNote?: IntegrityNote; // Teachers only
   lastUpdated: number;
+  auditLog?: AuditEvent[]; // Append-only, oldest first
+}
+
+// Everything a signed-in user owns; persisted locally and carried in backups
+export interface WorkspaceData {
+  rubrics: Rubric[];
+  assignees: Assignee[];
+  assessments: Record<string, Assessment>;
+  gradeScales: GradeScale[];
+  promptTemplates: PromptTemplate[]; // Workspace-wide defaults; the built-in prompts apply to kinds without one
+  currentRubricId: string;
 }
 
 export enum AppView {
@@ -74,6 +234,7 @@ export enum AppView {
   ASSIGNEES = 'ASSIGNEES',
   GRADING = 'GRADING',
   EXPORT = 'EXPORT',
+  MODERATION = 'MODERATION',
   PEER_KIOSK = 'PEER_KIOSK'
 }
 
@@ -8,8 +8,9 @@ export default defineConfig(({ mode }) => {
   return {
     plugins: [react()],
     define: {
-      // This ensures process.env.API_KEY works in your code
-      'process.env.API_KEY': JSON.stringify(env.API_KEY) 
+      // The Gemini key is NOT defined here: it stays on the server (netlify/functions/ai-proxy).
+      // Default AI provider for new devices: gemini, openai or mock (offline)
+      'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER)
     }
   }
 })
\ No newline at end of file